@@ -8,6 +8,10 @@ import Home from "./components/pages/home";
 import UploadPage from "./components/pages/Upload";
 import OutputHistory from "./components/pages/OutputHistory";
 import ProfilePage from "./components/pages/Profile";
+import Compare from "./components/pages/Compare";
+import Strains from "./components/pages/Strains";
+import StrainDetail from "./components/pages/StrainDetail";
+import SharedReport from "./components/pages/SharedReport";
 import { AuthProvider, useAuth } from "../supabase/auth";
 import { Toaster } from "./components/ui/toaster";
 
@@ -17,6 +21,7 @@ import AdminLayout from "./components/admin/layout/AdminLayout";
 import AdminOverview from "./components/admin/pages/AdminOverview";
 import UserManagement from "./components/admin/pages/UserManagement";
 import AdminSettings from "./components/admin/pages/AdminSettings";
+import WebhookEvents from "./components/admin/pages/WebhookEvents";
 
 function PrivateRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
@@ -39,6 +44,8 @@ function AppRoutes() {
         <Route path="/" element={<Home />} />
         <Route path="/login" element={<LoginForm />} />
         <Route path="/signup" element={<SignUpForm />} />
+        {/* Public COA pages opened from share links and QR codes */}
+        <Route path="/r/:slug" element={<SharedReport />} />
         <Route
           path="/upload"
           element={
@@ -55,6 +62,30 @@ function AppRoutes() {
             </PrivateRoute>
           }
         />
+        <Route
+          path="/compare"
+          element={
+            <PrivateRoute>
+              <Compare />
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/strains"
+          element={
+            <PrivateRoute>
+              <Strains />
+            </PrivateRoute>
+          }
+        />
+        <Route
+          path="/strains/:strainId"
+          element={
+            <PrivateRoute>
+              <StrainDetail />
+            </PrivateRoute>
+          }
+        />
         <Route
           path="/profile"
           element={
@@ -76,6 +107,7 @@ function AppRoutes() {
         >
           <Route index element={<AdminOverview />} />
           <Route path="users" element={<UserManagement />} />
+          <Route path="webhooks" element={<WebhookEvents />} />
           <Route path="analytics" element={<div>Analytics Coming Soon</div>} />
           <Route path="settings" element={<AdminSettings />} />
         </Route>
@@ -10,7 +10,8 @@ import {
   Menu,
   Shield,
   ChevronLeft,
-  Home
+  Home,
+  Webhook
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -41,6 +42,11 @@ const navigation: NavItem[] = [
     href: '/admin/users',
     icon: Users,
   },
+  {
+    label: 'Webhook Events',
+    href: '/admin/webhooks',
+    icon: Webhook,
+  },
   {
     label: 'Analytics',
     href: '/admin/analytics',
@@ -67,6 +67,8 @@ import {
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/components/ui/use-toast';
 import { AdminUser, TablePagination, UserFilters } from '../../../types/admin';
+import { usePlans } from '@/hooks/usePlans';
+import { findPlan, getPlanName } from '@/lib/plans';
 
 interface EditUserModalProps {
   user: AdminUser | null;
@@ -85,6 +87,7 @@ const EditUserModal: React.FC<EditUserModalProps> = ({ user, isOpen, onClose, on
   });
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
+  const { plans } = usePlans();
 
   useEffect(() => {
     if (user) {
@@ -107,7 +110,7 @@ const EditUserModal: React.FC<EditUserModalProps> = ({ user, isOpen, onClose, on
         body: {
           action: 'update_user_plan',
           userId: user.user_id,
-          planId: formData.current_plan_id as 'free' | 'basic' | 'pro',
+          planId: formData.current_plan_id,
           generationLimit: formData.generation_limit,
         },
         headers: {
@@ -186,11 +189,10 @@ const EditUserModal: React.FC<EditUserModalProps> = ({ user, isOpen, onClose, on
             <Select
               value={formData.current_plan_id}
               onValueChange={(value) => {
-                const limits = { free: 1, basic: 30, pro: 100 };
                 setFormData({
                   ...formData,
                   current_plan_id: value,
-                  generation_limit: limits[value as keyof typeof limits],
+                  generation_limit: findPlan(plans, value)?.generation_limit ?? formData.generation_limit,
                 });
               }}
             >
@@ -198,9 +200,9 @@ const EditUserModal: React.FC<EditUserModalProps> = ({ user, isOpen, onClose, on
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="free">Free</SelectItem>
-                <SelectItem value="basic">Basic</SelectItem>
-                <SelectItem value="pro">Pro</SelectItem>
+                {plans.map((plan) => (
+                  <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -244,6 +246,7 @@ const EditUserModal: React.FC<EditUserModalProps> = ({ user, isOpen, onClose, on
 
 const UserManagement: React.FC = () => {
   const { toast } = useToast();
+  const { plans } = usePlans();
   const [users, setUsers] = useState<AdminUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -413,9 +416,9 @@ const UserManagement: React.FC = () => {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Plans</SelectItem>
-                  <SelectItem value="free">Free</SelectItem>
-                  <SelectItem value="basic">Basic</SelectItem>
-                  <SelectItem value="pro">Pro</SelectItem>
+                  {plans.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -500,7 +503,7 @@ const UserManagement: React.FC = () => {
                       </TableCell>
                       <TableCell>
                         <Badge variant={getPlanBadgeVariant(user.current_plan_id)}>
-                          {user.current_plan_id || 'free'}
+                          {getPlanName(plans, user.current_plan_id)}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -0,0 +1,366 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../../../../supabase/supabase';
+import {
+  RefreshCw,
+  RotateCcw,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/components/ui/use-toast';
+import { TablePagination, WebhookEventStatus, WebhookEventSummary } from '../../../types/admin';
+
+const WebhookEvents: React.FC = () => {
+  const { toast } = useToast();
+  const [events, setEvents] = useState<WebhookEventSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pagination, setPagination] = useState<TablePagination>({
+    page: 1,
+    pageSize: 20,
+    total: 0,
+  });
+  const [filters, setFilters] = useState({
+    status: 'all',
+    eventType: '',
+  });
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [pagination.page, pagination.pageSize, filters]);
+
+  const fetchEvents = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error } = await supabase.functions.invoke('admin-operations', {
+        body: {
+          action: 'get_webhook_events',
+          page: pagination.page,
+          pageSize: pagination.pageSize,
+          status: filters.status === 'all' ? undefined : filters.status,
+          eventType: filters.eventType || undefined,
+        },
+        headers: {
+          Authorization: `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+        },
+      });
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      setEvents(data.data || []);
+      setPagination(prev => ({
+        ...prev,
+        total: data.pagination?.total || 0,
+      }));
+    } catch (error) {
+      console.error('Error fetching webhook events:', error);
+      setError(error instanceof Error ? error.message : 'Failed to fetch webhook events');
+      toast({
+        title: 'Error',
+        description: 'Failed to load webhook events. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReplayEvent = async (stripeEventId: string) => {
+    setReplayingId(stripeEventId);
+    try {
+      const { data, error } = await supabase.functions.invoke('admin-operations', {
+        body: {
+          action: 'replay_webhook_event',
+          stripeEventId,
+        },
+        headers: {
+          Authorization: `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
+        },
+      });
+
+      if (error) {
+        const details = await error.context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message);
+      }
+
+      if (data.success) {
+        toast({
+          title: 'Success',
+          description: `Event ${stripeEventId} was processed again.`,
+        });
+      } else {
+        toast({
+          title: 'Replay did not succeed',
+          description: data.data?.last_error || data.data?.result?.message || `Event is ${data.data?.status}.`,
+          variant: 'destructive',
+        });
+      }
+
+      fetchEvents();
+    } catch (error) {
+      console.error('Error replaying webhook event:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to replay webhook event.',
+        variant: 'destructive',
+      });
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const getStatusBadgeVariant = (status: WebhookEventStatus) => {
+    switch (status) {
+      case 'processed': return 'default';
+      case 'failed': return 'destructive';
+      default: return 'secondary';
+    }
+  };
+
+  const formatDateTime = (dateString: string | null) => {
+    if (!dateString) return '—';
+    return new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const totalPages = Math.ceil(pagination.total / pagination.pageSize);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold tracking-tight">Webhook Events</h2>
+          <p className="text-muted-foreground">
+            Stripe events received by the payments webhook and whether they were processed.
+          </p>
+        </div>
+        <Button onClick={fetchEvents} variant="outline">
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div>
+              <Label htmlFor="status-filter">Status</Label>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => {
+                  setPagination(prev => ({ ...prev, page: 1 }));
+                  setFilters(prev => ({ ...prev, status: value }));
+                }}
+              >
+                <SelectTrigger id="status-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="processing">Processing</SelectItem>
+                  <SelectItem value="processed">Processed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="event-type-filter">Event Type</Label>
+              <Input
+                id="event-type-filter"
+                placeholder="e.g. invoice.payment_succeeded"
+                value={filters.eventType}
+                onChange={(e) => {
+                  setPagination(prev => ({ ...prev, page: 1 }));
+                  setFilters(prev => ({ ...prev, eventType: e.target.value.trim() }));
+                }}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Events Table */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Events ({pagination.total})</CardTitle>
+            <div className="flex items-center space-x-2">
+              <span className="text-sm text-muted-foreground">
+                Page {pagination.page} of {Math.max(totalPages, 1)}
+              </span>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-4">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="space-y-2">
+                  <Skeleton className="h-4 w-[300px]" />
+                  <Skeleton className="h-4 w-[200px]" />
+                </div>
+              ))}
+            </div>
+          ) : error ? (
+            <div className="text-center py-8">
+              <p className="text-destructive mb-4">{error}</p>
+              <Button onClick={fetchEvents}>Try Again</Button>
+            </div>
+          ) : events.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No webhook events match these filters.
+            </div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Last Error</TableHead>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Processed</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell>
+                        <div className="font-medium">{event.event_type}</div>
+                        <div className="text-sm text-muted-foreground font-mono">{event.stripe_event_id}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={getStatusBadgeVariant(event.status)}>
+                          {event.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{event.attempts}</TableCell>
+                      <TableCell className="max-w-[280px]">
+                        <div className="text-sm text-muted-foreground truncate" title={event.last_error || undefined}>
+                          {event.last_error || '—'}
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatDateTime(event.created_at)}</TableCell>
+                      <TableCell>{formatDateTime(event.processed_at)}</TableCell>
+                      <TableCell className="text-right">
+                        {event.stripe_event_id && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={replayingId === event.stripe_event_id}
+                              >
+                                <RotateCcw className="mr-2 h-4 w-4" />
+                                {replayingId === event.stripe_event_id ? 'Replaying...' : 'Replay'}
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Replay this event?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  {event.status === 'processed'
+                                    ? 'This event was already processed. Replaying runs its handler again, which may grant generations or change the user\'s plan a second time.'
+                                    : 'The payments webhook handler will run again for this event.'}
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleReplayEvent(event.stripe_event_id!)}>
+                                  Replay
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {/* Pagination */}
+              <div className="flex items-center justify-between pt-4">
+                <div className="text-sm text-muted-foreground">
+                  Showing {(pagination.page - 1) * pagination.pageSize + 1} to{' '}
+                  {Math.min(pagination.page * pagination.pageSize, pagination.total)} of{' '}
+                  {pagination.total} events
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPagination(prev => ({ ...prev, page: prev.page - 1 }))}
+                    disabled={pagination.page <= 1}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPagination(prev => ({ ...prev, page: prev.page + 1 }))}
+                    disabled={pagination.page >= totalPages}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default WebhookEvents;
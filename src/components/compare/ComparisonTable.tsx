@@ -0,0 +1,133 @@
+import React from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LabResultAnalyte } from "@/components/history/AnalyteTable";
+import { normalizeAnalyteName, toPercent } from "../../../supabase/functions/_shared/potency";
+
+// A reported value in percent; null for ND / <LOQ, undefined when the COA does not list the analyte
+export type ComparisonValue = number | null | undefined;
+
+export interface ComparisonRow {
+  name: string;
+  values: ComparisonValue[];
+}
+
+export interface ComparisonColumn {
+  id: string;
+  label: string;
+}
+
+// Differences smaller than this (absolute, in percentage points) or than 10% of the baseline are not highlighted
+const MIN_HIGHLIGHT_DELTA = 0.05;
+const MIN_RELATIVE_DELTA = 0.1;
+
+/**
+ * Lines up one analyte category across lab results: one row per analyte (matched by normalized
+ * name), one value per result, sorted by the highest value in any result.
+ */
+export const alignAnalytes = (
+  resultIds: string[],
+  analytes: LabResultAnalyte[],
+  category: LabResultAnalyte["category"],
+): ComparisonRow[] => {
+  const rows = new Map<string, ComparisonRow>();
+
+  for (const analyte of analytes) {
+    if (analyte.category !== category) continue;
+    const column = resultIds.indexOf(analyte.lab_result_id);
+    if (column === -1) continue;
+
+    const key = normalizeAnalyteName(analyte.analyte_name);
+    if (!rows.has(key)) {
+      rows.set(key, { name: analyte.analyte_name, values: resultIds.map(() => undefined) });
+    }
+    const percent = analyte.value === null ? null : toPercent(analyte.value, analyte.unit);
+    // Values in units that are not a mass fraction cannot be lined up with the others
+    if (analyte.value !== null && percent === null) continue;
+    rows.get(key)!.values[column] = percent;
+  }
+
+  const highest = (row: ComparisonRow) => Math.max(...row.values.map((value) => value ?? -1));
+  return Array.from(rows.values()).sort((a, b) => highest(b) - highest(a));
+};
+
+const formatCell = (value: ComparisonValue) => {
+  if (value === undefined) return "—";
+  if (value === null) return "ND";
+  return `${Number(value.toFixed(3))}%`;
+};
+
+const isNotableDelta = (value: number, baseline: number) => {
+  const delta = Math.abs(value - baseline);
+  return delta >= MIN_HIGHLIGHT_DELTA && delta >= Math.abs(baseline) * MIN_RELATIVE_DELTA;
+};
+
+interface ComparisonTableProps {
+  columns: ComparisonColumn[];
+  rows: ComparisonRow[];
+}
+
+/**
+ * Aligned analyte table. The first column is the baseline; notable differences in the other
+ * columns are highlighted with their delta.
+ */
+const ComparisonTable = ({ columns, rows }: ComparisonTableProps) => {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">None of the selected COAs report these analytes.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Analyte</TableHead>
+          {columns.map((column, index) => (
+            <TableHead key={column.id} className="text-right">
+              {column.label}
+              {index === 0 && <span className="block text-[10px] font-normal text-gray-400">baseline</span>}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => {
+          const baseline = row.values[0] ?? 0;
+          return (
+            <TableRow key={row.name}>
+              <TableCell className="font-medium text-gray-900">{row.name}</TableCell>
+              {row.values.map((value, index) => {
+                const compared = index > 0 && value !== undefined;
+                const current = value ?? 0;
+                const notable = compared && isNotableDelta(current, baseline);
+                const delta = current - baseline;
+                return (
+                  <TableCell
+                    key={columns[index].id}
+                    className={`text-right ${value == null ? "text-gray-400" : "text-gray-900"} ${
+                      notable ? (delta > 0 ? "bg-green-50" : "bg-red-50") : ""
+                    }`}
+                  >
+                    {formatCell(value)}
+                    {notable && (
+                      <span className={`block text-[10px] ${delta > 0 ? "text-green-700" : "text-red-700"}`}>
+                        {delta > 0 ? "+" : ""}{Number(delta.toFixed(3))}
+                      </span>
+                    )}
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default ComparisonTable;
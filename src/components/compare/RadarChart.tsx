@@ -0,0 +1,98 @@
+import React from "react";
+
+export interface RadarSeries {
+  label: string;
+  color: string;
+  // One value per axis, in the same order as `axes`
+  values: number[];
+}
+
+interface RadarChartProps {
+  axes: string[];
+  series: RadarSeries[];
+  size?: number;
+}
+
+const RING_COUNT = 4;
+
+/**
+ * Minimal SVG radar chart. Every axis shares one scale (the largest value across all series), so
+ * polygon areas are comparable between series.
+ */
+const RadarChart = ({ axes, series, size = 320 }: RadarChartProps) => {
+  if (axes.length < 3) {
+    return <p className="text-sm text-gray-500">At least three terpenes are needed for a radar chart.</p>;
+  }
+
+  const center = size / 2;
+  const radius = size / 2 - 60;
+  const max = Math.max(...series.flatMap((item) => item.values), 0) || 1;
+
+  const pointAt = (axisIndex: number, fraction: number) => {
+    const angle = (Math.PI * 2 * axisIndex) / axes.length - Math.PI / 2;
+    return {
+      x: center + Math.cos(angle) * radius * fraction,
+      y: center + Math.sin(angle) * radius * fraction,
+    };
+  };
+
+  const polygon = (fractions: number[]) =>
+    fractions.map((fraction, index) => {
+      const point = pointAt(index, fraction);
+      return `${point.x},${point.y}`;
+    }).join(" ");
+
+  return (
+    <div className="flex flex-col items-center">
+      <svg viewBox={`0 0 ${size} ${size}`} width={size} height={size} role="img" aria-label="Terpene profile radar chart">
+        {Array.from({ length: RING_COUNT }, (_, ring) => (
+          <polygon
+            key={ring}
+            points={polygon(axes.map(() => (ring + 1) / RING_COUNT))}
+            fill="none"
+            stroke="#e5e7eb"
+          />
+        ))}
+        {axes.map((axis, index) => {
+          const end = pointAt(index, 1);
+          const label = pointAt(index, 1.18);
+          return (
+            <g key={axis}>
+              <line x1={center} y1={center} x2={end.x} y2={end.y} stroke="#e5e7eb" />
+              <text
+                x={label.x}
+                y={label.y}
+                fontSize="10"
+                fill="#6b7280"
+                textAnchor={Math.abs(label.x - center) < 1 ? "middle" : label.x > center ? "start" : "end"}
+                dominantBaseline="middle"
+              >
+                {axis}
+              </text>
+            </g>
+          );
+        })}
+        {series.map((item) => (
+          <polygon
+            key={item.label}
+            points={polygon(item.values.map((value) => value / max))}
+            fill={item.color}
+            fillOpacity={0.15}
+            stroke={item.color}
+            strokeWidth={2}
+          />
+        ))}
+      </svg>
+      <div className="mt-2 flex flex-wrap justify-center gap-4 text-xs text-gray-600">
+        {series.map((item) => (
+          <span key={item.label} className="flex items-center">
+            <span className="inline-block h-2.5 w-2.5 rounded-full mr-1.5" style={{ backgroundColor: item.color }} />
+            {item.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RadarChart;
@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tables } from "@/types/supabase";
+
+export type LabResultAnalyte = Tables<"lab_result_analytes">;
+
+type SortKey = "analyte_name" | "value";
+
+interface AnalyteTableProps {
+  analytes: LabResultAnalyte[];
+}
+
+// Formats a reported value, keeping ND/<LOQ results visible instead of hiding them
+const formatValue = (analyte: LabResultAnalyte) => {
+  if (analyte.value === null) return "ND / <LOQ";
+  return `${analyte.value}${analyte.unit === "%" ? "%" : ` ${analyte.unit}`}`;
+};
+
+const AnalyteTable = ({ analytes }: AnalyteTableProps) => {
+  const [sortKey, setSortKey] = useState<SortKey>("value");
+  const [ascending, setAscending] = useState(false);
+
+  const sortedAnalytes = useMemo(() => {
+    const sorted = [...analytes].sort((a, b) => {
+      if (sortKey === "analyte_name") {
+        return a.analyte_name.localeCompare(b.analyte_name);
+      }
+      // ND / <LOQ rows always sink to the bottom
+      return (a.value ?? -Infinity) - (b.value ?? -Infinity);
+    });
+    return ascending ? sorted : sorted.reverse();
+  }, [analytes, sortKey, ascending]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(key === "analyte_name");
+    }
+  };
+
+  const SortIcon = ({ column }: { column: SortKey }) => {
+    if (column !== sortKey) return null;
+    return ascending ? <ArrowUp className="ml-1 h-3 w-3 inline" /> : <ArrowDown className="ml-1 h-3 w-3 inline" />;
+  };
+
+  const hasLimits = analytes.some((analyte) => analyte.loq !== null || analyte.lod !== null);
+  const hasPassFail = analytes.some((analyte) => analyte.pass_fail !== null);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="cursor-pointer select-none" onClick={() => toggleSort("analyte_name")}>
+            Analyte<SortIcon column="analyte_name" />
+          </TableHead>
+          <TableHead>CAS</TableHead>
+          <TableHead className="cursor-pointer select-none text-right" onClick={() => toggleSort("value")}>
+            Result<SortIcon column="value" />
+          </TableHead>
+          {hasLimits && <TableHead className="text-right">LOQ / LOD</TableHead>}
+          {hasPassFail && <TableHead className="text-right">Status</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sortedAnalytes.map((analyte) => (
+          <TableRow key={analyte.id}>
+            <TableCell className="font-medium text-gray-900">{analyte.analyte_name}</TableCell>
+            <TableCell className="text-gray-500 font-mono text-xs">{analyte.cas_number ?? "—"}</TableCell>
+            <TableCell className={`text-right ${analyte.value === null ? "text-gray-400" : "text-gray-900"}`}>
+              {formatValue(analyte)}
+            </TableCell>
+            {hasLimits && (
+              <TableCell className="text-right text-gray-500">
+                {analyte.loq ?? "—"} / {analyte.lod ?? "—"}
+              </TableCell>
+            )}
+            {hasPassFail && (
+              <TableCell className="text-right">
+                {analyte.pass_fail && (
+                  <Badge
+                    variant="outline"
+                    className={analyte.pass_fail === "pass"
+                      ? "border-green-500/30 text-green-600 bg-green-500/5"
+                      : "border-red-500/30 text-red-600 bg-red-500/5"}
+                  >
+                    {analyte.pass_fail.toUpperCase()}
+                  </Badge>
+                )}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default AnalyteTable;
@@ -0,0 +1,114 @@
+import React from "react";
+import { CheckCircle2, CircleDashed, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Json } from "@/types/supabase";
+
+export type ComplianceVerdict = "pass" | "fail" | "incomplete";
+export type FindingStatus = "pass" | "fail" | "not_tested";
+
+export interface ComplianceFinding {
+  ruleId: string;
+  label: string;
+  panel: "potency" | "pesticide" | "heavy_metal" | "microbial" | "residual_solvent";
+  status: FindingStatus;
+  value: number | null;
+  limit: number;
+  unit: string;
+  message: string;
+}
+
+export interface ComplianceReport {
+  rulePackId: string;
+  rulePackVersion: number;
+  rulePackName: string;
+  verdict: ComplianceVerdict;
+  findings: ComplianceFinding[];
+}
+
+// lab_results.compliance is JSONB written by process-lab-result; anything malformed is treated as missing
+export const toComplianceReport = (value: Json | null | undefined): ComplianceReport | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const report = value as unknown as ComplianceReport;
+  return typeof report.verdict === "string" && Array.isArray(report.findings) ? report : null;
+};
+
+export const PANEL_LABELS: Record<ComplianceFinding["panel"], string> = {
+  potency: "Potency",
+  pesticide: "Pesticides",
+  heavy_metal: "Heavy Metals",
+  microbial: "Microbials",
+  residual_solvent: "Residual Solvents",
+};
+
+const VERDICT_STYLES: Record<ComplianceVerdict, { label: string; className: string }> = {
+  pass: { label: "Pass", className: "bg-green-100 text-green-800 border-green-200" },
+  fail: { label: "Fail", className: "bg-red-100 text-red-800 border-red-200" },
+  incomplete: { label: "Incomplete", className: "bg-yellow-100 text-yellow-800 border-yellow-200" },
+};
+
+const StatusIcon = ({ status }: { status: FindingStatus }) => {
+  if (status === "pass") return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+  if (status === "fail") return <XCircle className="h-4 w-4 text-red-600" />;
+  return <CircleDashed className="h-4 w-4 text-gray-400" />;
+};
+
+interface CompliancePanelProps {
+  report: ComplianceReport;
+}
+
+/**
+ * Pass/fail verdict for a COA against the user's rule pack, with one row per rule.
+ * Failed rules are listed first.
+ */
+const CompliancePanel = ({ report }: CompliancePanelProps) => {
+  const order: Record<FindingStatus, number> = { fail: 0, not_tested: 1, pass: 2 };
+  const findings = [...report.findings].sort((a, b) => order[a.status] - order[b.status]);
+  const verdict = VERDICT_STYLES[report.verdict] ?? VERDICT_STYLES.incomplete;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-sm text-gray-500">
+          Checked against {report.rulePackName} v{report.rulePackVersion}
+        </p>
+        <Badge variant="outline" className={verdict.className}>
+          {verdict.label}
+        </Badge>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8" />
+            <TableHead>Rule</TableHead>
+            <TableHead>Panel</TableHead>
+            <TableHead>Finding</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {findings.map((finding) => (
+            <TableRow key={finding.ruleId}>
+              <TableCell>
+                <StatusIcon status={finding.status} />
+              </TableCell>
+              <TableCell className="font-medium text-gray-900">{finding.label}</TableCell>
+              <TableCell className="text-gray-500">{PANEL_LABELS[finding.panel] ?? finding.panel}</TableCell>
+              <TableCell className={finding.status === "fail" ? "text-red-700" : "text-gray-700"}>
+                {finding.message}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default CompliancePanel;
@@ -0,0 +1,176 @@
+import React, { useRef, useState } from "react";
+import { Bold, Italic, List, Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import RichText from "@/components/history/RichText";
+import {
+  BOLD_MARKER,
+  BULLET_MARKER,
+  isBulletLine,
+  ITALIC_MARKER,
+  stripBullet,
+} from "../../../supabase/functions/_shared/richText";
+
+interface DescriptionEditorProps {
+  initialValue: string;
+  isSaving: boolean;
+  onSave: (content: string) => void;
+  onCancel: () => void;
+}
+
+interface Edit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+// Wraps the selection in a marker, or removes it when the selection is already wrapped
+function toggleInline(value: string, start: number, end: number, marker: string): Edit {
+  const before = value.slice(0, start);
+  const selected = value.slice(start, end);
+  const after = value.slice(end);
+
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      value: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+      selectionStart: start - marker.length,
+      selectionEnd: end - marker.length,
+    };
+  }
+  return {
+    value: before + marker + selected + marker + after,
+    selectionStart: start + marker.length,
+    selectionEnd: end + marker.length,
+  };
+}
+
+// Turns the selected lines into bullets, or back into plain lines when they all are bullets
+function toggleBullets(value: string, start: number, end: number): Edit {
+  const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+  const nextBreak = value.indexOf("\n", end);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const lines = value.slice(lineStart, lineEnd).split("\n");
+  const allBullets = lines.every((line) => line.trim() === "" || isBulletLine(line));
+  const replaced = lines
+    .map((line) => (line.trim() === "" ? line : allBullets ? stripBullet(line) : BULLET_MARKER + stripBullet(line)))
+    .join("\n");
+
+  return {
+    value: value.slice(0, lineStart) + replaced + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + replaced.length,
+  };
+}
+
+/**
+ * Formatting editor for a lab result description, with a live preview. The text is stored with
+ * Markdown-style markers so it stays readable in CSV exports and older clients.
+ */
+const DescriptionEditor = ({ initialValue, isSaving, onSave, onCancel }: DescriptionEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [value, setValue] = useState(initialValue);
+  const [tab, setTab] = useState("write");
+
+  const applyEdit = (edit: (value: string, start: number, end: number) => Edit) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const next = edit(value, textarea.selectionStart, textarea.selectionEnd);
+    setValue(next.value);
+    // Restore the selection once React has written the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(next.selectionStart, next.selectionEnd);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(event.metaKey || event.ctrlKey)) return;
+    const key = event.key.toLowerCase();
+    if (key === "b" || key === "i") {
+      event.preventDefault();
+      const marker = key === "b" ? BOLD_MARKER : ITALIC_MARKER;
+      applyEdit((current, start, end) => toggleInline(current, start, end, marker));
+    }
+  };
+
+  const isChanged = value.trim() !== "" && value !== initialValue;
+
+  return (
+    <div className="space-y-3">
+      <Tabs value={tab} onValueChange={setTab}>
+        <div className="flex items-center justify-between gap-2">
+          <TabsList className="bg-gray-100">
+            <TabsTrigger value="write">Write</TabsTrigger>
+            <TabsTrigger value="preview">Preview</TabsTrigger>
+          </TabsList>
+          {tab === "write" && (
+            <div className="flex items-center gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                aria-label="Bold"
+                title="Bold (Ctrl+B)"
+                onClick={() => applyEdit((current, start, end) => toggleInline(current, start, end, BOLD_MARKER))}
+              >
+                <Bold className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                aria-label="Italic"
+                title="Italic (Ctrl+I)"
+                onClick={() => applyEdit((current, start, end) => toggleInline(current, start, end, ITALIC_MARKER))}
+              >
+                <Italic className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                aria-label="Bulleted list"
+                title="Bulleted list"
+                onClick={() => applyEdit(toggleBullets)}
+              >
+                <List className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+        <TabsContent value="write">
+          <Textarea
+            ref={textareaRef}
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            onKeyDown={handleKeyDown}
+            rows={10}
+            className="bg-white border-gray-200 text-gray-900 leading-relaxed"
+            disabled={isSaving}
+          />
+        </TabsContent>
+        <TabsContent value="preview">
+          <div className="min-h-[120px] rounded-md border border-gray-200 bg-white px-3 py-2">
+            {value.trim() ? <RichText text={value} /> : <p className="text-sm text-gray-400">Nothing to preview.</p>}
+          </div>
+        </TabsContent>
+      </Tabs>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button
+          onClick={() => onSave(value)}
+          disabled={isSaving || !isChanged}
+          className="bg-brand-green hover:bg-green-600 text-white"
+        >
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save as new version
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DescriptionEditor;
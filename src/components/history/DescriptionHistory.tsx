@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { ArrowRight, Loader2, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DescriptionSource, DescriptionVersion, SOURCE_LABELS } from "@/lib/descriptionVersions";
+import { diffWords } from "@/lib/textDiff";
+
+interface DescriptionHistoryProps {
+  // Newest first; the first entry is the current description
+  versions: DescriptionVersion[];
+  canRestore: boolean;
+  restoringId: string | null;
+  onRestore: (version: DescriptionVersion) => void;
+}
+
+const SOURCE_STYLES: Record<DescriptionSource, string> = {
+  generated: "border-blue-200 text-blue-700 bg-blue-50",
+  edited: "border-brand-green/30 text-brand-green bg-brand-green/5",
+  restored: "border-gray-200 text-gray-600 bg-gray-50",
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString("en-US", { year: "numeric", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+
+const describe = (version: DescriptionVersion) =>
+  `Version ${version.version} · ${SOURCE_LABELS[version.source as DescriptionSource] ?? version.source}`;
+
+/**
+ * Every saved version of a description with who wrote it and when, a word diff between any two
+ * versions, and Restore for earlier ones. Compares the latest AI original with the current text
+ * by default.
+ */
+const DescriptionHistory = ({ versions, canRestore, restoringId, onRestore }: DescriptionHistoryProps) => {
+  const current = versions[0];
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+
+  useEffect(() => {
+    if (!current) return;
+    const original = versions.find((version) => version.source === "generated");
+    setFromId((original ?? versions[versions.length - 1]).id);
+    setToId(current.id);
+  }, [versions, current]);
+
+  const from = versions.find((version) => version.id === fromId);
+  const to = versions.find((version) => version.id === toId);
+  const parts = useMemo(() => (from && to ? diffWords(from.content, to.content) : []), [from, to]);
+  const hasChanges = parts.some((part) => part.type !== "equal");
+
+  if (!current) return null;
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100 bg-white">
+        {versions.map((version) => {
+          const source = version.source as DescriptionSource;
+          const restoredFrom = version.restored_from
+            ? versions.find((item) => item.id === version.restored_from)
+            : null;
+          return (
+            <li key={version.id} className="flex items-center justify-between gap-3 px-4 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                  Version {version.version}
+                  <Badge variant="outline" className={`text-xs ${SOURCE_STYLES[source] ?? ""}`}>
+                    {SOURCE_LABELS[source] ?? version.source}
+                  </Badge>
+                  {version.id === current.id && <span className="text-xs font-normal text-gray-500">Current</span>}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {source === "generated" ? "Written by the analysis" : version.author_name ?? "Unknown author"}
+                  {` · ${formatDate(version.created_at)}`}
+                  {restoredFrom && ` · from version ${restoredFrom.version}`}
+                </p>
+              </div>
+              {canRestore && version.id !== current.id && version.content !== current.content && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onRestore(version)}
+                  disabled={restoringId !== null}
+                >
+                  {restoringId === version.id
+                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    : <RotateCcw className="mr-2 h-4 w-4" />}
+                  Restore
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {versions.length > 1 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="diff-from" className="text-xs text-gray-600">Compare</Label>
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger id="diff-from" className="w-56 bg-white border-gray-200 text-gray-900">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>{describe(version)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ArrowRight className="mb-2 h-4 w-4 text-gray-400" />
+            <div className="space-y-1">
+              <Label htmlFor="diff-to" className="text-xs text-gray-600">With</Label>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger id="diff-to" className="w-56 bg-white border-gray-200 text-gray-900">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>{describe(version)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="rounded-lg border border-gray-100 bg-white p-4 text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+            {!hasChanges ? (
+              <span className="text-gray-500">These versions are identical.</span>
+            ) : (
+              parts.map((part, index) =>
+                part.type === "added" ? (
+                  <ins key={index} className="bg-green-100 text-green-900 no-underline rounded-sm">{part.text}</ins>
+                ) : part.type === "removed" ? (
+                  <del key={index} className="bg-red-100 text-red-800 rounded-sm">{part.text}</del>
+                ) : (
+                  <span key={index}>{part.text}</span>
+                ),
+              )
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DescriptionHistory;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import { History, Pencil } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import DescriptionEditor from "@/components/history/DescriptionEditor";
+import DescriptionHistory from "@/components/history/DescriptionHistory";
+import RichText from "@/components/history/RichText";
+import {
+  DescriptionVersion,
+  fetchDescriptionVersions,
+  restoreDescriptionVersion,
+  saveDescription,
+} from "@/lib/descriptionVersions";
+
+interface DescriptionPanelProps {
+  labResultId: string;
+  description: string;
+  // Only completed results can be edited; a run in progress would overwrite the text
+  canEdit: boolean;
+  onChange: (description: string) => void;
+  children?: React.ReactNode;
+}
+
+/**
+ * The description of a lab result with its editor and edit history. Each save or restore is
+ * stored as a new version, so the AI original is never lost.
+ */
+const DescriptionPanel = ({ labResultId, description, canEdit, onChange, children }: DescriptionPanelProps) => {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [versions, setVersions] = useState<DescriptionVersion[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Reloaded whenever the text changes, including after a regenerated run
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchDescriptionVersions(supabase, labResultId)
+      .then((data) => {
+        if (!cancelled) setVersions(data);
+      })
+      .catch((error) => console.error("Error fetching description versions:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [labResultId, description]);
+
+  useEffect(() => {
+    setIsEditing(false);
+    setShowHistory(false);
+  }, [labResultId]);
+
+  const handleSave = async (content: string) => {
+    setIsSaving(true);
+    try {
+      const version = await saveDescription(supabase, labResultId, content);
+      onChange(version.content);
+      setIsEditing(false);
+      toast({ title: "Description saved", description: `Saved as version ${version.version}.` });
+    } catch (error: any) {
+      console.error("Error saving description:", error);
+      toast({ title: "Error", description: error.message || "Failed to save the description.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async (target: DescriptionVersion) => {
+    setRestoringId(target.id);
+    try {
+      const version = await restoreDescriptionVersion(supabase, target.id);
+      onChange(version.content);
+      toast({ title: "Version restored", description: `Version ${target.version} is now the current description.` });
+    } catch (error: any) {
+      console.error("Error restoring description:", error);
+      toast({ title: "Error", description: error.message || "Failed to restore this version.", variant: "destructive" });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  // Results generated before edit history existed have no versions until their first edit
+  const isEdited = versions.length > 0 && versions[0].source !== "generated";
+
+  return (
+    <div className="p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h3 className="text-lg font-medium text-gray-900">
+          Analysis Description
+          {isEdited && <span className="ml-2 text-xs font-normal text-gray-500">Edited</span>}
+        </h3>
+        {!isEditing && (
+          <div className="flex items-center gap-1">
+            {versions.length > 1 && (
+              <Button variant="ghost" size="sm" onClick={() => setShowHistory(!showHistory)} aria-expanded={showHistory}>
+                <History className="mr-2 h-4 w-4" />
+                History ({versions.length})
+              </Button>
+            )}
+            {canEdit && (
+              <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isEditing ? (
+        <DescriptionEditor
+          initialValue={description}
+          isSaving={isSaving}
+          onSave={handleSave}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+        <RichText text={description} />
+      )}
+
+      {children}
+
+      {showHistory && !isEditing && (
+        <div className="mt-6">
+          <h4 className="text-sm font-medium text-gray-900 mb-3">Edit history</h4>
+          <DescriptionHistory
+            versions={versions}
+            canRestore={canEdit}
+            restoringId={restoringId}
+            onRestore={handleRestore}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DescriptionPanel;
@@ -0,0 +1,62 @@
+import React, { useState } from "react";
+import { FileDown, Tag } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { downloadExport, exportLabResults } from "@/lib/labResultExport";
+
+interface DocumentDownloadsProps {
+  labResultId: string;
+  theme?: "dark" | "light";
+}
+
+const DOCUMENTS = [
+  { format: "sheet" as const, label: "Strain Sheet", icon: FileDown },
+  { format: "label" as const, label: "Shelf Label", icon: Tag },
+];
+
+/**
+ * Download buttons for the branded PDF strain sheet and the 4 x 2 in label of one lab result,
+ * rendered by export-lab-results with the user's brand style.
+ */
+const DocumentDownloads = ({ labResultId, theme = "dark" }: DocumentDownloadsProps) => {
+  const { toast } = useToast();
+  const [rendering, setRendering] = useState<"sheet" | "label" | null>(null);
+
+  const handleDownload = async (format: "sheet" | "label", label: string) => {
+    setRendering(format);
+    try {
+      downloadExport(await exportLabResults(supabase, format, { labResultIds: [labResultId] }));
+    } catch (error: any) {
+      console.error(`Error rendering ${format}:`, error);
+      toast({
+        title: `${label} failed`,
+        description: error.message || "The PDF could not be created.",
+        variant: "destructive",
+      });
+    } finally {
+      setRendering(null);
+    }
+  };
+
+  return (
+    <>
+      {DOCUMENTS.map(({ format, label, icon: Icon }) => (
+        <Button
+          key={format}
+          variant="outline"
+          disabled={!!rendering}
+          onClick={() => handleDownload(format, label)}
+          className={theme === "dark"
+            ? "text-gray-300 border-white/20 hover:bg-white/10 hover:text-white"
+            : "rounded-full px-6"}
+        >
+          <Icon className={`mr-2 h-4 w-4 ${rendering === format ? "animate-pulse" : ""}`} />
+          {rendering === format ? "Rendering..." : `${label} (PDF)`}
+        </Button>
+      ))}
+    </>
+  );
+};
+
+export default DocumentDownloads;
@@ -0,0 +1,86 @@
+import React, { useState } from "react";
+import { Download } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  downloadExport,
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportLabResults,
+  ExportSelection,
+} from "@/lib/labResultExport";
+
+interface ExportMenuProps {
+  selection: ExportSelection;
+  // Shown above the formats, e.g. "12 matching results"
+  label: string;
+  theme?: "dark" | "light";
+}
+
+const ExportMenu = ({ selection, label, theme = "dark" }: ExportMenuProps) => {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      const result = await exportLabResults(supabase, format, selection);
+      downloadExport(result);
+      toast({
+        title: "Export ready",
+        description: `${result.count} result${result.count !== 1 ? "s" : ""} exported to ${result.fileName}.`,
+      });
+    } catch (error: any) {
+      console.error("Error exporting lab results:", error);
+      toast({
+        title: "Export failed",
+        description: error.message || "The export could not be created.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={!!exporting}
+          className={theme === "dark"
+            ? "bg-white/5 hover:bg-white/10 text-white border-white/20"
+            : "rounded-full px-6"}
+        >
+          <Download className={`mr-2 h-4 w-4 ${exporting ? "animate-pulse" : ""}`} />
+          {exporting ? "Exporting..." : "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel className="font-normal text-xs text-gray-500">{label}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.map(({ format, label: formatLabel, description }) => (
+          <DropdownMenuItem
+            key={format}
+            onSelect={() => handleExport(format)}
+            className="flex flex-col items-start cursor-pointer"
+          >
+            <span className="font-medium">{formatLabel}</span>
+            <span className="text-xs text-gray-500">{description}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
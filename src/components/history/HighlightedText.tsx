@@ -0,0 +1,33 @@
+import React from "react";
+
+interface HighlightedTextProps {
+  // Text with <mark></mark> around matches, as returned by ts_headline
+  text: string;
+  className?: string;
+}
+
+const MARK_PATTERN = /<mark>(.*?)<\/mark>/g;
+
+/**
+ * Renders a search headline. Only the <mark> delimiters are interpreted; everything else is
+ * rendered as plain text, so COA content can never inject markup.
+ */
+const HighlightedText = ({ text, className }: HighlightedTextProps) => {
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(MARK_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) parts.push(text.slice(lastIndex, index));
+    parts.push(
+      <mark key={index} className="bg-brand-green/30 text-white rounded px-0.5">
+        {match[1]}
+      </mark>,
+    );
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+
+  return <span className={className}>{parts}</span>;
+};
+
+export default HighlightedText;
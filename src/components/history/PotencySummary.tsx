@@ -0,0 +1,87 @@
+import React from "react";
+import { Json } from "@/types/supabase";
+import {
+  computePotency,
+  formatPercent,
+  PotencySummary as Potency,
+  RankedTerpene,
+} from "../../../supabase/functions/_shared/potency";
+import { LabResultAnalyte } from "./AnalyteTable";
+
+interface StoredPotency {
+  total_thc?: number | null;
+  total_cbd?: number | null;
+  total_terpenes?: number | null;
+  dominant_terpenes?: Json;
+}
+
+const toRankedTerpenes = (value: Json | undefined): RankedTerpene[] =>
+  Array.isArray(value)
+    ? (value as unknown[]).filter(
+        (item): item is RankedTerpene =>
+          !!item && typeof item === "object" && typeof (item as RankedTerpene).value === "number",
+      )
+    : [];
+
+/**
+ * Potency totals for a lab result. Uses the values stored by process-lab-result, and computes
+ * them from the analyte rows for results processed before totals were stored.
+ */
+export const resolvePotency = (stored: StoredPotency, analytes: LabResultAnalyte[]): Potency => {
+  if (stored.total_thc != null || stored.total_cbd != null || stored.total_terpenes != null) {
+    return {
+      totalThc: stored.total_thc ?? null,
+      totalCbd: stored.total_cbd ?? null,
+      totalTerpenes: stored.total_terpenes ?? null,
+      dominantTerpenes: toRankedTerpenes(stored.dominant_terpenes),
+    };
+  }
+
+  const toPotencyAnalyte = (analyte: LabResultAnalyte) => ({
+    name: analyte.analyte_name,
+    value: analyte.value,
+    unit: analyte.unit,
+  });
+  return computePotency(
+    analytes.filter((analyte) => analyte.category === "cannabinoid").map(toPotencyAnalyte),
+    analytes.filter((analyte) => analyte.category === "terpene").map(toPotencyAnalyte),
+  );
+};
+
+interface PotencySummaryProps {
+  potency: Potency;
+}
+
+const PotencySummary = ({ potency }: PotencySummaryProps) => {
+  const stats = [
+    { label: "Total THC", value: potency.totalThc },
+    { label: "Total CBD", value: potency.totalCbd },
+    { label: "Total Terpenes", value: potency.totalTerpenes },
+  ];
+
+  return (
+    <div>
+      <div className="grid grid-cols-3 gap-3">
+        {stats.map((stat) => (
+          <div key={stat.label} className="p-3 rounded-lg bg-white border border-gray-100 text-center">
+            <p className="text-xs text-gray-500">{stat.label}</p>
+            <p className="text-lg font-semibold text-gray-900">
+              {stat.value !== null ? formatPercent(stat.value) : "—"}
+            </p>
+          </div>
+        ))}
+      </div>
+      {potency.dominantTerpenes.length > 0 && (
+        <p className="mt-3 text-sm text-gray-600">
+          Dominant terpenes:{" "}
+          {potency.dominantTerpenes
+            .map((terpene) => `${terpene.name} (${formatPercent(terpene.value)})`)
+            .join(", ")}
+        </p>
+      )}
+      <p className="mt-2 text-xs text-gray-400">Total = Δ9-THC + 0.877 × THCA (and CBD + 0.877 × CBDA)</p>
+    </div>
+  );
+};
+
+export default PotencySummary;
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useAnalysisProfiles } from "@/hooks/useAnalysisProfiles";
+import { rerunLabResult, RerunLabResultResult, RerunMode } from "@/lib/labResultRerun";
+
+export interface RerunTarget {
+  id: string;
+  file_name: string;
+  mode: RerunMode;
+}
+
+interface RerunDialogProps {
+  target: RerunTarget | null;
+  onOpenChange: (open: boolean) => void;
+  onStarted: (result: RerunLabResultResult) => void;
+}
+
+const COPY: Record<RerunMode, { title: string; action: string; icon: typeof RefreshCw }> = {
+  regenerate: { title: "Regenerate analysis", action: "Regenerate", icon: RefreshCw },
+  retry: { title: "Retry analysis", action: "Retry", icon: RotateCcw },
+};
+
+/**
+ * Confirms a re-run of an existing upload and lets the user switch the analysis profile first.
+ * Regenerating a completed result costs the profile's generations; retrying a failed one is free.
+ */
+const RerunDialog = ({ target, onOpenChange, onStarted }: RerunDialogProps) => {
+  const { toast } = useToast();
+  const { profiles, isLoading } = useAnalysisProfiles();
+  const [profileId, setProfileId] = useState<string>("");
+  const [isStarting, setIsStarting] = useState(false);
+
+  // Preselect the profile of the current run
+  useEffect(() => {
+    if (!target || profiles.length === 0) return;
+    let cancelled = false;
+
+    const fetchCurrentProfile = async () => {
+      const { data, error } = await supabase
+        .from("lab_results")
+        .select("analysis_profile_id")
+        .eq("id", target.id)
+        .maybeSingle();
+
+      if (error) console.error("Error fetching analysis profile:", error);
+      if (cancelled) return;
+      const current = profiles.find((profile) => profile.id === data?.analysis_profile_id);
+      setProfileId((current ?? profiles[0]).id);
+    };
+
+    fetchCurrentProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [target, profiles]);
+
+  if (!target) return null;
+
+  const copy = COPY[target.mode];
+  const Icon = copy.icon;
+  const profile = profiles.find((item) => item.id === profileId);
+  const cost = target.mode === "regenerate" ? profile?.credit_cost ?? 1 : 0;
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      const result = await rerunLabResult(supabase, target.id, profileId || undefined);
+      toast({
+        title: target.mode === "regenerate" ? "Regenerating" : "Retrying",
+        description: `${target.file_name} is being analyzed again${result.generationCost > 0
+          ? ` (${result.generationsUsed} of ${result.generationLimit} generations used).`
+          : "."}`,
+      });
+      onStarted(result);
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error("Error re-running analysis:", error);
+      toast({ title: "Error", description: error.message || "Failed to start the analysis.", variant: "destructive" });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white border border-gray-100 text-gray-800 max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-gray-900">{copy.title}</DialogTitle>
+          <DialogDescription className="text-gray-500">
+            {target.file_name} is analyzed again from the file you already uploaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="rerun-profile" className="text-gray-700">Analysis</Label>
+          <Select value={profileId} onValueChange={setProfileId} disabled={isLoading}>
+            <SelectTrigger id="rerun-profile" className="bg-white border-gray-200 text-gray-900">
+              <SelectValue placeholder={isLoading ? "Loading..." : "Choose an analysis"} />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((item) => (
+                <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {profile?.description && <p className="text-xs text-gray-500">{profile.description}</p>}
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {cost > 0
+            ? `Uses ${cost} generation${cost !== 1 ? "s" : ""}. The current description is kept in the report's version history, and the generation is refunded if the run fails.`
+            : "Free: failed runs are not charged again."}
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isStarting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleStart}
+            disabled={isStarting || isLoading || !profileId}
+            className="bg-brand-green hover:bg-green-600 text-white"
+          >
+            {isStarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Icon className="mr-2 h-4 w-4" />}
+            {copy.action}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RerunDialog;
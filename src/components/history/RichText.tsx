@@ -0,0 +1,50 @@
+import React from "react";
+import { parseRichText, RichTextLine } from "../../../supabase/functions/_shared/richText";
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+}
+
+const Line = ({ spans }: { spans: RichTextLine }) => (
+  <>
+    {spans.map((span, index) =>
+      span.bold ? (
+        <strong key={index} className="font-semibold">{span.text}</strong>
+      ) : span.italic ? (
+        <em key={index}>{span.text}</em>
+      ) : (
+        <React.Fragment key={index}>{span.text}</React.Fragment>
+      ),
+    )}
+  </>
+);
+
+/**
+ * Renders a description with its bold, italic and bullet formatting. Plain-text descriptions
+ * render as paragraphs.
+ */
+const RichText = ({ text, className = "" }: RichTextProps) => (
+  <div className={`space-y-3 text-gray-700 leading-relaxed ${className}`}>
+    {parseRichText(text).map((block, index) =>
+      block.type === "list" ? (
+        <ul key={index} className="list-disc pl-6 space-y-1">
+          {block.items.map((item, itemIndex) => (
+            <li key={itemIndex}><Line spans={item} /></li>
+          ))}
+        </ul>
+      ) : (
+        <p key={index}>
+          {block.lines.map((line, lineIndex) => (
+            <React.Fragment key={lineIndex}>
+              {lineIndex > 0 && <br />}
+              <Line spans={line} />
+            </React.Fragment>
+          ))}
+        </p>
+      ),
+    )}
+  </div>
+);
+
+export default RichText;
@@ -0,0 +1,31 @@
+import React, { useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { LabResultStatus, STATUS_LABELS, useLabResultStatus } from "@/hooks/useLabResultStatus";
+
+interface RunStatusBadgeProps {
+  labResultId: string;
+  onSettled: (status: LabResultStatus) => void;
+}
+
+/**
+ * Live pipeline stage of a lab result that is being processed, e.g. after Regenerate or Retry.
+ * Calls onSettled once the run completes or fails.
+ */
+const RunStatusBadge = ({ labResultId, onSettled }: RunStatusBadgeProps) => {
+  const { status, isTerminal } = useLabResultStatus(labResultId);
+
+  useEffect(() => {
+    if (status && isTerminal) onSettled(status);
+    // onSettled is usually an inline callback; only a new terminal status should fire it
+  }, [status, isTerminal]);
+
+  return (
+    <Badge variant="outline" className="text-xs border-white/20 text-gray-300 bg-white/5">
+      <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+      {STATUS_LABELS[status ?? "processing"]}
+    </Badge>
+  );
+};
+
+export default RunStatusBadge;
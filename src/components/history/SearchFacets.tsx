@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from "react";
+import { ChevronDown, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { FacetCount, hasActiveFilters, SearchFacets as Facets, SearchFilters } from "@/lib/labResultSearch";
+
+interface SearchFacetsProps {
+  facets: Facets | null;
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  onClear: () => void;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  completed: "Completed",
+  error: "Failed",
+  processing: "Processing",
+  extracting: "Extracting",
+  parsing: "Parsing",
+  writing: "Writing",
+  pending: "Pending",
+};
+
+const triggerClassName = (active: boolean) =>
+  active
+    ? "bg-brand-green/20 hover:bg-brand-green/30 text-white border-brand-green/50"
+    : "bg-white/5 hover:bg-white/10 text-white border-white/20";
+
+const FacetButton = ({ label, active, children }: { label: string; active: boolean; children: React.ReactNode }) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button variant="outline" size="sm" className={triggerClassName(active)}>
+        {label}
+        <ChevronDown className="ml-1.5 h-3.5 w-3.5" />
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent align="start" className="w-64 bg-white text-gray-800">
+      {children}
+    </PopoverContent>
+  </Popover>
+);
+
+const FacetCheckboxes = ({
+  counts,
+  selected,
+  labelFor = (value) => value,
+  onChange,
+}: {
+  counts: FacetCount[];
+  selected: string[];
+  labelFor?: (value: string) => string;
+  onChange: (selected: string[]) => void;
+}) => {
+  // Keep selected values visible even when the other filters leave no results for them
+  const values = [
+    ...counts,
+    ...selected.filter((value) => !counts.some((count) => count.value === value)).map((value) => ({ value, count: 0 })),
+  ];
+  if (values.length === 0) return <p className="text-sm text-gray-500">No values for the current search.</p>;
+
+  return (
+    <div className="space-y-2 max-h-64 overflow-y-auto">
+      {values.map(({ value, count }) => (
+        <label key={value} className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox
+            checked={selected.includes(value)}
+            onCheckedChange={(checked) =>
+              onChange(checked ? [...selected, value] : selected.filter((item) => item !== value))}
+          />
+          <span className="flex-1">{labelFor(value)}</span>
+          <span className="text-xs text-gray-400">{count}</span>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+const parseNumber = (value: string): number | null => {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Filter toolbar for the history search. Counts come from search_lab_results and reflect the
+ * text query and all other active filters.
+ */
+const SearchFacets = ({ facets, filters, onChange, onClear }: SearchFacetsProps) => {
+  // THC bounds are typed as text and applied on blur, so each keystroke does not run a search
+  const [thcMin, setThcMin] = useState("");
+  const [thcMax, setThcMax] = useState("");
+
+  useEffect(() => {
+    setThcMin(filters.thcMin?.toString() ?? "");
+    setThcMax(filters.thcMax?.toString() ?? "");
+  }, [filters.thcMin, filters.thcMax]);
+
+  const applyThc = () => onChange({ ...filters, thcMin: parseNumber(thcMin), thcMax: parseNumber(thcMax) });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <FacetButton label="Date" active={!!filters.dateFrom || !!filters.dateTo}>
+        <div className="space-y-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="search-date-from">From</Label>
+            <Input
+              id="search-date-from"
+              type="date"
+              value={filters.dateFrom ?? ""}
+              min={facets?.dates?.min ?? undefined}
+              onChange={(e) => onChange({ ...filters, dateFrom: e.target.value || null })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="search-date-to">To</Label>
+            <Input
+              id="search-date-to"
+              type="date"
+              value={filters.dateTo ?? ""}
+              max={facets?.dates?.max ?? undefined}
+              onChange={(e) => onChange({ ...filters, dateTo: e.target.value || null })}
+            />
+          </div>
+        </div>
+      </FacetButton>
+
+      <FacetButton label="Status" active={filters.statuses.length > 0}>
+        <FacetCheckboxes
+          counts={facets?.statuses ?? []}
+          selected={filters.statuses}
+          labelFor={(value) => STATUS_LABELS[value] ?? value}
+          onChange={(statuses) => onChange({ ...filters, statuses })}
+        />
+      </FacetButton>
+
+      <FacetButton label="Lab" active={filters.labs.length > 0}>
+        <FacetCheckboxes
+          counts={facets?.labs ?? []}
+          selected={filters.labs}
+          onChange={(labs) => onChange({ ...filters, labs })}
+        />
+      </FacetButton>
+
+      <FacetButton label="Dominant terpene" active={!!filters.terpene}>
+        <FacetCheckboxes
+          counts={facets?.terpenes ?? []}
+          selected={filters.terpene ? [filters.terpene] : []}
+          // One dominant terpene per COA, so selecting another replaces the current one
+          onChange={(selected) => onChange({ ...filters, terpene: selected[selected.length - 1] ?? null })}
+        />
+      </FacetButton>
+
+      <FacetButton label="Total THC" active={filters.thcMin !== null || filters.thcMax !== null}>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="search-thc-min">Min %</Label>
+            <Input
+              id="search-thc-min"
+              type="number"
+              min={0}
+              step="0.1"
+              value={thcMin}
+              placeholder={facets?.thc?.min?.toString() ?? ""}
+              onChange={(e) => setThcMin(e.target.value)}
+              onBlur={applyThc}
+              onKeyDown={(e) => e.key === "Enter" && applyThc()}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="search-thc-max">Max %</Label>
+            <Input
+              id="search-thc-max"
+              type="number"
+              min={0}
+              step="0.1"
+              value={thcMax}
+              placeholder={facets?.thc?.max?.toString() ?? ""}
+              onChange={(e) => setThcMax(e.target.value)}
+              onBlur={applyThc}
+              onKeyDown={(e) => e.key === "Enter" && applyThc()}
+            />
+          </div>
+        </div>
+      </FacetButton>
+
+      {hasActiveFilters(filters) && (
+        <Button variant="ghost" size="sm" onClick={onClear} className="text-gray-400 hover:text-white hover:bg-white/10">
+          <X className="mr-1 h-3.5 w-3.5" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SearchFacets;
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from "react";
+import { Ban, Copy, ExternalLink, Eye, Link2, Loader2 } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  buildShareUrl,
+  createShareLink,
+  isShareLinkActive,
+  revokeShareLink,
+  SHARE_EXPIRY_OPTIONS,
+  ShareLink,
+} from "@/lib/shareLinks";
+
+interface ShareLinksPanelProps {
+  labResultId: string;
+  // Only completed results can be shared
+  canShare: boolean;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+const LinkStatus = ({ link }: { link: ShareLink }) => {
+  if (link.revoked_at) {
+    return <Badge variant="outline" className="border-red-500/30 text-red-600 bg-red-500/5">Revoked</Badge>;
+  }
+  if (!isShareLinkActive(link)) {
+    return <Badge variant="outline" className="border-gray-300 text-gray-500">Expired</Badge>;
+  }
+  return <Badge variant="outline" className="border-green-500/30 text-green-600 bg-green-500/5">Active</Badge>;
+};
+
+/**
+ * Public read-only links to one COA, with view counts. Strain sheets and labels create a link
+ * without expiry for their QR code, so revoking that link also disables printed codes.
+ */
+const ShareLinksPanel = ({ labResultId, canShare }: ShareLinksPanelProps) => {
+  const { toast } = useToast();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [expiry, setExpiry] = useState(SHARE_EXPIRY_OPTIONS[0].value);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchLinks = async () => {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from("share_links")
+        .select("*")
+        .eq("lab_result_id", labResultId)
+        .order("created_at", { ascending: false });
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Error fetching share links:", error);
+      } else {
+        setLinks(data || []);
+      }
+      setIsLoading(false);
+    };
+
+    fetchLinks();
+    return () => {
+      cancelled = true;
+    };
+  }, [labResultId]);
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(link.slug));
+      toast({ title: "Link copied", description: "Anyone with the link can view this COA summary." });
+    } catch (error) {
+      console.error("Error copying link:", error);
+      toast({ title: "Error", description: "Could not copy the link.", variant: "destructive" });
+    }
+  };
+
+  const handleCreate = async () => {
+    const option = SHARE_EXPIRY_OPTIONS.find((item) => item.value === expiry) ?? SHARE_EXPIRY_OPTIONS[0];
+    setIsCreating(true);
+    try {
+      const link = await createShareLink(supabase, labResultId, option.days);
+      setLinks((current) => [link, ...current]);
+      await copyLink(link);
+    } catch (error: any) {
+      console.error("Error creating share link:", error);
+      toast({ title: "Error", description: error.message || "Failed to create the share link.", variant: "destructive" });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    try {
+      const revoked = await revokeShareLink(supabase, link.id);
+      setLinks((current) => current.map((item) => (item.id === revoked.id ? revoked : item)));
+      toast({ title: "Link revoked", description: "The page and any QR codes using it no longer open." });
+    } catch (error: any) {
+      console.error("Error revoking share link:", error);
+      toast({ title: "Error", description: error.message || "Failed to revoke the link.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        A public, read-only page with the verified potency and safety results and the original COA file.
+        No sign-in is needed to open it.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="w-48 bg-white border-gray-200 text-gray-900">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SHARE_EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={handleCreate}
+          disabled={!canShare || isCreating}
+          className="bg-brand-green hover:bg-green-600 text-white"
+        >
+          {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+          Create Link
+        </Button>
+        {!canShare && <p className="text-xs text-gray-500">Available once processing has completed.</p>}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 animate-pulse">Loading share links...</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-500">No share links yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100 bg-white">
+          {links.map((link) => {
+            const active = isShareLinkActive(link);
+            return (
+              <li key={link.id} className="flex flex-wrap items-center gap-3 px-4 py-3">
+                <div className="min-w-0 flex-1">
+                  <p className={`truncate font-mono text-sm ${active ? "text-gray-900" : "text-gray-400 line-through"}`}>
+                    {buildShareUrl(link.slug)}
+                  </p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {link.created_at && `Created ${formatDate(link.created_at)} · `}
+                    {link.expires_at ? `Expires ${formatDate(link.expires_at)}` : "No expiry"}
+                    {link.last_viewed_at && ` · Last viewed ${formatDate(link.last_viewed_at)}`}
+                  </p>
+                </div>
+                <span className="flex items-center text-sm text-gray-600" title="Views">
+                  <Eye className="mr-1 h-4 w-4" />
+                  {link.view_count}
+                </span>
+                <LinkStatus link={link} />
+                {active && (
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => copyLink(link)} title="Copy link">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" asChild title="Open page">
+                      <a href={buildShareUrl(link.slug)} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="h-4 w-4" />
+                      </a>
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" className="text-red-600 hover:bg-red-50" title="Revoke link">
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Revoke this link?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The page stops working immediately, including from QR codes already printed on
+                            strain sheets, labels or packaging. This cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleRevoke(link)} className="bg-red-600 hover:bg-red-700">
+                            Revoke
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ShareLinksPanel;
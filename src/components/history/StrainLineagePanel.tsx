@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Loader2, Sprout } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+
+// The lab result's batch and strain, as selected with `batch:batches(batch_number, strain:strains(id, name))`
+export interface LabResultBatch {
+  batch_number: string | null;
+  strain: { id: string; name: string } | null;
+}
+
+interface StrainLineagePanelProps {
+  labResultId: string;
+  productName: string | null;
+  // Batch/lot number read from the COA, used to prefill the form
+  extractedBatchNumber: string | null;
+  batch: LabResultBatch | null;
+  onChange: (batchId: string | null, batch: LabResultBatch | null) => void;
+}
+
+/**
+ * Shows which strain and batch a COA belongs to and lets the user attach it to a strain (created
+ * when the name is new) or detach it.
+ */
+const StrainLineagePanel = ({
+  labResultId,
+  productName,
+  extractedBatchNumber,
+  batch,
+  onChange,
+}: StrainLineagePanelProps) => {
+  const { toast } = useToast();
+  const [strainNames, setStrainNames] = useState<string[]>([]);
+  const [strainName, setStrainName] = useState("");
+  const [batchNumber, setBatchNumber] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setStrainName(batch?.strain?.name ?? productName ?? "");
+    setBatchNumber(batch?.batch_number ?? extractedBatchNumber ?? "");
+  }, [labResultId, batch, productName, extractedBatchNumber]);
+
+  useEffect(() => {
+    const fetchStrainNames = async () => {
+      const { data, error } = await supabase.from("strains").select("name").order("name");
+      if (error) {
+        console.error("Error fetching strains:", error);
+        return;
+      }
+      setStrainNames((data || []).map((strain) => strain.name));
+    };
+
+    fetchStrainNames();
+  }, []);
+
+  const assign = async (name: string | null) => {
+    setIsSaving(true);
+    const { data, error } = await supabase.rpc("assign_lab_result_batch", {
+      lab_result_id_param: labResultId,
+      ...(name ? { strain_name_param: name, batch_number_param: batchNumber.trim() || undefined } : {}),
+    });
+    setIsSaving(false);
+
+    if (error) {
+      console.error("Error assigning strain:", error);
+      toast({ title: "Error", description: "Failed to update the strain for this COA.", variant: "destructive" });
+      return;
+    }
+
+    const result = data as { strain_id: string | null; batch_id: string | null } | null;
+    if (!name || !result?.strain_id) {
+      onChange(null, null);
+      toast({ title: "Detached", description: "This COA is no longer part of a strain." });
+      return;
+    }
+
+    // Strain names match case-insensitively, so show the existing spelling
+    const existingName = strainNames.find((existing) => existing.toLowerCase() === name.toLowerCase());
+    if (!existingName) {
+      setStrainNames([...strainNames, name].sort());
+    }
+    onChange(result.batch_id, {
+      batch_number: batchNumber.trim() || null,
+      strain: { id: result.strain_id, name: existingName ?? name },
+    });
+    toast({ title: "Strain updated", description: `Attached to ${existingName ?? name}.` });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (strainName.trim()) assign(strainName.trim());
+  };
+
+  return (
+    <div>
+      {batch?.strain ? (
+        <p className="text-sm text-gray-700 mb-4">
+          Part of{" "}
+          <Link to={`/strains/${batch.strain.id}`} className="font-medium text-brand-green hover:underline">
+            {batch.strain.name}
+          </Link>
+          {batch.batch_number ? `, batch ${batch.batch_number}` : ", no batch number"}.
+        </p>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">
+          Attach this COA to a strain to track potency and terpenes across batches.
+        </p>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] items-end">
+        <div className="space-y-1.5">
+          <Label htmlFor="strain-name" className="text-gray-700">Strain</Label>
+          <Input
+            id="strain-name"
+            list="strain-names"
+            value={strainName}
+            onChange={(e) => setStrainName(e.target.value)}
+            placeholder="e.g. Blue Dream"
+            className="bg-white border-gray-200 text-gray-900"
+          />
+          <datalist id="strain-names">
+            {strainNames.map((name) => <option key={name} value={name} />)}
+          </datalist>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="batch-number" className="text-gray-700">Batch / lot number</Label>
+          <Input
+            id="batch-number"
+            value={batchNumber}
+            onChange={(e) => setBatchNumber(e.target.value)}
+            placeholder="Not printed on the COA"
+            className="bg-white border-gray-200 text-gray-900"
+          />
+        </div>
+        <Button
+          type="submit"
+          disabled={isSaving || !strainName.trim()}
+          className="bg-brand-green hover:bg-green-600 text-white"
+        >
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sprout className="mr-2 h-4 w-4" />}
+          {batch?.strain ? "Update" : "Attach"}
+        </Button>
+      </form>
+
+      {batch?.strain && (
+        <Button
+          variant="link"
+          onClick={() => assign(null)}
+          disabled={isSaving}
+          className="mt-2 h-auto p-0 text-xs text-gray-500 hover:text-red-600"
+        >
+          Detach from {batch.strain.name}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default StrainLineagePanel;
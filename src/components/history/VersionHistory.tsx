@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tables } from "@/types/supabase";
+import { formatPercent } from "../../../supabase/functions/_shared/potency";
+
+type LabResultVersion = Pick<
+  Tables<"lab_result_versions">,
+  "id" | "version" | "analysis_profile_id" | "generation_cost" | "description" | "total_thc" | "processed_at"
+> & {
+  // Null when the profile has since been deactivated (only active profiles are readable)
+  profile: { name: string } | null;
+};
+
+interface VersionHistoryProps {
+  labResultId: string;
+  // Current run number; versions are reloaded when it changes
+  currentVersion: number;
+}
+
+const formatDate = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString("en-US", { year: "numeric", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
+    : "—";
+
+/**
+ * Earlier outputs of a lab result, saved each time it was regenerated. Renders nothing for
+ * results that were only analyzed once.
+ */
+const VersionHistory = ({ labResultId, currentVersion }: VersionHistoryProps) => {
+  const [versions, setVersions] = useState<LabResultVersion[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchVersions = async () => {
+      const { data, error } = await supabase
+        .from("lab_result_versions")
+        .select("id, version, analysis_profile_id, generation_cost, description, total_thc, processed_at, profile:analysis_profiles(name)")
+        .eq("lab_result_id", labResultId)
+        .order("version", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching versions:", error);
+        return;
+      }
+      // Many-to-one embeds come back as a single object; the generated types predate that inference
+      if (!cancelled) setVersions((data || []) as unknown as LabResultVersion[]);
+    };
+
+    fetchVersions();
+    return () => {
+      cancelled = true;
+    };
+  }, [labResultId, currentVersion]);
+
+  if (versions.length === 0) return null;
+
+  return (
+    <div className="p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm">
+      <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+        <Badge variant="outline" className="mr-2 border-brand-green/30 text-brand-green bg-brand-green/5">
+          Version History
+        </Badge>
+      </h3>
+      <p className="text-sm text-gray-600 mb-3">
+        This report is version {currentVersion}. Earlier outputs were kept when it was regenerated.
+      </p>
+      <ul className="divide-y divide-gray-100 rounded-lg border border-gray-100 bg-white">
+        {versions.map((version) => {
+          const expanded = expandedId === version.id;
+          return (
+            <li key={version.id} className="px-4 py-3">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    Version {version.version}
+                    {version.analysis_profile_id && (
+                      <span className="ml-2 font-normal text-gray-500">
+                        {version.profile?.name ?? version.analysis_profile_id}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Generated {formatDate(version.processed_at)}
+                    {version.total_thc != null && ` · ${formatPercent(version.total_thc)} THC`}
+                    {` · ${version.generation_cost} generation${version.generation_cost !== 1 ? "s" : ""}`}
+                  </p>
+                </div>
+                {version.description && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setExpandedId(expanded ? null : version.id)}
+                    aria-expanded={expanded}
+                  >
+                    {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  </Button>
+                )}
+              </div>
+              {expanded && version.description && (
+                <p className="mt-3 text-sm text-gray-700 whitespace-pre-line leading-relaxed">{version.description}</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default VersionHistory;
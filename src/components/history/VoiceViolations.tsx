@@ -0,0 +1,49 @@
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import { Json } from "@/types/supabase";
+
+export interface VoiceViolation {
+  type: "banned_word" | "missing_disclaimer" | "reading_level";
+  message: string;
+}
+
+// lab_results.voice_violations is JSONB; anything malformed is ignored
+export const toVoiceViolations = (value: Json | null | undefined): VoiceViolation[] =>
+  Array.isArray(value)
+    ? (value as unknown[]).filter(
+        (item): item is VoiceViolation =>
+          !!item && typeof item === "object" && typeof (item as VoiceViolation).message === "string",
+      )
+    : [];
+
+interface VoiceViolationsProps {
+  violations: VoiceViolation[];
+  theme?: "light" | "dark";
+}
+
+/**
+ * Lists the brand voice rules a generated description breaks. Renders nothing when it complies.
+ */
+const VoiceViolations = ({ violations, theme = "dark" }: VoiceViolationsProps) => {
+  if (violations.length === 0) return null;
+
+  const styles = theme === "dark"
+    ? "bg-yellow-900/20 border-yellow-500/30 text-yellow-300"
+    : "bg-yellow-50 border-yellow-200 text-yellow-800";
+
+  return (
+    <div className={`p-4 rounded-lg border ${styles}`}>
+      <div className="flex items-center mb-2">
+        <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+        <span className="text-sm font-medium">Brand voice check: {violations.length} issue{violations.length !== 1 ? "s" : ""}</span>
+      </div>
+      <ul className="list-disc pl-8 space-y-1 text-sm">
+        {violations.map((violation, index) => (
+          <li key={index}>{violation.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default VoiceViolations;
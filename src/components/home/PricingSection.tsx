@@ -15,76 +15,22 @@ import { useAuth } from "../../../supabase/auth";
 import { supabase } from "../../../supabase/supabase";
 import { useToast } from "@/components/ui/use-toast";
 import { initiateCheckout } from "@/lib/stripeUtils"; // Import the new function
-
-// Define the Plan type
-interface Plan {
-  id: string;
-  object: string;
-  active: boolean;
-  amount: number;
-  currency: string;
-  interval: string;
-  interval_count: number;
-  product: {
-    id: string;
-    name: string;
-    // Add other product fields you might need, e.g., metadata
-    metadata?: Record<string, any>; 
-    [key: string]: any; // Allow other product properties
-  } | string; // product can be an object or still a string ID as a fallback
-  created: number;
-  livemode: boolean;
-  nickname?: string;
-  [key: string]: any;
-}
+import { fetchPricingPlans, formatPlanPrice, PricingPlan } from "@/lib/plans";
 
 // Props for the PricingSection component
 interface PricingSectionProps {
   title?: string;
   subtitle?: string;
-  plansToShow?: string[]; // Array of Stripe Price IDs to display (optional)
-  planFeatures?: Record<string, string[]>; // Map Price ID to features array (optional)
+  plansToShow?: string[]; // Array of plan IDs to display (optional)
   theme?: 'light' | 'dark'; // Optional theme prop
   checkoutFunction?: typeof initiateCheckout; // Allow passing the checkout function
-  excludePlanId?: string; // <<< Add new optional prop
+  excludePlanId?: string; // Plan ID to leave out, e.g. the user's current plan
 }
 
-// Custom plan names mapping - can be a reliable fallback
-const planNames = {
-  'price_1RTkaDDa07Wwp5KNnZF36GsC': 'Basic Plan', // Corrected Live Basic Plan Price ID
-  'price_1RTka9Da07Wwp5KNiRxFGnsG': 'Premium Plan', // Corrected Live Premium Plan Price ID
-  // 'SC9FWWIFZ7QDCM': 'Premium Plan', // Example: Price ID for $99 plan - commented out old/example
-  // 'SC9FJQGAEZLGH5': 'Basic Plan',    // Example: Price ID for $39 plan - commented out old/example
-  // 'price_1RRwv8DCXlQWdJgdtLj4Xjlr': 'Basic Plan', // Assuming this is $39 - commented out old/example
-  // 'price_1RRwuODCXlQWdJgd5P6bAID9': 'Premium Plan' // Assuming this is $99 - commented out old/example
-};
-
-// Updated default features with the new requested items
-const defaultPlanFeatures = {
-  basic: [
-    "30 Generations/Month",
-    "1 GB Storage",
-    "Basic Authentication"
-  ],
-  pro: [
-    "100 Generations/Month",
-    "2 GB Storage",
-    "Authentication + Latest Improvements",
-    "Community Support"
-  ],
-  enterprise: [
-    "All Pro features",
-    "Dedicated support",
-    "Custom integrations",
-    "SLA guarantees",
-  ],
-};
-
 export default function PricingSection({
   title = "Simple, Transparent Pricing",
   subtitle = "Choose the perfect plan for your needs. All plans include access to our core features. No hidden fees or surprises.",
   plansToShow,
-  planFeatures: overridePlanFeatures, // Rename prop for clarity
   theme = 'light', // Default to light theme
   checkoutFunction = initiateCheckout, // Use imported function by default
   excludePlanId // <<< Destructure the new prop
@@ -92,7 +38,7 @@ export default function PricingSection({
   const { user } = useAuth();
   const { toast } = useToast();
 
-  const [allPlans, setAllPlans] = useState<Plan[]>([]); // Store all fetched plans
+  const [allPlans, setAllPlans] = useState<PricingPlan[]>([]); // Store all fetched plans
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [processingPlanId, setProcessingPlanId] = useState<string | null>(null);
@@ -104,12 +50,8 @@ export default function PricingSection({
   const fetchPlans = async () => {
     setIsLoading(true); // Set loading true for fetching plans
     try {
-      const { data, error } = await supabase.functions.invoke(
-        "supabase-functions-get-plans",
-      );
-      if (error) throw error;
-      console.log("Plans data in PricingSection:", data);
-      setAllPlans(data || []);
+      const data = await fetchPricingPlans(supabase);
+      setAllPlans(data);
       setError("");
     } catch (error) {
       console.error("Failed to fetch plans:", error);
@@ -131,10 +73,14 @@ export default function PricingSection({
   });
   // --- End Updated Filtering Logic --- 
 
+  // The top plan in catalog order is shown as the primary choice
+  const featuredPlanId = allPlans[allPlans.length - 1]?.id;
+
   // Use passed checkout function
-  const handleCheckout = (priceId: string) => {
+  const handleCheckout = (plan: PricingPlan) => {
+    if (!plan.stripe_price_id) return;
     checkoutFunction({
-      priceId,
+      priceId: plan.stripe_price_id,
       user,
       supabase,
       toast,
@@ -145,44 +91,6 @@ export default function PricingSection({
     });
   };
 
-  // Format currency
-  const formatCurrency = (amount: number, currency: string) => {
-    const formatter = new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: currency.toUpperCase(),
-      minimumFractionDigits: 2,
-    });
-
-    return formatter.format(amount / 100);
-  };
-
-  // Determine features to display
-  const getFeaturesForPlan = (planId: string, product: any) => {
-    if (overridePlanFeatures && overridePlanFeatures[planId]) {
-      return overridePlanFeatures[planId];
-    }
-    
-    const plan = allPlans.find(p => p.id === planId);
-
-    if (plan?.amount === 3900) { // $39 plan
-      return defaultPlanFeatures.basic;
-    } else if (plan?.amount === 9900) { // $99 plan
-      return defaultPlanFeatures.pro;
-    }
-    
-    let productName = '';
-    if (product && typeof product === 'object' && product.name) {
-      productName = product.name.toLowerCase();
-    } else if (typeof product === 'string') {
-      // Fallback if product is somehow still a string ID (though it shouldn't be with expand)
-      productName = product.toLowerCase(); 
-    }
-
-    if (productName.includes("enterprise")) return defaultPlanFeatures.enterprise;
-    if (productName.includes("pro") || productName.includes("premium")) return defaultPlanFeatures.pro;
-    return defaultPlanFeatures.basic;
-  };
-
   // --- Refined Theme Styles --- 
   const sectionClasses = theme === 'light' ? "bg-white text-gray-800" : "bg-transparent text-gray-300";
   // Lighter border, softer shadow for light cards
@@ -198,25 +106,17 @@ export default function PricingSection({
   
   // Modernized Button Styles for Light Theme
   const buttonClasses = (planId: string) => {
-    const plan = allPlans.find(p => p.id === planId);
-    let productName = '';
-    if (plan?.product && typeof plan.product === 'object' && plan.product.name) {
-      productName = plan.product.name.toLowerCase();
-    } else if (typeof plan?.product === 'string') {
-      productName = plan.product.toLowerCase();
-    }
-    const isPro = productName.includes('pro') || productName.includes('premium');
+    const isFeatured = planId === featuredPlanId;
 
     if (theme === 'light') {
-      // Primary button (Pro plan): Brand green
-      if (isPro) {
+      // Primary button (featured plan): Brand green
+      if (isFeatured) {
         return "bg-brand-green text-white hover:bg-green-600 shadow-sm hover:shadow-md";
       }
       // Secondary button (Other plans): Light gray / subtle
       return "bg-gray-100 text-gray-800 hover:bg-gray-200 border border-gray-200 shadow-sm";
     } else {
-      // Keep existing dark theme logic (or refine if needed)
-      return isPro 
+      return isFeatured
         ? 'bg-brand-green text-white hover:bg-green-600 shadow-lg hover:shadow-brand-green/30' 
         : 'bg-white/10 text-white hover:bg-white/20';
     }
@@ -274,27 +174,21 @@ export default function PricingSection({
               className={`flex flex-col h-full transition-all ${cardClasses}`}>
               <CardHeader className="pb-4 pt-6 px-6">
                 <CardDescription className={`text-sm font-medium ${subtitleClasses}`}>
-                  {
-                    (plan.product && typeof plan.product === 'object' && plan.product.name) 
-                      ? plan.product.name  // Primary: Stripe Product Name
-                      : planNames[plan.id] // Secondary: Local planNames map by Price ID
-                        ? planNames[plan.id]
-                        : plan.nickname // Tertiary: Stripe Nickname
-                          ? plan.nickname 
-                          : plan.id // Last resort: Price ID
-                  }
+                  {plan.name}
                 </CardDescription>
                 <div className="mt-2">
                   <span className={`text-4xl font-bold ${titleClasses}`}>
-                    {formatCurrency(plan.amount, plan.currency)}
+                    {formatPlanPrice(plan)}
                   </span>
-                  <span className={`text-sm ml-1 ${subtitleClasses}`}>/{plan.interval}</span>
+                  {plan.billing_interval && (
+                    <span className={`text-sm ml-1 ${subtitleClasses}`}>/{plan.billing_interval}</span>
+                  )}
                 </div>
               </CardHeader>
               <CardContent className="flex-grow px-6">
                 <Separator className={`my-4 ${separatorClasses}`} />
                 <ul className="space-y-3">
-                  {getFeaturesForPlan(plan.id, plan.product).map((feature, index) => (
+                  {plan.features.map((feature, index) => (
                     <li key={index} className={`flex items-start text-sm ${featureTextClasses}`}>
                       <CheckCircle2 className={`h-4 w-4 mr-2.5 flex-shrink-0 mt-0.5 ${featureIconClasses}`} />
                       <span>{feature}</span>
@@ -305,10 +199,10 @@ export default function PricingSection({
               <CardFooter className="px-6 pb-6 mt-4">
                 <Button
                   className={`w-full font-semibold py-3 rounded-lg ${buttonClasses(plan.id)}`}
-                  onClick={() => handleCheckout(plan.id)}
-                  disabled={isLoading || (processingPlanId !== null && processingPlanId !== plan.id)}
+                  onClick={() => handleCheckout(plan)}
+                  disabled={isLoading || (processingPlanId !== null && processingPlanId !== plan.stripe_price_id)}
                 >
-                  {isLoading && processingPlanId === plan.id ? (
+                  {isLoading && processingPlanId === plan.stripe_price_id ? (
                     <Loader2 className="h-5 w-5 animate-spin" />
                   ) : (
                      // Simple button text 
@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { ArrowLeft, FileText, Link2 } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Toaster } from "@/components/ui/toaster";
+import { useToast } from "@/components/ui/use-toast";
+import { Tables } from "@/types/supabase";
+import { LabResultAnalyte } from "@/components/history/AnalyteTable";
+import { resolvePotency } from "@/components/history/PotencySummary";
+import ComparisonTable, { alignAnalytes, ComparisonColumn, ComparisonRow } from "@/components/compare/ComparisonTable";
+import RadarChart from "@/components/compare/RadarChart";
+import { MIN_COMPARE_RESULTS, parseCompareIds } from "@/lib/compareLinks";
+
+type ComparedResult = Pick<
+  Tables<"lab_results">,
+  | "id"
+  | "file_name"
+  | "product_name"
+  | "lab_name"
+  | "created_at"
+  | "total_thc"
+  | "total_cbd"
+  | "total_terpenes"
+  | "dominant_terpenes"
+>;
+
+// Series colors in column order; the first is the brand green
+const SERIES_COLORS = ["#4CAF50", "#3B82F6", "#F59E0B", "#EC4899"];
+const RADAR_AXIS_COUNT = 8;
+
+const fadeIn = {
+  hidden: { opacity: 0, y: 10 },
+  visible: { opacity: 1, y: 0, transition: { duration: 0.5, ease: "easeOut" } },
+};
+
+const sectionClassName = "p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm text-gray-800";
+
+const SectionTitle = ({ children }: { children: React.ReactNode }) => (
+  <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+    <Badge variant="outline" className="mr-2 border-brand-green/30 text-brand-green bg-brand-green/5">
+      {children}
+    </Badge>
+  </h3>
+);
+
+const Compare = () => {
+  const [searchParams] = useSearchParams();
+  const { toast } = useToast();
+  const ids = useMemo(() => parseCompareIds(searchParams.get("ids")), [searchParams]);
+  const [results, setResults] = useState<ComparedResult[]>([]);
+  const [analytes, setAnalytes] = useState<LabResultAnalyte[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchComparison = async () => {
+      if (ids.length < MIN_COMPARE_RESULTS) {
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+
+      try {
+        const [resultsResponse, analytesResponse] = await Promise.all([
+          supabase
+            .from("lab_results")
+            .select("id, file_name, product_name, lab_name, created_at, total_thc, total_cbd, total_terpenes, dominant_terpenes")
+            .in("id", ids),
+          supabase
+            .from("lab_result_analytes")
+            .select("*")
+            .in("lab_result_id", ids),
+        ]);
+
+        if (resultsResponse.error) throw resultsResponse.error;
+        if (analytesResponse.error) throw analytesResponse.error;
+
+        // Keep the URL order so the first id stays the baseline
+        const byId = new Map((resultsResponse.data || []).map((result) => [result.id, result]));
+        setResults(ids.map((id) => byId.get(id)).filter((result): result is ComparedResult => !!result));
+        setAnalytes(analytesResponse.data || []);
+      } catch (error) {
+        console.error("Error fetching comparison:", error);
+        toast({ title: "Error", description: "Failed to load the selected COAs.", variant: "destructive" });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [ids, toast]);
+
+  const resultIds = useMemo(() => results.map((result) => result.id), [results]);
+  const columns: ComparisonColumn[] = results.map((result) => ({
+    id: result.id,
+    label: result.product_name || result.file_name,
+  }));
+
+  const totalRows: ComparisonRow[] = useMemo(() => {
+    const potencies = results.map((result) =>
+      resolvePotency(result, analytes.filter((analyte) => analyte.lab_result_id === result.id)),
+    );
+    return [
+      { name: "Total THC", values: potencies.map((potency) => potency.totalThc ?? undefined) },
+      { name: "Total CBD", values: potencies.map((potency) => potency.totalCbd ?? undefined) },
+      { name: "Total Terpenes", values: potencies.map((potency) => potency.totalTerpenes ?? undefined) },
+    ];
+  }, [results, analytes]);
+
+  const cannabinoidRows = useMemo(() => alignAnalytes(resultIds, analytes, "cannabinoid"), [resultIds, analytes]);
+  const terpeneRows = useMemo(() => alignAnalytes(resultIds, analytes, "terpene"), [resultIds, analytes]);
+
+  // Rows are sorted by their highest value, so the first rows are the most prominent terpenes
+  const radarRows = terpeneRows.slice(0, RADAR_AXIS_COUNT);
+  const radarSeries = columns.map((column, index) => ({
+    label: column.label,
+    color: SERIES_COLORS[index % SERIES_COLORS.length],
+    values: radarRows.map((row) => row.values[index] ?? 0),
+  }));
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link copied", description: "The link opens this comparison when signed in to your account." });
+    } catch (error) {
+      console.error("Error copying link:", error);
+      toast({ title: "Error", description: "Could not copy the link.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-brand-dark text-gray-300 font-sans">
+      <header className="sticky top-0 z-50 w-full h-20 border-b border-white/10 bg-brand-dark/90 backdrop-blur-md">
+        <div className="container mx-auto px-4 flex h-full items-center justify-between">
+          <Link to="/" className="flex items-center">
+            <img src="/straininsightslogo.png" alt="StrainInsights Logo" className="h-12 w-auto" />
+          </Link>
+          <nav className="hidden md:flex items-center space-x-6 text-sm font-medium">
+            <Link to="/upload" className="text-gray-300 hover:text-white transition-colors">Upload</Link>
+            <Link to="/output-history" className="text-brand-green hover:text-green-500 transition-colors">History</Link>
+            <Link to="/strains" className="text-gray-300 hover:text-white transition-colors">Strains</Link>
+          </nav>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-12">
+        <motion.div
+          initial="hidden"
+          animate="visible"
+          variants={fadeIn}
+          className="mb-8 flex flex-col md:flex-row justify-between items-center"
+        >
+          <div>
+            <h1 className="font-serif text-3xl md:text-4xl font-medium text-white mb-2">Compare COAs</h1>
+            <p className="text-gray-400">Differences are highlighted against the first COA</p>
+          </div>
+          <div className="mt-4 md:mt-0 flex gap-3">
+            <Link to="/output-history">
+              <Button variant="outline" className="bg-white/5 hover:bg-white/10 text-white border-white/20">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to History
+              </Button>
+            </Link>
+            {results.length >= MIN_COMPARE_RESULTS && (
+              <Button onClick={handleCopyLink} className="bg-brand-green text-white hover:bg-green-600">
+                <Link2 className="mr-2 h-4 w-4" />
+                Copy Link
+              </Button>
+            )}
+          </div>
+        </motion.div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <motion.div
+              animate={{ rotate: 360 }}
+              transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+            >
+              <FileText className="h-10 w-10 text-brand-green" />
+            </motion.div>
+            <p className="ml-3 text-gray-400">Loading comparison...</p>
+          </div>
+        ) : results.length < MIN_COMPARE_RESULTS ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center">
+            <FileText className="h-16 w-16 text-gray-500 mb-4" />
+            <h3 className="text-xl font-medium text-white">Nothing to compare</h3>
+            <p className="text-gray-400 mt-2 max-w-md">
+              Select at least {MIN_COMPARE_RESULTS} of your COAs in your history to compare them side by side.
+            </p>
+          </div>
+        ) : (
+          <motion.div initial="hidden" animate="visible" variants={fadeIn} className="space-y-6">
+            <div className={sectionClassName}>
+              <SectionTitle>Potency Totals</SectionTitle>
+              <ComparisonTable columns={columns} rows={totalRows} />
+            </div>
+
+            <div className={sectionClassName}>
+              <SectionTitle>Cannabinoid Profile</SectionTitle>
+              <ComparisonTable columns={columns} rows={cannabinoidRows} />
+            </div>
+
+            <div className={sectionClassName}>
+              <SectionTitle>Terpene Data</SectionTitle>
+              <div className="grid gap-6 lg:grid-cols-[1fr_auto] items-start">
+                <ComparisonTable columns={columns} rows={terpeneRows} />
+                <RadarChart axes={radarRows.map((row) => row.name)} series={radarSeries} />
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </div>
+
+      <Toaster />
+    </div>
+  );
+};
+
+export default Compare;
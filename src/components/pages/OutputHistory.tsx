@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { supabase } from "../../../supabase/supabase";
 import { useAuth } from "../../../supabase/auth";
 import {
@@ -11,11 +11,12 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { FileText, Calendar, Clock, User, Settings, History, UploadCloud, Search, ArrowLeft, X } from "lucide-react";
+import { FileText, Calendar, Clock, User, Settings, History, UploadCloud, Search, ArrowLeft, X, GitCompare, RefreshCw, RotateCcw } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Toaster } from "@/components/ui/toaster";
+import { useToast } from "@/components/ui/use-toast";
 import { motion } from "framer-motion";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   DropdownMenu,
@@ -26,6 +27,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -33,75 +35,216 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import AnalyteTable, { LabResultAnalyte } from "@/components/history/AnalyteTable";
+import CompliancePanel, { toComplianceReport } from "@/components/history/CompliancePanel";
+import PotencySummary, { resolvePotency } from "@/components/history/PotencySummary";
+import StrainLineagePanel, { LabResultBatch } from "@/components/history/StrainLineagePanel";
+import ShareLinksPanel from "@/components/history/ShareLinksPanel";
+import { buildCompareUrl, MAX_COMPARE_RESULTS, MIN_COMPARE_RESULTS } from "@/lib/compareLinks";
+import VoiceViolations, { toVoiceViolations } from "@/components/history/VoiceViolations";
+import HighlightedText from "@/components/history/HighlightedText";
+import SearchFacets from "@/components/history/SearchFacets";
+import ExportMenu from "@/components/history/ExportMenu";
+import DocumentDownloads from "@/components/history/DocumentDownloads";
+import RerunDialog, { RerunTarget } from "@/components/history/RerunDialog";
+import RunStatusBadge from "@/components/history/RunStatusBadge";
+import VersionHistory from "@/components/history/VersionHistory";
+import DescriptionPanel from "@/components/history/DescriptionPanel";
+import { rerunModeFor } from "@/lib/labResultRerun";
+import { LabResultStatus, TERMINAL_STATUSES } from "@/hooks/useLabResultStatus";
+import { EMPTY_SEARCH_FILTERS, hasActiveFilters, LabResultSearchHit, SearchFilters } from "@/lib/labResultSearch";
+import { useLabResultSearch } from "@/hooks/useLabResultSearch";
+import { useVirtualGrid } from "@/hooks/useVirtualGrid";
+import { formatPercent } from "../../../supabase/functions/_shared/potency";
+import { Json } from "@/types/supabase";
 
 interface OutputItem {
   id: string;
   created_at: string;
+  status?: string | null;
   file_name: string;
+  product_name?: string | null;
   description: string;
   cannabinoid_profile?: string;
   terpene_data?: string;
+  voice_violations?: Json;
+  compliance?: Json;
+  total_thc?: number | null;
+  total_cbd?: number | null;
+  total_terpenes?: number | null;
+  dominant_terpenes?: Json;
+  batch_id?: string | null;
+  batch_number?: string | null;
+  batch?: LabResultBatch | null;
+  analysis_profile_id?: string | null;
+  version?: number;
   user_id: string;
 }
 
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+// Cards have a fixed height so the grid can be virtualized
+const CARD_HEIGHT = 280;
+const GRID_GAP = 24;
+// Start fetching the next page when the last rendered card is this close to the end
+const LOAD_MORE_THRESHOLD = 12;
+
 // Animation Variants
 const fadeIn = {
   hidden: { opacity: 0, y: 10 },
   visible: { opacity: 1, y: 0, transition: { duration: 0.5, ease: "easeOut" } },
 };
 
-const staggerContainer = {
-  hidden: { opacity: 1 },
-  visible: {
-    opacity: 1,
-    transition: {
-      staggerChildren: 0.1,
-    },
-  },
-};
-
 const OutputHistory = () => {
-  const [outputs, setOutputs] = useState<OutputItem[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
   const { user, signOut } = useAuth();
   const [selectedOutput, setSelectedOutput] = useState<OutputItem | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [analytes, setAnalytes] = useState<LabResultAnalyte[]>([]);
+  const [loadingAnalytes, setLoadingAnalytes] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [rerunTarget, setRerunTarget] = useState<RerunTarget | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const {
+    results: outputs,
+    total,
+    facets,
+    hasMore,
+    isLoading: loading,
+    isLoadingMore,
+    loadMore,
+    updateResult,
+  } = useLabResultSearch(user?.id, debouncedQuery, filters);
+
+  const gridRef = useRef<HTMLDivElement>(null);
+  const grid = useVirtualGrid(gridRef, { itemCount: outputs.length, rowHeight: CARD_HEIGHT, gap: GRID_GAP });
 
   useEffect(() => {
-    const fetchOutputs = async () => {
-      if (!user) return;
+    if (hasMore && grid.endIndex >= outputs.length - LOAD_MORE_THRESHOLD) {
+      loadMore();
+    }
+  }, [hasMore, grid.endIndex, outputs.length, loadMore]);
+
+  const isSearching = !!debouncedQuery.trim() || hasActiveFilters(filters);
+
+  const clearSearch = () => {
+    setSearchQuery("");
+    setDebouncedQuery("");
+    setFilters(EMPTY_SEARCH_FILTERS);
+  };
+
+  const handleViewFullReport = async (hit: Pick<LabResultSearchHit, "id">) => {
+    setSelectedOutput(null);
+    setIsDialogOpen(true);
+    setAnalytes([]);
+    setLoadingAnalytes(true);
 
-      try {
-        const { data, error } = await supabase
+    try {
+      // Search hits only carry list fields; the report needs the full row
+      const [reportResponse, analytesResponse] = await Promise.all([
+        supabase
           .from("lab_results")
+          .select("*, batch:batches(batch_number, strain:strains(id, name))")
+          .eq("id", hit.id)
+          .single(),
+        supabase
+          .from("lab_result_analytes")
           .select("*")
-          .eq("user_id", user.id)
-          .order("created_at", { ascending: false });
+          .eq("lab_result_id", hit.id),
+      ]);
 
-        if (error) throw error;
+      if (reportResponse.error) throw reportResponse.error;
+      if (analytesResponse.error) throw analytesResponse.error;
 
-        setOutputs(data || []);
-      } catch (error) {
-        console.error("Error fetching output history:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
+      setSelectedOutput(reportResponse.data as unknown as OutputItem);
+      setAnalytes(analytesResponse.data || []);
+    } catch (error) {
+      console.error("Error fetching report:", error);
+      setIsDialogOpen(false);
+      toast({ title: "Error", description: "Failed to load this report.", variant: "destructive" });
+    } finally {
+      setLoadingAnalytes(false);
+    }
+  };
 
-    fetchOutputs();
-  }, [user]);
+  const openRerun = (output: { id: string; file_name: string; status?: string | null }) => {
+    const mode = rerunModeFor(output.status);
+    if (mode) setRerunTarget({ id: output.id, file_name: output.file_name, mode });
+  };
 
-  const filteredOutputs = outputs.filter(output => 
-    output.file_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    (output.description && output.description.toLowerCase().includes(searchQuery.toLowerCase()))
-  );
+  const handleRerunStarted = (labResultId: string, version: number) => {
+    updateResult(labResultId, { status: "processing" });
+    setSelectedOutput((current) =>
+      current?.id === labResultId ? { ...current, status: "processing", version } : current);
+  };
 
-  const handleViewFullReport = (output: OutputItem) => {
-    setSelectedOutput(output);
-    setIsDialogOpen(true);
+  // Refreshes the card (and the open report) with the output of a finished run
+  const handleRunSettled = async (labResultId: string, status: LabResultStatus) => {
+    const { data, error } = await supabase
+      .from("lab_results")
+      .select("product_name, lab_name, total_thc, dominant_terpenes")
+      .eq("id", labResultId)
+      .single();
+
+    if (error) console.error("Error refreshing lab result:", error);
+    const dominant = Array.isArray(data?.dominant_terpenes)
+      ? (data.dominant_terpenes[0] as { name?: string } | undefined)?.name ?? null
+      : null;
+    updateResult(labResultId, {
+      status,
+      ...(data ? { product_name: data.product_name, lab_name: data.lab_name, total_thc: data.total_thc, dominant_terpene: dominant } : {}),
+    });
+
+    if (isDialogOpen && selectedOutput?.id === labResultId) {
+      handleViewFullReport({ id: labResultId });
+    }
+    toast(status === "completed"
+      ? { title: "Analysis complete", description: "The new output is ready." }
+      : { title: "Analysis failed", description: "You can retry it for free.", variant: "destructive" });
+  };
+
+  const isRunning = (status: string | null | undefined) =>
+    !!status && !TERMINAL_STATUSES.includes(status as LabResultStatus);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((current) =>
+      current.includes(id)
+        ? current.filter((selectedId) => selectedId !== id)
+        : current.length < MAX_COMPARE_RESULTS ? [...current, id] : current,
+    );
+  };
+
+  const handleBatchChange = (labResultId: string, batchId: string | null, batch: LabResultBatch | null) => {
+    updateResult(labResultId, {
+      strain_id: batch?.strain?.id ?? null,
+      strain_name: batch?.strain?.name ?? null,
+      batch_number: batch?.batch_number ?? null,
+    });
+    setSelectedOutput((current) =>
+      current?.id === labResultId ? { ...current, batch_id: batchId, batch } : current);
   };
 
+  const toggleSelecting = () => {
+    setIsSelecting(!isSelecting);
+    setCompareIds([]);
+  };
+
+  const cannabinoids = analytes.filter((analyte) => analyte.category === "cannabinoid");
+  const terpenes = analytes.filter((analyte) => analyte.category === "terpene");
+  const complianceReport = selectedOutput ? toComplianceReport(selectedOutput.compliance) : null;
+  const potency = selectedOutput ? resolvePotency(selectedOutput, analytes) : null;
+  const hasPotency = !!potency && (potency.totalThc !== null || potency.totalCbd !== null || potency.totalTerpenes !== null);
+
   // Format relative time (e.g., "2 days ago")
   const getRelativeTime = (dateString: string) => {
     const date = new Date(dateString);
@@ -161,6 +304,7 @@ const OutputHistory = () => {
           <nav className="hidden md:flex items-center space-x-6 text-sm font-medium">
             <Link to="/upload" className="text-gray-300 hover:text-white transition-colors">Upload</Link>
             <Link to="/output-history" className="text-brand-green hover:text-green-500 transition-colors">History</Link>
+            <Link to="/strains" className="text-gray-300 hover:text-white transition-colors">Strains</Link>
           </nav>
 
           {/* Auth Buttons/User Menu */}
@@ -232,7 +376,27 @@ const OutputHistory = () => {
             <h1 className="font-serif text-3xl md:text-4xl font-medium text-white mb-2">Analysis History</h1>
             <p className="text-gray-400">View your previously analyzed COA reports</p>
           </div>
-          <div className="mt-4 md:mt-0">
+          <div className="mt-4 md:mt-0 flex gap-3">
+            {total >= MIN_COMPARE_RESULTS && (
+              <Button
+                variant="outline"
+                onClick={toggleSelecting}
+                className={isSelecting
+                  ? "bg-brand-green/20 hover:bg-brand-green/30 text-white border-brand-green/50"
+                  : "bg-white/5 hover:bg-white/10 text-white border-white/20"}
+              >
+                <GitCompare className="mr-2 h-4 w-4" />
+                {isSelecting ? "Cancel Compare" : "Compare"}
+              </Button>
+            )}
+            {total > 0 && (
+              <ExportMenu
+                selection={{ query: debouncedQuery, filters }}
+                label={isSearching
+                  ? `All ${total} result${total !== 1 ? "s" : ""} matching the search`
+                  : `All ${total} result${total !== 1 ? "s" : ""}`}
+              />
+            )}
             <Link to="/upload">
               <Button variant="outline" className="bg-white/5 hover:bg-white/10 text-white border-white/20">
                 <UploadCloud className="mr-2 h-4 w-4" />
@@ -245,16 +409,26 @@ const OutputHistory = () => {
         {/* Search bar */}
         <motion.div 
           variants={fadeIn}
-          className="relative mb-8"
+          className="mb-8 space-y-3"
         >
-          <Input
-            type="text"
-            placeholder="Search by file name or content..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10 py-6 text-base bg-white/5 border-white/10 text-white placeholder:text-gray-500 focus:ring-brand-green"
-          />
-          <Search className="absolute top-1/2 transform -translate-y-1/2 left-3 h-5 w-5 text-gray-500" />
+          <div className="relative">
+            <Input
+              type="text"
+              placeholder="Search by product, strain, lab or COA content..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10 py-6 text-base bg-white/5 border-white/10 text-white placeholder:text-gray-500 focus:ring-brand-green"
+            />
+            <Search className="absolute top-1/2 transform -translate-y-1/2 left-3 h-5 w-5 text-gray-500" />
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <SearchFacets facets={facets} filters={filters} onChange={setFilters} onClear={() => setFilters(EMPTY_SEARCH_FILTERS)} />
+            {!loading && isSearching && (
+              <p className="text-sm text-gray-400">
+                {total} result{total !== 1 ? "s" : ""}
+              </p>
+            )}
+          </div>
         </motion.div>
 
           {loading ? (
@@ -267,7 +441,7 @@ const OutputHistory = () => {
             </motion.div>
             <p className="ml-3 text-gray-400">Loading your analysis history...</p>
             </div>
-          ) : outputs.length === 0 ? (
+) : outputs.length === 0 && !isSearching ? (
           <motion.div 
             variants={fadeIn}
             className="flex flex-col items-center justify-center h-64 text-center"
@@ -286,7 +460,7 @@ const OutputHistory = () => {
               </Button>
             </Link>
           </motion.div>
-        ) : filteredOutputs.length === 0 ? (
+        ) : outputs.length === 0 ? (
           <motion.div 
             variants={fadeIn}
             className="flex flex-col items-center justify-center h-64 text-center"
@@ -296,10 +470,12 @@ const OutputHistory = () => {
               No results found
               </h3>
             <p className="text-gray-400 mt-2 max-w-md">
-              We couldn't find any reports matching "{searchQuery}". Try a different search term.
+              {debouncedQuery.trim()
+                ? `We couldn't find any reports matching "${debouncedQuery.trim()}" with the selected filters.`
+                : "No reports match the selected filters."}
             </p>
             <Button 
-              onClick={() => setSearchQuery("")}
+              onClick={clearSearch}
               variant="outline" 
               className="mt-4 bg-white/5 hover:bg-white/10 text-white border-white/20"
             >
@@ -307,22 +483,37 @@ const OutputHistory = () => {
             </Button>
           </motion.div>
           ) : (
-          <motion.div 
-            variants={staggerContainer}
-            initial="hidden"
-            animate="visible"
-            className="grid gap-6 md:grid-cols-2 lg:grid-cols-3"
+          <>
+          {/* Only the rows near the viewport are rendered; the outer div keeps the full height */}
+          <div ref={gridRef} className="relative" style={{ height: grid.totalHeight }}>
+          <div
+            className="absolute inset-x-0 grid gap-6 md:grid-cols-2 lg:grid-cols-3"
+            style={{ top: grid.offsetTop, gridAutoRows: CARD_HEIGHT }}
           >
-            {filteredOutputs.map((output) => (
+            {outputs.slice(grid.startIndex, grid.endIndex).map((output) => (
               <motion.div
                   key={output.id}
+                initial="hidden"
+                animate="visible"
                 variants={fadeIn}
+                className="h-full"
               >
-                <Card className="overflow-hidden bg-white/5 border-white/10 shadow-lg transition-all hover:shadow-xl hover:shadow-brand-green/5 hover:border-white/20">
+                <Card className={`h-full flex flex-col overflow-hidden bg-white/5 shadow-lg transition-all hover:shadow-xl hover:shadow-brand-green/5 ${
+                  compareIds.includes(output.id) ? "border-brand-green" : "border-white/10 hover:border-white/20"
+                }`}>
                   <CardHeader className="pb-2 border-b border-white/10">
                     <div className="flex justify-between items-start">
-                      <div>
-                        <CardTitle className="text-lg text-white">
+                      {isSelecting && (
+                        <Checkbox
+                          checked={compareIds.includes(output.id)}
+                          onCheckedChange={() => toggleCompare(output.id)}
+                          disabled={!compareIds.includes(output.id) && compareIds.length >= MAX_COMPARE_RESULTS}
+                          aria-label={`Select ${output.file_name} for comparison`}
+                          className="mt-1 mr-3 border-white/40 data-[state=checked]:bg-brand-green data-[state=checked]:border-brand-green"
+                        />
+                      )}
+                      <div className="flex-1">
+                        <CardTitle className="text-lg text-white truncate" title={output.file_name}>
                       {output.file_name}
                     </CardTitle>
                         <CardDescription className="flex items-center gap-1 text-gray-400">
@@ -335,43 +526,113 @@ const OutputHistory = () => {
                       </Badge>
                     </div>
                   </CardHeader>
-                  <CardContent className="pt-4">
-                    <p className="text-sm text-gray-400 italic">
-                      Click "View Full Report" to see the complete analysis
-                    </p>
+                  <CardContent className="pt-4 flex-1 overflow-hidden">
+                    {output.headline ? (
+                      <p className="text-sm text-gray-300 line-clamp-3">
+                        <HighlightedText text={output.headline} />
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-400 italic">
+                        {output.product_name || 'Click "View Full Report" to see the complete analysis'}
+                      </p>
+                    )}
                     
                     <div className="mt-4 flex flex-wrap gap-2">
-                      {output.cannabinoid_profile && (
+                      {output.strain_name && (
+                        <Badge variant="outline" className="text-xs border-amber-400/30 text-amber-400 bg-amber-500/10">
+                          {output.strain_name}
+                          {output.batch_number ? ` · ${output.batch_number}` : ""}
+                        </Badge>
+                      )}
+                      {output.lab_name && (
                         <Badge variant="outline" className="text-xs border-blue-400/30 text-blue-400 bg-blue-500/10">
-                          Cannabinoid Profile
+                          {output.lab_name}
                         </Badge>
                       )}
-                      {output.terpene_data && (
+                      {output.total_thc != null && (
                         <Badge variant="outline" className="text-xs border-green-400/30 text-green-400 bg-green-500/10">
-                          Terpene Data
+                          {formatPercent(output.total_thc)} THC
                         </Badge>
                       )}
+                      {output.dominant_terpene && (
+                        <Badge variant="outline" className="text-xs border-green-400/30 text-green-400 bg-green-500/10">
+                          {output.dominant_terpene}
+                        </Badge>
+                      )}
+                      {output.status === "error" && (
+                        <Badge variant="outline" className="text-xs border-red-400/30 text-red-400 bg-red-500/10">
+                          Failed
+                        </Badge>
+                      )}
+                      {isRunning(output.status) && (
+                        <RunStatusBadge
+                          labResultId={output.id}
+                          onSettled={(status) => handleRunSettled(output.id, status)}
+                        />
+                      )}
                     </div>
                   </CardContent>
-                  <CardFooter className="border-t border-white/10 pt-4">
+                  <CardFooter className="border-t border-white/10 pt-4 gap-2">
                     <Button 
                       variant="outline" 
-                      className="w-full text-sm bg-white/5 hover:bg-white/10 text-white border-white/20"
+                      className="flex-1 text-sm bg-white/5 hover:bg-white/10 text-white border-white/20"
                       onClick={() => handleViewFullReport(output)}
                     >
                       View Full Report
                     </Button>
+                    {rerunModeFor(output.status) && (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => openRerun(output)}
+                        title={output.status === "error" ? "Retry" : "Regenerate"}
+                        aria-label={output.status === "error" ? `Retry ${output.file_name}` : `Regenerate ${output.file_name}`}
+                        className="bg-white/5 hover:bg-white/10 text-white border-white/20"
+                      >
+                        {output.status === "error" ? <RotateCcw className="h-4 w-4" /> : <RefreshCw className="h-4 w-4" />}
+                      </Button>
+                    )}
                   </CardFooter>
                 </Card>
               </motion.div>
               ))}
-          </motion.div>
+          </div>
+          </div>
+          {isLoadingMore && (
+            <p className="mt-6 text-center text-sm text-gray-400 animate-pulse">Loading more reports...</p>
+          )}
+          </>
         )}
       </div>
 
+      {/* Compare selection bar */}
+      {isSelecting && (
+        <div className="fixed bottom-0 inset-x-0 z-40 border-t border-white/10 bg-brand-dark/95 backdrop-blur-md">
+          <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+            <p className="text-sm text-gray-300">
+              {compareIds.length} of up to {MAX_COMPARE_RESULTS} selected
+            </p>
+            <Button
+              onClick={() => navigate(buildCompareUrl(compareIds))}
+              disabled={compareIds.length < MIN_COMPARE_RESULTS}
+              className="bg-brand-green text-white hover:bg-green-600"
+            >
+              <GitCompare className="mr-2 h-4 w-4" />
+              Compare {compareIds.length >= MIN_COMPARE_RESULTS ? compareIds.length : ""} COAs
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Full Report Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent className="bg-white border border-gray-100 text-gray-800 max-w-3xl max-h-[85vh] overflow-y-auto shadow-xl rounded-xl backdrop-blur-sm">
+          {!selectedOutput && (
+            <DialogHeader>
+              <DialogTitle className="sr-only">COA Report</DialogTitle>
+              <p className="text-sm text-gray-500 animate-pulse">Loading report...</p>
+            </DialogHeader>
+          )}
           {selectedOutput && (
             <>
               <DialogHeader>
@@ -381,20 +642,94 @@ const OutputHistory = () => {
                 </div>
                 <DialogDescription className="text-gray-500">
                   Analyzed on {formatDate(selectedOutput.created_at)}
+                  {(selectedOutput.version ?? 1) > 1 && ` · Version ${selectedOutput.version}`}
+                  {isRunning(selectedOutput.status) && " · Being analyzed again..."}
                 </DialogDescription>
               </DialogHeader>
               
               <div className="mt-6 space-y-6">
                 {/* Description Section */}
                 {selectedOutput.description && (
+                  <DescriptionPanel
+                    labResultId={selectedOutput.id}
+                    description={selectedOutput.description}
+                    canEdit={selectedOutput.status === "completed"}
+                    onChange={(description) =>
+                      setSelectedOutput((current) => (current?.id === selectedOutput.id ? { ...current, description } : current))}
+                  >
+                    <div className="mt-4">
+                      <VoiceViolations violations={toVoiceViolations(selectedOutput.voice_violations)} theme="light" />
+                    </div>
+                  </DescriptionPanel>
+                )}
+                
+                {/* Potency Totals */}
+                {hasPotency && (
                   <div className="p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm">
-                    <h3 className="text-lg font-medium text-gray-900 mb-2">Analysis Description</h3>
-                    <p className="text-gray-700 whitespace-pre-line leading-relaxed">{selectedOutput.description}</p>
+                    <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+                      <Badge variant="outline" className="mr-2 border-brand-green/30 text-brand-green bg-brand-green/5">
+                        Potency
+                      </Badge>
+                    </h3>
+                    <PotencySummary potency={potency} />
                   </div>
                 )}
-                
+
+                {/* Compliance */}
+                {complianceReport && (
+                  <div className="p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm">
+                    <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+                      <Badge variant="outline" className="mr-2 border-brand-green/30 text-brand-green bg-brand-green/5">
+                        Compliance
+                      </Badge>
+                    </h3>
+                    <CompliancePanel report={complianceReport} />
+                  </div>
+                )}
+
+                {/* Strain & Batch */}
+                <div className="p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm">
+                  <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+                    <Badge variant="outline" className="mr-2 border-brand-green/30 text-brand-green bg-brand-green/5">
+                      Strain &amp; Batch
+                    </Badge>
+                  </h3>
+                  <StrainLineagePanel
+                    labResultId={selectedOutput.id}
+                    productName={selectedOutput.product_name ?? null}
+                    extractedBatchNumber={selectedOutput.batch_number ?? null}
+                    batch={selectedOutput.batch ?? null}
+                    onChange={(batchId, batch) => handleBatchChange(selectedOutput.id, batchId, batch)}
+                  />
+                </div>
+
+                {/* Public Share Links */}
+                <div className="p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm">
+                  <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+                    <Badge variant="outline" className="mr-2 border-brand-green/30 text-brand-green bg-brand-green/5">
+                      Share
+                    </Badge>
+                  </h3>
+                  <ShareLinksPanel labResultId={selectedOutput.id} canShare={selectedOutput.status === "completed"} />
+                </div>
+
+                <VersionHistory labResultId={selectedOutput.id} currentVersion={selectedOutput.version ?? 1} />
+
+                {loadingAnalytes && (
+                  <p className="text-sm text-gray-500 animate-pulse">Loading lab data...</p>
+                )}
+
                 {/* Cannabinoid Profile */}
-                {selectedOutput.cannabinoid_profile && (
+                {cannabinoids.length > 0 ? (
+                  <div className="p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm">
+                    <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+                      <Badge variant="outline" className="mr-2 border-brand-green/30 text-brand-green bg-brand-green/5">
+                        Cannabinoid Profile
+                      </Badge>
+                    </h3>
+                    <AnalyteTable analytes={cannabinoids} />
+                  </div>
+                ) : !loadingAnalytes && selectedOutput.cannabinoid_profile && (
                   <div className="p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm">
                     <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
                       <Badge variant="outline" className="mr-2 border-brand-green/30 text-brand-green bg-brand-green/5">
@@ -410,7 +745,16 @@ const OutputHistory = () => {
                 )}
                 
                 {/* Terpene Data */}
-                {selectedOutput.terpene_data && (
+                {terpenes.length > 0 ? (
+                  <div className="p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm">
+                    <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+                      <Badge variant="outline" className="mr-2 border-brand-green/30 text-brand-green bg-brand-green/5">
+                        Terpene Data
+                      </Badge>
+                    </h3>
+                    <AnalyteTable analytes={terpenes} />
+                  </div>
+                ) : !loadingAnalytes && selectedOutput.terpene_data && (
                   <div className="p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm">
                     <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
                       <Badge variant="outline" className="mr-2 border-brand-green/30 text-brand-green bg-brand-green/5">
@@ -426,7 +770,15 @@ const OutputHistory = () => {
                 )}
               </div>
               
-              <div className="mt-6 flex justify-end">
+              <div className="mt-6 flex flex-wrap justify-end gap-3">
+                {rerunModeFor(selectedOutput.status) && (
+                  <Button variant="outline" onClick={() => openRerun(selectedOutput)} className="rounded-full px-6">
+                    {selectedOutput.status === "error" ? <RotateCcw className="mr-2 h-4 w-4" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                    {selectedOutput.status === "error" ? "Retry" : "Regenerate"}
+                  </Button>
+                )}
+                <DocumentDownloads labResultId={selectedOutput.id} theme="light" />
+                <ExportMenu selection={{ labResultIds: [selectedOutput.id] }} label="This report" theme="light" />
                 <Button 
                   onClick={() => setIsDialogOpen(false)}
                   className="bg-brand-green hover:bg-green-600 text-white rounded-full px-6"
@@ -439,6 +791,12 @@ const OutputHistory = () => {
         </DialogContent>
       </Dialog>
       
+      <RerunDialog
+        target={rerunTarget}
+        onOpenChange={(open) => !open && setRerunTarget(null)}
+        onStarted={(result) => handleRerunStarted(result.labResultId, result.version)}
+      />
+
       <Toaster />
     </div>
   );
@@ -3,7 +3,10 @@ import { useAuth } from "../../../supabase/auth";
 import { supabase } from "../../../supabase/supabase";
 import { motion } from "framer-motion";
 import { Link } from "react-router-dom";
-import { initiateCheckout } from "../../lib/stripeUtils";
+import { initiateCheckout, openCustomerPortal } from "../../lib/stripeUtils";
+import { findPlan, formatPlanPrice, getPlanName, Plan } from "../../lib/plans";
+import { applyPlanChange, cancelScheduledPlanChange, PlanChangePreview, previewPlanChange } from "../../lib/planChanges";
+import { usePlans } from "@/hooks/usePlans";
 import { useToast } from "../ui/use-toast";
 import {
   User,
@@ -53,6 +56,9 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import BrandVoiceCard from "@/components/profile/BrandVoiceCard";
+import BrandStyleCard from "@/components/profile/BrandStyleCard";
+import ComplianceCard from "@/components/profile/ComplianceCard";
 
 // Animation Variants
 const fadeIn = {
@@ -77,11 +83,13 @@ const slideIn = {
 
 // Add new interfaces
 interface UserSubscription {
-  plan_name: string;
+  plan_id: string | null; // users.current_plan_id; names and features come from the plan catalog
   operations_limit: number;
   operations_used: number;
   subscription_status: string;
   current_period_end?: string;
+  scheduled_plan_id?: string | null; // downgrade waiting for the period end
+  scheduled_change_at?: string;
 }
 
 const ProfilePage = () => {
@@ -92,19 +100,20 @@ const ProfilePage = () => {
   const [processingPlanId, setProcessingPlanId] = useState<string | null>(null);
   const [error, setError] = useState("");
   const [showPlanSelector, setShowPlanSelector] = useState(false);
+  // Plan a paying user picked in the selector, with the proration preview they confirm
+  const [planChange, setPlanChange] = useState<{ plan: Plan; preview: PlanChangePreview } | null>(null);
+  const [subscriptionRefreshKey, setSubscriptionRefreshKey] = useState(0);
   const { toast } = useToast();
-  
-  // Stripe Price IDs
-  const PRICE_IDS = {
-    basic: "price_1RTkaDDa07Wwp5KNnZF36GsC",
-    pro: "price_1RTka9Da07Wwp5KNiRxFGnsG"
-  };
+  const { plans } = usePlans();
 
-  // Plan features
-  const PLAN_FEATURES = {
-    basic: ["30 Generations/Month", "1 GB Storage", "Basic Authentication"],
-    pro: ["100 Generations/Month", "2 GB Storage", "Authentication + Latest Improvements", "Community Support"]
-  };
+  // Plans that can be bought, in catalog order; the last one is recommended
+  const purchasablePlans = plans.filter((plan) => plan.is_public && plan.stripe_price_id);
+  const currentPlan = subscription ? findPlan(plans, subscription.plan_id) : undefined;
+  // Paid plan with a Stripe subscription on record (cancelled subscriptions move users back to free)
+  const isPaidUser = !!currentPlan?.stripe_price_id && subscription?.subscription_status !== "inactive";
+  const planName = subscription?.subscription_status === "error"
+    ? "Error"
+    : getPlanName(plans, subscription?.plan_id);
 
   // Format account creation date
   const formatCreationDate = (timestamp: number | string | null) => {
@@ -120,13 +129,19 @@ const ProfilePage = () => {
   };
 
   // Handle plan selection
-  const handlePlanSelection = (planType: 'basic' | 'pro') => {
-    if (!user) return;
+  const handlePlanSelection = (plan: Plan) => {
+    if (!user || !plan.stripe_price_id) return;
+
+    // Paying users change the plan on their existing subscription instead of checking out again
+    if (isPaidUser) {
+      handlePlanChangePreview(plan);
+      return;
+    }
     
     setShowPlanSelector(false);
     
     initiateCheckout({
-      priceId: PRICE_IDS[planType],
+      priceId: plan.stripe_price_id,
       user,
       supabase,
       toast,
@@ -137,29 +152,90 @@ const ProfilePage = () => {
     });
   };
 
+  const handlePlanChangePreview = async (plan: Plan) => {
+    setIsProcessing(true);
+    setProcessingPlanId(plan.stripe_price_id);
+    try {
+      const preview = await previewPlanChange(supabase, plan.id);
+      setPlanChange({ plan, preview });
+    } catch (error: any) {
+      console.error("Error previewing plan change:", error);
+      toast({
+        title: "Plan Change Error",
+        description: error.message || "Could not preview the plan change. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+      setProcessingPlanId(null);
+    }
+  };
+
+  const handleConfirmPlanChange = async () => {
+    if (!planChange) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await applyPlanChange(supabase, planChange.preview);
+      toast({
+        title: result.status === "scheduled" ? "Downgrade Scheduled" : "Plan Upgraded",
+        description: result.status === "scheduled"
+          ? `You'll move to the ${planChange.plan.name} on ${formatCreationDate(result.effective_at)}. Your current plan stays active until then.`
+          : `You're now on the ${planChange.plan.name}. Your new generation limit will show in a moment.`,
+        variant: "default",
+      });
+      setPlanChange(null);
+      setShowPlanSelector(false);
+      setSubscriptionRefreshKey((key) => key + 1);
+    } catch (error: any) {
+      console.error("Error changing plan:", error);
+      toast({
+        title: "Plan Change Error",
+        description: error.message || "Could not change your plan. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleKeepCurrentPlan = async () => {
+    setIsProcessing(true);
+    try {
+      await cancelScheduledPlanChange(supabase);
+      toast({
+        title: "Downgrade Canceled",
+        description: `You'll stay on the ${planName}.`,
+        variant: "default",
+      });
+      setSubscriptionRefreshKey((key) => key + 1);
+    } catch (error: any) {
+      console.error("Error canceling scheduled plan change:", error);
+      toast({
+        title: "Plan Change Error",
+        description: error.message || "Could not cancel the scheduled change. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   // Handle billing management
   const handleManageBilling = () => {
     if (!subscription || !user) return;
     
-    const currentPlan = subscription.plan_name;
-    
-    if (currentPlan === "Free Plan") {
-      // Free users can choose Basic or Pro
-      setShowPlanSelector(true);
-    } else if (currentPlan === "Basic Plan") {
-      // Basic users can upgrade to Pro or manage current plan
-      setShowPlanSelector(true);
-    } else if (currentPlan === "Pro Plan") {
-      // Pro users can renew Pro or downgrade to Basic
-      setShowPlanSelector(true);
-    } else {
-      // For any other plans, open Stripe Customer Portal (when implemented)
-      console.log("Opening Stripe Customer Portal for paid user");
-      toast({
-        title: "Coming Soon",
-        description: "Customer portal integration is in development.",
-        variant: "default",
+    if (isPaidUser) {
+      // Paid users manage cards, invoices, cancellation and plan changes in the Stripe portal
+      openCustomerPortal({
+        supabase,
+        toast,
+        setIsLoading: setIsProcessing,
+        returnUrlPath: '/profile'
       });
+    } else {
+      // Free users choose a plan to check out
+      setShowPlanSelector(true);
     }
   };
 
@@ -185,29 +261,18 @@ const ProfilePage = () => {
         // Get limit directly from user data
         const operationsLimit = userData.generation_limit ?? 1; // Use the limit from users table
 
-        // --- Determine Plan Name from Plan ID ---
-        let planName = "Free Plan"; // Default
-        if (currentPlanId === 'pro') {
-            planName = "Pro Plan";
-        } else if (currentPlanId === 'basic') { // Add other plan IDs as needed
-            planName = "Basic Plan";
-        } else if (currentPlanId === 'free') {
-            planName = "Free Plan";
-        } else if (currentPlanId) {
-            // Handle potential unknown plan IDs if necessary
-            planName = currentPlanId; // Or "Unknown Plan"
-        }
-        // --- End Determine Plan Name ---
 
 
         let subscriptionStatus = "active"; // Default status
         let currentPeriodEnd = undefined;
+        let scheduledPlanId: string | null = null;
+        let scheduledChangeAt = undefined;
 
         // 2. Fetch Subscription Status (only for paid plans, not free plan)
         if (currentPlanId && currentPlanId !== 'free') { // Only check for subscription if NOT on free plan
             const { data: subscriptionData, error: subscriptionError } = await supabase
                 .from('subscriptions')
-                .select('status, current_period_end') // Fetch status and end date
+                .select('status, current_period_end, scheduled_plan_id, scheduled_change_at') // Fetch status, end date and any pending downgrade
                 .eq('user_id', user.id) // Link by user_id ONLY
                 .order('created_at', { ascending: false }) // Get the latest subscription for this user
                 .maybeSingle(); // Use maybeSingle as user might have cancelled etc.
@@ -221,6 +286,10 @@ const ProfilePage = () => {
                     // Format Unix timestamp (assuming it's in seconds)
                    currentPeriodEnd = new Date(subscriptionData.current_period_end * 1000).toLocaleDateString("en-US", { year: 'numeric', month: 'long', day: 'numeric'});
                 }
+                if (subscriptionData.scheduled_plan_id) {
+                   scheduledPlanId = subscriptionData.scheduled_plan_id;
+                   scheduledChangeAt = formatCreationDate(subscriptionData.scheduled_change_at);
+                }
            } else {
                 // No subscription record found for paid plan - this means cancelled or expired
                 subscriptionStatus = 'inactive';
@@ -233,17 +302,19 @@ const ProfilePage = () => {
 
         // 3. Set the state
         setSubscription({
-          plan_name: planName, // Name derived from plan ID
+          plan_id: currentPlanId, // Resolved against the plan catalog when rendering
           operations_limit: operationsLimit, // Limit from users table
           operations_used: generationsUsed, // Usage from users table
           subscription_status: subscriptionStatus, // Status from subscriptions table (or default)
           current_period_end: currentPeriodEnd,
+          scheduled_plan_id: scheduledPlanId,
+          scheduled_change_at: scheduledChangeAt,
         });
 
       } catch (error) {
         console.error("Error fetching subscription data:", error);
         setSubscription({
-           plan_name: "Error",
+           plan_id: null,
            operations_limit: 0,
            operations_used: 0,
            subscription_status: "error",
@@ -255,137 +326,190 @@ const ProfilePage = () => {
     };
 
     fetchSubscriptionData();
-  }, [user]); // Dependency array
+  }, [user, subscriptionRefreshKey]); // Refetched after a plan change
 
   // Plan Selector Dialog Component
   const PlanSelectorDialog = () => {
     if (!subscription) return null;
     
-    const currentPlan = subscription.plan_name;
-    const isBasicUser = currentPlan === "Basic Plan";
-    const isProUser = currentPlan === "Pro Plan";
-    const isFreeUser = currentPlan === "Free Plan";
+    const isFreeUser = !currentPlan || !currentPlan.stripe_price_id;
+    const recommendedPlanId = purchasablePlans[purchasablePlans.length - 1]?.id;
+
+    const actionLabel = (plan: Plan) => {
+      if (plan.id === currentPlan?.id) return "Current Plan";
+      if (plan.id === subscription.scheduled_plan_id) return `Starts ${subscription.scheduled_change_at}`;
+      if (isFreeUser) return `Choose ${plan.name}`;
+      return plan.amount >= (currentPlan?.amount ?? 0) ? `Upgrade to ${plan.name}` : `Downgrade to ${plan.name}`;
+    };
+
+    const handleOpenChange = (open: boolean) => {
+      setShowPlanSelector(open);
+      if (!open) setPlanChange(null);
+    };
+
+    if (planChange) {
+      const { plan, preview } = planChange;
+      const isUpgrade = preview.direction === "upgrade";
+
+      return (
+        <Dialog open={showPlanSelector} onOpenChange={handleOpenChange}>
+          <DialogContent className="bg-gray-900 border-gray-700 text-white max-w-lg">
+            <DialogHeader>
+              <DialogTitle className="text-2xl font-bold text-white">
+                {isUpgrade ? `Upgrade to ${plan.name}` : `Downgrade to ${plan.name}`}
+              </DialogTitle>
+              <DialogDescription className="text-gray-400">
+                {isUpgrade
+                  ? "The change applies now. You're charged the difference for the rest of this billing period."
+                  : `You keep your ${currentPlan?.name} and its limits until ${formatCreationDate(preview.effective_at)}. Nothing is charged today.`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="mt-4 space-y-3 rounded-lg border border-white/10 bg-white/5 p-4 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-400">Current plan</span>
+                <span className="text-white font-medium">{currentPlan?.name}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">New plan</span>
+                <span className="text-white font-medium">{plan.name}</span>
+              </div>
+              <Separator className="bg-white/10" />
+              {isUpgrade ? (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Due today (prorated)</span>
+                  <span className="text-white font-semibold">
+                    {formatPlanPrice({ amount: preview.amount_due_now, currency: preview.currency })}
+                  </span>
+                </div>
+              ) : (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Starts on</span>
+                  <span className="text-white font-semibold">{formatCreationDate(preview.effective_at)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-gray-400">{isUpgrade ? "Then, from your next billing date" : "Then"}</span>
+                <span className="text-white font-medium">
+                  {formatPlanPrice({ amount: preview.next_amount, currency: preview.currency })}
+                  {plan.billing_interval && `/${plan.billing_interval}`}
+                </span>
+              </div>
+            </div>
+
+            <div className="mt-6 flex justify-end gap-3">
+              <Button
+                variant="outline"
+                className="border-white/20 bg-transparent text-white hover:bg-white/10 hover:text-white"
+                onClick={() => setPlanChange(null)}
+                disabled={isProcessing}
+              >
+                Back
+              </Button>
+              <Button
+                className="bg-brand-green hover:bg-green-600 text-black font-semibold"
+                onClick={handleConfirmPlanChange}
+                disabled={isProcessing}
+              >
+                {isProcessing ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  isUpgrade ? "Confirm Upgrade" : "Schedule Downgrade"
+                )}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      );
+    }
 
     return (
-      <Dialog open={showPlanSelector} onOpenChange={setShowPlanSelector}>
+      <Dialog open={showPlanSelector} onOpenChange={handleOpenChange}>
         <DialogContent className="bg-gray-900 border-gray-700 text-white max-w-4xl">
           <DialogHeader>
             <DialogTitle className="text-2xl font-bold text-white">
-              {isFreeUser && "Choose Your Plan"}
-              {isBasicUser && "Manage Your Plan"}
-              {isProUser && "Manage Your Plan"}
+              {isFreeUser ? "Choose Your Plan" : "Change Your Plan"}
             </DialogTitle>
             <DialogDescription className="text-gray-400">
-              {isFreeUser && "Select a plan to unlock more features and increase your generation limits."}
-              {isBasicUser && "Renew your current Basic plan or upgrade to Pro for enhanced features."}
-              {isProUser && "Renew your Pro plan or switch to Basic if needed."}
+              {isFreeUser
+                ? "Select a plan to unlock more features and increase your generation limits."
+                : "Upgrades apply now with a prorated charge. Downgrades start at the end of your billing period."}
             </DialogDescription>
           </DialogHeader>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
-            {/* Basic Plan Card */}
-            {(isFreeUser || isBasicUser || isProUser) && (
-              <Card className={`bg-white/5 border ${isBasicUser ? 'border-blue-400/50' : 'border-white/10'} hover:border-white/20 transition-colors ${isBasicUser ? 'relative' : ''}`}>
-                {isBasicUser && (
-                  <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
-                    <Badge className="bg-blue-600 text-white font-semibold px-3 py-1">
-                      Current Plan
-                    </Badge>
-                  </div>
-                )}
-                <CardHeader>
-                  <div className="flex items-center justify-between">
-                    <CardTitle className="text-lg font-semibold text-white flex items-center">
-                      <Shield className="h-5 w-5 mr-2 text-blue-400" />
-                      Basic Plan
-                    </CardTitle>
-                  </div>
-                  <div className="mt-2">
-                    <span className="text-3xl font-bold text-white">$39</span>
-                    <span className="text-gray-400 ml-1">/month</span>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <ul className="space-y-3">
-                    {PLAN_FEATURES.basic.map((feature, index) => (
-                      <li key={index} className="flex items-start text-sm text-gray-300">
-                        <Check className="h-4 w-4 mr-2.5 flex-shrink-0 mt-0.5 text-green-400" />
-                        <span>{feature}</span>
-                      </li>
-                    ))}
-                  </ul>
-                </CardContent>
-                <CardFooter>
-                  <Button
-                    className="w-full bg-blue-600 hover:bg-blue-700 text-white"
-                    onClick={() => handlePlanSelection('basic')}
-                    disabled={isProcessing}
-                  >
-                    {isProcessing && processingPlanId === PRICE_IDS.basic ? (
-                      <>
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Processing...
-                      </>
-                    ) : (
-                      isBasicUser ? "Renew Basic Plan" :
-                      isProUser ? "Switch to Basic" : "Choose Basic"
-                    )}
-                  </Button>
-                </CardFooter>
-              </Card>
-            )}
-
-            {/* Pro Plan Card */}
-            <Card className="bg-white/5 border border-brand-green/50 hover:border-brand-green transition-colors relative">
-              {!isProUser && (
-                <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
-                  <Badge className="bg-brand-green text-black font-semibold px-3 py-1">
-                    <Star className="h-3 w-3 mr-1" />
-                    RECOMMENDED
-                  </Badge>
-                </div>
-              )}
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <CardTitle className="text-lg font-semibold text-white flex items-center">
-                    <Crown className="h-5 w-5 mr-2 text-brand-green" />
-                    Pro Plan
-                  </CardTitle>
-                  {isProUser && <Badge className="bg-brand-green text-black">Current</Badge>}
-                </div>
-                <div className="mt-2">
-                  <span className="text-3xl font-bold text-white">$99</span>
-                  <span className="text-gray-400 ml-1">/month</span>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <ul className="space-y-3">
-                  {PLAN_FEATURES.pro.map((feature, index) => (
-                    <li key={index} className="flex items-start text-sm text-gray-300">
-                      <Check className="h-4 w-4 mr-2.5 flex-shrink-0 mt-0.5 text-brand-green" />
-                      <span>{feature}</span>
-                    </li>
-                  ))}
-                </ul>
-              </CardContent>
-              <CardFooter>
-                <Button
-                  className="w-full bg-brand-green hover:bg-green-600 text-black font-semibold"
-                  onClick={() => handlePlanSelection('pro')}
-                  disabled={isProcessing}
+            {purchasablePlans.map((plan) => {
+              const isCurrent = plan.id === currentPlan?.id;
+              const isRecommended = plan.id === recommendedPlanId;
+              const Icon = isRecommended ? Crown : Shield;
+
+              return (
+                <Card
+                  key={plan.id}
+                  className={`relative bg-white/5 border transition-colors ${
+                    isRecommended
+                      ? "border-brand-green/50 hover:border-brand-green"
+                      : isCurrent ? "border-blue-400/50 hover:border-white/20" : "border-white/10 hover:border-white/20"
+                  }`}
                 >
-                  {isProcessing && processingPlanId === PRICE_IDS.pro ? (
-                    <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Processing...
-                    </>
-                  ) : (
-                    isProUser ? "Renew Pro Plan" : 
-                    isBasicUser ? "Upgrade to Pro" : "Choose Pro"
+                  {(isCurrent || isRecommended) && (
+                    <div className="absolute -top-3 left-1/2 transform -translate-x-1/2">
+                      {isCurrent ? (
+                        <Badge className={`${isRecommended ? "bg-brand-green text-black" : "bg-blue-600 text-white"} font-semibold px-3 py-1`}>
+                          Current Plan
+                        </Badge>
+                      ) : (
+                        <Badge className="bg-brand-green text-black font-semibold px-3 py-1">
+                          <Star className="h-3 w-3 mr-1" />
+                          RECOMMENDED
+                        </Badge>
+                      )}
+                    </div>
                   )}
-                </Button>
-              </CardFooter>
-            </Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg font-semibold text-white flex items-center">
+                      <Icon className={`h-5 w-5 mr-2 ${isRecommended ? "text-brand-green" : "text-blue-400"}`} />
+                      {plan.name}
+                    </CardTitle>
+                    <div className="mt-2">
+                      <span className="text-3xl font-bold text-white">{formatPlanPrice(plan)}</span>
+                      {plan.billing_interval && <span className="text-gray-400 ml-1">/{plan.billing_interval}</span>}
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="space-y-3">
+                      {plan.features.map((feature, index) => (
+                        <li key={index} className="flex items-start text-sm text-gray-300">
+                          <Check className={`h-4 w-4 mr-2.5 flex-shrink-0 mt-0.5 ${isRecommended ? "text-brand-green" : "text-green-400"}`} />
+                          <span>{feature}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                  <CardFooter>
+                    <Button
+                      className={`w-full ${isRecommended
+                        ? "bg-brand-green hover:bg-green-600 text-black font-semibold"
+                        : "bg-blue-600 hover:bg-blue-700 text-white"}`}
+                      onClick={() => handlePlanSelection(plan)}
+                      disabled={isProcessing || isCurrent || plan.id === subscription.scheduled_plan_id}
+                    >
+                      {isProcessing && processingPlanId === plan.stripe_price_id ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Processing...
+                        </>
+                      ) : (
+                        actionLabel(plan)
+                      )}
+                    </Button>
+                  </CardFooter>
+                </Card>
+              );
+            })}
           </div>
         </DialogContent>
       </Dialog>
@@ -530,7 +654,7 @@ const ProfilePage = () => {
                     <CardContent className="space-y-4 pt-0 pb-6 px-6">
                       <div className="flex justify-between items-center">
                         <span className="text-gray-400 text-sm">Current Plan</span>
-                        <span className="text-white font-medium">{subscription.plan_name}</span>
+                        <span className="text-white font-medium">{planName}</span>
                       </div>
                       <Separator className="bg-white/10" />
                        <div className="flex justify-between items-center">
@@ -562,12 +686,50 @@ const ProfilePage = () => {
                             </div>
                         </>
                       )}
+                      {subscription.scheduled_plan_id && (
+                        <>
+                          <Separator className="bg-white/10" />
+                          <div className="flex justify-between items-center">
+                            <span className="text-gray-400 text-sm">Scheduled Change</span>
+                            <div className="flex items-center gap-3">
+                              <span className="text-white font-medium">
+                                {getPlanName(plans, subscription.scheduled_plan_id)} on {subscription.scheduled_change_at}
+                              </span>
+                              <Button
+                                variant="link"
+                                size="sm"
+                                className="h-auto p-0 text-brand-green"
+                                onClick={handleKeepCurrentPlan}
+                                disabled={isProcessing}
+                              >
+                                Keep current plan
+                              </Button>
+                            </div>
+                          </div>
+                        </>
+                      )}
                     </CardContent>
-                     <CardFooter className="bg-white/5 border-t border-white/10 px-6 py-4">
+                     <CardFooter className="bg-white/5 border-t border-white/10 px-6 py-4 gap-3">
+                        {isPaidUser && (
+                          <Button
+                            variant="outline"
+                            className={`w-full text-brand-green border-brand-green/50 hover:bg-brand-green/10 hover:text-brand-green ${
+                              subscription.operations_used >= subscription.operations_limit
+                                ? 'animate-pulse ring-2 ring-brand-green/50 bg-brand-green/10 shadow-lg shadow-brand-green/25'
+                                : ''
+                            }`}
+                            onClick={() => setShowPlanSelector(true)}
+                            disabled={isProcessing}
+                          >
+                            {subscription.operations_used >= subscription.operations_limit
+                              ? "Upgrade Plan - No Generations Left!"
+                              : "Change Plan"}
+                          </Button>
+                        )}
                         <Button
                            variant="outline"
                            className={`w-full text-brand-green border-brand-green/50 hover:bg-brand-green/10 hover:text-brand-green ${
-                             subscription && subscription.operations_used >= subscription.operations_limit 
+                             !isPaidUser && subscription.operations_used >= subscription.operations_limit 
                                ? 'animate-pulse ring-2 ring-brand-green/50 bg-brand-green/10 shadow-lg shadow-brand-green/25' 
                                : ''
                            }`}
@@ -580,7 +742,7 @@ const ProfilePage = () => {
                                 Processing...
                               </>
                             ) : (
-                              subscription && subscription.operations_used >= subscription.operations_limit 
+                              !isPaidUser && subscription.operations_used >= subscription.operations_limit 
                                 ? "Upgrade Plan - No Generations Left!" 
                                 : "Manage Billing"
                             )}
@@ -589,6 +751,21 @@ const ProfilePage = () => {
                   </Card>
                 </motion.div>
 
+                {/* Brand Voice Card */}
+                <motion.div variants={fadeIn}>
+                  <BrandVoiceCard userId={user.id} />
+                </motion.div>
+
+                {/* Brand Style Card */}
+                <motion.div variants={fadeIn}>
+                  <BrandStyleCard userId={user.id} />
+                </motion.div>
+
+                {/* Compliance Card */}
+                <motion.div variants={fadeIn}>
+                  <ComplianceCard userId={user.id} />
+                </motion.div>
+
                {/* Security Card and Team Access Card were here - REMOVED */}
 
               </div> {/* <<< Closing div for md:col-span-2 */} 
@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { BadgeCheck, Download, FileText, Loader2 } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Toaster } from "@/components/ui/toaster";
+import { useToast } from "@/components/ui/use-toast";
+import AnalyteTable from "@/components/history/AnalyteTable";
+import CompliancePanel, { PANEL_LABELS, toComplianceReport } from "@/components/history/CompliancePanel";
+import PotencySummary, { resolvePotency } from "@/components/history/PotencySummary";
+import { fetchSharedLabResult, refreshSharedFile, SharedLabResult } from "@/lib/shareLinks";
+
+const fadeIn = {
+  hidden: { opacity: 0, y: 10 },
+  visible: { opacity: 1, y: 0, transition: { duration: 0.5, ease: "easeOut" } },
+};
+
+const sectionClassName = "p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm text-gray-800";
+
+// Safety panels are shown in this order after the potency tables
+const SAFETY_PANELS = ["pesticide", "heavy_metal", "microbial", "residual_solvent"] as const;
+
+// Re-sign the file URL when it has less than this left, so a click never lands on an expired link
+const FILE_URL_MARGIN_MS = 15 * 1000;
+
+const SectionTitle = ({ children }: { children: React.ReactNode }) => (
+  <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+    <Badge variant="outline" className="mr-2 border-brand-green/30 text-brand-green bg-brand-green/5">
+      {children}
+    </Badge>
+  </h3>
+);
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+
+/**
+ * Public, read-only COA summary opened from a share link or a QR code (/r/:slug). No sign-in is
+ * needed; shared-lab-result checks that the link is active and counts the view.
+ */
+const SharedReport = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const { toast } = useToast();
+  const [shared, setShared] = useState<SharedLabResult | null>(null);
+  const [unavailable, setUnavailable] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchShared = async () => {
+      if (!slug) return;
+      setLoading(true);
+      try {
+        const data = await fetchSharedLabResult(supabase, slug);
+        if (!cancelled) setShared(data);
+      } catch (error: any) {
+        console.error("Error loading shared COA:", error);
+        if (!cancelled) setUnavailable(error.message || "This link is not available.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchShared();
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  const analytes = shared?.analytes ?? [];
+  const potency = useMemo(
+    () => (shared ? resolvePotency(shared.labResult, shared.analytes) : null),
+    [shared],
+  );
+  const complianceReport = toComplianceReport(shared?.labResult.compliance);
+  const cannabinoids = analytes.filter((analyte) => analyte.category === "cannabinoid");
+  const terpenes = analytes.filter((analyte) => analyte.category === "terpene");
+
+  const handleDownload = async () => {
+    if (!slug || !shared) return;
+    setIsDownloading(true);
+    try {
+      let file = shared.file;
+      if (!file || new Date(file.expiresAt).getTime() - Date.now() < FILE_URL_MARGIN_MS) {
+        file = await refreshSharedFile(supabase, slug);
+        setShared({ ...shared, file });
+      }
+      if (!file) throw new Error("The original COA file is not available.");
+      window.location.href = file.url;
+    } catch (error: any) {
+      console.error("Error downloading shared COA:", error);
+      toast({ title: "Download failed", description: error.message || "Please try again.", variant: "destructive" });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const labResult = shared?.labResult;
+  const details = labResult
+    ? [
+        labResult.strain_name && { label: "Strain", value: labResult.strain_name },
+        labResult.batch_number && { label: "Batch", value: labResult.batch_number },
+        labResult.lab_name && { label: "Lab", value: labResult.lab_name },
+        labResult.tested_at && { label: "Tested", value: formatDate(labResult.tested_at) },
+      ].filter((detail): detail is { label: string; value: string } => !!detail)
+    : [];
+
+  return (
+    <div className="min-h-screen bg-brand-dark text-gray-300 font-sans">
+      <header className="sticky top-0 z-50 w-full h-20 border-b border-white/10 bg-brand-dark/90 backdrop-blur-md">
+        <div className="container mx-auto px-4 flex h-full items-center justify-between">
+          <Link to="/" className="flex items-center">
+            <img src="/straininsightslogo.png" alt="StrainInsights Logo" className="h-12 w-auto" />
+          </Link>
+          {shared?.sharedBy && <p className="text-sm text-gray-400">Shared by {shared.sharedBy}</p>}
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-12 max-w-4xl">
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <motion.div
+              animate={{ rotate: 360 }}
+              transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+            >
+              <FileText className="h-10 w-10 text-brand-green" />
+            </motion.div>
+            <p className="ml-3 text-gray-400">Loading COA...</p>
+          </div>
+        ) : !shared || !labResult || !potency ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center">
+            <FileText className="h-16 w-16 text-gray-500 mb-4" />
+            <h3 className="text-xl font-medium text-white">COA not available</h3>
+            <p className="text-gray-400 mt-2 max-w-md">
+              {unavailable ?? "This link is not available."} Ask the business that shared it for a new link.
+            </p>
+          </div>
+        ) : (
+          <motion.div initial="hidden" animate="visible" variants={fadeIn} className="space-y-6">
+            <div className="flex flex-col md:flex-row justify-between md:items-end gap-4">
+              <div>
+                <Badge className="mb-3 bg-brand-green text-white">
+                  <BadgeCheck className="mr-1 h-3.5 w-3.5" />
+                  Verified COA
+                </Badge>
+                <h1 className="font-serif text-3xl md:text-4xl font-medium text-white mb-2">
+                  {labResult.product_name || labResult.file_name}
+                </h1>
+                {details.length > 0 && (
+                  <p className="text-gray-400">
+                    {details.map((detail) => `${detail.label}: ${detail.value}`).join(" · ")}
+                  </p>
+                )}
+              </div>
+              <Button
+                onClick={handleDownload}
+                disabled={isDownloading}
+                className="bg-brand-green text-white hover:bg-green-600"
+              >
+                {isDownloading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                Original COA
+              </Button>
+            </div>
+
+            <p className="text-sm text-gray-400">
+              Results are read from the certificate of analysis issued by {labResult.lab_name || "the testing lab"}.
+              Download the original to check them against the lab's report.
+            </p>
+
+            <div className={sectionClassName}>
+              <SectionTitle>Potency</SectionTitle>
+              <PotencySummary potency={potency} />
+            </div>
+
+            {complianceReport && (
+              <div className={sectionClassName}>
+                <SectionTitle>Compliance</SectionTitle>
+                <CompliancePanel report={complianceReport} />
+              </div>
+            )}
+
+            {cannabinoids.length > 0 && (
+              <div className={sectionClassName}>
+                <SectionTitle>Cannabinoid Profile</SectionTitle>
+                <AnalyteTable analytes={cannabinoids} />
+              </div>
+            )}
+
+            {terpenes.length > 0 && (
+              <div className={sectionClassName}>
+                <SectionTitle>Terpene Data</SectionTitle>
+                <AnalyteTable analytes={terpenes} />
+              </div>
+            )}
+
+            {SAFETY_PANELS.map((panel) => {
+              const rows = analytes.filter((analyte) => analyte.category === panel);
+              return rows.length > 0 && (
+                <div key={panel} className={sectionClassName}>
+                  <SectionTitle>{PANEL_LABELS[panel]}</SectionTitle>
+                  <AnalyteTable analytes={rows} />
+                </div>
+              );
+            })}
+
+            {shared.linkExpiresAt && (
+              <p className="text-xs text-gray-500 text-center">
+                This link expires on {formatDate(shared.linkExpiresAt)}.
+              </p>
+            )}
+          </motion.div>
+        )}
+      </div>
+
+      <Toaster />
+    </div>
+  );
+};
+
+export default SharedReport;
@@ -0,0 +1,352 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { ArrowLeft, GitCompare, Loader2, Sprout, Trash2 } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Toaster } from "@/components/ui/toaster";
+import { useToast } from "@/components/ui/use-toast";
+import { Json, Tables } from "@/types/supabase";
+import { LabResultAnalyte } from "@/components/history/AnalyteTable";
+import { resolvePotency } from "@/components/history/PotencySummary";
+import { alignAnalytes } from "@/components/compare/ComparisonTable";
+import TrendChart from "@/components/strains/TrendChart";
+import { buildCompareUrl, MAX_COMPARE_RESULTS, MIN_COMPARE_RESULTS } from "@/lib/compareLinks";
+import { coaDate, sortByCoaDate } from "@/lib/strainLineage";
+import { formatPercent } from "../../../supabase/functions/_shared/potency";
+
+type Strain = Pick<Tables<"strains">, "id" | "name" | "notes">;
+
+interface LineageResult {
+  id: string;
+  file_name: string;
+  created_at: string | null;
+  tested_at: string | null;
+  total_thc: number | null;
+  total_cbd: number | null;
+  total_terpenes: number | null;
+  dominant_terpenes: Json;
+  batch: { id: string; batch_number: string | null };
+}
+
+// Same palette as the comparison view, extended for more terpenes
+const SERIES_COLORS = ["#4CAF50", "#3B82F6", "#F59E0B", "#EC4899", "#8B5CF6"];
+const TREND_TERPENE_COUNT = 5;
+
+const fadeIn = {
+  hidden: { opacity: 0, y: 10 },
+  visible: { opacity: 1, y: 0, transition: { duration: 0.5, ease: "easeOut" } },
+};
+
+const sectionClassName = "p-6 bg-gradient-to-br from-white to-gray-50 rounded-xl border border-gray-100 shadow-sm text-gray-800";
+
+const SectionTitle = ({ children }: { children: React.ReactNode }) => (
+  <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+    <Badge variant="outline" className="mr-2 border-brand-green/30 text-brand-green bg-brand-green/5">
+      {children}
+    </Badge>
+  </h3>
+);
+
+const formatValue = (value: number | null) => (value !== null ? formatPercent(value) : "—");
+
+const StrainDetail = () => {
+  const { strainId } = useParams<{ strainId: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [strain, setStrain] = useState<Strain | null>(null);
+  const [results, setResults] = useState<LineageResult[]>([]);
+  const [analytes, setAnalytes] = useState<LabResultAnalyte[]>([]);
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchStrain = async () => {
+      if (!strainId) return;
+      setLoading(true);
+
+      try {
+        const [strainResponse, resultsResponse] = await Promise.all([
+          supabase.from("strains").select("id, name, notes").eq("id", strainId).maybeSingle(),
+          supabase
+            .from("lab_results")
+            .select("id, file_name, created_at, tested_at, total_thc, total_cbd, total_terpenes, dominant_terpenes, batch:batches!inner(id, batch_number)")
+            .eq("batch.strain_id", strainId),
+        ]);
+
+        if (strainResponse.error) throw strainResponse.error;
+        if (resultsResponse.error) throw resultsResponse.error;
+
+        // Many-to-one embeds come back as a single object; the generated types predate that inference
+        const lineage = sortByCoaDate((resultsResponse.data || []) as unknown as LineageResult[]);
+        setStrain(strainResponse.data);
+        setNotes(strainResponse.data?.notes ?? "");
+        setResults(lineage);
+
+        if (lineage.length > 0) {
+          const { data, error } = await supabase
+            .from("lab_result_analytes")
+            .select("*")
+            .in("lab_result_id", lineage.map((result) => result.id));
+          if (error) throw error;
+          setAnalytes(data || []);
+        }
+      } catch (error) {
+        console.error("Error fetching strain:", error);
+        toast({ title: "Error", description: "Failed to load this strain.", variant: "destructive" });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStrain();
+  }, [strainId, toast]);
+
+  const resultIds = useMemo(() => results.map((result) => result.id), [results]);
+  const points = results.map((result) => coaDate(result));
+
+  const potencies = useMemo(
+    () => results.map((result) =>
+      resolvePotency(result, analytes.filter((analyte) => analyte.lab_result_id === result.id))),
+    [results, analytes],
+  );
+
+  const potencySeries = [
+    { label: "Total THC", color: SERIES_COLORS[0], values: potencies.map((potency) => potency.totalThc) },
+    { label: "Total CBD", color: SERIES_COLORS[1], values: potencies.map((potency) => potency.totalCbd) },
+    { label: "Total Terpenes", color: SERIES_COLORS[2], values: potencies.map((potency) => potency.totalTerpenes) },
+  ];
+
+  // Rows are sorted by their highest value, so the first rows are the strain's signature terpenes
+  const terpeneSeries = useMemo(
+    () => alignAnalytes(resultIds, analytes, "terpene")
+      .slice(0, TREND_TERPENE_COUNT)
+      .map((row, index) => ({
+        label: row.name,
+        color: SERIES_COLORS[index % SERIES_COLORS.length],
+        values: row.values.map((value) => value ?? null),
+      })),
+    [resultIds, analytes],
+  );
+
+  const handleSaveNotes = async () => {
+    if (!strain) return;
+    setIsSaving(true);
+    const { error } = await supabase
+      .from("strains")
+      .update({ notes: notes.trim() || null, updated_at: new Date().toISOString() })
+      .eq("id", strain.id);
+    setIsSaving(false);
+
+    if (error) {
+      console.error("Error saving strain notes:", error);
+      toast({ title: "Error", description: "Failed to save your notes.", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Notes saved", description: `Notes for ${strain.name} were updated.` });
+  };
+
+  const handleDelete = async () => {
+    if (!strain) return;
+    const { error } = await supabase.from("strains").delete().eq("id", strain.id);
+
+    if (error) {
+      console.error("Error deleting strain:", error);
+      toast({ title: "Error", description: "Failed to delete this strain.", variant: "destructive" });
+      return;
+    }
+    navigate("/strains");
+  };
+
+  // The most recent batches, newest first so the latest COA is the comparison baseline
+  const compareIds = resultIds.slice(-MAX_COMPARE_RESULTS).reverse();
+
+  return (
+    <div className="min-h-screen bg-brand-dark text-gray-300 font-sans">
+      <header className="sticky top-0 z-50 w-full h-20 border-b border-white/10 bg-brand-dark/90 backdrop-blur-md">
+        <div className="container mx-auto px-4 flex h-full items-center justify-between">
+          <Link to="/" className="flex items-center">
+            <img src="/straininsightslogo.png" alt="StrainInsights Logo" className="h-12 w-auto" />
+          </Link>
+          <nav className="hidden md:flex items-center space-x-6 text-sm font-medium">
+            <Link to="/upload" className="text-gray-300 hover:text-white transition-colors">Upload</Link>
+            <Link to="/output-history" className="text-gray-300 hover:text-white transition-colors">History</Link>
+            <Link to="/strains" className="text-brand-green hover:text-green-500 transition-colors">Strains</Link>
+          </nav>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-12">
+        <motion.div
+          initial="hidden"
+          animate="visible"
+          variants={fadeIn}
+          className="mb-8 flex flex-col md:flex-row justify-between items-center"
+        >
+          <div>
+            <h1 className="font-serif text-3xl md:text-4xl font-medium text-white mb-2">
+              {strain?.name ?? "Strain"}
+            </h1>
+            <p className="text-gray-400">
+              {results.length} COA{results.length !== 1 ? "s" : ""} across{" "}
+              {new Set(results.map((result) => result.batch.id)).size} batches
+            </p>
+          </div>
+          <div className="mt-4 md:mt-0 flex gap-3">
+            <Link to="/strains">
+              <Button variant="outline" className="bg-white/5 hover:bg-white/10 text-white border-white/20">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                All Strains
+              </Button>
+            </Link>
+            {compareIds.length >= MIN_COMPARE_RESULTS && (
+              <Button onClick={() => navigate(buildCompareUrl(compareIds))} className="bg-brand-green text-white hover:bg-green-600">
+                <GitCompare className="mr-2 h-4 w-4" />
+                Compare Latest Batches
+              </Button>
+            )}
+          </div>
+        </motion.div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <motion.div
+              animate={{ rotate: 360 }}
+              transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+            >
+              <Sprout className="h-10 w-10 text-brand-green" />
+            </motion.div>
+            <p className="ml-3 text-gray-400">Loading strain...</p>
+          </div>
+        ) : !strain ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center">
+            <Sprout className="h-16 w-16 text-gray-500 mb-4" />
+            <h3 className="text-xl font-medium text-white">Strain not found</h3>
+            <p className="text-gray-400 mt-2 max-w-md">It may have been deleted.</p>
+          </div>
+        ) : (
+          <motion.div initial="hidden" animate="visible" variants={fadeIn} className="space-y-6">
+            <div className={sectionClassName}>
+              <SectionTitle>Potency Trend</SectionTitle>
+              <TrendChart points={points} series={potencySeries} ariaLabel={`Potency trend for ${strain.name}`} />
+            </div>
+
+            <div className={sectionClassName}>
+              <SectionTitle>Terpene Trend</SectionTitle>
+              {terpeneSeries.length > 0 ? (
+                <TrendChart points={points} series={terpeneSeries} ariaLabel={`Terpene trend for ${strain.name}`} />
+              ) : (
+                <p className="text-sm text-gray-500">None of these COAs report terpenes.</p>
+              )}
+            </div>
+
+            <div className={sectionClassName}>
+              <SectionTitle>Batches</SectionTitle>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Tested</TableHead>
+                    <TableHead>File</TableHead>
+                    <TableHead className="text-right">Total THC</TableHead>
+                    <TableHead className="text-right">Total CBD</TableHead>
+                    <TableHead className="text-right">Total Terpenes</TableHead>
+                    <TableHead>Dominant Terpenes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...results].reverse().map((result) => {
+                    const potency = potencies[resultIds.indexOf(result.id)];
+                    return (
+                      <TableRow key={result.id}>
+                        <TableCell className="font-medium text-gray-900">{result.batch.batch_number ?? "—"}</TableCell>
+                        <TableCell>
+                          {coaDate(result)}
+                          {!result.tested_at && <span className="block text-[10px] text-gray-400">upload date</span>}
+                        </TableCell>
+                        <TableCell className="text-gray-600">{result.file_name}</TableCell>
+                        <TableCell className="text-right">{formatValue(potency.totalThc)}</TableCell>
+                        <TableCell className="text-right">{formatValue(potency.totalCbd)}</TableCell>
+                        <TableCell className="text-right">{formatValue(potency.totalTerpenes)}</TableCell>
+                        <TableCell className="text-gray-600">
+                          {potency.dominantTerpenes.map((terpene) => terpene.name).join(", ") || "—"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className={sectionClassName}>
+              <SectionTitle>Notes</SectionTitle>
+              <Label htmlFor="strain-notes" className="sr-only">Notes</Label>
+              <Textarea
+                id="strain-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Grower, phenotype, cultivation changes between batches..."
+                className="bg-white border-gray-200 text-gray-900 min-h-[100px]"
+              />
+              <div className="mt-4 flex justify-between">
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" className="text-red-600 border-red-200 hover:bg-red-50">
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete Strain
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {strain.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Its batches are removed. The COAs stay in your history, detached from any strain.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleDelete} className="bg-red-600 hover:bg-red-700">
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+                <Button onClick={handleSaveNotes} disabled={isSaving} className="bg-brand-green hover:bg-green-600 text-white">
+                  {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Notes
+                </Button>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </div>
+
+      <Toaster />
+    </div>
+  );
+};
+
+export default StrainDetail;
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { motion } from "framer-motion";
+import { History, Sprout } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { useAuth } from "../../../supabase/auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Toaster } from "@/components/ui/toaster";
+import { useToast } from "@/components/ui/use-toast";
+import { coaDate, sortByCoaDate } from "@/lib/strainLineage";
+import { formatPercent } from "../../../supabase/functions/_shared/potency";
+
+interface StrainSummary {
+  id: string;
+  name: string;
+  notes: string | null;
+  batches: {
+    id: string;
+    batch_number: string | null;
+    lab_results: { id: string; total_thc: number | null; tested_at: string | null; created_at: string | null }[];
+  }[];
+}
+
+const fadeIn = {
+  hidden: { opacity: 0, y: 10 },
+  visible: { opacity: 1, y: 0, transition: { duration: 0.5, ease: "easeOut" } },
+};
+
+const Strains = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [strains, setStrains] = useState<StrainSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchStrains = async () => {
+      if (!user) return;
+
+      try {
+        const { data, error } = await supabase
+          .from("strains")
+          .select("id, name, notes, batches(id, batch_number, lab_results(id, total_thc, tested_at, created_at))")
+          .eq("user_id", user.id)
+          .order("name");
+
+        if (error) throw error;
+
+        setStrains(data || []);
+      } catch (error) {
+        console.error("Error fetching strains:", error);
+        toast({ title: "Error", description: "Failed to load your strains.", variant: "destructive" });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStrains();
+  }, [user, toast]);
+
+  return (
+    <div className="min-h-screen bg-brand-dark text-gray-300 font-sans">
+      <header className="sticky top-0 z-50 w-full h-20 border-b border-white/10 bg-brand-dark/90 backdrop-blur-md">
+        <div className="container mx-auto px-4 flex h-full items-center justify-between">
+          <Link to="/" className="flex items-center">
+            <img src="/straininsightslogo.png" alt="StrainInsights Logo" className="h-12 w-auto" />
+          </Link>
+          <nav className="hidden md:flex items-center space-x-6 text-sm font-medium">
+            <Link to="/upload" className="text-gray-300 hover:text-white transition-colors">Upload</Link>
+            <Link to="/output-history" className="text-gray-300 hover:text-white transition-colors">History</Link>
+            <Link to="/strains" className="text-brand-green hover:text-green-500 transition-colors">Strains</Link>
+          </nav>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-12">
+        <motion.div
+          initial="hidden"
+          animate="visible"
+          variants={fadeIn}
+          className="mb-8 flex flex-col md:flex-row justify-between items-center"
+        >
+          <div>
+            <h1 className="font-serif text-3xl md:text-4xl font-medium text-white mb-2">Strains</h1>
+            <p className="text-gray-400">Track potency and terpenes across batches of the same strain</p>
+          </div>
+          <Link to="/output-history" className="mt-4 md:mt-0">
+            <Button variant="outline" className="bg-white/5 hover:bg-white/10 text-white border-white/20">
+              <History className="mr-2 h-4 w-4" />
+              Attach COAs from History
+            </Button>
+          </Link>
+        </motion.div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <motion.div
+              animate={{ rotate: 360 }}
+              transition={{ duration: 2, repeat: Infinity, ease: "linear" }}
+            >
+              <Sprout className="h-10 w-10 text-brand-green" />
+            </motion.div>
+            <p className="ml-3 text-gray-400">Loading strains...</p>
+          </div>
+        ) : strains.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-center">
+            <Sprout className="h-16 w-16 text-gray-500 mb-4" />
+            <h3 className="text-xl font-medium text-white">No strains yet</h3>
+            <p className="text-gray-400 mt-2 max-w-md">
+              Open a report in your history and attach it to a strain. New COAs for that product are
+              then added to the strain automatically.
+            </p>
+          </div>
+        ) : (
+          <motion.div initial="hidden" animate="visible" variants={fadeIn} className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {strains.map((strain) => {
+              const results = sortByCoaDate(strain.batches.flatMap((batch) => batch.lab_results));
+              const latest = results[results.length - 1];
+              return (
+                <Link key={strain.id} to={`/strains/${strain.id}`}>
+                  <Card className="h-full overflow-hidden bg-white/5 border-white/10 hover:border-white/20 shadow-lg transition-all hover:shadow-xl hover:shadow-brand-green/5">
+                    <CardHeader className="pb-2 border-b border-white/10">
+                      <CardTitle className="text-lg text-white">{strain.name}</CardTitle>
+                      <CardDescription className="text-gray-400">
+                        {strain.batches.length} batch{strain.batches.length !== 1 ? "es" : ""} · {results.length} COA
+                        {results.length !== 1 ? "s" : ""}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="pt-4 flex items-center justify-between">
+                      <span className="text-sm text-gray-400">
+                        {latest ? `Latest: ${coaDate(latest)}` : "No COAs"}
+                      </span>
+                      {latest?.total_thc != null && (
+                        <Badge variant="outline" className="text-xs border-green-400/30 text-green-400 bg-green-500/10">
+                          {formatPercent(latest.total_thc)} THC
+                        </Badge>
+                      )}
+                    </CardContent>
+                  </Card>
+                </Link>
+              );
+            })}
+          </motion.div>
+        )}
+      </div>
+
+      <Toaster />
+    </div>
+  );
+};
+
+export default Strains;
@@ -30,10 +30,15 @@ import { toast } from "@/components/ui/use-toast";
 import { supabase } from "../../../supabase/supabase";
 import { initiateCheckout } from "@/lib/stripeUtils";
 import PricingSection from "@/components/home/PricingSection";
-
-// Constants for file uploads
-const MAX_FILE_SIZE_MB = 1;
-const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
+import { STATUS_LABELS, STATUS_PROGRESS, useLabResultStatus } from "@/hooks/useLabResultStatus";
+import { useUploadQueue } from "@/hooks/useUploadQueue";
+import { AnalysisProfile, useAnalysisProfiles } from "@/hooks/useAnalysisProfiles";
+import { ACCEPTED_FILE_TYPES, collectDroppedFiles, uploadLabResult, validateCoaFile } from "@/lib/labResultUpload";
+import { usePlans } from "@/hooks/usePlans";
+import { getUploadLimitMb } from "@/lib/plans";
+import UploadQueue from "@/components/upload/UploadQueue";
+import VoiceViolations, { toVoiceViolations } from "@/components/history/VoiceViolations";
+import DocumentDownloads from "@/components/history/DocumentDownloads";
 
 // Animation Variants
 const fadeIn = {
@@ -64,6 +69,9 @@ const UploadPage = () => {
   const [isLoadingUsage, setIsLoadingUsage] = useState(true);
   const [showUpgradeDialog, setShowUpgradeDialog] = useState(false);
   const [hasManuallyClosedDialog, setHasManuallyClosedDialog] = useState(false);
+  const { profiles: analysisProfiles, isLoading: isLoadingProfiles } = useAnalysisProfiles();
+  const { plans } = usePlans();
+  const uploadLimitMb = getUploadLimitMb(plans, currentUserPlanId);
 
   // Fetch user's usage data from database
   const fetchUsageData = useCallback(async () => {
@@ -118,6 +126,49 @@ const UploadPage = () => {
     fetchUsageData();
   }, [fetchUsageData]);
 
+  // Batch uploads: each queued file becomes its own lab_results row
+  const uploadQueue = useUploadQueue({
+    userId: user?.id ?? null,
+    uploadLimitMb,
+    onUsageChange: (used, limit) => {
+      setGenerationsUsed(used);
+      setGenerationLimit(limit);
+    },
+    onItemFailed: fetchUsageData, // Failed runs are refunded server-side
+  });
+  const isBatchMode = uploadQueue.items.length > 0;
+
+  // Routes newly selected files to the single-file flow or the batch queue
+  const acceptFiles = (selectedFiles: File[]) => {
+    if (selectedFiles.length === 0) return;
+
+    if (selectedFiles.length > 1 || isBatchMode) {
+      // Move an already-selected single file into the batch so nothing is lost
+      uploadQueue.addFiles(file ? [file, ...selectedFiles] : selectedFiles);
+      setFile(null);
+      toast({
+        title: "Files added to batch",
+        description: `${selectedFiles.length} file${selectedFiles.length !== 1 ? 's' : ''} added to the upload queue.`,
+        duration: 3000,
+      });
+      return;
+    }
+
+    const selectedFile = selectedFiles[0];
+    const validationError = validateCoaFile(selectedFile, uploadLimitMb);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setFile(selectedFile);
+    toast({
+      title: "File selected",
+      description: `${selectedFile.name} is ready to be processed.`,
+      duration: 3000,
+    });
+  };
+
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
@@ -136,7 +187,7 @@ const UploadPage = () => {
     setIsDragging(false);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
@@ -154,23 +205,10 @@ const UploadPage = () => {
     }
 
 
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const droppedFile = e.dataTransfer.files[0];
-      if (droppedFile.type === "application/pdf" && droppedFile.size <= MAX_FILE_SIZE_BYTES) {
-        setFile(droppedFile);
-        toast({
-          title: "File selected",
-          description: `${droppedFile.name} is ready to be processed.`,
-          duration: 3000,
-        });
-      } else if (droppedFile.type !== "application/pdf") {
-        setError("Invalid file type. Please upload a PDF.");
-      } else {
-        setError(`File size exceeds ${MAX_FILE_SIZE_MB}MB limit.`);
-      }
-      e.dataTransfer.clearData();
-    }
-  }, [toast, generationsUsed, generationLimit, isLoadingUsage]); // Added isLoadingUsage
+    // Includes the contents of dropped folders
+    const droppedFiles = await collectDroppedFiles(e.dataTransfer);
+    acceptFiles(droppedFiles);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setError(null);
@@ -189,126 +227,45 @@ const UploadPage = () => {
     }
 
     if (e.target.files && e.target.files.length > 0) {
-      const selectedFile = e.target.files[0];
-      if (selectedFile.type === "application/pdf" && selectedFile.size <= MAX_FILE_SIZE_BYTES) {
-        setFile(selectedFile);
-        toast({
-          title: "File selected",
-          description: `${selectedFile.name} is ready to be processed.`,
-          duration: 3000,
-        });
-      } else if (selectedFile.type !== "application/pdf") {
-        setError("Invalid file type. Please upload a PDF.");
-      } else {
-        setError(`File size exceeds ${MAX_FILE_SIZE_MB}MB limit.`);
-      }
-    } else {
+      acceptFiles(Array.from(e.target.files));
+      e.target.value = ''; // Allow selecting the same files again
+    } else if (!isBatchMode) {
         setFile(null); // Ensure file is null if no file selected
     }
   };
 
-  const fetchDescription = async (labResultId: string) => {
-    if (!labResultId) return;
-
-    setIsLoadingDescription(true);
-    try {
-      console.log(`Fetching description for lab result ID: ${labResultId}`);
-
-      let attempts = 0;
-      const maxAttempts = 15; // Increased attempts slightly
-      const pollInterval = 3000; // Poll every 3 seconds
-      let pollingTimeoutId: NodeJS.Timeout | null = null; // To potentially clear timeout
-
-      const pollForDescription = async () => {
-        if (attempts >= maxAttempts) {
-          console.log("Max polling attempts reached");
-          toast({ title: "Timeout", description: "Could not retrieve results in time. Please check history later.", variant: "destructive" });
-          setIsLoadingDescription(false);
-          setUploadStatus('failed'); // Set status to failed on timeout
-          return;
-        }
+  // Live processing status for the current upload (realtime, with polling fallback)
+  const {
+    status: labResultStatus,
+    description: labResultDescription,
+    voiceViolations: labResultVoiceViolations,
+  } = useLabResultStatus(currentLabResultId);
 
-        attempts++;
-        console.log(`Polling attempt ${attempts}/${maxAttempts}`);
-
-        try {
-          const { data, error } = await supabase
-            .from('lab_results')
-            .select('description, status')
-            .eq('id', labResultId)
-            .single();
-
-          if (error) {
-            console.error("Error fetching description poll:", error);
-            // Don't immediately fail on a single poll error, maybe retry?
-            // For now, we'll continue polling up to maxAttempts
-          }
-          
-          // Check status explicitly
-          if (data?.status === 'completed') {
-            if (data.description) {
-              console.log("Description found:", data.description);
-              setGeneratedDescription(data.description);
-              setIsLoadingDescription(false);
-              setUploadStatus('complete'); // <<< SET STATUS TO COMPLETE HERE
-              toast({ title: "Analysis Complete!", description: "Results are ready.", duration: 5000 });
-            } else {
-              // Completed but no description? Treat as error/incomplete for now.
-              console.error("Processing completed but no description found.");
-              toast({ title: "Result Issue", description: "Processing finished, but description is missing.", variant: "destructive" });
-              setIsLoadingDescription(false);
-              setUploadStatus('failed'); // Or a specific 'incomplete' status?
-            }
-            // Stop polling once completed (success or missing description)
-            return; 
-          } else if (data?.status === 'error') {
-            console.error("Lab result processing encountered an error in DB");
-            toast({ title: "Processing Error", description: "An error occurred during analysis.", variant: "destructive" });
-            setIsLoadingDescription(false);
-            setUploadStatus('failed'); // <<< SET STATUS TO FAILED HERE
-            return; // Stop polling on error
-          } else if (data?.status === 'processing' || data?.status === 'pending') { 
-            // Continue polling
-            console.log("Description not ready yet, polling again...");
-            pollingTimeoutId = setTimeout(pollForDescription, pollInterval); 
-          } else {
-            // Handle unexpected status or null data
-            console.log(`Unexpected status (${data?.status ?? 'null'}) or null data, continuing poll...`);
-            pollingTimeoutId = setTimeout(pollForDescription, pollInterval); 
-          }
-        } catch (pollError) {
-           console.error("Error inside poll attempt:", pollError);
-           // Continue polling even if one attempt throws an error
-           pollingTimeoutId = setTimeout(pollForDescription, pollInterval); 
-        }
-      };
-
-      // Start polling
-      await pollForDescription();
+  // React to the processing function reaching a terminal status
+  useEffect(() => {
+    if (uploadStatus !== 'processing') return;
 
-    } catch (err) {
-      console.error("Error initiating fetchDescription poll:", err);
+    if (labResultStatus === 'completed') {
       setIsLoadingDescription(false);
-      setUploadStatus('failed'); // Fail if the initial setup fails
-      toast({ title: "Error", description: "Could not start fetching results.", variant: "destructive" });
-    }
-  };
-
-  // Fetch description when processing starts
-  useEffect(() => {
-    // Trigger polling when status becomes 'processing' and we have an ID
-    if (currentLabResultId && uploadStatus === 'processing') { 
-      setGeneratedDescription('');
-      setIsLoadingDescription(true); // Set loading true immediately
-      fetchDescription(currentLabResultId);
+      if (labResultDescription) {
+        setGeneratedDescription(labResultDescription);
+        setUploadStatus('complete');
+        toast({ title: "Analysis Complete!", description: "Results are ready.", duration: 5000 });
+      } else {
+        console.error("Processing completed but no description found.");
+        toast({ title: "Result Issue", description: "Processing finished, but description is missing.", variant: "destructive" });
+        setUploadStatus('failed');
+      }
+    } else if (labResultStatus === 'error') {
+      console.error("Lab result processing encountered an error in DB");
+      toast({ title: "Processing Error", description: "An error occurred during analysis. Your generation has been refunded.", variant: "destructive" });
+      setIsLoadingDescription(false);
+      setUploadStatus('failed');
+      fetchUsageData(); // Failed runs are refunded server-side
     }
+  }, [labResultStatus, labResultDescription, uploadStatus, fetchUsageData]);
 
-    // Optional: Cleanup polling if component unmounts or dependencies change drastically
-    // This might require returning the timeout ID from fetchDescription and clearing it.
-    // return () => { /* clear timeout if active */ }; 
-  }, [currentLabResultId, uploadStatus]); // Dependencies are correct
-
-  const uploadToSupabase = async (file: File, isLongAnalysis: boolean = false): Promise<{ success: boolean; error?: string; labResultId?: string; }> => {
+  const uploadToSupabase = async (file: File, profile: AnalysisProfile): Promise<{ success: boolean; error?: string; labResultId?: string; }> => {
     if (!user) {
       return { success: false, error: "You must be logged in to upload files." };
     }
@@ -320,149 +277,29 @@ const UploadPage = () => {
     if (isLoadingUsage) {
         return { success: false, error: "Usage data is still loading. Please wait." };
     }
-    if (currentUsageCheck >= currentLimitCheck) {
+    if (currentUsageCheck + profile.credit_cost > currentLimitCheck) {
         return { success: false, error: `Operation limit (${currentLimitCheck}) reached. Please upgrade.` };
     }
 
-    try {
-      // Convert file to array buffer
-      const fileBuffer = await file.arrayBuffer();
-
-      // Create a unique filename with user ID and timestamp
-      const uniqueFileName = `${user.id}/${Date.now()}-${file.name}`;
-
-      // Upload to Supabase Storage
-      const { data: storageData, error: uploadError } = await supabase.storage
-        .from('labresults')
-        .upload(uniqueFileName, fileBuffer, {
-          contentType: 'application/pdf',
-          upsert: false, // Important: Don't upsert if you rely on unique names for history
-        });
-
-      if (uploadError) {
-        console.error('Supabase storage upload error:', uploadError);
-        return { success: false, error: 'Failed to upload file to storage.' };
-      }
-
-      if (!storageData?.path) {
-        return { success: false, error: 'Failed to get file path after upload.' };
-      }
-
-      const storagePath = storageData.path;
-
-      // Insert record into database with 'pending' status
-      const { data: insertData, error: insertError } = await supabase
-        .from('lab_results')
-        .insert({
-          user_id: user.id,
-          file_name: file.name,
-          storage_path: storagePath,
-          status: 'pending', // Start as pending
-          created_at: new Date().toISOString(),
-        })
-        .select('id')
-        .single();
-
-      if (insertError) {
-        console.error('Supabase DB insert error:', insertError);
-        // Attempt to delete the uploaded file if DB insert fails?
-        // await supabase.storage.from('labresults').remove([storagePath]);
-        return { success: false, error: 'Failed to save file metadata to database.' };
-      }
-
-      if (!insertData?.id) {
-        // Attempt to delete the uploaded file if DB insert somehow returns no ID?
-        // await supabase.storage.from('labresults').remove([storagePath]);
-        return { success: false, error: 'Failed to get record ID after database insert.' };
-      }
-
-      const labResultId = insertData.id;
-      setCurrentLabResultId(labResultId); // Set ID right after DB insert
-
-      // ----> Increment usage count BEFORE triggering function <----
-      // This ensures usage is counted even if the function invocation fails later
-      let usageUpdated = false;
-      try {
-          const currentUsage = generationsUsed ?? 0;
-          const { error: updateError } = await supabase
-              .from('users')
-              .update({ generations_used: currentUsage + 1 })
-              .eq('user_id', user.id);
-
-          if (updateError) {
-              console.error('Failed to update usage count:', updateError);
-              // This is critical - if usage can't be updated, we should probably fail the upload
-              // Rollback? Delete the DB record?
-              await supabase.from('lab_results').delete().eq('id', labResultId);
-              await supabase.storage.from('labresults').remove([storagePath]);
-              return { success: false, error: 'Failed to update usage count. Upload cancelled.' };
-          } else {
-              // Update local state optimistically
-              setGenerationsUsed(currentUsage + 1);
-              usageUpdated = true;
-              console.log('Usage count updated successfully.');
-          }
-      } catch (usageUpdateError) {
-          console.error('Error during usage count update:', usageUpdateError);
-           // Rollback? Delete the DB record?
-           await supabase.from('lab_results').delete().eq('id', labResultId);
-           await supabase.storage.from('labresults').remove([storagePath]);
-          return { success: false, error: 'An error occurred updating usage. Upload cancelled.' };
-      }
-      // ----> End of Increment usage count <----
-
-      // Now, update the status to 'processing' before calling the function
-       const { error: statusUpdateError } = await supabase
-           .from('lab_results')
-           .update({ status: 'processing' })
-           .eq('id', labResultId);
-
-       if (statusUpdateError) {
-            console.error('Failed to update status to processing:', statusUpdateError);
-            // Rollback usage count if status update fails?
-            if (usageUpdated) {
-                await supabase.from('users').update({ generations_used: generationsUsed ?? 0 }).eq('user_id', user.id);
-                setGenerationsUsed(generationsUsed ?? 0); // Revert optimistic update
-            }
-             await supabase.from('lab_results').delete().eq('id', labResultId);
-             await supabase.storage.from('labresults').remove([storagePath]);
-            return { success: false, error: 'Failed to update processing status. Upload cancelled.' };
-       }
-
-      // Trigger processing via Edge Function
-      const { error: functionError } = await supabase.functions.invoke(
-        isLongAnalysis ? 'process-lab-result-long' : 'process-lab-result',
-        {
-          body: {
-            pdfStoragePath: storagePath,
-            labResultId: labResultId,
-            // Pass other necessary details if needed by the function
-            // userId: user.id,
-            // fileName: file.name,
-          },
-        }
-      );
-
-      if (functionError) {
-        console.error('Supabase function invoke error, status updated to error:', functionError);
-        // Return success: true here, as the *upload and trigger* part worked,
-        // but the async function failed. Let polling handle the final state.
-        return { success: true, labResultId: labResultId }; 
-      }
-
-      // Return success result - processing is happening async
-      return {
-        success: true,
-        labResultId: labResultId
-      };
+    const result = await uploadLabResult({
+      supabase,
+      userId: user.id,
+      file,
+      analysisProfileId: profile.id,
+      onProgress: setUploadProgress,
+    });
 
-    } catch (error: any) { // Added type assertion
-      console.error('Unexpected error during upload:', error);
-      return { success: false, error: error.message || 'An unexpected error occurred during upload.' };
+    if (result.success && result.labResultId) {
+      setCurrentLabResultId(result.labResultId);
+      if (result.generationsUsed !== undefined) setGenerationsUsed(result.generationsUsed);
+      if (result.generationLimit !== undefined) setGenerationLimit(result.generationLimit);
     }
+
+    return result;
   };
 
-  const handleUpload = async () => {
+  // Single upload handler for every analysis profile (short, long, and any added in the database)
+  const handleUpload = async (profile: AnalysisProfile) => {
     // Check limit before starting upload process
     if (isLoadingUsage) {
         toast({ title: "Please wait", description: "Verifying usage limits...", duration: 2000 });
@@ -472,8 +309,8 @@ const UploadPage = () => {
     const currentUsageCheck = generationsUsed ?? 0;
     const currentLimitCheck = generationLimit ?? 1; // Use 1 if limit is null
 
-    if (currentUsageCheck >= currentLimitCheck) {
-        setError(`You have reached your generation limit (${currentLimitCheck}). Please upgrade your plan to process more files.`);
+    if (currentUsageCheck + profile.credit_cost > currentLimitCheck) {
+        setError(`${profile.name} needs ${profile.credit_cost} generation${profile.credit_cost !== 1 ? 's' : ''}, which exceeds your remaining limit (${currentLimitCheck}). Please upgrade your plan to process more files.`);
         toast({ title: "Generation Limit Reached", description: "Upgrade your plan to continue.", variant: "destructive" });
         setUploadStatus('failed'); // Set status to failed to show appropriate UI
         return;
@@ -489,39 +326,23 @@ const UploadPage = () => {
       return;
     }
 
-
     setUploadStatus('uploading');
     setUploadProgress(0);
     setError(null);
     setGeneratedDescription('');
-    // setCurrentLabResultId(null); // Don't reset here, set in uploadToSupabase
 
     toast({
       title: "Upload started",
-      description: "Uploading your Certificate of Analysis...",
+      description: `Uploading your Certificate of Analysis for a ${profile.name} analysis...`,
       duration: 3000,
     });
 
-    // Simulate upload progress visually
-    let progress = 0;
-    const progressInterval = setInterval(() => {
-        progress = Math.min(progress + 10, 90); // Simulate progress up to 90%
-        setUploadProgress(progress);
-        if (progress >= 90) {
-            clearInterval(progressInterval);
-        }
-    }, 150);
-
-
     try {
-      // Call uploadToSupabase with isLongAnalysis=false for the short version
-      const uploadResult = await uploadToSupabase(file, false);
-
-      clearInterval(progressInterval); 
+      const uploadResult = await uploadToSupabase(file, profile);
 
       if (!uploadResult.success || !uploadResult.labResultId) {
-        // Failure during the synchronous part (upload, DB insert, usage update)
-        setUploadProgress(0); 
+        // Failure during the synchronous part (upload, generation reservation)
+        setUploadProgress(0);
         setError(uploadResult.error || "Upload failed before processing could start");
         setUploadStatus('failed');
         toast({
@@ -530,18 +351,18 @@ const UploadPage = () => {
             variant: "destructive",
             duration: 5000,
           });
-        return; 
+        return;
       }
-      
+
       // If uploadResult.success is true, it means:
       // 1. File uploaded to storage
-      // 2. DB record created (status: processing)
-      // 3. Usage count incremented
-      // 4. Edge function invoked (might have failed async, but was triggered)
-      
-      // Now, set frontend status to 'processing' to initiate polling via useEffect
+      // 2. DB record created (status: processing) and the profile's credit cost charged
+      // 3. Edge function invoked (might have failed async, but was triggered)
+
+      // Processing stages are now reported by useLabResultStatus
       setUploadProgress(100); // Show upload as complete
-      setUploadStatus('processing'); 
+      setIsLoadingDescription(true);
+      setUploadStatus('processing');
 
       toast({
         title: "Upload successful",
@@ -549,106 +370,9 @@ const UploadPage = () => {
         duration: 4000,
       });
 
-      // Polling will handle the final state (complete/failed) and description display
+      // useLabResultStatus will report the final state (complete/failed) and description
 
     } catch (err: any) { // Catch unexpected errors in handleUpload itself
-      clearInterval(progressInterval);
-      setError(err.message || "Upload process failed unexpectedly.");
-      setUploadStatus('failed');
-        setUploadProgress(0);
-
-      toast({
-        title: "Upload failed",
-        description: err.message || "There was an unexpected error. Please try again.",
-        variant: "destructive",
-        duration: 5000,
-      });
-
-      console.error("Error in handleUpload:", err);
-    }
-  };
-
-  // New function for handling the long version upload
-  const handleUploadLong = async () => {
-    // Check limit before starting upload process
-    if (isLoadingUsage) {
-        toast({ title: "Please wait", description: "Verifying usage limits...", duration: 2000 });
-        return;
-    }
-    // Use local calculation for check as state might not be updated yet
-    const currentUsageCheck = generationsUsed ?? 0;
-    const currentLimitCheck = generationLimit ?? 1; // Use 1 if limit is null
-
-    if (currentUsageCheck >= currentLimitCheck) {
-        setError(`You have reached your generation limit (${currentLimitCheck}). Please upgrade your plan to process more files.`);
-        toast({ title: "Generation Limit Reached", description: "Upgrade your plan to continue.", variant: "destructive" });
-        setUploadStatus('failed'); // Set status to failed to show appropriate UI
-        return;
-    }
-
-    if (!file) {
-      setError("Please select a file.");
-      return;
-    }
-
-    if (!user) { // Keep user check here as well
-      setError("You must be logged in to upload files.");
-      return;
-    }
-
-    setUploadStatus('uploading');
-    setUploadProgress(0);
-    setError(null);
-    setGeneratedDescription('');
-
-    toast({
-      title: "Upload started",
-      description: "Uploading your Certificate of Analysis for extended analysis...",
-      duration: 3000,
-    });
-
-    // Simulate upload progress visually
-    let progress = 0;
-    const progressInterval = setInterval(() => {
-        progress = Math.min(progress + 10, 90); // Simulate progress up to 90%
-        setUploadProgress(progress);
-        if (progress >= 90) {
-            clearInterval(progressInterval);
-        }
-    }, 150);
-
-    try {
-      // Call uploadToSupabase with isLongAnalysis=true for the long version
-      const uploadResult = await uploadToSupabase(file, true);
-
-      clearInterval(progressInterval); 
-
-      if (!uploadResult.success || !uploadResult.labResultId) {
-        // Failure during the synchronous part (upload, DB insert, usage update)
-        setUploadProgress(0); 
-        setError(uploadResult.error || "Upload failed before processing could start");
-        setUploadStatus('failed');
-        toast({
-            title: "Upload Failed",
-            description: uploadResult.error || "An error occurred before processing.",
-            variant: "destructive",
-            duration: 5000,
-          });
-        return; 
-      }
-      
-      // Now, set frontend status to 'processing' to initiate polling via useEffect
-      setUploadProgress(100); // Show upload as complete
-      setUploadStatus('processing'); 
-
-      toast({
-        title: "Upload successful",
-        description: "Extended processing started. We'll fetch the detailed results shortly.",
-        duration: 4000,
-      });
-
-    } catch (err: any) { // Catch unexpected errors in handleUploadLong itself
-      clearInterval(progressInterval);
       setError(err.message || "Upload process failed unexpectedly.");
       setUploadStatus('failed');
       setUploadProgress(0);
@@ -660,7 +384,7 @@ const UploadPage = () => {
         duration: 5000,
       });
 
-      console.error("Error in handleUploadLong:", err);
+      console.error("Error in handleUpload:", err);
     }
   };
 
@@ -677,6 +401,11 @@ const UploadPage = () => {
     if (input) input.value = '';
   };
 
+  // Pipeline stage shown in the progress bar while processing
+  const processingStage = labResultStatus && labResultStatus !== 'completed' && labResultStatus !== 'error'
+    ? labResultStatus
+    : 'processing';
+
   // Determine if upload should be disabled
   const limitReached = !isLoadingUsage && generationsUsed !== null && generationLimit !== null && generationsUsed >= generationLimit;
   const isUploadingOrProcessing = uploadStatus === 'uploading' || uploadStatus === 'processing';
@@ -843,15 +572,14 @@ const UploadPage = () => {
                 <div className="mb-6">
                   <div className="flex justify-between items-center mb-2 text-sm">
                     <span className="font-medium text-white truncate pr-4 max-w-[calc(100%-80px)]">{file.name}</span> {/* Added max-width */}
-                    {uploadStatus === 'uploading' && <span className="text-gray-400 flex-shrink-0">{uploadProgress}%</span>}
-                    {uploadStatus === 'processing' && <span className="text-brand-green animate-pulse flex-shrink-0">Processing...</span>}
+                    {uploadStatus === 'uploading' && <span className="text-gray-400 flex-shrink-0">Uploading... {uploadProgress}%</span>}
+                    {uploadStatus === 'processing' && <span className="text-brand-green animate-pulse flex-shrink-0">{STATUS_LABELS[processingStage]}</span>}
                     {uploadStatus === 'complete' && <span className="text-green-400 flex items-center flex-shrink-0"><CheckCircle className="h-4 w-4 mr-1"/>Complete</span>}
                 </div>
                   {(uploadStatus === 'uploading' || uploadStatus === 'processing') &&
                     <Progress
-                      value={uploadStatus === 'processing' ? 100 : uploadProgress}
-                      // Use indeterminate animation for processing? or keep pulse
-                      className={`h-2 bg-white/10 [&>*]:bg-brand-green ${uploadStatus === 'processing' ? 'animate-pulse' : ''}`}
+                      value={uploadStatus === 'processing' ? STATUS_PROGRESS[processingStage] : uploadProgress}
+                      className="h-2 bg-white/10 [&>*]:bg-brand-green [&>*]:transition-transform [&>*]:duration-700"
                     />
                   }
                 </div>
@@ -877,7 +605,8 @@ const UploadPage = () => {
                   type="file"
                         id="file-upload-input"
                         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                  accept="application/pdf"
+                  accept={ACCEPTED_FILE_TYPES.join(",")}
+                  multiple
                   onChange={handleFileChange}
                         disabled={isUploadDisabled}
                     />
@@ -888,11 +617,11 @@ const UploadPage = () => {
                         <div className="space-y-2">
                         <p className="font-medium text-lg text-white">
                             <label htmlFor="file-upload-input" className={`transition-colors ${isUploadDisabled ? 'cursor-not-allowed' : 'cursor-pointer'} ${isDragging ? 'text-brand-green' : 'text-brand-green'}`}>
-                            Choose a PDF
+                            Choose files
                             </label>
                             {" "}or drag and drop
                         </p>
-                        <p className="text-sm text-gray-400">PDF files only, max 1MB</p>
+                        <p className="text-sm text-gray-400">PDFs, PNG/JPEG photos or folders, max {uploadLimitMb}MB each</p>
                         </div>
                     </div>
                     {/* Display loading usage indicator */}
@@ -918,6 +647,25 @@ const UploadPage = () => {
                 </motion.div>
               )}
 
+              {/* Batch Queue */}
+              {isBatchMode && (
+                <div className="mt-6">
+                  <UploadQueue
+                    items={uploadQueue.items}
+                    isRunning={uploadQueue.isRunning}
+                    remainingGenerations={
+                      generationsUsed !== null && generationLimit !== null
+                        ? Math.max(generationLimit - generationsUsed, 0)
+                        : null
+                    }
+                    profiles={analysisProfiles}
+                    onStart={(analysisProfileId) => uploadQueue.start(analysisProfileId)}
+                    onRemove={uploadQueue.removeItem}
+                    onClear={uploadQueue.clear}
+                  />
+                </div>
+              )}
+
               {/* File Ready View */}
               {/* Show file ready view if: file selected AND status is idle */}
               {file && uploadStatus === 'idle' && !isUploadingOrProcessing && (
@@ -935,22 +683,24 @@ const UploadPage = () => {
                       <p className="text-xs text-gray-400 mt-1">{(file.size / 1024).toFixed(2)} KB</p>
                     </div>
                     <div className="flex flex-wrap gap-3 mt-2 justify-center">
-                      <Button
-                        onClick={handleUpload}
-                        className="bg-brand-green text-white hover:bg-green-600 font-semibold shadow-lg hover:shadow-brand-green/30 disabled:opacity-50 disabled:cursor-not-allowed"
-                        disabled={isUploadDisabled} // Use the combined disabled state
-                      >
-                        <UploadCloud className="mr-2 h-5 w-5" />
-                        Extract COA Data (Short)
-                      </Button>
-                      <Button
-                        onClick={handleUploadLong}
-                        className="bg-brand-green text-white hover:bg-green-600 font-semibold shadow-lg hover:shadow-brand-green/30 disabled:opacity-50 disabled:cursor-not-allowed"
-                        disabled={isUploadDisabled} // Use the combined disabled state
-                      >
-                        <UploadCloud className="mr-2 h-5 w-5" />
-                        Extract COA Data (Long)
-                      </Button>
+                      {isLoadingProfiles && (
+                        <p className="text-sm text-gray-400 animate-pulse self-center">Loading analysis options...</p>
+                      )}
+                      {analysisProfiles.map((profile) => (
+                        <Button
+                          key={profile.id}
+                          onClick={() => handleUpload(profile)}
+                          title={profile.description || undefined}
+                          className="bg-brand-green text-white hover:bg-green-600 font-semibold shadow-lg hover:shadow-brand-green/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                          disabled={isUploadDisabled} // Use the combined disabled state
+                        >
+                          <UploadCloud className="mr-2 h-5 w-5" />
+                          Extract COA Data ({profile.name})
+                          {profile.credit_cost > 1 && (
+                            <span className="ml-2 text-xs opacity-80">{profile.credit_cost} credits</span>
+                          )}
+                        </Button>
+                      ))}
                       <Button
                         variant="outline"
                         onClick={clearFile}
@@ -997,6 +747,9 @@ const UploadPage = () => {
                 <div className="mb-6 p-4 bg-white/5 rounded-lg border border-white/10">
                   <h4 className="text-sm font-medium text-gray-200 mb-2">Generated Description:</h4>
                   <p className="text-sm text-gray-300 whitespace-pre-line">{generatedDescription}</p>
+                  <div className="mt-4">
+                    <VoiceViolations violations={toVoiceViolations(labResultVoiceViolations)} />
+                  </div>
                 </div>
               ) : (
                  // Show if not loading and no description (could be due to error or poll timeout)
@@ -1016,6 +769,7 @@ const UploadPage = () => {
                     View History
                   </Button>
                 </Link>
+                {currentLabResultId && <DocumentDownloads labResultId={currentLabResultId} />}
               <Button
                   variant="outline"
                   onClick={clearFile}
@@ -1048,21 +802,6 @@ const UploadPage = () => {
                   excludePlanId={currentUserPlanId || undefined}
                   title="" 
                   subtitle="" 
-                  planFeatures={{
-                    // Plan for $35 (Premium)
-                    'SC9FWWIFZ7QDCM': [
-                      "500 Generations/Month",
-                      "2 GB Storage",
-                      "Authentication + Latest Improvements",
-                      "Community Support"
-                    ],
-                    // Plan for $15 (Basic)
-                    'SC9FJQGAEZLGH5': [
-                      "100 Generations/Month",
-                      "1 GB Storage",
-                      "Basic Authentication"
-                    ]
-                  }}
                 />
           </div>
               
@@ -35,6 +35,7 @@ import { Link, useNavigate } from "react-router-dom";
 import { useAuth } from "../../../supabase/auth";
 import { useEffect, useState } from "react";
 import { supabase } from "../../../supabase/supabase";
+import { fetchPricingPlans, formatPlanPrice, PricingPlan } from "@/lib/plans";
 import {
   Card,
   CardContent,
@@ -49,26 +50,6 @@ import { useToast } from "@/components/ui/use-toast";
 import { Toaster } from "@/components/ui/toaster";
 import { motion, AnimatePresence } from "framer-motion";
 
-// Define the Plan type
-interface Plan {
-  id: string;
-  object: string;
-  active: boolean;
-  amount: number;
-  currency: string;
-  interval: string;
-  interval_count: number;
-  product: { // Product is now an object due to expand in Edge Function
-    id: string;
-    name: string;
-    metadata?: Record<string, any>; 
-    [key: string]: any; 
-  } | string; // Or string as fallback
-  created: number;
-  livemode: boolean;
-  [key: string]: any;
-}
-
 // Testimonial interface
 interface Testimonial {
   id: number;
@@ -122,24 +103,20 @@ const slideInRight = {
 
 // Add this function at the top level, after the interfaces but before the component
 const CACHE_EXPIRY_TIME = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
+// Plan catalog rows from get-plans (the key changed when get-plans stopped returning Stripe prices)
+const PLANS_CACHE_KEY = 'pricingPlanCatalog';
 
 export default function LandingPage() {
   const { user, signOut } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate(); // Import and use useNavigate for programmatic navigation
 
-  const [plans, setPlans] = useState<Plan[]>([]);
+  const [plans, setPlans] = useState<PricingPlan[]>([]);
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(true);
   const [processingPlanId, setProcessingPlanId] = useState<string | null>(null);
   const [currentHeroSlide, setCurrentHeroSlide] = useState(0); // State for carousel
 
-  // Custom plan names mapping - this can be a fallback or removed
-  const planNames = {
-    'price_1RTkaDDa07Wwp5KNnZF36GsC': 'Basic Plan', // Corrected Live Basic Plan Price ID
-    'price_1RTka9Da07Wwp5KNiRxFGnsG': 'Premium Plan', // Corrected Live Premium Plan Price ID
-  };
-
   useEffect(() => {
     fetchPlans();
   }, []);
@@ -148,8 +125,8 @@ export default function LandingPage() {
     setIsLoading(true);
     try {
       // Check if we have cached pricing data
-      const cachedData = localStorage.getItem('pricingPlans');
-      const cachedTimestamp = localStorage.getItem('pricingPlansTimestamp');
+      const cachedData = localStorage.getItem(PLANS_CACHE_KEY);
+      const cachedTimestamp = localStorage.getItem(`${PLANS_CACHE_KEY}Timestamp`);
       
       if (cachedData && cachedTimestamp) {
         const timestamp = parseInt(cachedTimestamp);
@@ -166,22 +143,16 @@ export default function LandingPage() {
       }
       
       // Cache miss or expired, fetch from API
-      const { data, error } = await supabase.functions.invoke(
-        "supabase-functions-get-plans",
-      );
-
-      if (error) {
-        throw error;
-      }
+      const data = await fetchPricingPlans(supabase);
 
       // Cache the results
       if (data) {
         console.log("Plans from API:", data);
-        localStorage.setItem('pricingPlans', JSON.stringify(data));
-        localStorage.setItem('pricingPlansTimestamp', Date.now().toString());
+        localStorage.setItem(PLANS_CACHE_KEY, JSON.stringify(data));
+        localStorage.setItem(`${PLANS_CACHE_KEY}Timestamp`, Date.now().toString());
       }
 
-      setPlans(data || []);
+      setPlans(data);
       setError("");
     } catch (error) {
       console.error("Failed to fetch plans:", error);
@@ -268,17 +239,6 @@ export default function LandingPage() {
     }
   };
 
-  // Format currency
-  const formatCurrency = (amount: number, currency: string) => {
-    const formatter = new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: currency.toUpperCase(),
-      minimumFractionDigits: 2,
-    });
-
-    return formatter.format(amount / 100);
-  };
-
   // Updated features data to match screenshot
   const features: Feature[] = [
     {
@@ -364,51 +324,6 @@ export default function LandingPage() {
     },
   ];
 
-  // Plan features
-  const getPlanFeatures = (planType: string) => {
-    // Plan features for specific plan IDs
-    if (planType === 'SC9FWWIFZ7QDCM') {
-      return [
-        "100 Generations/Month",
-        "1 GB Storage",
-        "Basic Authentication"
-      ];
-    } else if (planType === 'SC9FJQGAEZLGH5') {
-      return [
-        "500 Generations/Month",
-        "2 GB Storage",
-        "Authentication + Latest Improvements",
-        "Community Support"
-      ];
-    }
-    
-    // Default fallback features
-    const basicFeatures = [
-      "100 Generations/Month",
-      "1 GB Storage",
-      "Basic Authentication"
-    ];
-
-    const proFeatures = [
-      "500 Generations/Month",
-      "2 GB Storage",
-      "Authentication + Latest Improvements",
-      "Community Support"
-    ];
-
-    const enterpriseFeatures = [
-      ...proFeatures,
-      "Dedicated account manager",
-      "Custom integrations",
-      "Unlimited storage",
-      "SLA guarantees",
-    ];
-
-    if (planType.includes("PRO")) return proFeatures;
-    if (planType.includes("ENTERPRISE")) return enterpriseFeatures;
-    return basicFeatures;
-  };
-
   return (
     <div className="min-h-screen bg-brand-dark text-gray-300 font-sans">
       {/* Header */}
@@ -691,40 +606,21 @@ export default function LandingPage() {
                   <Card className="flex flex-col h-full bg-white/5 backdrop-blur-sm border border-white/10 shadow-xl hover:border-white/20 transition-colors">
                   <CardHeader className="pb-4">
                       <CardDescription className="text-sm text-gray-400 uppercase tracking-wider">
-                        {
-                          (plan.product && typeof plan.product === 'object' && plan.product.name) 
-                            ? plan.product.name  // Primary: Stripe Product Name
-                            : planNames[plan.id] // Secondary: Local planNames map by Price ID
-                              ? planNames[plan.id]
-                              : plan.nickname // Tertiary: Stripe Nickname
-                                ? plan.nickname 
-                                : plan.id // Last resort: Price ID (or original amount-based logic if preferred for specific cases)
-                        }
+                        {plan.name}
                     </CardDescription>
                     <div className="mt-4">
                         <span className="text-4xl font-bold text-white">
-                          {plan.amount === 1500
-                            ? "$39.00"
-                            : plan.amount === 3500
-                              ? "$99.00"
-                              : formatCurrency(plan.amount, plan.currency)}
+                          {formatPlanPrice(plan)}
                         </span>
-                        <span className="ml-1 text-sm text-gray-400">/{plan.interval}</span>
+                        {plan.billing_interval && (
+                          <span className="ml-1 text-sm text-gray-400">/{plan.billing_interval}</span>
+                        )}
                     </div>
                   </CardHeader>
                   <CardContent className="flex-grow">
                       <Separator className="my-4 bg-white/10" />
                     <ul className="space-y-3">
-                      {( (plan.product && typeof plan.product === 'object' && (plan.product.name?.toLowerCase().includes('pro') || plan.product.name?.toLowerCase().includes('premium'))) || plan.amount === 9900 ? [
-                        "100 Generations/Month",
-                        "2 GB Storage",
-                        "Authentication + Latest Improvements",
-                        "Community Support"
-                      ] : [
-                        "30 Generations/Month",
-                        "1 GB Storage",
-                        "Basic Authentication"
-                      ]).map((feature, index) => (
+                      {plan.features.map((feature, index) => (
                           <li key={index} className="flex items-start text-gray-300">
                             <CheckCircle2 className="h-5 w-5 text-brand-green mr-2 flex-shrink-0 mt-0.5" />
                           <span>{feature}</span>
@@ -734,11 +630,11 @@ export default function LandingPage() {
                   </CardContent>
                     <CardFooter className="mt-4">
                     <Button
-                        className={`w-full font-semibold ${ (plan.product && typeof plan.product === 'object' && (plan.product.name?.toLowerCase().includes('pro') || plan.product.name?.toLowerCase().includes('premium'))) || plan.amount === 9900 || plan.amount === 3900 ? 'bg-brand-green text-white hover:bg-green-600 shadow-lg hover:shadow-brand-green/30' : 'bg-white/10 text-white hover:bg-white/20'}`}
-                      onClick={() => handleCheckout(plan.id)}
-                        disabled={isLoading && processingPlanId === plan.id}
+                        className={`w-full font-semibold ${plan.id === plans[plans.length - 1]?.id ? 'bg-brand-green text-white hover:bg-green-600 shadow-lg hover:shadow-brand-green/30' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                      onClick={() => plan.stripe_price_id && handleCheckout(plan.stripe_price_id)}
+                        disabled={isLoading && processingPlanId === plan.stripe_price_id}
                     >
-                        {isLoading && processingPlanId === plan.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Choose Plan'}
+                        {isLoading && processingPlanId === plan.stripe_price_id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Choose Plan'}
                     </Button>
                   </CardFooter>
                 </Card>
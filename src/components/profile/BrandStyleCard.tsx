@@ -0,0 +1,267 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ImageIcon, Loader2, Palette, X } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+
+interface BrandStyleCardProps {
+  userId: string;
+}
+
+// Same defaults as export-lab-results (brand.ts), so the preview matches an unstyled PDF
+const DEFAULT_PRIMARY_COLOR = "#14211b";
+const DEFAULT_ACCENT_COLOR = "#4CAF50";
+// Mirrors the brand-assets bucket limits
+const LOGO_TYPES = ["image/png", "image/jpeg"];
+const MAX_LOGO_BYTES = 1024 * 1024;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const ColorField = ({ id, label, value, onChange }: { id: string; label: string; value: string; onChange: (value: string) => void }) => (
+  <div className="space-y-2">
+    <Label htmlFor={id} className="text-gray-300">{label}</Label>
+    <div className="flex items-center gap-2">
+      <input
+        type="color"
+        aria-label={`${label} picker`}
+        value={HEX_COLOR.test(value) ? value : DEFAULT_PRIMARY_COLOR}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-10 w-12 cursor-pointer rounded border border-white/10 bg-transparent"
+      />
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        maxLength={7}
+        className="bg-white/5 border-white/10 text-white font-mono"
+      />
+    </div>
+  </div>
+);
+
+/**
+ * Lets a user set the business name, logo and colors used on their strain sheets and labels.
+ */
+const BrandStyleCard = ({ userId }: BrandStyleCardProps) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [businessName, setBusinessName] = useState("");
+  const [primaryColor, setPrimaryColor] = useState(DEFAULT_PRIMARY_COLOR);
+  const [accentColor, setAccentColor] = useState(DEFAULT_ACCENT_COLOR);
+  const [logoPath, setLogoPath] = useState<string | null>(null);
+  const [logoPreview, setLogoPreview] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  useEffect(() => {
+    const fetchBrandStyle = async () => {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from("brand_styles")
+        .select("business_name, logo_path, primary_color, accent_color")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching brand style:", error);
+      } else if (data) {
+        setBusinessName(data.business_name || "");
+        setPrimaryColor(data.primary_color || DEFAULT_PRIMARY_COLOR);
+        setAccentColor(data.accent_color || DEFAULT_ACCENT_COLOR);
+        setLogoPath(data.logo_path);
+      }
+      setIsLoading(false);
+    };
+
+    fetchBrandStyle();
+  }, [userId]);
+
+  // The bucket is private, so the preview uses a short-lived signed URL
+  useEffect(() => {
+    if (!logoPath) {
+      setLogoPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    supabase.storage
+      .from("brand-assets")
+      .createSignedUrl(logoPath, 60 * 60)
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Error loading logo preview:", error);
+        setLogoPreview(data?.signedUrl ?? null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [logoPath]);
+
+  const handleLogoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!LOGO_TYPES.includes(file.type)) {
+      toast({ title: "Unsupported logo", description: "Upload a PNG or JPEG image.", variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      toast({ title: "Logo too large", description: "Logos can be up to 1 MB.", variant: "destructive" });
+      return;
+    }
+
+    setIsUploading(true);
+    const path = `${userId}/logo-${Date.now()}.${file.type === "image/png" ? "png" : "jpg"}`;
+    const { error } = await supabase.storage.from("brand-assets").upload(path, file, { contentType: file.type });
+    setIsUploading(false);
+
+    if (error) {
+      console.error("Error uploading logo:", error);
+      toast({ title: "Error", description: "Failed to upload your logo.", variant: "destructive" });
+      return;
+    }
+    // Saved with the rest of the brand style; the previous file is removed on save
+    setLogoPath(path);
+  };
+
+  const handleSave = async () => {
+    if (!HEX_COLOR.test(primaryColor) || !HEX_COLOR.test(accentColor)) {
+      toast({ title: "Invalid color", description: "Colors must be hex values like #4CAF50.", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    const { data: previous } = await supabase
+      .from("brand_styles")
+      .select("logo_path")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    const { error } = await supabase
+      .from("brand_styles")
+      .upsert({
+        user_id: userId,
+        business_name: businessName.trim() || null,
+        logo_path: logoPath,
+        primary_color: primaryColor,
+        accent_color: accentColor,
+        updated_at: new Date().toISOString(),
+      });
+    setIsSaving(false);
+
+    if (error) {
+      console.error("Error saving brand style:", error);
+      toast({ title: "Error", description: "Failed to save your brand style.", variant: "destructive" });
+      return;
+    }
+
+    if (previous?.logo_path && previous.logo_path !== logoPath) {
+      const { error: removeError } = await supabase.storage.from("brand-assets").remove([previous.logo_path]);
+      if (removeError) console.error("Error removing previous logo:", removeError);
+    }
+    toast({ title: "Brand style saved", description: "New strain sheets and labels will use these settings." });
+  };
+
+  return (
+    <Card className="bg-white/5 border border-white/10 shadow-lg backdrop-blur-sm overflow-hidden">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg font-medium text-white flex items-center">
+          <Palette className="h-5 w-5 mr-2 text-brand-green" />
+          Brand Style
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          Your name, logo and colors on downloadable strain sheets and shelf labels.
+        </CardDescription>
+      </CardHeader>
+      {isLoading ? (
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 text-brand-green animate-spin" />
+        </CardContent>
+      ) : (
+        <CardContent className="space-y-5 pt-0 pb-6 px-6">
+          <div className="space-y-2">
+            <Label htmlFor="brand-business-name" className="text-gray-300">Business name</Label>
+            <Input
+              id="brand-business-name"
+              value={businessName}
+              onChange={(e) => setBusinessName(e.target.value)}
+              placeholder="e.g. Green Leaf Dispensary"
+              className="bg-white/5 border-white/10 text-white placeholder:text-gray-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-gray-300">Logo (PNG or JPEG, up to 1 MB)</Label>
+            <div className="flex items-center gap-3">
+              <div
+                className="h-16 w-32 rounded-md border border-white/10 flex items-center justify-center overflow-hidden"
+                style={{ backgroundColor: HEX_COLOR.test(primaryColor) ? primaryColor : DEFAULT_PRIMARY_COLOR }}
+              >
+                {logoPreview ? (
+                  <img src={logoPreview} alt="Logo preview" className="max-h-12 max-w-[7rem] object-contain" />
+                ) : (
+                  <ImageIcon className="h-6 w-6 text-white/40" />
+                )}
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={LOGO_TYPES.join(",")}
+                onChange={handleLogoSelected}
+                className="hidden"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={isUploading}
+                onClick={() => fileInputRef.current?.click()}
+                className="bg-white/5 hover:bg-white/10 text-white border-white/20"
+              >
+                {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                {logoPath ? "Replace" : "Upload"}
+              </Button>
+              {logoPath && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setLogoPath(null)}
+                  className="text-gray-400 hover:text-white hover:bg-white/10"
+                >
+                  <X className="mr-1 h-4 w-4" />
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <ColorField id="brand-primary-color" label="Primary color" value={primaryColor} onChange={setPrimaryColor} />
+            <ColorField id="brand-accent-color" label="Accent color" value={accentColor} onChange={setAccentColor} />
+          </div>
+        </CardContent>
+      )}
+      <CardFooter className="bg-white/5 border-t border-white/10 px-6 py-4">
+        <Button
+          onClick={handleSave}
+          disabled={isLoading || isSaving || isUploading}
+          className="w-full bg-brand-green text-white hover:bg-green-600"
+        >
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save Brand Style"
+          )}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default BrandStyleCard;
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, Megaphone } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+
+interface BrandVoiceCardProps {
+  userId: string;
+}
+
+// Common compliance terms; dispensaries usually may not make medical claims
+const MEDICAL_CLAIM_TERMS = ["cure", "cures", "treat", "treats", "heal", "prevents", "medicine", "therapeutic", "anxiety relief", "pain relief"];
+
+const READING_LEVELS = [6, 8, 10, 12];
+const NO_READING_LEVEL = "none";
+
+// One entry per line; blank lines are dropped
+const toLines = (value: string) => value.split("\n").map((line) => line.trim()).filter(Boolean);
+
+/**
+ * Lets a user edit the brand voice that process-lab-result applies to their generated descriptions.
+ */
+const BrandVoiceCard = ({ userId }: BrandVoiceCardProps) => {
+  const { toast } = useToast();
+  const [tone, setTone] = useState("");
+  const [bannedWords, setBannedWords] = useState("");
+  const [disclaimers, setDisclaimers] = useState("");
+  const [readingLevel, setReadingLevel] = useState<string>(NO_READING_LEVEL);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchBrandVoice = async () => {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from("brand_voices")
+        .select("tone, banned_words, required_disclaimers, reading_level")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching brand voice:", error);
+      } else if (data) {
+        setTone(data.tone || "");
+        setBannedWords((data.banned_words || []).join("\n"));
+        setDisclaimers((data.required_disclaimers || []).join("\n"));
+        setReadingLevel(data.reading_level ? String(data.reading_level) : NO_READING_LEVEL);
+      }
+      setIsLoading(false);
+    };
+
+    fetchBrandVoice();
+  }, [userId]);
+
+  const addMedicalClaimTerms = () => {
+    const existing = toLines(bannedWords);
+    const missing = MEDICAL_CLAIM_TERMS.filter(
+      (term) => !existing.some((word) => word.toLowerCase() === term),
+    );
+    setBannedWords([...existing, ...missing].join("\n"));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const { error } = await supabase
+      .from("brand_voices")
+      .upsert({
+        user_id: userId,
+        tone: tone.trim() || null,
+        banned_words: toLines(bannedWords),
+        required_disclaimers: toLines(disclaimers),
+        reading_level: readingLevel === NO_READING_LEVEL ? null : Number(readingLevel),
+        updated_at: new Date().toISOString(),
+      });
+    setIsSaving(false);
+
+    if (error) {
+      console.error("Error saving brand voice:", error);
+      toast({ title: "Error", description: "Failed to save your brand voice.", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Brand voice saved", description: "New descriptions will use these settings." });
+  };
+
+  return (
+    <Card className="bg-white/5 border border-white/10 shadow-lg backdrop-blur-sm overflow-hidden">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg font-medium text-white flex items-center">
+          <Megaphone className="h-5 w-5 mr-2 text-brand-green" />
+          Brand Voice
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          Applied to every description we generate for you. Descriptions that break these rules are flagged.
+        </CardDescription>
+      </CardHeader>
+      {isLoading ? (
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 text-brand-green animate-spin" />
+        </CardContent>
+      ) : (
+        <CardContent className="space-y-5 pt-0 pb-6 px-6">
+          <div className="space-y-2">
+            <Label htmlFor="brand-tone" className="text-gray-300">Tone</Label>
+            <Input
+              id="brand-tone"
+              value={tone}
+              onChange={(e) => setTone(e.target.value)}
+              placeholder="e.g. Friendly and knowledgeable, like a neighborhood budtender"
+              className="bg-white/5 border-white/10 text-white placeholder:text-gray-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="brand-banned-words" className="text-gray-300">Banned words (one per line)</Label>
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                onClick={addMedicalClaimTerms}
+                className="text-brand-green h-auto p-0"
+              >
+                Add medical-claim terms
+              </Button>
+            </div>
+            <Textarea
+              id="brand-banned-words"
+              value={bannedWords}
+              onChange={(e) => setBannedWords(e.target.value)}
+              rows={4}
+              className="bg-white/5 border-white/10 text-white placeholder:text-gray-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="brand-disclaimers" className="text-gray-300">Required disclaimers (one per line)</Label>
+            <Textarea
+              id="brand-disclaimers"
+              value={disclaimers}
+              onChange={(e) => setDisclaimers(e.target.value)}
+              rows={3}
+              placeholder="e.g. For use only by adults 21 and older."
+              className="bg-white/5 border-white/10 text-white placeholder:text-gray-500"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-gray-300">Reading level</Label>
+            <Select value={readingLevel} onValueChange={setReadingLevel}>
+              <SelectTrigger className="bg-white/5 border-white/10 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_READING_LEVEL}>No target</SelectItem>
+                {READING_LEVELS.map((level) => (
+                  <SelectItem key={level} value={String(level)}>Grade {level} or below</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      )}
+      <CardFooter className="bg-white/5 border-t border-white/10 px-6 py-4">
+        <Button
+          onClick={handleSave}
+          disabled={isLoading || isSaving}
+          className="w-full bg-brand-green text-white hover:bg-green-600"
+        >
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save Brand Voice"
+          )}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default BrandVoiceCard;
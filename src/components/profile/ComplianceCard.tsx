@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { supabase } from "../../../supabase/supabase";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Tables } from "@/types/supabase";
+
+type RulePack = Pick<Tables<"compliance_rule_packs">, "id" | "version" | "name" | "jurisdiction" | "description">;
+
+interface ComplianceCardProps {
+  userId: string;
+}
+
+const NO_RULE_PACK = "none";
+
+/**
+ * Lets a user pick the state rule pack new uploads are checked against. The latest active
+ * version of the pack is always applied, so only pack ids are offered here.
+ */
+const ComplianceCard = ({ userId }: ComplianceCardProps) => {
+  const { toast } = useToast();
+  const [rulePacks, setRulePacks] = useState<RulePack[]>([]);
+  const [selectedPackId, setSelectedPackId] = useState<string>(NO_RULE_PACK);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchComplianceSettings = async () => {
+      setIsLoading(true);
+      const [packsResult, userResult] = await Promise.all([
+        supabase
+          .from("compliance_rule_packs")
+          .select("id, version, name, jurisdiction, description")
+          .order("jurisdiction")
+          .order("version", { ascending: false }),
+        supabase
+          .from("users")
+          .select("compliance_rule_pack_id")
+          .eq("id", userId)
+          .single(),
+      ]);
+
+      if (packsResult.error || userResult.error) {
+        console.error("Error fetching compliance settings:", packsResult.error || userResult.error);
+      } else {
+        // Rows are ordered newest version first, so the first row per id is the latest
+        const latest = new Map<string, RulePack>();
+        for (const pack of packsResult.data || []) {
+          if (!latest.has(pack.id)) latest.set(pack.id, pack);
+        }
+        setRulePacks(Array.from(latest.values()));
+        setSelectedPackId(userResult.data?.compliance_rule_pack_id || NO_RULE_PACK);
+      }
+      setIsLoading(false);
+    };
+
+    fetchComplianceSettings();
+  }, [userId]);
+
+  const handleChange = async (value: string) => {
+    const previous = selectedPackId;
+    setSelectedPackId(value);
+    setIsSaving(true);
+    const { error } = await supabase.rpc(
+      "set_compliance_rule_pack",
+      value === NO_RULE_PACK ? {} : { rule_pack_id_param: value },
+    );
+    setIsSaving(false);
+
+    if (error) {
+      console.error("Error saving rule pack:", error);
+      setSelectedPackId(previous);
+      toast({ title: "Error", description: "Failed to update your compliance rules.", variant: "destructive" });
+      return;
+    }
+    toast({
+      title: "Compliance rules updated",
+      description: value === NO_RULE_PACK
+        ? "New uploads will not be checked."
+        : "New uploads will be checked against these rules.",
+    });
+  };
+
+  const selectedPack = rulePacks.find((pack) => pack.id === selectedPackId);
+
+  return (
+    <Card className="bg-white/5 border border-white/10 shadow-lg backdrop-blur-sm overflow-hidden">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg font-medium text-white flex items-center">
+          <ShieldCheck className="h-5 w-5 mr-2 text-brand-green" />
+          Compliance Rules
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          Each new COA gets a pass/fail verdict against your state's action limits.
+        </CardDescription>
+      </CardHeader>
+      {isLoading ? (
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 text-brand-green animate-spin" />
+        </CardContent>
+      ) : (
+        <CardContent className="space-y-2 pt-0 pb-6 px-6">
+          <Label className="text-gray-300">Rule pack</Label>
+          <Select value={selectedPackId} onValueChange={handleChange} disabled={isSaving}>
+            <SelectTrigger className="bg-white/5 border-white/10 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_RULE_PACK}>Don't check compliance</SelectItem>
+              {rulePacks.map((pack) => (
+                <SelectItem key={pack.id} value={pack.id}>
+                  {pack.name} ({pack.jurisdiction}) v{pack.version}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedPack?.description && (
+            <p className="text-xs text-gray-500">{selectedPack.description}</p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default ComplianceCard;
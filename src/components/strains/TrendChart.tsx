@@ -0,0 +1,91 @@
+import React from "react";
+
+export interface TrendSeries {
+  label: string;
+  color: string;
+  // One value per point, in the same order as `points`; null where the COA does not report it
+  values: (number | null)[];
+}
+
+interface TrendChartProps {
+  // X axis labels, oldest first
+  points: string[];
+  series: TrendSeries[];
+  ariaLabel: string;
+  height?: number;
+}
+
+const WIDTH = 640;
+const GRID_LINES = 4;
+const PADDING = { top: 12, right: 16, bottom: 36, left: 48 };
+
+/**
+ * Minimal SVG line chart for values in percent. Points are spaced evenly rather than by date, so
+ * batches tested close together stay readable; gaps in a series break its line.
+ */
+const TrendChart = ({ points, series, ariaLabel, height = 240 }: TrendChartProps) => {
+  if (points.length < 2) {
+    return <p className="text-sm text-gray-500">At least two COAs are needed to show a trend.</p>;
+  }
+
+  const max = Math.max(...series.flatMap((item) => item.values.map((value) => value ?? 0)), 0) || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const xAt = (index: number) => PADDING.left + (plotWidth * index) / (points.length - 1);
+  const yAt = (value: number) => PADDING.top + plotHeight * (1 - value / max);
+
+  // One path segment per run of consecutive reported values
+  const pathFor = (values: (number | null)[]) =>
+    values
+      .map((value, index) => {
+        if (value === null) return "";
+        const command = index > 0 && values[index - 1] !== null ? "L" : "M";
+        return `${command}${xAt(index)},${yAt(value)}`;
+      })
+      .join(" ");
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label={ariaLabel}>
+        {Array.from({ length: GRID_LINES + 1 }, (_, line) => {
+          const value = (max * line) / GRID_LINES;
+          return (
+            <g key={line}>
+              <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={yAt(value)} y2={yAt(value)} stroke="#e5e7eb" />
+              <text x={PADDING.left - 6} y={yAt(value)} fontSize="10" fill="#6b7280" textAnchor="end" dominantBaseline="middle">
+                {`${Number(value.toFixed(2))}%`}
+              </text>
+            </g>
+          );
+        })}
+        {points.map((point, index) => (
+          <text key={`${point}-${index}`} x={xAt(index)} y={height - 12} fontSize="10" fill="#6b7280" textAnchor="middle">
+            {point}
+          </text>
+        ))}
+        {series.map((item) => (
+          <g key={item.label}>
+            <path d={pathFor(item.values)} fill="none" stroke={item.color} strokeWidth={2} />
+            {item.values.map((value, index) =>
+              value === null ? null : (
+                <circle key={index} cx={xAt(index)} cy={yAt(value)} r={3} fill={item.color}>
+                  <title>{`${item.label}: ${Number(value.toFixed(3))}%`}</title>
+                </circle>
+              ),
+            )}
+          </g>
+        ))}
+      </svg>
+      <div className="mt-2 flex flex-wrap justify-center gap-4 text-xs text-gray-600">
+        {series.map((item) => (
+          <span key={item.label} className="flex items-center">
+            <span className="inline-block h-2.5 w-2.5 rounded-full mr-1.5" style={{ backgroundColor: item.color }} />
+            {item.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TrendChart;
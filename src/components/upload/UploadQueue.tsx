@@ -0,0 +1,134 @@
+import React from "react";
+import { AlertCircle, CheckCircle, FileText, Loader2, UploadCloud, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Progress } from "@/components/ui/progress";
+import { QueueItem, QueueItemStatus } from "@/hooks/useUploadQueue";
+import { AnalysisProfile } from "@/hooks/useAnalysisProfiles";
+
+interface UploadQueueProps {
+  items: QueueItem[];
+  isRunning: boolean;
+  remainingGenerations: number | null;
+  profiles: AnalysisProfile[];
+  onStart: (analysisProfileId: string) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+const STATUS_STYLES: Record<QueueItemStatus, string> = {
+  queued: "border-white/20 text-gray-300 bg-white/5",
+  uploading: "border-blue-400/30 text-blue-300 bg-blue-500/10",
+  processing: "border-brand-green/30 text-brand-green bg-brand-green/10",
+  complete: "border-green-400/30 text-green-400 bg-green-500/10",
+  failed: "border-red-400/30 text-red-400 bg-red-500/10",
+};
+
+const StatusIcon = ({ status }: { status: QueueItemStatus }) => {
+  switch (status) {
+    case "uploading":
+    case "processing":
+      return <Loader2 className="h-4 w-4 text-brand-green animate-spin" />;
+    case "complete":
+      return <CheckCircle className="h-4 w-4 text-green-400" />;
+    case "failed":
+      return <AlertCircle className="h-4 w-4 text-red-400" />;
+    default:
+      return <FileText className="h-4 w-4 text-gray-400" />;
+  }
+};
+
+const UploadQueue = ({ items, isRunning, remainingGenerations, profiles, onStart, onRemove, onClear }: UploadQueueProps) => {
+  const queuedCount = items.filter((item) => item.status === "queued").length;
+  const completeCount = items.filter((item) => item.status === "complete").length;
+  const failedCount = items.filter((item) => item.status === "failed").length;
+  const inFlightCount = items.filter((item) => item.status === "uploading" || item.status === "processing").length;
+
+  // Pre-flight: the whole batch must fit in the remaining generations before anything is uploaded
+  const generationsNeeded = (profile: AnalysisProfile) => queuedCount * profile.credit_cost;
+  const fitsLimit = (profile: AnalysisProfile) =>
+    remainingGenerations === null || generationsNeeded(profile) <= remainingGenerations;
+  const cheapestCost = profiles.length > 0 ? Math.min(...profiles.map((profile) => profile.credit_cost)) : 1;
+  const minimumNeeded = queuedCount * cheapestCost;
+  const exceedsLimit = remainingGenerations !== null && minimumNeeded > remainingGenerations;
+  const filesOver = exceedsLimit ? Math.ceil((minimumNeeded - (remainingGenerations ?? 0)) / cheapestCost) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="text-white font-medium">{items.length} file{items.length !== 1 ? "s" : ""} in batch</span>
+        <span className="text-gray-400">
+          {completeCount} complete · {inFlightCount} in progress · {queuedCount} queued · {failedCount} failed
+        </span>
+      </div>
+
+      {exceedsLimit && (
+        <div className="flex items-start p-3 rounded-lg bg-red-900/30 border border-red-500/30 text-sm text-red-300">
+          <AlertCircle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            This batch needs at least {minimumNeeded} generations but you have {remainingGenerations} remaining.
+            Remove {filesOver} file{filesOver !== 1 ? "s" : ""} or upgrade your plan.
+          </span>
+        </div>
+      )}
+
+      <ScrollArea className="max-h-80 rounded-lg border border-white/10">
+        <ul className="divide-y divide-white/10">
+          {items.map((item) => (
+            <li key={item.id} className="flex items-center gap-3 px-4 py-3">
+              <StatusIcon status={item.status} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate">{item.file.name}</p>
+                {item.error && <p className="text-xs text-red-400 truncate">{item.error}</p>}
+                {item.status === "uploading" && (
+                  <Progress value={item.progress ?? 0} className="h-1 mt-1 bg-white/10 [&>*]:bg-blue-400" />
+                )}
+              </div>
+              <span className="text-xs text-gray-500 flex-shrink-0">{(item.file.size / 1024).toFixed(0)} KB</span>
+              <Badge variant="outline" className={`text-xs capitalize ${STATUS_STYLES[item.status]}`}>
+                {item.status === "uploading" && item.progress !== undefined ? `${item.progress}%` : item.status}
+              </Badge>
+              {(item.status === "queued" || item.status === "failed") && (
+                <button
+                  type="button"
+                  onClick={() => onRemove(item.id)}
+                  className="text-gray-500 hover:text-white transition-colors"
+                  aria-label={`Remove ${item.file.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+
+      <div className="flex flex-wrap gap-3 justify-center">
+        {profiles.map((profile) => (
+          <Button
+            key={profile.id}
+            onClick={() => onStart(profile.id)}
+            disabled={queuedCount === 0 || isRunning || !fitsLimit(profile)}
+            title={`${generationsNeeded(profile)} generation${generationsNeeded(profile) !== 1 ? "s" : ""}`}
+            className="bg-brand-green text-white hover:bg-green-600 font-semibold shadow-lg hover:shadow-brand-green/30 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <UploadCloud className="mr-2 h-5 w-5" />
+            Process {queuedCount} ({profile.name})
+          </Button>
+        ))}
+        <Button
+          variant="outline"
+          onClick={onClear}
+          disabled={isRunning}
+          className="text-gray-300 border-white/20 hover:bg-white/10 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <X className="mr-2 h-5 w-5" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default UploadQueue;
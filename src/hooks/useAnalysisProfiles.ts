@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../../supabase/supabase";
+import { Tables } from "@/types/supabase";
+
+export type AnalysisProfile = Tables<"analysis_profiles">;
+
+/**
+ * Loads the active analysis profiles offered on the upload page, in display order.
+ * Profiles live in the database so new output formats ship without a frontend release.
+ */
+export function useAnalysisProfiles() {
+  const [profiles, setProfiles] = useState<AnalysisProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchProfiles = async () => {
+      const { data, error } = await supabase
+        .from('analysis_profiles')
+        .select('*')
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching analysis profiles:', error);
+      }
+      if (!cancelled) {
+        setProfiles((data as AnalysisProfile[]) || []);
+        setIsLoading(false);
+      }
+    };
+
+    fetchProfiles();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { profiles, isLoading };
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "../../supabase/supabase";
+import {
+  LabResultSearchHit,
+  SearchCursor,
+  SearchFacets,
+  SearchFilters,
+  searchLabResults,
+} from "@/lib/labResultSearch";
+
+/**
+ * Paged search over the user's lab results. A new query or filter set restarts from the first
+ * page; `loadMore` appends the next page using the keyset cursor from the last one.
+ */
+export function useLabResultSearch(userId: string | undefined, query: string, filters: SearchFilters) {
+  const [results, setResults] = useState<LabResultSearchHit[]>([]);
+  const [total, setTotal] = useState(0);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [nextCursor, setNextCursor] = useState<SearchCursor | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  // Bumped on every new search so pages of a superseded search are dropped
+  const searchId = useRef(0);
+
+  useEffect(() => {
+    if (!userId) return;
+    const currentSearch = ++searchId.current;
+
+    const fetchFirstPage = async () => {
+      try {
+        const response = await searchLabResults(supabase, query, filters);
+        if (currentSearch !== searchId.current) return;
+
+        setResults(response.results);
+        setTotal(response.total ?? response.results.length);
+        setFacets(response.facets);
+        setNextCursor(response.next_cursor);
+      } catch (error) {
+        console.error("Error searching lab results:", error);
+      } finally {
+        if (currentSearch === searchId.current) setIsLoading(false);
+      }
+    };
+
+    fetchFirstPage();
+  }, [userId, query, filters]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    const currentSearch = searchId.current;
+    setIsLoadingMore(true);
+
+    try {
+      const response = await searchLabResults(supabase, query, filters, nextCursor);
+      if (currentSearch !== searchId.current) return;
+
+      setResults((current) => [...current, ...response.results]);
+      setNextCursor(response.next_cursor);
+    } catch (error) {
+      console.error("Error loading more lab results:", error);
+      // Stop paging so the scroll effect does not retry in a loop; a new search starts over
+      if (currentSearch === searchId.current) setNextCursor(null);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, query, filters]);
+
+  // Applies a local edit (e.g. a strain assignment) without refetching
+  const updateResult = useCallback((id: string, changes: Partial<LabResultSearchHit>) => {
+    setResults((current) => current.map((hit) => (hit.id === id ? { ...hit, ...changes } : hit)));
+  }, []);
+
+  return {
+    results,
+    total,
+    facets,
+    hasMore: !!nextCursor,
+    isLoading,
+    isLoadingMore,
+    loadMore,
+    updateResult,
+  };
+}
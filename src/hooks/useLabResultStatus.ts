@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { REALTIME_SUBSCRIBE_STATES } from "@supabase/supabase-js";
+import { supabase } from "../../supabase/supabase";
+import { Json } from "@/types/supabase";
+
+// Mirrors the status values written by the process-lab-result edge function
+export type LabResultStatus =
+  | 'pending'
+  | 'processing'
+  | 'extracting'
+  | 'parsing'
+  | 'writing'
+  | 'completed'
+  | 'error';
+
+export const TERMINAL_STATUSES: LabResultStatus[] = ['completed', 'error'];
+
+// Progress shown for each pipeline stage while the edge function is running
+export const STATUS_PROGRESS: Record<LabResultStatus, number> = {
+  pending: 5,
+  processing: 10,
+  extracting: 30,
+  parsing: 60,
+  writing: 85,
+  completed: 100,
+  error: 100,
+};
+
+export const STATUS_LABELS: Record<LabResultStatus, string> = {
+  pending: 'Queued...',
+  processing: 'Starting analysis...',
+  extracting: 'Extracting text...',
+  parsing: 'Reading lab values...',
+  writing: 'Writing description...',
+  completed: 'Complete',
+  error: 'Failed',
+};
+
+const FALLBACK_POLL_INTERVAL_MS = 5000;
+
+interface LabResultStatusRow {
+  status: LabResultStatus | null;
+  description: string | null;
+  voice_violations: Json | null;
+}
+
+interface UseLabResultStatusResult {
+  status: LabResultStatus | null;
+  description: string | null;
+  // Brand voice check results written alongside the description
+  voiceViolations: Json | null;
+  isTerminal: boolean;
+}
+
+/**
+ * Subscribes to a single lab_results row via Supabase Realtime and reports its processing status.
+ * Falls back to polling if the realtime channel cannot be established, and cleans up on unmount
+ * or when the id changes.
+ */
+export function useLabResultStatus(labResultId: string | null): UseLabResultStatusResult {
+  const [row, setRow] = useState<LabResultStatusRow>({ status: null, description: null, voice_violations: null });
+
+  useEffect(() => {
+    setRow({ status: null, description: null, voice_violations: null });
+    if (!labResultId) return;
+
+    let cancelled = false;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+    const applyRow = (next: Partial<LabResultStatusRow>) => {
+      if (cancelled) return;
+      setRow((prev) => ({
+        status: (next.status as LabResultStatus) ?? prev.status,
+        description: next.description ?? prev.description,
+        voice_violations: next.voice_violations ?? prev.voice_violations,
+      }));
+      if (next.status && TERMINAL_STATUSES.includes(next.status as LabResultStatus)) {
+        stopPolling();
+      }
+    };
+
+    const fetchRow = async () => {
+      const { data, error } = await supabase
+        .from('lab_results')
+        .select('status, description, voice_violations')
+        .eq('id', labResultId)
+        .single();
+
+      if (error) {
+        console.error('Error fetching lab result status:', error);
+        return;
+      }
+      if (data) applyRow(data);
+    };
+
+    const startPolling = () => {
+      if (pollTimer || cancelled) return;
+      console.warn('Realtime unavailable for lab result, falling back to polling');
+      pollTimer = setInterval(fetchRow, FALLBACK_POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+    };
+
+    const channel = supabase
+      .channel(`lab-result-${labResultId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'lab_results', filter: `id=eq.${labResultId}` },
+        (payload) => applyRow(payload.new as LabResultStatusRow),
+      )
+      .subscribe((state) => {
+        if (state === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+          stopPolling();
+          // Catch up on anything that changed before the subscription was live
+          fetchRow();
+        } else if (
+          state === REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR ||
+          state === REALTIME_SUBSCRIBE_STATES.TIMED_OUT ||
+          state === REALTIME_SUBSCRIBE_STATES.CLOSED
+        ) {
+          startPolling();
+        }
+      });
+
+    fetchRow();
+
+    return () => {
+      cancelled = true;
+      stopPolling();
+      supabase.removeChannel(channel);
+    };
+  }, [labResultId]);
+
+  return {
+    status: row.status,
+    description: row.description,
+    voiceViolations: row.voice_violations,
+    isTerminal: row.status !== null && TERMINAL_STATUSES.includes(row.status),
+  };
+}
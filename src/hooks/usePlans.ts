@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../../supabase/supabase";
+import { Plan } from "@/lib/plans";
+
+/**
+ * Loads every active plan in the catalog, including ones that are not sold (free), in display
+ * order. Used to resolve users.current_plan_id into names and limits.
+ */
+export function usePlans() {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchPlans = async () => {
+      const { data, error } = await supabase
+        .from('plans')
+        .select('*')
+        .eq('is_active', true)
+        .order('sort_order', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching plans:', error);
+      }
+      if (!cancelled) {
+        setPlans((data as Plan[]) || []);
+        setIsLoading(false);
+      }
+    };
+
+    fetchPlans();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { plans, isLoading };
+}
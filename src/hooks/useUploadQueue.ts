@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { REALTIME_SUBSCRIBE_STATES } from "@supabase/supabase-js";
+import { supabase } from "../../supabase/supabase";
+import { uploadLabResult, validateCoaFile } from "@/lib/labResultUpload";
+
+export type QueueItemStatus = 'queued' | 'uploading' | 'processing' | 'complete' | 'failed';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: QueueItemStatus;
+  labResultId?: string;
+  error?: string;
+  // Byte-level upload progress (0-100) while the item is uploading
+  progress?: number;
+}
+
+interface UseUploadQueueOptions {
+  userId: string | null;
+  // Upload size ceiling of the user's plan (plans.upload_limit_mb); enforced again by create_lab_result
+  uploadLimitMb: number;
+  concurrency?: number;
+  // Called with the server's usage counters after each successful reservation
+  onUsageChange?: (generationsUsed: number, generationLimit: number) => void;
+  // Called when a queued item finishes processing with an error (its generation is refunded)
+  onItemFailed?: () => void;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const FALLBACK_POLL_INTERVAL_MS = 5000;
+
+let nextQueueItemId = 0;
+
+/**
+ * Manages a batch of COA uploads: each file is uploaded and sent for processing with at most
+ * `concurrency` uploads in flight, and processing results are tracked through one realtime
+ * channel on the user's lab_results rows.
+ */
+export function useUploadQueue({
+  userId,
+  uploadLimitMb,
+  concurrency = DEFAULT_CONCURRENCY,
+  onUsageChange,
+  onItemFailed,
+}: UseUploadQueueOptions) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const itemsRef = useRef<QueueItem[]>([]);
+  const callbacksRef = useRef({ onUsageChange, onItemFailed });
+  callbacksRef.current = { onUsageChange, onItemFailed };
+
+  const updateItems = useCallback((updater: (prev: QueueItem[]) => QueueItem[]) => {
+    setItems((prev) => {
+      const next = updater(prev);
+      itemsRef.current = next;
+      return next;
+    });
+  }, []);
+
+  const updateItem = useCallback((id: string, patch: Partial<QueueItem>) => {
+    updateItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, [updateItems]);
+
+  // Adds files to the queue; invalid files are added as failed so the user can see why
+  const addFiles = useCallback((files: File[]) => {
+    const newItems: QueueItem[] = files.map((file) => {
+      const validationError = validateCoaFile(file, uploadLimitMb);
+      return {
+        id: `queue-${nextQueueItemId++}`,
+        file,
+        status: validationError ? 'failed' : 'queued',
+        error: validationError ?? undefined,
+      };
+    });
+    updateItems((prev) => [...prev, ...newItems]);
+  }, [uploadLimitMb, updateItems]);
+
+  const removeItem = useCallback((id: string) => {
+    updateItems((prev) => prev.filter((item) => item.id !== id || item.status === 'uploading'));
+  }, [updateItems]);
+
+  const clear = useCallback(() => {
+    updateItems((prev) => prev.filter((item) => item.status === 'uploading'));
+  }, [updateItems]);
+
+  // Uploads every queued item with a fixed number of workers
+  const start = useCallback(async (analysisProfileId: string) => {
+    if (!userId || isRunning) return;
+
+    const pending = itemsRef.current.filter((item) => item.status === 'queued');
+    if (pending.length === 0) return;
+
+    setIsRunning(true);
+    let cursor = 0;
+
+    const worker = async () => {
+      while (cursor < pending.length) {
+        const item = pending[cursor++];
+        updateItem(item.id, { status: 'uploading', error: undefined, progress: 0 });
+
+        const result = await uploadLabResult({
+          supabase,
+          userId,
+          file: item.file,
+          analysisProfileId,
+          onProgress: (progress) => updateItem(item.id, { progress }),
+        });
+
+        if (!result.success || !result.labResultId) {
+          updateItem(item.id, { status: 'failed', error: result.error || 'Upload failed' });
+          continue;
+        }
+
+        updateItem(item.id, { status: 'processing', labResultId: result.labResultId });
+        if (result.generationsUsed !== undefined && result.generationLimit !== undefined) {
+          callbacksRef.current.onUsageChange?.(result.generationsUsed, result.generationLimit);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+    setIsRunning(false);
+  }, [userId, isRunning, concurrency, updateItem]);
+
+  const applyLabResultStatus = useCallback((labResultId: string, status: string | null) => {
+    if (status !== 'completed' && status !== 'error') return;
+
+    const item = itemsRef.current.find((queued) => queued.labResultId === labResultId);
+    if (!item || item.status !== 'processing') return;
+
+    if (status === 'completed') {
+      updateItem(item.id, { status: 'complete' });
+    } else {
+      updateItem(item.id, { status: 'failed', error: 'Processing failed. The generation was refunded.' });
+      callbacksRef.current.onItemFailed?.();
+    }
+  }, [updateItem]);
+
+  const hasProcessingItems = items.some((item) => item.status === 'processing');
+
+  // One channel for all of the user's lab results while anything in the batch is processing
+  useEffect(() => {
+    if (!userId || !hasProcessingItems) return;
+
+    let cancelled = false;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+    const pollProcessingItems = async () => {
+      const ids = itemsRef.current
+        .filter((item) => item.status === 'processing' && item.labResultId)
+        .map((item) => item.labResultId as string);
+      if (ids.length === 0) return;
+
+      const { data, error } = await supabase
+        .from('lab_results')
+        .select('id, status')
+        .in('id', ids);
+
+      if (error) {
+        console.error('Error polling batch status:', error);
+        return;
+      }
+      if (!cancelled) {
+        (data || []).forEach((row) => applyLabResultStatus(row.id, row.status));
+      }
+    };
+
+    const channel = supabase
+      .channel(`lab-results-batch-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'lab_results', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          if (!cancelled) applyLabResultStatus(payload.new.id, payload.new.status);
+        },
+      )
+      .subscribe((state) => {
+        if (state === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+          if (pollTimer) {
+            clearInterval(pollTimer);
+            pollTimer = null;
+          }
+          pollProcessingItems();
+        } else if (!cancelled && !pollTimer && (
+          state === REALTIME_SUBSCRIBE_STATES.CHANNEL_ERROR ||
+          state === REALTIME_SUBSCRIBE_STATES.TIMED_OUT ||
+          state === REALTIME_SUBSCRIBE_STATES.CLOSED
+        )) {
+          pollTimer = setInterval(pollProcessingItems, FALLBACK_POLL_INTERVAL_MS);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      if (pollTimer) clearInterval(pollTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, hasProcessingItems, applyLabResultStatus]);
+
+  return {
+    items,
+    isRunning,
+    queuedCount: items.filter((item) => item.status === 'queued').length,
+    addFiles,
+    removeItem,
+    clear,
+    start,
+  };
+}
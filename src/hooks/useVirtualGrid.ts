@@ -0,0 +1,72 @@
+import { RefObject, useEffect, useState } from "react";
+
+interface VirtualGridOptions {
+  itemCount: number;
+  // Fixed height of one row of cards, excluding the gap
+  rowHeight: number;
+  gap: number;
+  // Rows rendered above and below the viewport
+  overscan?: number;
+}
+
+export interface VirtualGrid {
+  columns: number;
+  // Indexes of the first and one-past-last rendered items
+  startIndex: number;
+  endIndex: number;
+  // Offset of the first rendered row and height of the whole grid, in pixels
+  offsetTop: number;
+  totalHeight: number;
+}
+
+// Mirrors the md:grid-cols-2 lg:grid-cols-3 breakpoints used by the card grids
+const columnsForWidth = (width: number) => (width >= 1024 ? 3 : width >= 768 ? 2 : 1);
+
+/**
+ * Windowed rendering for a card grid that scrolls with the page: only the rows near the viewport
+ * are rendered, inside a container sized for all rows so the scrollbar stays accurate.
+ */
+export function useVirtualGrid(
+  containerRef: RefObject<HTMLElement>,
+  { itemCount, rowHeight, gap, overscan = 2 }: VirtualGridOptions,
+): VirtualGrid {
+  const [columns, setColumns] = useState(() => columnsForWidth(window.innerWidth));
+  const [range, setRange] = useState({ startRow: 0, endRow: 0 });
+
+  const rowCount = Math.ceil(itemCount / columns);
+  const rowStride = rowHeight + gap;
+
+  useEffect(() => {
+    const update = () => {
+      const nextColumns = columnsForWidth(window.innerWidth);
+      setColumns(nextColumns);
+
+      const container = containerRef.current;
+      if (!container) return;
+      // Distance from the top of the grid to the top and bottom of the viewport
+      const top = -container.getBoundingClientRect().top;
+      const bottom = top + window.innerHeight;
+      const rows = Math.ceil(itemCount / nextColumns);
+      const startRow = Math.max(Math.floor(top / rowStride) - overscan, 0);
+      const endRow = Math.min(Math.ceil(bottom / rowStride) + overscan, rows);
+      setRange((current) =>
+        current.startRow === startRow && current.endRow === endRow ? current : { startRow, endRow });
+    };
+
+    update();
+    window.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+    return () => {
+      window.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+    };
+  }, [containerRef, itemCount, rowStride, overscan]);
+
+  return {
+    columns,
+    startIndex: Math.min(range.startRow * columns, itemCount),
+    endIndex: Math.min(range.endRow * columns, itemCount),
+    offsetTop: range.startRow * rowStride,
+    totalHeight: Math.max(rowCount * rowStride - gap, 0),
+  };
+}
@@ -0,0 +1,15 @@
+// Shareable comparison links: /compare?ids=<id>,<id>,...
+// Anyone opening the link only sees the results their own account can read (RLS).
+
+export const MIN_COMPARE_RESULTS = 2;
+export const MAX_COMPARE_RESULTS = 4;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const buildCompareUrl = (labResultIds: string[]): string =>
+  `/compare?ids=${labResultIds.slice(0, MAX_COMPARE_RESULTS).join(",")}`;
+
+// Keeps the order from the URL (the first id is the baseline), dropping duplicates and malformed ids
+export const parseCompareIds = (value: string | null): string[] =>
+  Array.from(new Set((value ?? "").split(",").map((id) => id.trim()).filter((id) => UUID_PATTERN.test(id))))
+    .slice(0, MAX_COMPARE_RESULTS);
@@ -0,0 +1,58 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Tables } from '@/types/supabase';
+
+// Edit history of lab result descriptions. Saving and restoring go through the
+// save_description_version and restore_description_version RPCs, which also update
+// lab_results.description; process-lab-result records each generated description.
+
+export type DescriptionVersion = Tables<'description_versions'>;
+
+export type DescriptionSource = 'generated' | 'edited' | 'restored';
+
+export const SOURCE_LABELS: Record<DescriptionSource, string> = {
+  generated: 'AI generated',
+  edited: 'Edited',
+  restored: 'Restored',
+};
+
+export async function fetchDescriptionVersions(
+  supabase: SupabaseClient,
+  labResultId: string,
+): Promise<DescriptionVersion[]> {
+  const { data, error } = await supabase
+    .from('description_versions')
+    .select('*')
+    .eq('lab_result_id', labResultId)
+    .order('version', { ascending: false });
+
+  if (error) throw new Error(error.message);
+  return (data || []) as DescriptionVersion[];
+}
+
+// Saves the edited text as the new current description
+export async function saveDescription(
+  supabase: SupabaseClient,
+  labResultId: string,
+  content: string,
+): Promise<DescriptionVersion> {
+  const { data, error } = await supabase.rpc('save_description_version', {
+    lab_result_id_param: labResultId,
+    content_param: content,
+  });
+
+  if (error) throw new Error(error.message);
+  return data as DescriptionVersion;
+}
+
+// Makes an earlier version current again; the restore is itself recorded as a new version
+export async function restoreDescriptionVersion(
+  supabase: SupabaseClient,
+  descriptionVersionId: string,
+): Promise<DescriptionVersion> {
+  const { data, error } = await supabase.rpc('restore_description_version', {
+    description_version_id_param: descriptionVersionId,
+  });
+
+  if (error) throw new Error(error.message);
+  return data as DescriptionVersion;
+}
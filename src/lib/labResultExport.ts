@@ -0,0 +1,56 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { searchArgs, SearchFilters } from './labResultSearch';
+
+// Client for the export-lab-results edge function. The file is built server-side, stored in the
+// private `exports` bucket and downloaded through a short-lived signed URL.
+
+// 'sheet' and 'label' are branded PDFs using the user's brand style
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'sheet' | 'label';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'csv', label: 'CSV', description: 'One row per result with totals and potency columns' },
+  { format: 'xlsx', label: 'Excel (XLSX)', description: 'Results sheet plus every analyte, including safety panels' },
+  { format: 'json', label: 'JSON', description: 'Complete structured data, format version 1' },
+];
+
+// Either specific results, or every result matching a history search (not just the loaded page)
+export type ExportSelection =
+  | { labResultIds: string[] }
+  | { query: string; filters: SearchFilters };
+
+export interface LabResultExport {
+  fileName: string;
+  url: string;
+  count: number;
+  format: ExportFormat;
+}
+
+export async function exportLabResults(
+  supabase: SupabaseClient,
+  format: ExportFormat,
+  selection: ExportSelection,
+): Promise<LabResultExport> {
+  // siteUrl is where the QR codes on strain sheets and labels point (the /r/:slug share page)
+  const body = 'labResultIds' in selection
+    ? { format, labResultIds: selection.labResultIds, siteUrl: window.location.origin }
+    : { format, search: searchArgs(selection.query, selection.filters), siteUrl: window.location.origin };
+
+  const { data, error } = await supabase.functions.invoke('export-lab-results', { body });
+
+  if (error) {
+    // The function reports what went wrong (e.g. too many results) in the JSON body
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as LabResultExport;
+}
+
+// The signed URL is created with a download file name, so navigating to it saves the file
+export const downloadExport = ({ url }: LabResultExport) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.rel = 'noopener';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+};
@@ -0,0 +1,57 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Re-runs the analysis of an existing upload on its stored file. rerun_lab_result saves the
+// current output as a version, charges the run and puts the row back into 'processing'.
+
+// Regenerate replaces a completed output and is charged; Retry re-runs a failed one for free
+export type RerunMode = 'regenerate' | 'retry';
+
+export const rerunModeFor = (status: string | null | undefined): RerunMode | null =>
+  status === 'completed' ? 'regenerate' : status === 'error' ? 'retry' : null;
+
+export interface RerunLabResultResult {
+  labResultId: string;
+  version: number;
+  generationCost: number;
+  generationsUsed: number;
+  generationLimit: number;
+}
+
+/**
+ * Queues the lab result for another run, optionally with a different analysis profile, and starts
+ * process-lab-result. Processing continues asynchronously; watch the row for the final status.
+ */
+export async function rerunLabResult(
+  supabase: SupabaseClient,
+  labResultId: string,
+  analysisProfileId?: string,
+): Promise<RerunLabResultResult> {
+  const { data: run, error: rerunError } = await supabase.rpc('rerun_lab_result', {
+    lab_result_id_param: labResultId,
+    analysis_profile_id_param: analysisProfileId,
+  });
+
+  if (rerunError || !run?.lab_result_id) {
+    throw new Error(rerunError?.message || 'Failed to start the analysis again.');
+  }
+
+  const { error: functionError } = await supabase.functions.invoke('process-lab-result', {
+    body: {
+      pdfStoragePath: run.storage_path,
+      labResultId,
+    },
+  });
+
+  if (functionError) {
+    // The run is paid for and queued; the lab_results row reports the final state.
+    console.error('Supabase function invoke error:', functionError);
+  }
+
+  return {
+    labResultId,
+    version: run.version,
+    generationCost: run.generation_cost,
+    generationsUsed: run.generations_used,
+    generationLimit: run.generation_limit,
+  };
+}
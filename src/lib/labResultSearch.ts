@@ -0,0 +1,116 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Client for public.search_lab_results() (supabase/migrations/add_lab_result_search.sql)
+
+export const SEARCH_PAGE_SIZE = 50;
+
+export interface SearchFilters {
+  dateFrom: string | null; // YYYY-MM-DD, inclusive
+  dateTo: string | null;
+  statuses: string[];
+  labs: string[];
+  terpene: string | null;
+  thcMin: number | null; // total THC, percent
+  thcMax: number | null;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = {
+  dateFrom: null,
+  dateTo: null,
+  statuses: [],
+  labs: [],
+  terpene: null,
+  thcMin: null,
+  thcMax: null,
+};
+
+export interface LabResultSearchHit {
+  id: string;
+  file_name: string;
+  product_name: string | null;
+  lab_name: string | null;
+  status: string | null;
+  created_at: string;
+  total_thc: number | null;
+  dominant_terpene: string | null;
+  strain_id: string | null;
+  strain_name: string | null;
+  batch_number: string | null;
+  // Matching fragments with <mark></mark> around the hits; null without a text query
+  headline: string | null;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  statuses: FacetCount[];
+  labs: FacetCount[];
+  terpenes: FacetCount[];
+  thc: { min: number | null; max: number | null } | null;
+  dates: { min: string | null; max: string | null } | null;
+}
+
+// Position after the last row of a page: (rank, created_at, id) in the function's sort order
+export interface SearchCursor {
+  rank: number;
+  created_at: string;
+  id: string;
+}
+
+export interface LabResultSearchResponse {
+  // total and facets are only computed for the first page
+  total: number | null;
+  results: LabResultSearchHit[];
+  next_cursor: SearchCursor | null;
+  facets: SearchFacets | null;
+}
+
+export const hasActiveFilters = (filters: SearchFilters): boolean =>
+  !!filters.dateFrom ||
+  !!filters.dateTo ||
+  filters.statuses.length > 0 ||
+  filters.labs.length > 0 ||
+  !!filters.terpene ||
+  filters.thcMin !== null ||
+  filters.thcMax !== null;
+
+/**
+ * Arguments of search_lab_results for a query and filter set, without paging. Empty filters are
+ * omitted so the function's defaults apply. Also sent to export-lab-results to export a search.
+ */
+export const searchArgs = (query: string, filters: SearchFilters) => ({
+  query_param: query.trim() || undefined,
+  date_from_param: filters.dateFrom || undefined,
+  date_to_param: filters.dateTo || undefined,
+  statuses_param: filters.statuses.length > 0 ? filters.statuses : undefined,
+  labs_param: filters.labs.length > 0 ? filters.labs : undefined,
+  terpene_param: filters.terpene || undefined,
+  thc_min_param: filters.thcMin ?? undefined,
+  thc_max_param: filters.thcMax ?? undefined,
+});
+
+/**
+ * Fetches one page of a search over the signed-in user's lab results: the first page without a
+ * cursor, then each following page with the previous page's `next_cursor`.
+ */
+export async function searchLabResults(
+  supabase: SupabaseClient,
+  query: string,
+  filters: SearchFilters,
+  cursor: SearchCursor | null = null,
+): Promise<LabResultSearchResponse> {
+  const { data, error } = await supabase.rpc('search_lab_results', {
+    ...searchArgs(query, filters),
+    limit_param: SEARCH_PAGE_SIZE,
+    cursor_rank_param: cursor?.rank,
+    cursor_created_at_param: cursor?.created_at,
+    cursor_id_param: cursor?.id,
+    include_facets_param: !cursor,
+  });
+
+  if (error) throw error;
+  return data as LabResultSearchResponse;
+}
@@ -0,0 +1,220 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Upload as TusUpload } from 'tus-js-client';
+
+// PNG/JPEG photos of COAs are OCRed by the processing function
+export const ACCEPTED_FILE_TYPES = ['application/pdf', 'image/png', 'image/jpeg'];
+
+// Supabase Storage requires 6MB chunks for resumable uploads
+const TUS_CHUNK_SIZE = 6 * 1024 * 1024;
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || "";
+
+export interface UploadLabResultArgs {
+  supabase: SupabaseClient;
+  userId: string;
+  file: File;
+  // analysis_profiles row id; its credit cost is charged by create_lab_result
+  analysisProfileId: string;
+  // Receives byte-level upload progress as a 0-100 percentage
+  onProgress?: (percent: number) => void;
+}
+
+export interface UploadLabResultResult {
+  success: boolean;
+  error?: string;
+  labResultId?: string;
+  generationsUsed?: number;
+  generationLimit?: number;
+}
+
+/**
+ * Returns a user-facing error for files the upload page should reject, or null if the file is acceptable.
+ */
+export const validateCoaFile = (file: File, limitMb: number): string | null => {
+  if (!ACCEPTED_FILE_TYPES.includes(file.type)) {
+    return "Invalid file type. Please upload a PDF, PNG or JPEG.";
+  }
+  if (file.size > limitMb * 1024 * 1024) {
+    return `File size exceeds the ${limitMb}MB limit for your plan.`;
+  }
+  return null;
+};
+
+/**
+ * Uploads a file to the labresults bucket through Supabase Storage's resumable (TUS) endpoint,
+ * reporting real byte-level progress. Resolves with the object path inside the bucket, which is
+ * the path of the earlier attempt when an interrupted upload of the same file is resumed.
+ */
+const uploadResumable = async (
+  supabase: SupabaseClient,
+  objectName: string,
+  file: File,
+  onProgress?: (percent: number) => void,
+): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('You must be logged in to upload files.');
+  }
+
+  return new Promise((resolve, reject) => {
+    const upload = new TusUpload(file, {
+      endpoint: `${supabaseUrl}/storage/v1/upload/resumable`,
+      retryDelays: [0, 3000, 5000, 10000, 20000],
+      headers: {
+        authorization: `Bearer ${session.access_token}`,
+        'x-upsert': 'false', // Important: Don't upsert if you rely on unique names for history
+      },
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      metadata: {
+        bucketName: 'labresults',
+        objectName,
+        contentType: file.type,
+        cacheControl: '3600',
+      },
+      chunkSize: TUS_CHUNK_SIZE,
+      onError: (error) => reject(error),
+      onProgress: (bytesUploaded, bytesTotal) => {
+        onProgress?.(Math.round((bytesUploaded / bytesTotal) * 100));
+      },
+      onSuccess: () => resolve(upload.options.metadata.objectName),
+    });
+
+    // Resume a previous interrupted upload of the same file into the same folder if one exists.
+    // Its upload URL writes to the object name it was created with, so keep that name; it is also
+    // used if the old upload has expired and tus has to create a new one.
+    const folder = `${objectName.split('/')[0]}/`;
+    upload.findPreviousUploads()
+      .then((previousUploads) => {
+        const previous = previousUploads.find((candidate) => candidate.metadata.objectName?.startsWith(folder));
+        if (previous) {
+          upload.options.metadata = { ...upload.options.metadata, objectName: previous.metadata.objectName };
+          upload.resumeFromPreviousUpload(previous);
+        }
+        upload.start();
+      })
+      .catch(reject);
+  });
+};
+
+/**
+ * Uploads a COA to Storage, reserves a generation via create_lab_result and starts
+ * the process-lab-result edge function. Processing continues asynchronously.
+ */
+export const uploadLabResult = async ({
+  supabase,
+  userId,
+  file,
+  analysisProfileId,
+  onProgress,
+}: UploadLabResultArgs): Promise<UploadLabResultResult> => {
+  try {
+    // Create a unique filename with user ID and timestamp
+    const uniqueFileName = `${userId}/${Date.now()}-${file.name}`;
+
+    let storagePath: string;
+    try {
+      storagePath = await uploadResumable(supabase, uniqueFileName, file, onProgress);
+    } catch (uploadError) {
+      console.error('Supabase storage upload error:', uploadError);
+      return { success: false, error: 'Failed to upload file to storage.' };
+    }
+
+    // Reserve a generation and create the lab_results row server-side in one transaction.
+    // The database enforces the limit, so concurrent uploads cannot double-spend.
+    const { data: reservation, error: reserveError } = await supabase.rpc('create_lab_result', {
+      file_name_param: file.name,
+      storage_path_param: storagePath,
+      analysis_profile_id_param: analysisProfileId,
+    });
+
+    if (reserveError || !reservation?.lab_result_id) {
+      console.error('Failed to reserve generation:', reserveError);
+      await supabase.storage.from('labresults').remove([storagePath]);
+      return { success: false, error: reserveError?.message || 'Failed to save file metadata to database.' };
+    }
+
+    const labResultId: string = reservation.lab_result_id;
+
+    // Trigger processing via Edge Function
+    const { error: functionError } = await supabase.functions.invoke(
+      'process-lab-result',
+      {
+        body: {
+          pdfStoragePath: storagePath,
+          labResultId: labResultId,
+        },
+      }
+    );
+
+    if (functionError) {
+      console.error('Supabase function invoke error:', functionError);
+
+      // Fail the row (refunding the generation) unless the function claimed it before erroring,
+      // in which case the lab_results row reports the final state.
+      const { data: failed, error: failError } = await supabase.rpc('fail_unstarted_lab_result', {
+        lab_result_id_param: labResultId,
+      });
+      if (failError) {
+        console.error('Failed to release the reserved generation:', failError);
+      } else if (failed) {
+        return { success: false, error: 'Processing could not be started. The generation was refunded; please try again.' };
+      }
+    }
+
+    return {
+      success: true,
+      labResultId,
+      generationsUsed: reservation.generations_used,
+      generationLimit: reservation.generation_limit,
+    };
+  } catch (error: any) {
+    console.error('Unexpected error during upload:', error);
+    return { success: false, error: error.message || 'An unexpected error occurred during upload.' };
+  }
+};
+
+// Reads every file out of a dropped directory entry, recursing into sub-folders
+const readDirectoryEntry = (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const fileEntry = entry as FileSystemFileEntry;
+    return new Promise((resolve, reject) => fileEntry.file((file) => resolve([file]), reject));
+  }
+
+  if (!entry.isDirectory) return Promise.resolve([]);
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const readBatch = (): Promise<FileSystemEntry[]> =>
+    new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+  return (async () => {
+    const files: File[] = [];
+    // readEntries returns results in batches until it yields an empty array
+    let batch = await readBatch();
+    while (batch.length > 0) {
+      for (const child of batch) {
+        files.push(...(await readDirectoryEntry(child)));
+      }
+      batch = await readBatch();
+    }
+    return files;
+  })();
+};
+
+/**
+ * Collects all files from a drop event, including the contents of dropped folders.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const items = Array.from(dataTransfer.items || []);
+  const entries = items
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+
+  // Browsers without the entries API only expose top-level files
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files || []);
+  }
+
+  const nested = await Promise.all(entries.map(readDirectoryEntry));
+  return nested.flat();
+};
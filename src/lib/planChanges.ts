@@ -0,0 +1,54 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Client for the change-plan edge function: upgrades and downgrades on a paying user's existing
+// Stripe subscription. Free users subscribe through create-checkout (initiateCheckout) instead.
+
+// Upgrades (and same-price switches) apply now with a prorated charge; downgrades wait for the
+// end of the paid period
+export type PlanChangeDirection = 'upgrade' | 'downgrade';
+
+export interface PlanChangePreview {
+  direction: PlanChangeDirection;
+  current_plan_id: string;
+  plan_id: string;
+  // Unix seconds; null when the change applies immediately
+  effective_at: number | null;
+  // Cents charged right away for the rest of the period (0 for downgrades)
+  amount_due_now: number;
+  // Cents per interval from the next renewal
+  next_amount: number;
+  currency: string;
+  // Pass back to applyPlanChange so the charge matches the preview
+  proration_date: number | null;
+}
+
+export interface PlanChangeResult {
+  status: 'changed' | 'scheduled';
+  plan_id: string;
+  effective_at: number | null;
+}
+
+async function invokeChangePlan<T>(supabase: SupabaseClient, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('change-plan', { body });
+
+  if (error) {
+    // The function explains what went wrong (e.g. a failed payment) in the JSON body
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as T;
+}
+
+export const previewPlanChange = (supabase: SupabaseClient, planId: string) =>
+  invokeChangePlan<PlanChangePreview>(supabase, { action: 'preview', plan_id: planId });
+
+export const applyPlanChange = (supabase: SupabaseClient, preview: PlanChangePreview) =>
+  invokeChangePlan<PlanChangeResult>(supabase, {
+    action: 'apply',
+    plan_id: preview.plan_id,
+    proration_date: preview.proration_date ?? undefined,
+  });
+
+// Keeps the current plan by dropping a downgrade scheduled for the period end
+export const cancelScheduledPlanChange = (supabase: SupabaseClient) =>
+  invokeChangePlan<{ status: 'canceled' }>(supabase, { action: 'cancel_scheduled_change' });
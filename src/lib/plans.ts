@@ -0,0 +1,51 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Tables } from '@/types/supabase';
+
+// The plan catalog (public.plans) is the single source of plan names, prices, limits and features.
+// Pricing pages list the purchasable plans from the get-plans edge function; account and admin
+// pages read the table directly so they also see plans that are not for sale, like free.
+
+export type Plan = Tables<'plans'>;
+
+// What get-plans returns for each purchasable plan
+export type PricingPlan = Pick<
+  Plan,
+  | 'id'
+  | 'name'
+  | 'description'
+  | 'stripe_price_id'
+  | 'amount'
+  | 'currency'
+  | 'billing_interval'
+  | 'generation_limit'
+  | 'upload_limit_mb'
+  | 'features'
+  | 'sort_order'
+>;
+
+export const FREE_PLAN_ID = 'free';
+// Used until the catalog has loaded, and for users without a plan
+export const DEFAULT_UPLOAD_LIMIT_MB = 2;
+
+export const findPlan = <T extends Pick<Plan, 'id'>>(plans: T[], planId: string | null | undefined): T | undefined =>
+  plans.find((plan) => plan.id === (planId || FREE_PLAN_ID));
+
+export const getPlanName = (plans: Pick<Plan, 'id' | 'name'>[], planId: string | null | undefined): string =>
+  findPlan(plans, planId)?.name ?? planId ?? 'Free Plan';
+
+export const getUploadLimitMb = (plans: Pick<Plan, 'id' | 'upload_limit_mb'>[], planId: string | null | undefined): number =>
+  findPlan(plans, planId)?.upload_limit_mb ?? DEFAULT_UPLOAD_LIMIT_MB;
+
+export const formatPlanPrice = (plan: Pick<Plan, 'amount' | 'currency'>): string =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: plan.currency.toUpperCase(),
+    minimumFractionDigits: 2,
+  }).format(plan.amount / 100);
+
+export async function fetchPricingPlans(supabase: SupabaseClient): Promise<PricingPlan[]> {
+  const { data, error } = await supabase.functions.invoke('supabase-functions-get-plans');
+
+  if (error) throw error;
+  return (data || []) as PricingPlan[];
+}
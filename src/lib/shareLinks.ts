@@ -0,0 +1,91 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Json, Tables } from '@/types/supabase';
+
+// Public read-only COA pages: /r/<slug>. Links are created and revoked with the create_share_link
+// and revoke_share_link RPCs; the page itself is served by the shared-lab-result edge function.
+
+export type ShareLink = Tables<'share_links'>;
+
+export const SHARE_EXPIRY_OPTIONS: { value: string; label: string; days: number | null }[] = [
+  { value: 'never', label: 'Never expires', days: null },
+  { value: '30', label: 'Expires in 30 days', days: 30 },
+  { value: '90', label: 'Expires in 90 days', days: 90 },
+  { value: '365', label: 'Expires in 1 year', days: 365 },
+];
+
+export const buildShareUrl = (slug: string): string => `${window.location.origin}/r/${slug}`;
+
+export const isShareLinkActive = (link: ShareLink, now = new Date()): boolean =>
+  !link.revoked_at && (!link.expires_at || new Date(link.expires_at) > now);
+
+// The parts of a lab result the public page shows (see shared-lab-result)
+export interface SharedLabResult {
+  labResult: {
+    id: string;
+    file_name: string;
+    status: string | null;
+    product_name: string | null;
+    lab_name: string | null;
+    batch_number: string | null;
+    strain_name: string | null;
+    tested_at: string | null;
+    total_thc: number | null;
+    total_cbd: number | null;
+    total_terpenes: number | null;
+    dominant_terpenes: Json;
+    compliance: Json | null;
+  };
+  analytes: Tables<'lab_result_analytes'>[];
+  // Business name from the owner's brand style
+  sharedBy: string | null;
+  linkExpiresAt: string | null;
+  file: SharedFile | null;
+}
+
+// A short-lived signed download URL for the original COA PDF
+export interface SharedFile {
+  url: string;
+  expiresAt: string;
+}
+
+async function invokeShared<T>(supabase: SupabaseClient, body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('shared-lab-result', { body });
+
+  if (error) {
+    // The function explains why a link is unavailable in the JSON body
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as T;
+}
+
+// Loads the public summary and counts one view
+export const fetchSharedLabResult = (supabase: SupabaseClient, slug: string) =>
+  invokeShared<SharedLabResult>(supabase, { slug });
+
+// Re-signs the COA file URL without counting a view
+export const refreshSharedFile = async (supabase: SupabaseClient, slug: string) =>
+  (await invokeShared<{ file: SharedFile | null }>(supabase, { slug, fileOnly: true })).file;
+
+export async function createShareLink(
+  supabase: SupabaseClient,
+  labResultId: string,
+  expiresInDays: number | null,
+): Promise<ShareLink> {
+  const { data, error } = await supabase.rpc('create_share_link', {
+    lab_result_id_param: labResultId,
+    expires_at_param: expiresInDays
+      ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+      : undefined,
+  });
+
+  if (error) throw new Error(error.message);
+  return data as ShareLink;
+}
+
+export async function revokeShareLink(supabase: SupabaseClient, shareLinkId: string): Promise<ShareLink> {
+  const { data, error } = await supabase.rpc('revoke_share_link', { share_link_id_param: shareLinkId });
+
+  if (error) throw new Error(error.message);
+  return data as ShareLink;
+}
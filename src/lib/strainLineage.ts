@@ -0,0 +1,14 @@
+// Dating and ordering COAs within a strain's batch lineage
+
+export interface DatedCoa {
+  tested_at: string | null;
+  created_at: string | null;
+}
+
+// COAs are dated by the test date printed on them, or by upload time when there is none
+export const coaDate = (result: DatedCoa): string =>
+  result.tested_at ?? result.created_at?.slice(0, 10) ?? "";
+
+// Oldest first, so trends read left to right
+export const sortByCoaDate = <T extends DatedCoa>(results: T[]): T[] =>
+  [...results].sort((a, b) => coaDate(a).localeCompare(coaDate(b)));
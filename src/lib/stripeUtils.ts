@@ -87,4 +87,57 @@ export const initiateCheckout = async ({
     setIsLoading(false);
     setProcessingPlanId(null);
   }
-}; 
\ No newline at end of file
+};
+
+interface OpenCustomerPortalArgs {
+  supabase: SupabaseClient;
+  toast: (options: { title: string; description: string; variant?: 'default' | 'destructive' }) => void;
+  setIsLoading: (loading: boolean) => void;
+  returnUrlPath?: string;
+}
+
+/**
+ * Sends a paid user to the Stripe Customer Portal to update cards, download invoices, cancel or
+ * switch plans. The create-portal-session function finds the Stripe customer from the session.
+ */
+export const openCustomerPortal = async ({
+  supabase,
+  toast,
+  setIsLoading,
+  returnUrlPath = '/profile'
+}: OpenCustomerPortalArgs) => {
+  setIsLoading(true);
+
+  try {
+    const { data, error: functionError } = await supabase.functions.invoke(
+      "create-portal-session",
+      {
+        body: {
+          return_path: returnUrlPath,
+        },
+      }
+    );
+
+    if (functionError) {
+      // The function explains what went wrong (e.g. no billing account) in the JSON body
+      const details = await functionError.context?.json?.().catch(() => null);
+      throw new Error(details?.error || functionError.message);
+    }
+
+    if (data?.url) {
+      window.location.href = data.url;
+    } else {
+      throw new Error("No portal URL returned from the function.");
+    }
+    // Leave the loading state on while the page redirects
+
+  } catch (error: any) {
+    console.error("Error opening customer portal:", error);
+    toast({
+      title: "Billing Error",
+      description: error.message || "Failed to open the billing portal. Please try again.",
+      variant: "destructive",
+    });
+    setIsLoading(false);
+  }
+};
@@ -0,0 +1,82 @@
+// Word-level diff between two versions of a description, for the edit history's compare view.
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many tokens per side the LCS table gets too large for the browser; the texts are then
+// shown as one removal and one addition
+const MAX_DIFF_TOKENS = 4000;
+
+// Words and the whitespace between them, so joining the tokens gives back the exact text
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Diffs two texts word by word (longest common subsequence). Equal parts are shared by both
+ * texts; removed parts are only in `before`, added parts only in `after`.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  // Common prefix and suffix keep the table small for typical edits
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  if (start > 0) pushPart(parts, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length > MAX_DIFF_TOKENS || midB.length > MAX_DIFF_TOKENS) {
+    if (midA.length) pushPart(parts, 'removed', midA.join(''));
+    if (midB.length) pushPart(parts, 'added', midB.join(''));
+  } else {
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..], stored row-major
+    const width = midB.length + 1;
+    const lengths = new Uint16Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushPart(parts, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        pushPart(parts, 'removed', midA[i++]);
+      } else {
+        pushPart(parts, 'added', midB[j++]);
+      }
+    }
+    while (i < midA.length) pushPart(parts, 'removed', midA[i++]);
+    while (j < midB.length) pushPart(parts, 'added', midB[j++]);
+  }
+
+  if (endA < a.length) pushPart(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+}
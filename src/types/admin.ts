@@ -47,10 +47,24 @@ export interface SubscriptionDetails {
   interval: string | null;
 }
 
+// Stripe webhook deliveries (webhook_events), as listed by get_webhook_events
+export type WebhookEventStatus = 'processing' | 'processed' | 'failed';
+
+export interface WebhookEventSummary {
+  id: string;
+  stripe_event_id: string | null;
+  event_type: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  processed_at: string | null;
+}
+
 // Admin operation types
 export interface UpdateUserPlanParams {
   userId: string;
-  planId: 'free' | 'basic' | 'pro';
+  planId: string; // plans.id
   generationLimit: number;
 }
 
@@ -58,7 +72,7 @@ export interface CreateAdminUserParams {
   email: string;
   password: string;
   fullName: string;
-  planId: 'free' | 'basic' | 'pro';
+  planId: string; // plans.id
 }
 
 // Table pagination and filtering
@@ -124,7 +138,8 @@ export type AdminAction =
   | 'update_subscription'
   | 'grant_premium'
   | 'view_analytics'
-  | 'export_data';
+  | 'export_data'
+  | 'replay_webhook_event';
 
 // Admin permissions
 export interface AdminPermissions {
@@ -140,7 +155,7 @@ export interface AdminPermissions {
 export interface EditUserForm {
   email: string;
   fullName: string;
-  currentPlanId: 'free' | 'basic' | 'pro';
+  currentPlanId: string; // plans.id
   generationLimit: number;
   generationsUsed: number;
 }
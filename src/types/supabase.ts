@@ -9,13 +9,1041 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
-      [_ in never]: never
+      analysis_profiles: {
+        Row: {
+          created_at: string | null
+          credit_cost: number
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          sections: string[]
+          sort_order: number
+          target_words: number
+          tone: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          credit_cost?: number
+          description?: string | null
+          id: string
+          is_active?: boolean
+          name: string
+          sections?: string[]
+          sort_order?: number
+          target_words?: number
+          tone?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          credit_cost?: number
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          sections?: string[]
+          sort_order?: number
+          target_words?: number
+          tone?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      batches: {
+        Row: {
+          batch_number: string | null
+          created_at: string | null
+          id: string
+          strain_id: string
+          user_id: string
+        }
+        Insert: {
+          batch_number?: string | null
+          created_at?: string | null
+          id?: string
+          strain_id: string
+          user_id: string
+        }
+        Update: {
+          batch_number?: string | null
+          created_at?: string | null
+          id?: string
+          strain_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batches_strain_id_fkey"
+            columns: ["strain_id"]
+            isOneToOne: false
+            referencedRelation: "strains"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      brand_styles: {
+        Row: {
+          accent_color: string | null
+          business_name: string | null
+          created_at: string | null
+          logo_path: string | null
+          primary_color: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          accent_color?: string | null
+          business_name?: string | null
+          created_at?: string | null
+          logo_path?: string | null
+          primary_color?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          accent_color?: string | null
+          business_name?: string | null
+          created_at?: string | null
+          logo_path?: string | null
+          primary_color?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      brand_voices: {
+        Row: {
+          banned_words: string[]
+          created_at: string | null
+          reading_level: number | null
+          required_disclaimers: string[]
+          tone: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          banned_words?: string[]
+          created_at?: string | null
+          reading_level?: number | null
+          required_disclaimers?: string[]
+          tone?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          banned_words?: string[]
+          created_at?: string | null
+          reading_level?: number | null
+          required_disclaimers?: string[]
+          tone?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      compliance_rule_packs: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          jurisdiction: string
+          name: string
+          rules: Json
+          version: number
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id: string
+          is_active?: boolean
+          jurisdiction: string
+          name: string
+          rules: Json
+          version: number
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          jurisdiction?: string
+          name?: string
+          rules?: Json
+          version?: number
+        }
+        Relationships: []
+      }
+      description_versions: {
+        Row: {
+          author_id: string | null
+          author_name: string | null
+          content: string
+          created_at: string
+          id: string
+          lab_result_id: string
+          restored_from: string | null
+          source: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          author_id?: string | null
+          author_name?: string | null
+          content: string
+          created_at?: string
+          id?: string
+          lab_result_id: string
+          restored_from?: string | null
+          source: string
+          user_id: string
+          version: number
+        }
+        Update: {
+          author_id?: string | null
+          author_name?: string | null
+          content?: string
+          created_at?: string
+          id?: string
+          lab_result_id?: string
+          restored_from?: string | null
+          source?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "description_versions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "description_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "description_versions_lab_result_id_fkey"
+            columns: ["lab_result_id"]
+            isOneToOne: false
+            referencedRelation: "lab_results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lab_result_analytes: {
+        Row: {
+          analyte_name: string
+          cas_number: string | null
+          category: string
+          created_at: string
+          id: string
+          lab_result_id: string
+          lod: number | null
+          loq: number | null
+          pass_fail: string | null
+          unit: string
+          value: number | null
+        }
+        Insert: {
+          analyte_name: string
+          cas_number?: string | null
+          category: string
+          created_at?: string
+          id?: string
+          lab_result_id: string
+          lod?: number | null
+          loq?: number | null
+          pass_fail?: string | null
+          unit?: string
+          value?: number | null
+        }
+        Update: {
+          analyte_name?: string
+          cas_number?: string | null
+          category?: string
+          created_at?: string
+          id?: string
+          lab_result_id?: string
+          lod?: number | null
+          loq?: number | null
+          pass_fail?: string | null
+          unit?: string
+          value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lab_result_analytes_lab_result_id_fkey"
+            columns: ["lab_result_id"]
+            isOneToOne: false
+            referencedRelation: "lab_results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lab_result_versions: {
+        Row: {
+          analysis_profile_id: string | null
+          batch_number: string | null
+          cannabinoid_profile: string | null
+          compliance: Json | null
+          compliance_verdict: string | null
+          created_at: string | null
+          description: string | null
+          dominant_terpenes: Json | null
+          generation_cost: number
+          id: string
+          lab_name: string | null
+          lab_result_id: string
+          parser: string | null
+          processed_at: string | null
+          product_name: string | null
+          terpene_data: string | null
+          tested_at: string | null
+          total_cbd: number | null
+          total_terpenes: number | null
+          total_thc: number | null
+          user_id: string
+          version: number
+          voice_violations: Json | null
+        }
+        Insert: {
+          analysis_profile_id?: string | null
+          batch_number?: string | null
+          cannabinoid_profile?: string | null
+          compliance?: Json | null
+          compliance_verdict?: string | null
+          created_at?: string | null
+          description?: string | null
+          dominant_terpenes?: Json | null
+          generation_cost?: number
+          id?: string
+          lab_name?: string | null
+          lab_result_id: string
+          parser?: string | null
+          processed_at?: string | null
+          product_name?: string | null
+          terpene_data?: string | null
+          tested_at?: string | null
+          total_cbd?: number | null
+          total_terpenes?: number | null
+          total_thc?: number | null
+          user_id: string
+          version: number
+          voice_violations?: Json | null
+        }
+        Update: {
+          analysis_profile_id?: string | null
+          batch_number?: string | null
+          cannabinoid_profile?: string | null
+          compliance?: Json | null
+          compliance_verdict?: string | null
+          created_at?: string | null
+          description?: string | null
+          dominant_terpenes?: Json | null
+          generation_cost?: number
+          id?: string
+          lab_name?: string | null
+          lab_result_id?: string
+          parser?: string | null
+          processed_at?: string | null
+          product_name?: string | null
+          terpene_data?: string | null
+          tested_at?: string | null
+          total_cbd?: number | null
+          total_terpenes?: number | null
+          total_thc?: number | null
+          user_id?: string
+          version?: number
+          voice_violations?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lab_result_versions_lab_result_id_fkey"
+            columns: ["lab_result_id"]
+            isOneToOne: false
+            referencedRelation: "lab_results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lab_result_versions_analysis_profile_id_fkey"
+            columns: ["analysis_profile_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lab_results: {
+        Row: {
+          analysis_profile_id: string | null
+          batch_id: string | null
+          batch_number: string | null
+          cannabinoid_profile: string | null
+          compliance: Json | null
+          compliance_verdict: string | null
+          created_at: string
+          description: string | null
+          dominant_terpenes: Json
+          file_name: string
+          generation_cost: number
+          generation_reserved: boolean
+          id: string
+          lab_name: string | null
+          page_sources: Json | null
+          parser: string | null
+          product_name: string | null
+          raw_text: string | null
+          search_vector: unknown | null
+          status: string | null
+          storage_path: string
+          terpene_data: string | null
+          tested_at: string | null
+          total_cbd: number | null
+          total_terpenes: number | null
+          total_thc: number | null
+          updated_at: string | null
+          user_id: string
+          version: number
+          voice_violations: Json
+        }
+        Insert: {
+          analysis_profile_id?: string | null
+          batch_id?: string | null
+          batch_number?: string | null
+          cannabinoid_profile?: string | null
+          compliance?: Json | null
+          compliance_verdict?: string | null
+          created_at?: string
+          description?: string | null
+          dominant_terpenes?: Json
+          file_name: string
+          generation_cost?: number
+          generation_reserved?: boolean
+          id?: string
+          lab_name?: string | null
+          page_sources?: Json | null
+          parser?: string | null
+          product_name?: string | null
+          raw_text?: string | null
+          search_vector?: unknown | null
+          status?: string | null
+          storage_path: string
+          terpene_data?: string | null
+          tested_at?: string | null
+          total_cbd?: number | null
+          total_terpenes?: number | null
+          total_thc?: number | null
+          updated_at?: string | null
+          user_id: string
+          version?: number
+          voice_violations?: Json
+        }
+        Update: {
+          analysis_profile_id?: string | null
+          batch_id?: string | null
+          batch_number?: string | null
+          cannabinoid_profile?: string | null
+          compliance?: Json | null
+          compliance_verdict?: string | null
+          created_at?: string
+          description?: string | null
+          dominant_terpenes?: Json
+          file_name?: string
+          generation_cost?: number
+          generation_reserved?: boolean
+          id?: string
+          lab_name?: string | null
+          page_sources?: Json | null
+          parser?: string | null
+          product_name?: string | null
+          raw_text?: string | null
+          search_vector?: unknown | null
+          status?: string | null
+          storage_path?: string
+          terpene_data?: string | null
+          tested_at?: string | null
+          total_cbd?: number | null
+          total_terpenes?: number | null
+          total_thc?: number | null
+          updated_at?: string | null
+          user_id?: string
+          version?: number
+          voice_violations?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lab_results_analysis_profile_id_fkey"
+            columns: ["analysis_profile_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lab_results_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plans: {
+        Row: {
+          amount: number
+          billing_interval: string | null
+          created_at: string | null
+          currency: string
+          description: string | null
+          features: string[]
+          generation_limit: number
+          id: string
+          is_active: boolean
+          is_public: boolean
+          name: string
+          sort_order: number
+          stripe_price_id: string | null
+          stripe_product_id: string | null
+          updated_at: string | null
+          upload_limit_mb: number
+        }
+        Insert: {
+          amount?: number
+          billing_interval?: string | null
+          created_at?: string | null
+          currency?: string
+          description?: string | null
+          features?: string[]
+          generation_limit: number
+          id: string
+          is_active?: boolean
+          is_public?: boolean
+          name: string
+          sort_order?: number
+          stripe_price_id?: string | null
+          stripe_product_id?: string | null
+          updated_at?: string | null
+          upload_limit_mb: number
+        }
+        Update: {
+          amount?: number
+          billing_interval?: string | null
+          created_at?: string | null
+          currency?: string
+          description?: string | null
+          features?: string[]
+          generation_limit?: number
+          id?: string
+          is_active?: boolean
+          is_public?: boolean
+          name?: string
+          sort_order?: number
+          stripe_price_id?: string | null
+          stripe_product_id?: string | null
+          updated_at?: string | null
+          upload_limit_mb?: number
+        }
+        Relationships: []
+      }
+      share_links: {
+        Row: {
+          created_at: string | null
+          expires_at: string | null
+          id: string
+          lab_result_id: string
+          last_viewed_at: string | null
+          revoked_at: string | null
+          slug: string
+          user_id: string
+          view_count: number
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string
+          lab_result_id: string
+          last_viewed_at?: string | null
+          revoked_at?: string | null
+          slug?: string
+          user_id: string
+          view_count?: number
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string | null
+          id?: string
+          lab_result_id?: string
+          last_viewed_at?: string | null
+          revoked_at?: string | null
+          slug?: string
+          user_id?: string
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_links_lab_result_id_fkey"
+            columns: ["lab_result_id"]
+            isOneToOne: false
+            referencedRelation: "lab_results"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      strains: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          notes: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      subscriptions: {
+        Row: {
+          amount: number | null
+          cancel_at_period_end: boolean | null
+          canceled_at: number | null
+          created_at: string
+          currency: string | null
+          current_period_end: number | null
+          current_period_start: number | null
+          custom_field_data: Json | null
+          customer_cancellation_comment: string | null
+          customer_cancellation_reason: string | null
+          customer_id: string | null
+          ended_at: number | null
+          ends_at: number | null
+          id: string
+          interval: string | null
+          metadata: Json | null
+          price_id: string | null
+          scheduled_change_at: number | null
+          scheduled_plan_id: string | null
+          started_at: number | null
+          status: string | null
+          stripe_id: string | null
+          stripe_price_id: string | null
+          stripe_schedule_id: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          amount?: number | null
+          cancel_at_period_end?: boolean | null
+          canceled_at?: number | null
+          created_at?: string
+          currency?: string | null
+          current_period_end?: number | null
+          current_period_start?: number | null
+          custom_field_data?: Json | null
+          customer_cancellation_comment?: string | null
+          customer_cancellation_reason?: string | null
+          customer_id?: string | null
+          ended_at?: number | null
+          ends_at?: number | null
+          id?: string
+          interval?: string | null
+          metadata?: Json | null
+          price_id?: string | null
+          scheduled_change_at?: number | null
+          scheduled_plan_id?: string | null
+          started_at?: number | null
+          status?: string | null
+          stripe_id?: string | null
+          stripe_price_id?: string | null
+          stripe_schedule_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number | null
+          cancel_at_period_end?: boolean | null
+          canceled_at?: number | null
+          created_at?: string
+          currency?: string | null
+          current_period_end?: number | null
+          current_period_start?: number | null
+          custom_field_data?: Json | null
+          customer_cancellation_comment?: string | null
+          customer_cancellation_reason?: string | null
+          customer_id?: string | null
+          ended_at?: number | null
+          ends_at?: number | null
+          id?: string
+          interval?: string | null
+          metadata?: Json | null
+          price_id?: string | null
+          scheduled_change_at?: number | null
+          scheduled_plan_id?: string | null
+          started_at?: number | null
+          status?: string | null
+          stripe_id?: string | null
+          stripe_price_id?: string | null
+          stripe_schedule_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_scheduled_plan_id_fkey"
+            columns: ["scheduled_plan_id"]
+            isOneToOne: false
+            referencedRelation: "plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      users: {
+        Row: {
+          avatar_url: string | null
+          compliance_rule_pack_id: string | null
+          created_at: string
+          credits: string | null
+          current_plan_id: string | null
+          email: string | null
+          full_name: string | null
+          generation_limit: number | null
+          generations_used: number | null
+          id: string
+          image: string | null
+          name: string | null
+          operations_available: number | null
+          operations_used: number | null
+          subscription: string | null
+          token_identifier: string
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          compliance_rule_pack_id?: string | null
+          created_at?: string
+          credits?: string | null
+          current_plan_id?: string | null
+          email?: string | null
+          full_name?: string | null
+          generation_limit?: number | null
+          generations_used?: number | null
+          id: string
+          image?: string | null
+          name?: string | null
+          operations_available?: number | null
+          operations_used?: number | null
+          subscription?: string | null
+          token_identifier: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          compliance_rule_pack_id?: string | null
+          created_at?: string
+          credits?: string | null
+          current_plan_id?: string | null
+          email?: string | null
+          full_name?: string | null
+          generation_limit?: number | null
+          generations_used?: number | null
+          id?: string
+          image?: string | null
+          name?: string | null
+          operations_available?: number | null
+          operations_used?: number | null
+          subscription?: string | null
+          token_identifier?: string
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      webhook_events: {
+        Row: {
+          attempts: number
+          created_at: string
+          data: Json | null
+          event_type: string
+          id: string
+          last_error: string | null
+          modified_at: string
+          payload: Json | null
+          processed_at: string | null
+          processing_started_at: string | null
+          status: string
+          stripe_event_id: string | null
+          type: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          data?: Json | null
+          event_type: string
+          id?: string
+          last_error?: string | null
+          modified_at?: string
+          payload?: Json | null
+          processed_at?: string | null
+          processing_started_at?: string | null
+          status?: string
+          stripe_event_id?: string | null
+          type: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          data?: Json | null
+          event_type?: string
+          id?: string
+          last_error?: string | null
+          modified_at?: string
+          payload?: Json | null
+          processed_at?: string | null
+          processing_started_at?: string | null
+          status?: string
+          stripe_event_id?: string | null
+          type?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      assign_lab_result_batch: {
+        Args: {
+          batch_number_param?: string
+          lab_result_id_param: string
+          strain_name_param?: string
+        }
+        Returns: Json
+      }
+      claim_webhook_event: {
+        Args: {
+          event_type_param: string
+          payload_param: Json
+          replay_param?: boolean
+          stripe_event_id_param: string
+        }
+        Returns: string
+      }
+      create_lab_result: {
+        Args: {
+          analysis_profile_id_param?: string
+          file_name_param: string
+          storage_path_param: string
+        }
+        Returns: Json
+      }
+      create_share_link: {
+        Args: {
+          expires_at_param?: string
+          lab_result_id_param: string
+        }
+        Returns: {
+          created_at: string | null
+          expires_at: string | null
+          id: string
+          lab_result_id: string
+          last_viewed_at: string | null
+          revoked_at: string | null
+          slug: string
+          user_id: string
+          view_count: number
+        }
+      }
+      fail_unstarted_lab_result: {
+        Args: {
+          lab_result_id_param: string
+        }
+        Returns: boolean
+      }
+      generate_share_slug: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      is_admin: {
+        Args: {
+          user_email: string
+        }
+        Returns: boolean
+      }
+      lab_result_search_document: {
+        Args: {
+          description: string
+          file_name: string
+          lab_name: string
+          product_name: string
+          raw_text: string
+          strain_name: string
+        }
+        Returns: unknown
+      }
+      link_lab_result_batch: {
+        Args: {
+          batch_number_param?: string
+          lab_result_id_param: string
+          strain_id_param: string
+          user_id_param: string
+        }
+        Returns: string
+      }
+      max_upload_bytes: {
+        Args: {
+          user_id_param: string
+        }
+        Returns: number
+      }
+      open_share_link: {
+        Args: {
+          slug_param: string
+        }
+        Returns: {
+          created_at: string | null
+          expires_at: string | null
+          id: string
+          lab_result_id: string
+          last_viewed_at: string | null
+          revoked_at: string | null
+          slug: string
+          user_id: string
+          view_count: number
+        }[]
+      }
+      record_description_version: {
+        Args: {
+          author_id_param?: string
+          content_param: string
+          lab_result_id_param: string
+          restored_from_param?: string
+          source_param: string
+        }
+        Returns: {
+          author_id: string | null
+          author_name: string | null
+          content: string
+          created_at: string
+          id: string
+          lab_result_id: string
+          restored_from: string | null
+          source: string
+          user_id: string
+          version: number
+        }
+      }
+      rerun_lab_result: {
+        Args: {
+          analysis_profile_id_param?: string
+          lab_result_id_param: string
+        }
+        Returns: Json
+      }
+      restore_description_version: {
+        Args: {
+          description_version_id_param: string
+        }
+        Returns: {
+          author_id: string | null
+          author_name: string | null
+          content: string
+          created_at: string
+          id: string
+          lab_result_id: string
+          restored_from: string | null
+          source: string
+          user_id: string
+          version: number
+        }
+      }
+      revoke_share_link: {
+        Args: {
+          share_link_id_param: string
+        }
+        Returns: {
+          created_at: string | null
+          expires_at: string | null
+          id: string
+          lab_result_id: string
+          last_viewed_at: string | null
+          revoked_at: string | null
+          slug: string
+          user_id: string
+          view_count: number
+        }
+      }
+      save_description_version: {
+        Args: {
+          content_param: string
+          lab_result_id_param: string
+        }
+        Returns: {
+          author_id: string | null
+          author_name: string | null
+          content: string
+          created_at: string
+          id: string
+          lab_result_id: string
+          restored_from: string | null
+          source: string
+          user_id: string
+          version: number
+        }
+      }
+      search_lab_results: {
+        Args: {
+          cursor_created_at_param?: string
+          cursor_id_param?: string
+          cursor_rank_param?: number
+          date_from_param?: string
+          date_to_param?: string
+          include_facets_param?: boolean
+          labs_param?: string[]
+          limit_param?: number
+          query_param?: string
+          statuses_param?: string[]
+          terpene_param?: string
+          thc_max_param?: number
+          thc_min_param?: number
+        }
+        Returns: Json
+      }
+      set_compliance_rule_pack: {
+        Args: {
+          rule_pack_id_param?: string
+        }
+        Returns: undefined
+      }
+      update_user_plan: {
+        Args: {
+          user_id_param: string
+          plan_id_param: string
+          limit_param: number
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
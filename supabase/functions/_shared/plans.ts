@@ -0,0 +1,74 @@
+// Plan catalog lookups for the Stripe functions (payments-webhook, change-plan). Limits and names
+// come from the plans table; Stripe objects are matched to a plan by price ID, then product ID,
+// then a plan_id in product metadata. Deno only: takes a service-role Supabase client.
+
+export interface CatalogPlan {
+  id: string;
+  name: string;
+  generation_limit: number;
+  stripe_price_id: string | null;
+  stripe_product_id: string | null;
+  amount: number;
+  currency: string;
+  is_active: boolean;
+}
+
+export const FREE_PLAN_ID = 'free';
+
+// Used only if the free plan row is missing, matching the previous hardcoded default
+const FALLBACK_FREE_PLAN: CatalogPlan = {
+  id: FREE_PLAN_ID,
+  name: 'Free Plan',
+  generation_limit: 1,
+  stripe_price_id: null,
+  stripe_product_id: null,
+  amount: 0,
+  currency: 'usd',
+  is_active: true,
+};
+
+const PLAN_COLUMNS = 'id, name, generation_limit, stripe_price_id, stripe_product_id, amount, currency, is_active';
+
+async function findPlan(supabaseClient: any, column: string, value: string): Promise<CatalogPlan | null> {
+  const { data, error } = await supabaseClient
+    .from('plans')
+    .select(PLAN_COLUMNS)
+    .eq(column, value)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up plan by ${column}: ${error.message}`);
+  }
+  return data;
+}
+
+export async function findPlanById(supabaseClient: any, planId: string): Promise<CatalogPlan | null> {
+  return findPlan(supabaseClient, 'id', planId);
+}
+
+export async function loadFreePlan(supabaseClient: any): Promise<CatalogPlan> {
+  return (await findPlan(supabaseClient, 'id', FREE_PLAN_ID)) ?? FALLBACK_FREE_PLAN;
+}
+
+/**
+ * The catalog plan a Stripe price belongs to, or null if it is not in the catalog. `price.product`
+ * may be an ID or an expanded product; product metadata is fetched only when IDs do not match.
+ */
+export async function findPlanForPrice(stripe: any, supabaseClient: any, price: any): Promise<CatalogPlan | null> {
+  if (!price) return null;
+
+  const byPrice = await findPlan(supabaseClient, 'stripe_price_id', price.id);
+  if (byPrice) return byPrice;
+
+  const productId = typeof price.product === 'string' ? price.product : price.product?.id;
+  if (!productId) return null;
+
+  const byProduct = await findPlan(supabaseClient, 'stripe_product_id', productId);
+  if (byProduct) return byProduct;
+
+  const product = typeof price.product === 'object' && price.product.metadata
+    ? price.product
+    : await stripe.products.retrieve(productId);
+  const planId = product?.metadata?.plan_id;
+  return planId ? findPlan(supabaseClient, 'id', planId) : null;
+}
@@ -0,0 +1,140 @@
+// Deterministic potency math for COA analytes, shared by the process-lab-result function and the
+// frontend so stored totals, generated descriptions and the UI always agree.
+// Keep this file dependency-free: it is imported by Deno (edge functions) and by Vite (src/).
+
+export interface PotencyAnalyte {
+  name: string;
+  // null for ND / <LOQ
+  value: number | null;
+  unit: string;
+}
+
+export interface RankedTerpene {
+  name: string;
+  // Percent by weight
+  value: number;
+}
+
+export interface PotencySummary {
+  // All totals are percent by weight; null when none of the inputs were reported
+  totalThc: number | null;
+  totalCbd: number | null;
+  totalTerpenes: number | null;
+  // Quantified terpenes, highest first
+  dominantTerpenes: RankedTerpene[];
+}
+
+// Decarboxylation loses the carboxyl group: molecular weight of THC / THCA (and CBD / CBDA)
+export const THCA_DECARB_FACTOR = 0.877;
+export const CBDA_DECARB_FACTOR = 0.877;
+
+export const DOMINANT_TERPENE_COUNT = 3;
+
+const DELTA9_THC_NAMES = ['thc', 'd9thc', 'δ9thc', 'delta9thc', 'δ9tetrahydrocannabinol', 'delta9tetrahydrocannabinol'];
+const THCA_NAMES = ['thca', 'thcaa', 'd9thca', 'δ9thca', 'delta9thca', 'tetrahydrocannabinolicacid'];
+const CBD_NAMES = ['cbd', 'cannabidiol'];
+const CBDA_NAMES = ['cbda', 'cannabidiolicacid'];
+
+// Percent per unit for mass fractions; other units (mg/ml, CFU/g) cannot be expressed as a percent
+const PERCENT_PER_UNIT: Record<string, number> = {
+  '%': 1,
+  'mg/g': 0.1,
+  'mg/kg': 0.0001,
+  'µg/g': 0.0001,
+  'ug/g': 0.0001,
+  'ppm': 0.0001,
+};
+
+// "Lead (Pb)" -> "lead", "Δ9-THC" -> "δ9thc"
+export const normalizeAnalyteName = (name: string) =>
+  name.replace(/\(.*?\)/g, '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Summary rows some labs print in the table ("Total THC", "Total Terpenes") are never summed again
+const isTotalRow = (analyte: PotencyAnalyte) => normalizeAnalyteName(analyte.name).startsWith('total');
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Converts a reported value to percent by weight. Returns null for units that are not a mass fraction.
+ */
+export function toPercent(value: number, unit: string): number | null {
+  const factor = PERCENT_PER_UNIT[unit.trim().toLowerCase()];
+  return factor === undefined ? null : value * factor;
+}
+
+function findAnalyte(analytes: PotencyAnalyte[], names: string[]): PotencyAnalyte | undefined {
+  return analytes.find((analyte) => names.includes(normalizeAnalyteName(analyte.name)));
+}
+
+// neutral + factor × acid. ND / <LOQ counts as zero; null when neither form is reported in a mass unit.
+function decarboxylatedTotal(
+  analytes: PotencyAnalyte[],
+  neutralNames: string[],
+  acidNames: string[],
+  factor: number,
+): number | null {
+  const neutral = findAnalyte(analytes, neutralNames);
+  const acid = findAnalyte(analytes, acidNames);
+  if (!neutral && !acid) return null;
+
+  const percentOf = (analyte: PotencyAnalyte | undefined) =>
+    analyte && analyte.value !== null ? toPercent(analyte.value, analyte.unit) : 0;
+  const neutralPercent = percentOf(neutral);
+  const acidPercent = percentOf(acid);
+  if (neutralPercent === null || acidPercent === null) return null;
+
+  return round(neutralPercent + factor * acidPercent);
+}
+
+/**
+ * Total THC = Δ9-THC + 0.877 × THCA, in percent.
+ */
+export function totalThc(cannabinoids: PotencyAnalyte[]): number | null {
+  return decarboxylatedTotal(cannabinoids, DELTA9_THC_NAMES, THCA_NAMES, THCA_DECARB_FACTOR);
+}
+
+/**
+ * Total CBD = CBD + 0.877 × CBDA, in percent.
+ */
+export function totalCbd(cannabinoids: PotencyAnalyte[]): number | null {
+  return decarboxylatedTotal(cannabinoids, CBD_NAMES, CBDA_NAMES, CBDA_DECARB_FACTOR);
+}
+
+/**
+ * Quantified terpenes converted to percent and sorted highest first; ties keep the COA's order.
+ */
+export function rankTerpenes(terpenes: PotencyAnalyte[]): RankedTerpene[] {
+  const ranked: RankedTerpene[] = [];
+  for (const terpene of terpenes) {
+    if (terpene.value === null || isTotalRow(terpene)) continue;
+    const percent = toPercent(terpene.value, terpene.unit);
+    if (percent !== null && percent > 0) {
+      ranked.push({ name: terpene.name, value: round(percent) });
+    }
+  }
+  return ranked.sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Sum of all quantified terpenes, in percent; null when the COA reports no terpenes.
+ */
+export function totalTerpenes(terpenes: PotencyAnalyte[]): number | null {
+  if (terpenes.filter((terpene) => !isTotalRow(terpene)).length === 0) return null;
+  return round(rankTerpenes(terpenes).reduce((total, terpene) => total + terpene.value, 0));
+}
+
+export function computePotency(cannabinoids: PotencyAnalyte[], terpenes: PotencyAnalyte[]): PotencySummary {
+  return {
+    totalThc: totalThc(cannabinoids),
+    totalCbd: totalCbd(cannabinoids),
+    totalTerpenes: totalTerpenes(terpenes),
+    dominantTerpenes: rankTerpenes(terpenes).slice(0, DOMINANT_TERPENE_COUNT),
+  };
+}
+
+/**
+ * Formats a percentage the same way everywhere it is shown, e.g. 21.9712 -> "21.97%".
+ */
+export function formatPercent(value: number): string {
+  return `${Number(value.toFixed(2))}%`;
+}
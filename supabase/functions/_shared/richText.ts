@@ -0,0 +1,95 @@
+// Formatting of lab result descriptions, shared by the description editor and the exports.
+// Descriptions use a small Markdown subset that still reads well as plain text: **bold**, *italic*
+// and lines starting with "- " as bullets. Generated descriptions are plain text, which is valid as-is.
+// Keep this file dependency-free: it is imported by Deno (edge functions) and by Vite (src/).
+
+export interface RichTextSpan {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+// One line of text as formatted spans
+export type RichTextLine = RichTextSpan[];
+
+export type RichTextBlock =
+  | { type: 'paragraph'; lines: RichTextLine[] }
+  | { type: 'list'; items: RichTextLine[] };
+
+export const BOLD_MARKER = '**';
+export const ITALIC_MARKER = '*';
+export const BULLET_MARKER = '- ';
+
+const BULLET_PATTERN = /^\s*[-•]\s+/;
+// Markers must hug their text, so "5 * 2 * 3" stays literal
+const INLINE_PATTERN = /\*\*(?=\S)([^*]*?\S)\*\*|\*(?=\S)([^*]*?\S)\*/g;
+
+export const isBulletLine = (line: string): boolean => BULLET_PATTERN.test(line);
+
+export const stripBullet = (line: string): string => line.replace(BULLET_PATTERN, '');
+
+/**
+ * Splits one line into plain, bold and italic spans. Unmatched markers are kept as text.
+ */
+export function parseInline(line: string): RichTextLine {
+  const spans: RichTextLine = [];
+  let last = 0;
+
+  for (const match of line.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) spans.push({ text: line.slice(last, index), bold: false, italic: false });
+    if (match[1] !== undefined) {
+      spans.push({ text: match[1], bold: true, italic: false });
+    } else {
+      spans.push({ text: match[2], bold: false, italic: true });
+    }
+    last = index + match[0].length;
+  }
+
+  if (last < line.length) spans.push({ text: line.slice(last), bold: false, italic: false });
+  return spans;
+}
+
+/**
+ * Parses a description into paragraphs and bullet lists. Blank lines separate paragraphs;
+ * single line breaks inside a paragraph are kept.
+ */
+export function parseRichText(text: string): RichTextBlock[] {
+  const blocks: RichTextBlock[] = [];
+  let current: RichTextBlock | null = null;
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (line.trim() === '') {
+      current = null;
+    } else if (isBulletLine(line)) {
+      if (current?.type !== 'list') {
+        current = { type: 'list', items: [] };
+        blocks.push(current);
+      }
+      current.items.push(parseInline(stripBullet(line)));
+    } else {
+      if (current?.type !== 'paragraph') {
+        current = { type: 'paragraph', lines: [] };
+        blocks.push(current);
+      }
+      current.lines.push(parseInline(line));
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * The description without markup, for outputs that cannot style text (PDF sheets and labels).
+ * Bullets become "•" and line structure is preserved.
+ */
+export function toPlainText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => {
+      const plain = parseInline(isBulletLine(line) ? stripBullet(line) : line).map((span) => span.text).join('');
+      return isBulletLine(line) ? `• ${plain}` : plain;
+    })
+    .join('\n');
+}
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+// Replays run the payments-webhook handlers in-process, through the same claim step
+import { processWebhookEvent } from "../payments-webhook/events.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,8 +12,8 @@ const corsHeaders = {
 interface UpdateUserPlanRequest {
   action: 'update_user_plan';
   userId: string;
-  planId: 'free' | 'basic' | 'pro';
-  generationLimit: number;
+  planId: string; // plans.id
+  generationLimit?: number; // defaults to the plan's generation_limit
 }
 
 interface DeleteUserRequest {
@@ -33,7 +35,26 @@ interface GetAnalyticsRequest {
   period?: 'week' | 'month' | 'year';
 }
 
-type AdminRequest = UpdateUserPlanRequest | DeleteUserRequest | GetUsersRequest | GetAnalyticsRequest;
+interface GetWebhookEventsRequest {
+  action: 'get_webhook_events';
+  page?: number;
+  pageSize?: number;
+  status?: 'processing' | 'processed' | 'failed';
+  eventType?: string;
+}
+
+interface ReplayWebhookEventRequest {
+  action: 'replay_webhook_event';
+  stripeEventId: string;
+}
+
+type AdminRequest =
+  | UpdateUserPlanRequest
+  | DeleteUserRequest
+  | GetUsersRequest
+  | GetAnalyticsRequest
+  | GetWebhookEventsRequest
+  | ReplayWebhookEventRequest;
 
 serve(async (req) => {
   // Handle CORS
@@ -91,6 +112,12 @@ serve(async (req) => {
         
       case 'get_analytics':
         return await handleGetAnalytics(supabase, requestData);
+
+      case 'get_webhook_events':
+        return await handleGetWebhookEvents(supabase, requestData);
+
+      case 'replay_webhook_event':
+        return await handleReplayWebhookEvent(supabase, requestData, user.email);
         
       default:
         throw new Error('Invalid action');
@@ -109,7 +136,19 @@ serve(async (req) => {
 });
 
 async function handleUpdateUserPlan(supabase: any, request: UpdateUserPlanRequest) {
-  const { userId, planId, generationLimit } = request;
+  const { userId, planId } = request;
+
+  const { data: plan, error: planError } = await supabase
+    .from('plans')
+    .select('id, generation_limit')
+    .eq('id', planId)
+    .maybeSingle();
+
+  if (planError || !plan) {
+    throw new Error(`Unknown plan: ${planError?.message || planId}`);
+  }
+
+  const generationLimit = request.generationLimit ?? plan.generation_limit;
 
   // First, get the actual UUID from the users table using the user_id string
   const { data: userData, error: userError } = await supabase
@@ -278,6 +317,106 @@ async function handleGetAnalytics(supabase: any, request: GetAnalyticsRequest) {
   }
 }
 
+async function handleGetWebhookEvents(supabase: any, request: GetWebhookEventsRequest) {
+  const { page = 1, pageSize = 50, status, eventType } = request;
+  const offset = (page - 1) * pageSize;
+
+  // payload is left out: full events are large and only needed for replays
+  let query = supabase
+    .from('webhook_events')
+    .select('id, stripe_event_id, event_type, status, attempts, last_error, created_at, processed_at', { count: 'exact' });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  if (eventType) {
+    query = query.eq('event_type', eventType);
+  }
+
+  query = query.range(offset, offset + pageSize - 1).order('created_at', { ascending: false });
+
+  const { data, error, count } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch webhook events: ${error.message}`);
+  }
+
+  return new Response(
+    JSON.stringify({
+      data,
+      pagination: {
+        page,
+        pageSize,
+        total: count || 0
+      }
+    }),
+    {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+async function handleReplayWebhookEvent(supabase: any, request: ReplayWebhookEventRequest, adminEmail: string | undefined) {
+  const { stripeEventId } = request;
+
+  if (!stripeEventId) {
+    throw new Error('Missing stripeEventId');
+  }
+
+  const { data: eventRow, error: eventError } = await supabase
+    .from('webhook_events')
+    .select('stripe_event_id, event_type, data, payload, created_at')
+    .eq('stripe_event_id', stripeEventId)
+    .maybeSingle();
+
+  if (eventError || !eventRow) {
+    throw new Error(`Webhook event not found: ${eventError?.message || stripeEventId}`);
+  }
+
+  // Events logged before replay support only kept the event's object; previous_attributes is
+  // lost, so a replayed customer.subscription.updated will not re-apply a plan change
+  const event = eventRow.payload ?? {
+    id: eventRow.stripe_event_id,
+    type: eventRow.event_type,
+    created: Math.floor(new Date(eventRow.created_at).getTime() / 1000),
+    data: { object: eventRow.data },
+  };
+
+  const response = await processWebhookEvent(supabase, event, { replay: true });
+  const result = await response.json().catch(() => null);
+
+  const { data: updatedRow } = await supabase
+    .from('webhook_events')
+    .select('status, attempts, last_error')
+    .eq('stripe_event_id', stripeEventId)
+    .single();
+
+  await logAdminAction(supabase, 'replay_webhook_event', stripeEventId, {
+    adminEmail,
+    eventType: eventRow.event_type,
+    status: updatedRow?.status,
+  });
+
+  return new Response(
+    JSON.stringify({
+      success: response.ok,
+      data: {
+        stripe_event_id: stripeEventId,
+        status: updatedRow?.status,
+        attempts: updatedRow?.attempts,
+        last_error: updatedRow?.last_error,
+        result,
+      },
+    }),
+    {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
+
 async function logAdminAction(supabase: any, action: string, targetUserId: string, details: any) {
   // This would log admin actions for audit purposes
   // For now, we'll just console.log it
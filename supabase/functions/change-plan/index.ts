@@ -0,0 +1,299 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { CatalogPlan, findPlanById, findPlanForPrice } from "../_shared/plans.ts";
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+  apiVersion: '2023-10-16',
+  httpClient: Stripe.createFetchHttpClient(),
+});
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type ChangePlanRequest =
+  | { action: 'preview'; plan_id: string }
+  // proration_date comes from the preview, so the charge matches what the user was shown
+  | { action: 'apply'; plan_id: string; proration_date?: number }
+  | { action: 'cancel_scheduled_change' };
+
+// Upgrades (and same-price switches) apply now with a prorated charge; downgrades wait for the
+// end of the paid period
+type PlanChangeDirection = 'upgrade' | 'downgrade';
+
+interface PlanChangePreview {
+  direction: PlanChangeDirection;
+  current_plan_id: string;
+  plan_id: string;
+  // Unix seconds; null when the change applies immediately
+  effective_at: number | null;
+  // Cents charged right away for the rest of the period (0 for downgrades)
+  amount_due_now: number;
+  // Cents per interval from the next renewal
+  next_amount: number;
+  currency: string;
+  proration_date: number | null;
+}
+
+// A preview older than this is re-prorated from now when applied
+const PRORATION_DATE_MAX_AGE_SECONDS = 60 * 60;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const idOf = (value: any): string | null => (typeof value === 'string' ? value : value?.id ?? null);
+
+interface ActiveSubscription {
+  subscription: any;
+  item: any;
+  currentPlan: CatalogPlan;
+}
+
+// The caller's live Stripe subscription. Paid plans are changed in place on its single item, so
+// a user never ends up with two subscriptions.
+async function loadActiveSubscription(supabase: any, userId: string): Promise<ActiveSubscription> {
+  const { data: row, error } = await supabase
+    .from('subscriptions')
+    .select('stripe_id')
+    .eq('user_id', userId)
+    .in('status', ['active', 'trialing', 'past_due'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up subscription: ${error.message}`);
+  }
+  if (!row?.stripe_id) {
+    throw new Error('No active subscription found. Choose a plan to subscribe first.');
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(row.stripe_id);
+  if (subscription.status !== 'active' && subscription.status !== 'trialing') {
+    throw new Error('Your subscription has a payment problem. Update your payment method in Manage Billing first.');
+  }
+
+  const item = subscription.items.data[0];
+  const currentPlan = await findPlanForPrice(stripe, supabase, item?.price);
+  if (!currentPlan) {
+    throw new Error('Your current subscription is not on a catalog plan. Change it in Manage Billing instead.');
+  }
+
+  return { subscription, item, currentPlan };
+}
+
+async function loadTargetPlan(supabase: any, planId: string, currentPlan: CatalogPlan): Promise<CatalogPlan> {
+  const plan = await findPlanById(supabase, planId);
+  if (!plan || !plan.is_active || !plan.stripe_price_id) {
+    throw new Error('That plan is not available');
+  }
+  if (plan.id === currentPlan.id) {
+    throw new Error(`You are already on the ${plan.name}`);
+  }
+  return plan;
+}
+
+const directionOf = (currentPlan: CatalogPlan, plan: CatalogPlan): PlanChangeDirection =>
+  plan.amount >= currentPlan.amount ? 'upgrade' : 'downgrade';
+
+async function clearScheduledChange(supabase: any, subscription: any): Promise<void> {
+  const scheduleId = idOf(subscription.schedule);
+  if (scheduleId) {
+    // Releasing keeps the subscription as it is today and drops the pending phase
+    await stripe.subscriptionSchedules.release(scheduleId);
+  }
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({ scheduled_plan_id: null, scheduled_change_at: null, stripe_schedule_id: null })
+    .eq('stripe_id', subscription.id);
+
+  if (error) {
+    throw new Error(`Failed to clear scheduled change: ${error.message}`);
+  }
+}
+
+async function previewChange(supabase: any, userId: string, planId: string): Promise<PlanChangePreview> {
+  const { subscription, item, currentPlan } = await loadActiveSubscription(supabase, userId);
+  const plan = await loadTargetPlan(supabase, planId, currentPlan);
+  const direction = directionOf(currentPlan, plan);
+
+  const preview: PlanChangePreview = {
+    direction,
+    current_plan_id: currentPlan.id,
+    plan_id: plan.id,
+    effective_at: direction === 'downgrade' ? subscription.current_period_end : null,
+    amount_due_now: 0,
+    next_amount: plan.amount,
+    currency: plan.currency,
+    proration_date: null,
+  };
+
+  if (direction === 'upgrade') {
+    const prorationDate = nowSeconds();
+    const invoice = await stripe.invoices.retrieveUpcoming({
+      customer: idOf(subscription.customer),
+      subscription: subscription.id,
+      subscription_items: [{ id: item.id, price: plan.stripe_price_id }],
+      subscription_proration_behavior: 'always_invoice',
+      subscription_proration_date: prorationDate,
+    });
+
+    // Credit for the unused time on the old price plus the rest of the period on the new one
+    preview.amount_due_now = invoice.lines.data
+      .filter((line: any) => line.proration)
+      .reduce((total: number, line: any) => total + line.amount, 0);
+    preview.currency = invoice.currency;
+    preview.proration_date = prorationDate;
+  }
+
+  return preview;
+}
+
+async function applyChange(supabase: any, userId: string, planId: string, requestedProrationDate?: number) {
+  const { subscription, item, currentPlan } = await loadActiveSubscription(supabase, userId);
+  const plan = await loadTargetPlan(supabase, planId, currentPlan);
+
+  if (directionOf(currentPlan, plan) === 'upgrade') {
+    // An upgrade replaces any downgrade that was waiting for the period end
+    if (subscription.schedule) {
+      await clearScheduledChange(supabase, subscription);
+    }
+
+    const now = nowSeconds();
+    const prorationDate = typeof requestedProrationDate === 'number'
+      && requestedProrationDate <= now
+      && now - requestedProrationDate <= PRORATION_DATE_MAX_AGE_SECONDS
+      ? requestedProrationDate
+      : now;
+
+    // pending_if_incomplete keeps the old price until the prorated invoice is paid
+    const updated = await stripe.subscriptions.update(subscription.id, {
+      items: [{ id: item.id, price: plan.stripe_price_id }],
+      proration_behavior: 'always_invoice',
+      proration_date: prorationDate,
+      payment_behavior: 'pending_if_incomplete',
+    });
+
+    if (updated.pending_update) {
+      throw new Error('The upgrade payment could not be completed. Update your payment method in Manage Billing and try again.');
+    }
+
+    // payments-webhook moves the user to the new plan on customer.subscription.updated
+    return { status: 'changed', plan_id: plan.id, effective_at: null };
+  }
+
+  if (subscription.cancel_at_period_end) {
+    throw new Error('Your subscription is set to cancel at the end of the period. Resume it in Manage Billing first.');
+  }
+
+  const schedule = subscription.schedule
+    ? await stripe.subscriptionSchedules.retrieve(idOf(subscription.schedule))
+    : await stripe.subscriptionSchedules.create({ from_subscription: subscription.id });
+
+  // Keep the current price until the period ends, then bill the new one; release hands the
+  // subscription back to normal renewals after that
+  await stripe.subscriptionSchedules.update(schedule.id, {
+    end_behavior: 'release',
+    proration_behavior: 'none',
+    phases: [
+      {
+        items: [{ price: item.price.id, quantity: item.quantity ?? 1 }],
+        start_date: schedule.current_phase?.start_date ?? subscription.current_period_start,
+        end_date: subscription.current_period_end,
+      },
+      {
+        items: [{ price: plan.stripe_price_id, quantity: 1 }],
+        iterations: 1,
+      },
+    ],
+  });
+
+  const { error } = await supabase
+    .from('subscriptions')
+    .update({
+      scheduled_plan_id: plan.id,
+      scheduled_change_at: subscription.current_period_end,
+      stripe_schedule_id: schedule.id,
+    })
+    .eq('stripe_id', subscription.id);
+
+  if (error) {
+    throw new Error(`Failed to record scheduled change: ${error.message}`);
+  }
+
+  return { status: 'scheduled', plan_id: plan.id, effective_at: subscription.current_period_end };
+}
+
+// Upgrades and downgrades for users who already pay, on their existing Stripe subscription.
+// Free users subscribe through create-checkout instead.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const requestData: ChangePlanRequest = await req.json();
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+      throw new Error('Missing authorization header');
+    }
+
+    const jwt = authorization.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    let result;
+    switch (requestData.action) {
+      case 'preview':
+        if (!requestData.plan_id) throw new Error('Missing required parameters');
+        result = await previewChange(supabase, user.id, requestData.plan_id);
+        break;
+      case 'apply':
+        if (!requestData.plan_id) throw new Error('Missing required parameters');
+        result = await applyChange(supabase, user.id, requestData.plan_id, requestData.proration_date);
+        break;
+      case 'cancel_scheduled_change': {
+        const { subscription } = await loadActiveSubscription(supabase, user.id);
+        await clearScheduledChange(supabase, subscription);
+        result = { status: 'canceled' };
+        break;
+      }
+      default:
+        throw new Error('Invalid action');
+    }
+
+    return new Response(
+      JSON.stringify(result),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error changing plan:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
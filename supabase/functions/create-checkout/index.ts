@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
 
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
@@ -24,6 +25,31 @@ serve(async (req) => {
       throw new Error('Missing required parameters');
     }
 
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    // Paying users change plans on their existing subscription (change-plan); a second checkout
+    // would leave them with two concurrent subscriptions
+    const { data: activeSubscription } = await supabase
+      .from('subscriptions')
+      .select('id')
+      .eq('user_id', user_id)
+      .in('status', ['active', 'trialing', 'past_due'])
+      .limit(1)
+      .maybeSingle();
+
+    if (activeSubscription) {
+      throw new Error('You already have an active subscription. Change plans from your profile instead.');
+    }
+
     // Create Stripe checkout session
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ['card'],
@@ -0,0 +1,105 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+
+const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+  apiVersion: '2023-10-16',
+  httpClient: Stripe.createFetchHttpClient(),
+});
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface CreatePortalSessionRequest {
+  // Path on SITE_URL for Stripe's "Return to ..." link; defaults to the profile page
+  return_path?: string;
+}
+
+// Opens the Stripe Customer Portal (cards, invoices, cancellation, plan changes) for the signed-in
+// user's Stripe customer, taken from their latest subscription. The customer is never read from
+// the request, so users can only reach their own billing.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { return_path = '/profile' }: CreatePortalSessionRequest = await req.json();
+
+    // The portal links back to the app's own origin only, never to one taken from the request
+    const siteUrl = Deno.env.get('SITE_URL');
+    if (!siteUrl) {
+      throw new Error('Site URL not configured');
+    }
+
+    const siteOrigin = new URL(siteUrl).origin;
+    const returnUrl = new URL(return_path, siteOrigin);
+    if (returnUrl.origin !== siteOrigin) {
+      throw new Error('Invalid return path');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+      throw new Error('Missing authorization header');
+    }
+
+    const jwt = authorization.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    // subscriptions.user_id holds the auth user id as text
+    const { data: subscription, error: subscriptionError } = await supabase
+      .from('subscriptions')
+      .select('customer_id')
+      .eq('user_id', user.id)
+      .not('customer_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (subscriptionError) {
+      throw new Error(`Failed to look up subscription: ${subscriptionError.message}`);
+    }
+    if (!subscription?.customer_id) {
+      throw new Error('No billing account found. Subscribe to a plan first.');
+    }
+
+    const session = await stripe.billingPortal.sessions.create({
+      customer: subscription.customer_id,
+      return_url: `${returnUrl.origin}${returnUrl.pathname}`,
+    });
+
+    return new Response(
+      JSON.stringify({ url: session.url }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error creating portal session:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,48 @@
+// The user's brand style (business name, logo, colors) for strain sheets and labels
+
+export interface BrandStyle {
+  businessName: string | null;
+  // PNG or JPEG bytes from the brand-assets bucket
+  logo: Uint8Array | null;
+  primaryColor: string;
+  accentColor: string;
+}
+
+// The app's own colors (brand-dark and brand-green) for users without a brand style
+export const DEFAULT_PRIMARY_COLOR = '#14211b';
+export const DEFAULT_ACCENT_COLOR = '#4CAF50';
+
+/**
+ * Loads the user's brand style, falling back to the default colors. A logo that cannot be
+ * downloaded is skipped so the document still renders.
+ */
+export async function loadBrandStyle(supabase: any, userId: string): Promise<BrandStyle> {
+  const { data, error } = await supabase
+    .from('brand_styles')
+    .select('business_name, logo_path, primary_color, accent_color')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load brand style: ${error.message}`);
+  }
+
+  let logo: Uint8Array | null = null;
+  if (data?.logo_path) {
+    const { data: file, error: downloadError } = await supabase.storage
+      .from('brand-assets')
+      .download(data.logo_path);
+    if (downloadError || !file) {
+      console.warn(`Failed to download logo for ${userId}:`, downloadError);
+    } else {
+      logo = new Uint8Array(await file.arrayBuffer());
+    }
+  }
+
+  return {
+    businessName: data?.business_name || null,
+    logo,
+    primaryColor: data?.primary_color || DEFAULT_PRIMARY_COLOR,
+    accentColor: data?.accent_color || DEFAULT_ACCENT_COLOR,
+  };
+}
@@ -0,0 +1,151 @@
+import { formatPercent, normalizeAnalyteName, toPercent } from "../_shared/potency.ts";
+import { EXPORT_FORMAT, EXPORT_FORMAT_VERSION, ExportAnalyte, ExportDocument, ExportRecord } from "./records.ts";
+
+export type Cell = string | number | null;
+
+interface Column {
+  header: string;
+  value: (record: ExportRecord) => Cell;
+}
+
+const SUMMARY_COLUMNS: Column[] = [
+  { header: 'ID', value: (record) => record.id },
+  { header: 'Product', value: (record) => record.product_name },
+  { header: 'Strain', value: (record) => record.strain_name },
+  { header: 'Batch', value: (record) => record.batch_number },
+  { header: 'Lab', value: (record) => record.lab_name },
+  { header: 'Tested', value: (record) => record.tested_at },
+  { header: 'Analyzed', value: (record) => record.created_at },
+  { header: 'Status', value: (record) => record.status },
+  { header: 'Total THC (%)', value: (record) => record.totals.total_thc },
+  { header: 'Total CBD (%)', value: (record) => record.totals.total_cbd },
+  { header: 'Total Terpenes (%)', value: (record) => record.totals.total_terpenes },
+  {
+    header: 'Dominant Terpenes',
+    value: (record) => record.totals.dominant_terpenes
+      .map((terpene) => `${terpene.name} ${formatPercent(terpene.value)}`)
+      .join('; ') || null,
+  },
+  { header: 'Compliance', value: (record) => record.compliance_verdict },
+  { header: 'File', value: (record) => record.source_file.name },
+  { header: 'Pages', value: (record) => record.source_file.pages },
+  { header: 'Parser', value: (record) => record.source_file.parser },
+  { header: 'Description', value: (record) => record.description },
+];
+
+const ANALYTE_COLUMNS = ['Result ID', 'Product', 'File', 'Category', 'Analyte', 'CAS', 'Value', 'Unit', 'LOQ', 'LOD', 'Pass/Fail'];
+
+const analyteKey = (analyte: ExportAnalyte) => `${analyte.category}:${normalizeAnalyteName(analyte.name)}`;
+
+// Analytes of a record by key, built once per record rather than once per column
+const analyteIndexes = new WeakMap<ExportRecord, Map<string, ExportAnalyte>>();
+
+function analyteIndex(record: ExportRecord): Map<string, ExportAnalyte> {
+  let index = analyteIndexes.get(record);
+  if (!index) {
+    index = new Map();
+    for (const analyte of record.analytes) {
+      const key = analyteKey(analyte);
+      if (!index.has(key)) index.set(key, analyte);
+    }
+    analyteIndexes.set(record, index);
+  }
+  return index;
+}
+
+// Avoids float noise from unit conversion (0.1 * 3 -> 0.30000000000000004)
+const roundPercent = (value: number) => Number(value.toFixed(4));
+
+/**
+ * One column per cannabinoid and terpene found anywhere in the selection, in percent by weight, so
+ * every result lines up in a spreadsheet. Values in units that are not a mass fraction are left
+ * blank here and kept as reported in the analyte sheet and the JSON export.
+ */
+function potencyColumns(records: ExportRecord[]): Column[] {
+  const columns = new Map<string, Column>();
+
+  for (const category of ['cannabinoid', 'terpene']) {
+    for (const record of records) {
+      for (const analyte of record.analytes) {
+        if (analyte.category !== category) continue;
+        const key = analyteKey(analyte);
+        if (columns.has(key)) continue;
+
+        columns.set(key, {
+          header: `${analyte.name} (%)`,
+          value: (row) => {
+            const match = analyteIndex(row).get(key);
+            if (!match || match.value === null) return null;
+            const percent = toPercent(match.value, match.unit);
+            return percent === null ? null : roundPercent(percent);
+          },
+        });
+      }
+    }
+  }
+
+  return [...columns.values()];
+}
+
+/**
+ * Header row plus one row per lab result: summary fields followed by the potency columns.
+ */
+export function resultsTable(records: ExportRecord[]): Cell[][] {
+  const columns = [...SUMMARY_COLUMNS, ...potencyColumns(records)];
+  return [
+    columns.map((column) => column.header),
+    ...records.map((record) => columns.map((column) => column.value(record))),
+  ];
+}
+
+/**
+ * Header row plus one row per analyte (including safety panels), values as reported.
+ */
+export function analytesTable(records: ExportRecord[]): Cell[][] {
+  return [
+    ANALYTE_COLUMNS,
+    ...records.flatMap((record) => record.analytes.map((analyte) => [
+      record.id,
+      record.product_name,
+      record.source_file.name,
+      analyte.category,
+      analyte.name,
+      analyte.cas_number,
+      analyte.value,
+      analyte.unit,
+      analyte.loq,
+      analyte.lod,
+      analyte.pass_fail,
+    ])),
+  ];
+}
+
+// Text starting with these is run as a formula by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(cell: Cell): string {
+  if (cell === null) return '';
+  if (typeof cell === 'number') return String(cell);
+
+  const text = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV of the results table. Starts with a byte order mark so Excel reads it as UTF-8
+ * (analyte names such as "Δ9-THC").
+ */
+export function toCsv(records: ExportRecord[]): string {
+  return '\uFEFF' + resultsTable(records).map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+export function toJson(records: ExportRecord[], exportedAt: Date): string {
+  const document: ExportDocument = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    exported_at: exportedAt.toISOString(),
+    count: records.length,
+    results: records,
+  };
+  return JSON.stringify(document, null, 2);
+}
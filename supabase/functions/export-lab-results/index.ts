@@ -0,0 +1,366 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { loadBrandStyle } from "./brand.ts";
+import { toCsv, toJson } from "./formats.ts";
+import { DocumentRecord, renderLabels, renderStrainSheets } from "./pdf.ts";
+import { AnalyteRow, EXPORT_SELECT, ExportRecord, LabResultRow, toExportRecord } from "./records.ts";
+import { toXlsx } from "./xlsx.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// sheet and label are branded PDFs (pdf.ts); the others are data exports
+type ExportFormat = 'csv' | 'xlsx' | 'json' | 'sheet' | 'label';
+
+interface ExportLabResultsRequest {
+  format: ExportFormat;
+  // Either explicit results, or a search_lab_results filter set whose matches are all exported
+  labResultIds?: string[];
+  search?: Record<string, unknown>;
+  // The app's origin (window.location.origin); QR codes on sheet and label link to its share page
+  siteUrl?: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json',
+  sheet: 'application/pdf',
+  label: 'application/pdf',
+};
+
+// Appended to the base file name
+const FILE_SUFFIXES: Record<ExportFormat, string> = {
+  csv: '.csv',
+  xlsx: '.xlsx',
+  json: '.json',
+  sheet: '-strain-sheet.pdf',
+  label: '-label.pdf',
+};
+
+const MAX_EXPORT_RESULTS = 5000;
+// One PDF page per result
+const MAX_DOCUMENT_RESULTS = 50;
+// Rows per .in() filter, to keep request URLs short
+const ID_CHUNK_SIZE = 200;
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+// Search arguments accepted from the client; paging is driven by this function
+const SEARCH_ARGS = [
+  'query_param', 'date_from_param', 'date_to_param', 'statuses_param', 'labs_param',
+  'terpene_param', 'thc_min_param', 'thc_max_param',
+];
+const SIGNED_URL_SECONDS = 10 * 60;
+// Earlier exports are removed the next time the user exports
+const EXPORT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+interface SearchCursor {
+  rank: number;
+  created_at: string;
+  id: string;
+}
+
+// The part of a search_lab_results page the export needs
+interface SearchPage {
+  results: { id: string }[];
+  next_cursor: SearchCursor | null;
+}
+
+// Runs search_lab_results as the caller (it filters on auth.uid()) and collects every matching id in order
+async function collectSearchIds(userClient: any, search: Record<string, unknown>): Promise<string[]> {
+  const args = Object.fromEntries(Object.entries(search).filter(([key]) => SEARCH_ARGS.includes(key)));
+  const ids: string[] = [];
+  let cursor = null as SearchCursor | null;
+
+  do {
+    const { data, error }: { data: SearchPage | null; error: { message: string } | null } = await userClient.rpc('search_lab_results', {
+      ...args,
+      limit_param: 200,
+      cursor_rank_param: cursor?.rank,
+      cursor_created_at_param: cursor?.created_at,
+      cursor_id_param: cursor?.id,
+      include_facets_param: false,
+    });
+
+    if (error || !data) {
+      throw new Error(`Failed to search lab results: ${error?.message || 'No results'}`);
+    }
+
+    ids.push(...data.results.map((result) => result.id));
+    if (ids.length > MAX_EXPORT_RESULTS) {
+      throw new Error(`Exports are limited to ${MAX_EXPORT_RESULTS} results; narrow the search and try again`);
+    }
+    cursor = data.next_cursor;
+  } while (cursor);
+
+  return ids;
+}
+
+async function loadRecords(supabase: any, userId: string, ids: string[]): Promise<ExportRecord[]> {
+  const rows = new Map<string, LabResultRow>();
+  const analytes = new Map<string, AnalyteRow[]>();
+
+  for (const idChunk of chunk(ids, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('lab_results')
+      .select(EXPORT_SELECT)
+      .eq('user_id', userId)
+      .in('id', idChunk);
+
+    if (error) {
+      throw new Error(`Failed to load lab results: ${error.message}`);
+    }
+    for (const row of data as LabResultRow[]) rows.set(row.id, row);
+
+    // A COA can have dozens of analytes, so page through them
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: page, error: analyteError } = await supabase
+        .from('lab_result_analytes')
+        .select('lab_result_id, category, analyte_name, cas_number, value, unit, loq, lod, pass_fail')
+        .in('lab_result_id', idChunk)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (analyteError) {
+        throw new Error(`Failed to load analytes: ${analyteError.message}`);
+      }
+      for (const analyte of page as AnalyteRow[]) {
+        const list = analytes.get(analyte.lab_result_id) ?? [];
+        list.push(analyte);
+        analytes.set(analyte.lab_result_id, list);
+      }
+      if (page.length < PAGE_SIZE) break;
+    }
+  }
+
+  // Keep the order of the selection; ids the user does not own are dropped by the user_id filter
+  return ids
+    .filter((id) => rows.has(id))
+    .map((id) => toExportRecord(rows.get(id)!, analytes.get(id) ?? []));
+}
+
+function exportFileName(records: ExportRecord[], format: ExportFormat, now: Date): string {
+  const base = records.length === 1
+    ? records[0].source_file.name.replace(/\.[^.]+$/, '')
+    : `lab-results-${now.toISOString().slice(0, 10)}`;
+  return `${base.replace(/[^\w.-]+/g, '_')}${FILE_SUFFIXES[format]}`;
+}
+
+// Pairs each record with its public share page for the QR code. Printed codes use a link without
+// expiry that the user can revoke; the newest such link is reused, and one is created on first print.
+async function withShareLinks(supabase: any, userId: string, records: ExportRecord[], siteUrl: string): Promise<DocumentRecord[]> {
+  const shareable = records.filter((record) => record.status === 'completed').map((record) => record.id);
+  const slugs = new Map<string, string>();
+
+  if (shareable.length > 0) {
+    const { data, error } = await supabase
+      .from('share_links')
+      .select('lab_result_id, slug')
+      .eq('user_id', userId)
+      .in('lab_result_id', shareable)
+      .is('revoked_at', null)
+      .is('expires_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load share links: ${error.message}`);
+    }
+    for (const link of data as { lab_result_id: string; slug: string }[]) {
+      if (!slugs.has(link.lab_result_id)) slugs.set(link.lab_result_id, link.slug);
+    }
+
+    const missing = shareable.filter((id) => !slugs.has(id));
+    if (missing.length > 0) {
+      const { data: created, error: createError } = await supabase
+        .from('share_links')
+        .insert(missing.map((id) => ({ user_id: userId, lab_result_id: id })))
+        .select('lab_result_id, slug');
+
+      if (createError) {
+        throw new Error(`Failed to create share links: ${createError.message}`);
+      }
+      for (const link of created as { lab_result_id: string; slug: string }[]) {
+        slugs.set(link.lab_result_id, link.slug);
+      }
+    }
+  }
+
+  return records.map((record) => ({
+    record,
+    coaUrl: slugs.has(record.id) ? `${siteUrl}/r/${slugs.get(record.id)}` : null,
+  }));
+}
+
+async function renderExport(
+  supabase: any,
+  userId: string,
+  records: ExportRecord[],
+  format: ExportFormat,
+  siteUrl: string,
+  now: Date,
+) {
+  switch (format) {
+    case 'csv':
+      return toCsv(records);
+    case 'xlsx':
+      return toXlsx(records);
+    case 'json':
+      return toJson(records, now);
+    case 'sheet':
+      return await renderStrainSheets(
+        await withShareLinks(supabase, userId, records, siteUrl),
+        await loadBrandStyle(supabase, userId),
+        now,
+      );
+    case 'label':
+      return await renderLabels(await withShareLinks(supabase, userId, records, siteUrl), await loadBrandStyle(supabase, userId));
+  }
+}
+
+// Best-effort cleanup of the user's earlier exports; a failure never blocks the new one
+async function removeExpiredExports(supabase: any, userId: string, now: Date) {
+  const { data: files, error } = await supabase.storage.from('exports').list(userId, { limit: 1000 });
+  if (error) {
+    console.warn(`Failed to list exports for ${userId}:`, error);
+    return;
+  }
+
+  const expired = files
+    .filter((file: { created_at: string }) => now.getTime() - new Date(file.created_at).getTime() > EXPORT_RETENTION_MS)
+    .map((file: { name: string }) => `${userId}/${file.name}`);
+  if (expired.length === 0) return;
+
+  const { error: removeError } = await supabase.storage.from('exports').remove(expired);
+  if (removeError) {
+    console.warn(`Failed to remove expired exports for ${userId}:`, removeError);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const requestData: ExportLabResultsRequest = await req.json();
+
+    if (!Object.keys(CONTENT_TYPES).includes(requestData.format)) {
+      throw new Error('Format must be csv, xlsx, json, sheet or label');
+    }
+    if (!requestData.labResultIds && !requestData.search) {
+      throw new Error('Missing labResultIds or search');
+    }
+    if (requestData.labResultIds && !Array.isArray(requestData.labResultIds)) {
+      throw new Error('labResultIds must be an array');
+    }
+    if (requestData.labResultIds && requestData.labResultIds.length > MAX_EXPORT_RESULTS) {
+      throw new Error(`Exports are limited to ${MAX_EXPORT_RESULTS} results`);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+      throw new Error('Missing authorization header');
+    }
+
+    const jwt = authorization.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    let ids: string[];
+    if (requestData.labResultIds) {
+      ids = [...new Set(requestData.labResultIds)];
+    } else {
+      // search_lab_results runs with the caller's rights, so it needs a client acting as the user
+      const userClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        {
+          global: { headers: { Authorization: authorization } },
+          auth: {
+            autoRefreshToken: false,
+            persistSession: false,
+          },
+        }
+      );
+      ids = await collectSearchIds(userClient, requestData.search ?? {});
+    }
+
+    const format = requestData.format;
+    const isDocument = CONTENT_TYPES[format] === 'application/pdf';
+    if (isDocument && ids.length > MAX_DOCUMENT_RESULTS) {
+      throw new Error(`Strain sheets and labels are limited to ${MAX_DOCUMENT_RESULTS} results at a time`);
+    }
+    if (isDocument && !requestData.siteUrl) {
+      throw new Error('Missing siteUrl for the QR code links');
+    }
+    // Only the origin is kept, so a QR code can never point to an arbitrary path
+    const siteUrl = requestData.siteUrl ? new URL(requestData.siteUrl).origin : '';
+
+    const records = await loadRecords(supabase, user.id, ids);
+    if (records.length === 0) {
+      throw new Error('No lab results to export');
+    }
+
+    const now = new Date();
+    const body = await renderExport(supabase, user.id, records, format, siteUrl, now);
+    const fileName = exportFileName(records, format, now);
+    const storagePath = `${user.id}/${now.getTime()}-${fileName}`;
+
+    await removeExpiredExports(supabase, user.id, now);
+
+    const { error: uploadError } = await supabase.storage
+      .from('exports')
+      .upload(storagePath, body, { contentType: CONTENT_TYPES[format] });
+
+    if (uploadError) {
+      throw new Error(`Failed to store export: ${uploadError.message}`);
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from('exports')
+      .createSignedUrl(storagePath, SIGNED_URL_SECONDS, { download: fileName });
+
+    if (signError || !signed) {
+      throw new Error(`Failed to sign export URL: ${signError?.message || 'No URL'}`);
+    }
+
+    console.log(`Exported ${records.length} lab results as ${format} for ${user.id}`);
+
+    return new Response(
+      JSON.stringify({ fileName, url: signed.signedUrl, count: records.length, format }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error exporting lab results:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,105 @@
+// Text and color helpers for the PDF documents. Kept free of pdf-lib so they can be checked on their own.
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// '#4CAF50' -> { r: 0.298, g: 0.686, b: 0.314 }; null for anything else
+export function hexToRgb(hex: string | null | undefined): Rgb | null {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex ?? '');
+  if (!match) return null;
+  const [r, g, b] = match.slice(1).map((part) => parseInt(part, 16) / 255);
+  return { r, g, b };
+}
+
+// Perceived brightness, used to pick white or dark text on a brand color
+export const isDark = ({ r, g, b }: Rgb) => 0.299 * r + 0.587 * g + 0.114 * b < 0.6;
+
+// Greek letters that appear in analyte names
+const GREEK: Record<string, string> = {
+  'Δ': 'Delta-', 'δ': 'delta-', 'α': 'alpha-', 'β': 'beta-', 'γ': 'gamma-', 'Ω': 'Omega-',
+};
+
+// Characters of the WinAnsi encoding above Latin-1's printable range
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+/**
+ * The standard PDF fonts only cover WinAnsi: spells out Greek letters ("Δ9-THC" -> "Delta-9-THC")
+ * and drops any other character they cannot draw.
+ */
+export function toWinAnsi(text: string): string {
+  return text
+    .replace(/[ΔδαβγΩ]-?/g, (match) => GREEK[match[0]])
+    .replace(/[\t ]/g, ' ')
+    .replace(/./gu, (char) => {
+      const code = char.charCodeAt(0);
+      return (code >= 0x20 && code <= 0x7e) || (code >= 0xa1 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(char)
+        ? char
+        : '';
+    });
+}
+
+/**
+ * Breaks text into lines no wider than `maxWidth`, keeping paragraph breaks. Words longer than a
+ * line are split. With `maxLines`, the last kept line ends in an ellipsis when text was cut.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  measure: (value: string) => number,
+  maxLines = Infinity,
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\n+/)) {
+    let line = '';
+    for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+      while (measure(word) > maxWidth && word.length > 1) {
+        let cut = word.length - 1;
+        while (cut > 1 && measure(word.slice(0, cut)) > maxWidth) cut--;
+        if (line) lines.push(line);
+        lines.push(word.slice(0, cut));
+        line = '';
+        word = word.slice(cut);
+      }
+      const candidate = line ? `${line} ${word}` : word;
+      if (measure(candidate) <= maxWidth) {
+        line = candidate;
+      } else {
+        if (line) lines.push(line);
+        line = word;
+      }
+    }
+    if (line) lines.push(line);
+  }
+
+  if (lines.length <= maxLines) return lines;
+
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last && measure(`${last}…`) > maxWidth) last = last.slice(0, -1);
+  kept[maxLines - 1] = `${last.replace(/[\s,.;:]+$/, '')}…`;
+  return kept;
+}
+
+/**
+ * The first sentences of a description that fit in `maxChars`, for labels. Falls back to a cut at
+ * a word boundary when even the first sentence is too long.
+ */
+export function excerpt(text: string, maxChars: number): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= maxChars) return normalized;
+
+  const sentences = normalized.match(/[^.!?]+[.!?]+(\s|$)/g) ?? [];
+  let result = '';
+  for (const sentence of sentences) {
+    if ((result + sentence).trim().length > maxChars) break;
+    result += sentence;
+  }
+  if (result.trim()) return result.trim();
+
+  const cut = normalized.slice(0, maxChars - 1);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf(' '), 1)).replace(/[\s,.;:]+$/, '')}…`;
+}
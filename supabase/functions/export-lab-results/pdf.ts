@@ -0,0 +1,348 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, rgb, RGB, StandardFonts } from "https://esm.sh/pdf-lib@1.17.1";
+import qrcode from "https://esm.sh/qrcode-generator@1.4.4";
+import { formatPercent, toPercent } from "../_shared/potency.ts";
+import { toPlainText } from "../_shared/richText.ts";
+import { BrandStyle, DEFAULT_ACCENT_COLOR, DEFAULT_PRIMARY_COLOR } from "./brand.ts";
+import { excerpt, hexToRgb, isDark, toWinAnsi, wrapText } from "./layout.ts";
+import { ExportRecord } from "./records.ts";
+
+export interface DocumentRecord {
+  record: ExportRecord;
+  // The public share page encoded in the QR code; null for results that cannot be shared
+  coaUrl: string | null;
+}
+
+interface Theme {
+  regular: PDFFont;
+  bold: PDFFont;
+  logo: PDFImage | null;
+  businessName: string | null;
+  primary: RGB;
+  accent: RGB;
+  // Text drawn on the primary color
+  onPrimary: RGB;
+}
+
+// US Letter strain sheet and a 4 x 2 in shelf / jar label, in points
+const SHEET_SIZE: [number, number] = [612, 792];
+const LABEL_SIZE: [number, number] = [288, 144];
+
+const TEXT = rgb(0.12, 0.14, 0.13);
+const MUTED = rgb(0.42, 0.45, 0.44);
+const PANEL = rgb(0.96, 0.97, 0.96);
+const RULE = rgb(0.88, 0.9, 0.89);
+const WHITE = rgb(1, 1, 1);
+
+// Modules of white space around a QR code; scanners need at least a few
+const QR_QUIET_ZONE = 2;
+const SHEET_CANNABINOID_ROWS = 8;
+const LABEL_EXCERPT_CHARS = 180;
+
+function toColor(hex: string, fallback: string): RGB {
+  const color = hexToRgb(hex) ?? hexToRgb(fallback)!;
+  return rgb(color.r, color.g, color.b);
+}
+
+// Logos are stored as PNG or JPEG; anything pdf-lib cannot embed is left out
+async function embedLogo(pdf: PDFDocument, bytes: Uint8Array | null): Promise<PDFImage | null> {
+  if (!bytes) return null;
+  try {
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return await pdf.embedPng(bytes);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdf.embedJpg(bytes);
+  } catch (error) {
+    console.warn('Failed to embed logo:', error);
+  }
+  return null;
+}
+
+async function createTheme(pdf: PDFDocument, brand: BrandStyle): Promise<Theme> {
+  const primary = hexToRgb(brand.primaryColor) ?? hexToRgb(DEFAULT_PRIMARY_COLOR)!;
+  return {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    logo: await embedLogo(pdf, brand.logo),
+    businessName: brand.businessName,
+    primary: toColor(brand.primaryColor, DEFAULT_PRIMARY_COLOR),
+    accent: toColor(brand.accentColor, DEFAULT_ACCENT_COLOR),
+    onPrimary: isDark(primary) ? WHITE : TEXT,
+  };
+}
+
+function drawText(page: PDFPage, value: string, x: number, y: number, font: PDFFont, size: number, color: RGB) {
+  page.drawText(toWinAnsi(value), { x, y, size, font, color });
+}
+
+function drawTextRight(page: PDFPage, value: string, right: number, y: number, font: PDFFont, size: number, color: RGB) {
+  const text = toWinAnsi(value);
+  page.drawText(text, { x: right - font.widthOfTextAtSize(text, size), y, size, font, color });
+}
+
+function fitLines(value: string, font: PDFFont, size: number, width: number, maxLines = Infinity): string[] {
+  return wrapText(toWinAnsi(value), width, (text) => font.widthOfTextAtSize(text, size), maxLines);
+}
+
+const fitLine = (value: string, font: PDFFont, size: number, width: number) =>
+  fitLines(value, font, size, width, 1)[0] ?? '';
+
+function drawQrCode(page: PDFPage, value: string, x: number, y: number, size: number) {
+  const qr = qrcode(0, 'M');
+  qr.addData(value);
+  qr.make();
+
+  const count = qr.getModuleCount();
+  const cell = size / (count + QR_QUIET_ZONE * 2);
+  page.drawRectangle({ x, y, width: size, height: size, color: WHITE });
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (!qr.isDark(row, col)) continue;
+      page.drawRectangle({
+        x: x + (QR_QUIET_ZONE + col) * cell,
+        // PDF coordinates grow upwards; QR rows are counted from the top
+        y: y + size - (QR_QUIET_ZONE + row + 1) * cell,
+        width: cell,
+        height: cell,
+        color: rgb(0, 0, 0),
+      });
+    }
+  }
+}
+
+const formatTotal = (value: number | null) => (value === null ? '—' : formatPercent(value));
+
+const displayName = (record: ExportRecord) => record.product_name || record.strain_name || record.source_file.name;
+
+// Quantified cannabinoids in percent by weight, highest first, without "Total ..." summary rows
+function cannabinoidPercents(record: ExportRecord): { name: string; value: number }[] {
+  return record.analytes
+    .filter((analyte) => analyte.category === 'cannabinoid' && analyte.value !== null && !/^total/i.test(analyte.name))
+    .map((analyte) => ({ name: analyte.name, value: toPercent(analyte.value!, analyte.unit) }))
+    .filter((analyte): analyte is { name: string; value: number } => analyte.value !== null && analyte.value > 0)
+    .sort((a, b) => b.value - a.value);
+}
+
+function drawStrainSheet(pdf: PDFDocument, theme: Theme, { record, coaUrl }: DocumentRecord, generatedAt: Date) {
+  const page = pdf.addPage(SHEET_SIZE);
+  const [width, height] = SHEET_SIZE;
+  const margin = 48;
+  const contentWidth = width - margin * 2;
+
+  // Header band with the logo, or the business name without one
+  const bandHeight = 88;
+  page.drawRectangle({ x: 0, y: height - bandHeight, width, height: bandHeight, color: theme.primary });
+  if (theme.logo) {
+    const logoSize = theme.logo.scaleToFit(180, 52);
+    page.drawImage(theme.logo, { x: margin, y: height - (bandHeight + logoSize.height) / 2, ...logoSize });
+  } else if (theme.businessName) {
+    drawText(page, fitLine(theme.businessName, theme.bold, 20, contentWidth - 120), margin, height - bandHeight / 2 - 7, theme.bold, 20, theme.onPrimary);
+  }
+  drawTextRight(page, 'STRAIN SHEET', width - margin, height - bandHeight / 2 - 3, theme.bold, 9, theme.onPrimary);
+
+  let y = height - bandHeight - 48;
+  drawText(page, fitLine(displayName(record), theme.bold, 26, contentWidth), margin, y, theme.bold, 26, theme.primary);
+  y -= 20;
+
+  const details = [
+    record.strain_name && record.strain_name !== record.product_name ? record.strain_name : null,
+    record.batch_number ? `Batch ${record.batch_number}` : null,
+    record.lab_name ? `Tested by ${record.lab_name}` : null,
+    record.tested_at ? `Tested ${record.tested_at}` : null,
+  ].filter(Boolean).join('  ·  ');
+  if (details) {
+    drawText(page, fitLine(details, theme.regular, 10, contentWidth), margin, y, theme.regular, 10, MUTED);
+  }
+  y -= 32;
+
+  // Totals
+  const stats = [
+    { label: 'TOTAL THC', value: record.totals.total_thc },
+    { label: 'TOTAL CBD', value: record.totals.total_cbd },
+    { label: 'TOTAL TERPENES', value: record.totals.total_terpenes },
+  ];
+  const boxGap = 12;
+  const boxWidth = (contentWidth - boxGap * (stats.length - 1)) / stats.length;
+  const boxHeight = 64;
+  stats.forEach((stat, index) => {
+    const x = margin + index * (boxWidth + boxGap);
+    page.drawRectangle({ x, y: y - boxHeight, width: boxWidth, height: boxHeight, color: PANEL });
+    page.drawRectangle({ x, y: y - 4, width: boxWidth, height: 4, color: theme.accent });
+    drawText(page, stat.label, x + 12, y - 20, theme.bold, 8, MUTED);
+    drawText(page, formatTotal(stat.value), x + 12, y - 50, theme.bold, 22, TEXT);
+  });
+  y -= boxHeight + 36;
+
+  // Top terpenes (left) and cannabinoid profile (right)
+  const columnGap = 32;
+  const columnWidth = (contentWidth - columnGap) / 2;
+  const rightX = margin + columnWidth + columnGap;
+  drawText(page, 'Top Terpenes', margin, y, theme.bold, 12, theme.primary);
+  drawText(page, 'Cannabinoids', rightX, y, theme.bold, 12, theme.primary);
+
+  let leftY = y - 22;
+  const terpenes = record.totals.dominant_terpenes;
+  const maxTerpene = Math.max(...terpenes.map((terpene) => terpene.value), 0);
+  if (terpenes.length === 0) {
+    drawText(page, 'No terpenes reported', margin, leftY, theme.regular, 10, MUTED);
+    leftY -= 18;
+  }
+  for (const terpene of terpenes) {
+    drawText(page, fitLine(terpene.name, theme.regular, 10, columnWidth - 60), margin, leftY, theme.regular, 10, TEXT);
+    drawTextRight(page, formatPercent(terpene.value), margin + columnWidth, leftY, theme.bold, 10, TEXT);
+    page.drawRectangle({ x: margin, y: leftY - 9, width: columnWidth, height: 4, color: PANEL });
+    page.drawRectangle({
+      x: margin,
+      y: leftY - 9,
+      width: maxTerpene > 0 ? (columnWidth * terpene.value) / maxTerpene : 0,
+      height: 4,
+      color: theme.accent,
+    });
+    leftY -= 28;
+  }
+
+  let rightY = y - 22;
+  const cannabinoids = cannabinoidPercents(record).slice(0, SHEET_CANNABINOID_ROWS);
+  if (cannabinoids.length === 0) {
+    drawText(page, 'No cannabinoids reported', rightX, rightY, theme.regular, 10, MUTED);
+    rightY -= 18;
+  }
+  for (const cannabinoid of cannabinoids) {
+    drawText(page, fitLine(cannabinoid.name, theme.regular, 10, columnWidth - 60), rightX, rightY, theme.regular, 10, TEXT);
+    drawTextRight(page, formatPercent(cannabinoid.value), rightX + columnWidth, rightY, theme.bold, 10, TEXT);
+    page.drawLine({ start: { x: rightX, y: rightY - 5 }, end: { x: rightX + columnWidth, y: rightY - 5 }, thickness: 0.5, color: RULE });
+    rightY -= 18;
+  }
+  y = Math.min(leftY, rightY) - 16;
+
+  // Footer: QR code to the COA on the right, provenance on the left
+  const qrSize = 84;
+  const footerTop = margin + qrSize + 24;
+  page.drawLine({ start: { x: margin, y: footerTop }, end: { x: width - margin, y: footerTop }, thickness: 0.5, color: RULE });
+  if (coaUrl) {
+    drawQrCode(page, coaUrl, width - margin - qrSize, margin + 10, qrSize);
+    drawTextRight(page, 'Scan for the full COA', width - margin - 4, margin, theme.regular, 7, MUTED);
+  }
+  let footerY = footerTop - 22;
+  if (theme.businessName) {
+    drawText(page, theme.businessName, margin, footerY, theme.bold, 10, TEXT);
+    footerY -= 16;
+  }
+  if (record.compliance_verdict) {
+    const verdict = record.compliance_verdict.charAt(0).toUpperCase() + record.compliance_verdict.slice(1);
+    drawText(page, `Compliance check: ${verdict}`, margin, footerY, theme.regular, 9, TEXT);
+    footerY -= 16;
+  }
+  const provenance = `Generated ${generatedAt.toISOString().slice(0, 10)} from the laboratory Certificate of Analysis. ` +
+    'Values are percent by weight.';
+  for (const line of fitLines(provenance, theme.regular, 7.5, contentWidth - qrSize - 24)) {
+    drawText(page, line, margin, footerY, theme.regular, 7.5, MUTED);
+    footerY -= 10;
+  }
+
+  // The description takes whatever space is left between the profiles and the footer
+  const leading = 15;
+  const maxLines = Math.floor((y - 20 - footerTop - 12) / leading) + 1;
+  if (record.description && maxLines > 0) {
+    drawText(page, 'About This Product', margin, y, theme.bold, 12, theme.primary);
+    y -= 20;
+    for (const line of fitLines(toPlainText(record.description), theme.regular, 10.5, contentWidth, maxLines)) {
+      drawText(page, line, margin, y, theme.regular, 10.5, TEXT);
+      y -= leading;
+    }
+  }
+}
+
+function drawLabel(pdf: PDFDocument, theme: Theme, { record, coaUrl }: DocumentRecord) {
+  const page = pdf.addPage(LABEL_SIZE);
+  const [width, height] = LABEL_SIZE;
+  const padding = 10;
+  const barHeight = 6;
+  page.drawRectangle({ x: 0, y: height - barHeight, width, height: barHeight, color: theme.primary });
+
+  const qrSize = height - barHeight - padding * 2 - 8;
+  const qrX = width - padding - qrSize;
+  if (coaUrl) {
+    drawQrCode(page, coaUrl, qrX, padding + 8, qrSize);
+    drawTextRight(page, 'Scan for COA', width - padding - 2, padding, theme.regular, 6, MUTED);
+  }
+
+  const textWidth = (coaUrl ? qrX - 8 : width - padding) - padding;
+  let y = height - barHeight - padding;
+  if (theme.logo) {
+    const logoSize = theme.logo.scaleToFit(textWidth * 0.6, 18);
+    y -= logoSize.height;
+    page.drawImage(theme.logo, { x: padding, y, ...logoSize });
+    y -= 12;
+  } else if (theme.businessName) {
+    y -= 7;
+    drawText(page, fitLine(theme.businessName.toUpperCase(), theme.bold, 7, textWidth), padding, y, theme.bold, 7, MUTED);
+    y -= 14;
+  } else {
+    y -= 12;
+  }
+
+  drawText(page, fitLine(displayName(record), theme.bold, 13, textWidth), padding, y, theme.bold, 13, theme.primary);
+  y -= 13;
+
+  const potency = [
+    record.totals.total_thc !== null ? `THC ${formatPercent(record.totals.total_thc)}` : null,
+    record.totals.total_cbd !== null ? `CBD ${formatPercent(record.totals.total_cbd)}` : null,
+  ].filter(Boolean).join('  ·  ');
+  if (potency) {
+    drawText(page, fitLine(potency, theme.bold, 9, textWidth), padding, y, theme.bold, 9, TEXT);
+    y -= 11;
+  }
+
+  const terpenes = record.totals.dominant_terpenes.map((terpene) => terpene.name).join(' · ');
+  if (terpenes) {
+    drawText(page, fitLine(terpenes, theme.regular, 7, textWidth), padding, y, theme.regular, 7, theme.accent);
+    y -= 11;
+  }
+
+  // Batch and test date sit on the bottom line; the description excerpt fills the space above
+  const footer = [
+    record.batch_number ? `Batch ${record.batch_number}` : null,
+    record.tested_at ? `Tested ${record.tested_at}` : null,
+  ].filter(Boolean).join('  ·  ');
+  if (footer) {
+    drawText(page, fitLine(footer, theme.regular, 6, textWidth), padding, padding, theme.regular, 6, MUTED);
+  }
+
+  if (record.description) {
+    const leading = 8;
+    const bottom = padding + (footer ? 10 : 0);
+    const maxLines = Math.floor((y - bottom) / leading) + 1;
+    if (maxLines > 0) {
+      for (const line of fitLines(excerpt(toPlainText(record.description), LABEL_EXCERPT_CHARS), theme.regular, 6.5, textWidth, maxLines)) {
+        drawText(page, line, padding, y, theme.regular, 6.5, TEXT);
+        y -= leading;
+      }
+    }
+  }
+}
+
+async function createDocument(title: string) {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(title);
+  return pdf;
+}
+
+/**
+ * One-page branded strain sheet per result: totals, top terpenes, cannabinoid profile, the
+ * description and a QR code to the COA.
+ */
+export async function renderStrainSheets(documents: DocumentRecord[], brand: BrandStyle, generatedAt: Date): Promise<Uint8Array> {
+  const pdf = await createDocument(documents.length === 1 ? `${displayName(documents[0].record)} - Strain Sheet` : 'Strain Sheets');
+  const theme = await createTheme(pdf, brand);
+  for (const document of documents) drawStrainSheet(pdf, theme, document, generatedAt);
+  return await pdf.save();
+}
+
+/**
+ * One 4 x 2 in label per page, for label printers: name, totals, top terpenes, a description
+ * excerpt and a QR code to the COA.
+ */
+export async function renderLabels(documents: DocumentRecord[], brand: BrandStyle): Promise<Uint8Array> {
+  const pdf = await createDocument(documents.length === 1 ? `${displayName(documents[0].record)} - Label` : 'Labels');
+  const theme = await createTheme(pdf, brand);
+  for (const document of documents) drawLabel(pdf, theme, document);
+  return await pdf.save();
+}
@@ -0,0 +1,160 @@
+import { computePotency, PotencyAnalyte, RankedTerpene } from "../_shared/potency.ts";
+
+// The JSON export format. Documented in docs/04_Edge_Functions_InDepth.md (3.6); bump the version
+// when a field is removed or changes meaning. Adding fields is not a breaking change.
+export const EXPORT_FORMAT = 'lab-results-export';
+export const EXPORT_FORMAT_VERSION = 1;
+
+export interface ExportAnalyte {
+  // 'cannabinoid', 'terpene' or a safety panel ('pesticide', 'heavy_metal', 'microbial', 'residual_solvent')
+  category: string;
+  name: string;
+  cas_number: string | null;
+  // As reported on the COA; null for ND / <LOQ
+  value: number | null;
+  unit: string;
+  loq: number | null;
+  lod: number | null;
+  pass_fail: string | null;
+}
+
+export interface ExportRecord {
+  id: string;
+  product_name: string | null;
+  strain_name: string | null;
+  batch_number: string | null;
+  lab_name: string | null;
+  tested_at: string | null;
+  status: string | null;
+  created_at: string;
+  updated_at: string | null;
+  source_file: {
+    name: string;
+    storage_path: string;
+    // Number of pages read, null for results processed before page tracking
+    pages: number | null;
+    parser: string | null;
+  };
+  // Percent by weight, as stored by process-lab-result or computed from the analytes for older rows
+  totals: {
+    total_thc: number | null;
+    total_cbd: number | null;
+    total_terpenes: number | null;
+    dominant_terpenes: RankedTerpene[];
+  };
+  compliance_verdict: string | null;
+  description: string | null;
+  analytes: ExportAnalyte[];
+}
+
+export interface ExportDocument {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  count: number;
+  results: ExportRecord[];
+}
+
+// Columns read from lab_results; the batch embed resolves the strain name
+export const EXPORT_SELECT = `
+  id, file_name, storage_path, page_sources, parser, product_name, lab_name, batch_number, tested_at,
+  status, created_at, updated_at, total_thc, total_cbd, total_terpenes, dominant_terpenes,
+  compliance_verdict, description,
+  batch:batches(batch_number, strain:strains(name))
+`;
+
+export interface LabResultRow {
+  id: string;
+  file_name: string;
+  storage_path: string;
+  page_sources: unknown;
+  parser: string | null;
+  product_name: string | null;
+  lab_name: string | null;
+  batch_number: string | null;
+  tested_at: string | null;
+  status: string | null;
+  created_at: string;
+  updated_at: string | null;
+  total_thc: number | null;
+  total_cbd: number | null;
+  total_terpenes: number | null;
+  dominant_terpenes: unknown;
+  compliance_verdict: string | null;
+  description: string | null;
+  batch: { batch_number: string | null; strain: { name: string } | null } | null;
+}
+
+export interface AnalyteRow {
+  lab_result_id: string;
+  category: string;
+  analyte_name: string;
+  cas_number: string | null;
+  value: number | null;
+  unit: string;
+  loq: number | null;
+  lod: number | null;
+  pass_fail: string | null;
+}
+
+const toRankedTerpenes = (value: unknown): RankedTerpene[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is RankedTerpene =>
+        !!item && typeof item === 'object' && typeof item.name === 'string' && typeof item.value === 'number')
+    : [];
+
+function resolveTotals(row: LabResultRow, analytes: AnalyteRow[]): ExportRecord['totals'] {
+  if (row.total_thc != null || row.total_cbd != null || row.total_terpenes != null) {
+    return {
+      total_thc: row.total_thc,
+      total_cbd: row.total_cbd,
+      total_terpenes: row.total_terpenes,
+      dominant_terpenes: toRankedTerpenes(row.dominant_terpenes),
+    };
+  }
+
+  const inCategory = (category: string): PotencyAnalyte[] => analytes
+    .filter((analyte) => analyte.category === category)
+    .map((analyte) => ({ name: analyte.analyte_name, value: analyte.value, unit: analyte.unit }));
+  const potency = computePotency(inCategory('cannabinoid'), inCategory('terpene'));
+  return {
+    total_thc: potency.totalThc,
+    total_cbd: potency.totalCbd,
+    total_terpenes: potency.totalTerpenes,
+    dominant_terpenes: potency.dominantTerpenes,
+  };
+}
+
+export function toExportRecord(row: LabResultRow, analytes: AnalyteRow[]): ExportRecord {
+  return {
+    id: row.id,
+    product_name: row.product_name,
+    strain_name: row.batch?.strain?.name ?? null,
+    // The batch the user attached wins over the number extracted from the COA
+    batch_number: row.batch?.batch_number ?? row.batch_number,
+    lab_name: row.lab_name,
+    tested_at: row.tested_at,
+    status: row.status,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    source_file: {
+      name: row.file_name,
+      storage_path: row.storage_path,
+      pages: Array.isArray(row.page_sources) ? row.page_sources.length : null,
+      parser: row.parser,
+    },
+    totals: resolveTotals(row, analytes),
+    compliance_verdict: row.compliance_verdict,
+    description: row.description,
+    analytes: analytes.map((analyte) => ({
+      category: analyte.category,
+      name: analyte.analyte_name,
+      cas_number: analyte.cas_number,
+      value: analyte.value,
+      unit: analyte.unit,
+      loq: analyte.loq,
+      lod: analyte.lod,
+      pass_fail: analyte.pass_fail,
+    })),
+  };
+}
@@ -0,0 +1,16 @@
+import * as XLSX from "https://esm.sh/xlsx@0.18.5";
+import { analytesTable, resultsTable } from "./formats.ts";
+import { ExportRecord } from "./records.ts";
+
+/**
+ * Workbook with a "Results" sheet (same columns as the CSV) and an "Analytes" sheet with one row
+ * per analyte, including safety panels.
+ */
+export function toXlsx(records: ExportRecord[]): Uint8Array {
+  const workbook = XLSX.utils.book_new();
+
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(resultsTable(records)), 'Results');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(analytesTable(records)), 'Analytes');
+
+  return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+}
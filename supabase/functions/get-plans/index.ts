@@ -1,42 +1,56 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
-
-const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
-    apiVersion: '2023-10-16',
-    httpClient: Stripe.createFetchHttpClient(),
-});
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
 
 const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// The plans listed on the pricing pages, from the plans catalog table in display order
 serve(async (req) => {
     if (req.method === 'OPTIONS') {
         return new Response(null, { headers: corsHeaders });
     }
 
     try {
-        const prices = await stripe.prices.list({
-            active: true,
-            expand: ['data.product'],
-        });
+        const supabase = createClient(
+            Deno.env.get('SUPABASE_URL') ?? '',
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+            {
+                auth: {
+                    autoRefreshToken: false,
+                    persistSession: false,
+                },
+            }
+        );
+
+        const { data: plans, error } = await supabase
+            .from('plans')
+            .select('id, name, description, stripe_price_id, amount, currency, billing_interval, generation_limit, upload_limit_mb, features, sort_order')
+            .eq('is_active', true)
+            .eq('is_public', true)
+            .not('stripe_price_id', 'is', null)
+            .order('sort_order', { ascending: true });
+
+        if (error) {
+            throw new Error(`Failed to load plans: ${error.message}`);
+        }
 
         return new Response(
-            JSON.stringify(prices.data),
-            { 
+            JSON.stringify(plans),
+            {
                 headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-                status: 200 
+                status: 200
             }
         );
     } catch (error) {
-        console.error("Error getting prices:", error);
+        console.error("Error getting plans:", error);
         return new Response(
             JSON.stringify({ error: error.message }),
-            { 
+            {
                 headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-                status: 400 
+                status: 400
             }
         );
     }
-});
\ No newline at end of file
+});
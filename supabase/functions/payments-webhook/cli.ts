@@ -0,0 +1,56 @@
+// Feeds recorded Stripe events through the payments-webhook handlers, skipping signature checks.
+// Events go through the same claim step as live deliveries, so --redeliver (each event sent twice)
+// shows the second delivery being skipped, and --replay forces a re-run like the admin action.
+// Record an event with the Stripe CLI: stripe events retrieve evt_... > fixtures/<name>.json
+// Needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (e.g. from `supabase start`), plus
+// STRIPE_SECRET_KEY (test mode) for handlers that call Stripe, such as checkout.session.completed.
+// Usage: deno run --allow-read --allow-env --allow-net cli.ts <event.json|directory> [--redeliver] [--replay]
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { processWebhookEvent } from './events.ts';
+
+const [path] = Deno.args.filter((arg) => !arg.startsWith('--'));
+const redeliver = Deno.args.includes('--redeliver');
+const replay = Deno.args.includes('--replay');
+
+if (!path) {
+  console.error('Usage: cli.ts <event.json|directory> [--redeliver] [--replay]');
+  Deno.exit(1);
+}
+
+const supabaseClient = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+);
+
+// A single event file, or every .json file in a directory in name order
+async function eventFiles(target: string): Promise<string[]> {
+  if (!(await Deno.stat(target)).isDirectory) return [target];
+
+  const files: string[] = [];
+  for await (const entry of Deno.readDir(target)) {
+    if (entry.isFile && entry.name.endsWith('.json')) files.push(`${target}/${entry.name}`);
+  }
+  return files.sort();
+}
+
+let failures = 0;
+
+for (const file of await eventFiles(path)) {
+  const event = JSON.parse(await Deno.readTextFile(file));
+
+  for (let delivery = 1; delivery <= (redeliver ? 2 : 1); delivery++) {
+    const label = `${event.type} ${event.id}${delivery > 1 ? ' (redelivery)' : ''}`;
+    try {
+      const response = await processWebhookEvent(supabaseClient, event, { replay });
+      console.log(`${response.status}  ${label}  ${await response.text()}`);
+      if (!response.ok) failures++;
+    } catch (error) {
+      failures++;
+      console.error(`error  ${label}  ${error.message}`);
+    }
+  }
+}
+
+if (failures > 0) {
+  Deno.exit(1);
+}
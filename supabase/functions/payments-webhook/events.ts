@@ -0,0 +1,88 @@
+// At-most-once processing of Stripe events. Each event is claimed in webhook_events
+// (claim_webhook_event) before its handler runs, and its outcome is recorded afterwards, so
+// Stripe retries and duplicate deliveries never run a handler twice.
+import { corsHeaders, handleStripeEvent } from './handlers.ts';
+
+export type WebhookEventStatus = 'processing' | 'processed' | 'failed';
+
+export interface ProcessWebhookEventOptions {
+  // An admin replay: the only way to re-run failed or processed events
+  replay?: boolean;
+}
+
+async function recordOutcome(
+  supabaseClient: any,
+  eventId: string,
+  status: WebhookEventStatus,
+  lastError: string | null
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from('webhook_events')
+    .update({
+      status,
+      last_error: lastError,
+      processed_at: status === 'processed' ? new Date().toISOString() : null,
+      modified_at: new Date().toISOString(),
+    })
+    .eq('stripe_event_id', eventId);
+
+  if (error) {
+    console.error(`Error recording outcome of webhook event ${eventId}:`, error);
+  }
+}
+
+// Why a handler response counts as a failure, from its JSON error body when it has one
+async function failureMessage(response: Response): Promise<string> {
+  const body = await response.clone().json().catch(() => null);
+  return body?.error || `Handler responded with status ${response.status}`;
+}
+
+/**
+ * Claims a verified (or recorded) Stripe event, runs its handler once and records whether it
+ * succeeded. Events already processed or failed get a 200 so Stripe stops retrying (failed ones
+ * wait for an admin replay); events still being handled by another delivery get a 409 so Stripe
+ * retries later.
+ */
+export async function processWebhookEvent(
+  supabaseClient: any,
+  event: any,
+  { replay = false }: ProcessWebhookEventOptions = {}
+): Promise<Response> {
+  const { data: claim, error: claimError } = await supabaseClient.rpc('claim_webhook_event', {
+    stripe_event_id_param: event.id,
+    event_type_param: event.type,
+    payload_param: event,
+    replay_param: replay,
+  });
+
+  if (claimError) {
+    throw new Error(`Failed to claim webhook event: ${claimError.message}`);
+  }
+
+  if (claim !== 'claimed') {
+    console.log(`Skipping webhook event ${event.id} (${event.type}): already ${claim}`);
+    return new Response(
+      JSON.stringify({ message: `Event already ${claim}`, status: claim }),
+      {
+        status: claim === 'processing' ? 409 : 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  let response: Response;
+  try {
+    response = await handleStripeEvent(supabaseClient, event);
+  } catch (error) {
+    await recordOutcome(supabaseClient, event.id, 'failed', error.message);
+    throw error;
+  }
+
+  if (response.ok) {
+    await recordOutcome(supabaseClient, event.id, 'processed', null);
+  } else {
+    await recordOutcome(supabaseClient, event.id, 'failed', await failureMessage(response));
+  }
+
+  return response;
+}
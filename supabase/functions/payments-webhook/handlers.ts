@@ -0,0 +1,682 @@
+// Stripe event handlers for payments-webhook. Kept apart from the HTTP entry point so recorded
+// events can be run through them by admin replays (admin-operations) and the local CLI (cli.ts).
+// Each handler returns the Response sent to Stripe; a non-2xx response marks the event failed.
+import Stripe from "https://esm.sh/stripe@13.6.0?target=deno";
+import { CatalogPlan, findPlanById, findPlanForPrice, loadFreePlan } from '../_shared/plans.ts';
+
+// Types
+type SubscriptionData = {
+  stripe_id: string;
+  user_id: string;
+  price_id: string;
+  stripe_price_id: string;
+  currency: string;
+  interval: string;
+  status: string;
+  current_period_start: number;
+  current_period_end: number;
+  cancel_at_period_end: boolean;
+  amount: number;
+  started_at: number;
+  customer_id: string;
+  metadata: Record<string, any>;
+  canceled_at?: number;
+  ended_at?: number;
+};
+
+export const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
+  apiVersion: '2023-10-16',
+  httpClient: Stripe.createFetchHttpClient(),
+});
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Utility functions
+async function updateSubscriptionStatus(
+  supabaseClient: any,
+  stripeId: string,
+  status: string
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from("subscriptions")
+    .update({ status })
+    .eq("stripe_id", stripeId);
+
+  if (error) {
+    console.error('Error updating subscription status:', error);
+    throw error;
+  }
+}
+
+interface ApplyPlanOptions {
+  // A price switch within the paid billing period, which Stripe only charges prorated
+  midPeriod?: boolean;
+}
+
+// Moves a mid-period plan change onto the user: generations_used is kept, and the limit changes by
+// the difference between the old and new plan, so carried-over generations stay and switching up
+// and back down again grants nothing.
+async function applyMidPeriodPlanChange(supabaseClient: any, userUuid: string, plan: CatalogPlan): Promise<void> {
+  const { data: currentUserData, error: lookupError } = await supabaseClient
+    .from('users')
+    .select('current_plan_id, generation_limit')
+    .eq('id', userUuid)
+    .single();
+
+  if (lookupError || !currentUserData) {
+    throw new Error(`Failed to read user ${userUuid}: ${lookupError?.message || 'not found'}`);
+  }
+
+  const previousPlan = currentUserData.current_plan_id
+    ? await findPlanById(supabaseClient, currentUserData.current_plan_id)
+    : null;
+  const carriedOver = Math.max(0, (currentUserData.generation_limit ?? 0) - (previousPlan?.generation_limit ?? 0));
+  const newGenerationLimit = plan.generation_limit + (previousPlan ? carriedOver : 0);
+
+  console.log(`Moving user ${userUuid} from plan ${currentUserData.current_plan_id} to ${plan.id} mid-period: generation_limit ${currentUserData.generation_limit} -> ${newGenerationLimit}, usage kept`);
+
+  const { error: updateError } = await supabaseClient
+    .from('users')
+    .update({
+      current_plan_id: plan.id,
+      generation_limit: newGenerationLimit,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', userUuid);
+
+  if (updateError) {
+    throw new Error(`Failed to update user ${userUuid}: ${updateError.message}`);
+  }
+}
+
+// Moves a user onto a plan: the plan's generation limit plus whatever they had left, with usage
+// reset. Used when a checkout completes and when a subscription switches price at the start of a
+// billing period; mid-period switches go through applyMidPeriodPlanChange.
+async function applyPlanToUser(
+  supabaseClient: any,
+  userUuid: string,
+  plan: CatalogPlan,
+  { midPeriod = false }: ApplyPlanOptions = {}
+): Promise<void> {
+  if (midPeriod) {
+    return applyMidPeriodPlanChange(supabaseClient, userUuid, plan);
+  }
+
+  const planNameForUser = plan.id;
+  const generationLimit = plan.generation_limit;
+
+  console.log(`Preparing to update user ${userUuid}: set current_plan_id='${planNameForUser}', generation_limit=${generationLimit}`);
+
+  // Get current user data to preserve unused generations
+  const { data: currentUserData } = await supabaseClient
+    .from('users')
+    .select('current_plan_id, generation_limit, generations_used')
+    .eq('id', userUuid)
+    .single();
+
+  let newGenerationLimit = generationLimit;
+  let newGenerationsUsed = 0;
+
+  // If user has existing data, calculate remaining generations
+  if (currentUserData) {
+    const remainingGenerations = Math.max(0, currentUserData.generation_limit - currentUserData.generations_used);
+
+    console.log(`User ${userUuid} current usage: ${currentUserData.generations_used}/${currentUserData.generation_limit}, remaining: ${remainingGenerations}`);
+
+    // Add remaining generations to new plan limit
+    if (remainingGenerations > 0) {
+      newGenerationLimit = generationLimit + remainingGenerations;
+      console.log(`Adding ${remainingGenerations} remaining generations to new limit. New limit: ${newGenerationLimit}`);
+    }
+  }
+
+  // Update the user record
+  const userUpdateResult = await supabaseClient
+    .from('users')
+    .update({
+      current_plan_id: planNameForUser, // Set the plan name ('basic', 'pro', 'free')
+      generation_limit: newGenerationLimit, // New limit + remaining generations
+      generations_used: newGenerationsUsed, // Reset usage counter
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', userUuid); // Match on the UUID primary key
+
+  if (userUpdateResult.error) {
+    console.error(`Standard Supabase update failed for user ${userUuid}:`, userUpdateResult.error);
+
+    // Fall back to direct SQL function - ensure it accepts plan name
+    console.log('Falling back to direct SQL update function update_user_plan...');
+    const { error: sqlError } = await supabaseClient.rpc(
+      'update_user_plan',
+      {
+        user_id_param: userUuid,
+        plan_id_param: planNameForUser, // Pass the determined plan name
+        limit_param: newGenerationLimit // Use the calculated limit with remaining generations
+      }
+    );
+
+    if (sqlError) {
+      console.error(`SQL function update_user_plan also failed for user ${userUuid}:`, sqlError);
+      throw new Error(`Failed to update user record via standard or SQL method: ${sqlError.message}`);
+    } else {
+      console.log(`User record ${userUuid} updated successfully via SQL fallback.`);
+    }
+  } else {
+    console.log(`User record ${userUuid} updated successfully via standard update.`);
+  }
+}
+
+// Event handlers
+async function handleSubscriptionCreated(supabaseClient: any, event: any) {
+  const subscription = event.data.object;
+  console.log('Handling subscription created:', subscription.id);
+
+  // Try to get user information
+  let userId = subscription.metadata?.user_id || subscription.metadata?.userId;
+  if (!userId) {
+    try {
+      const customer = await stripe.customers.retrieve(subscription.customer);
+      const { data: userData } = await supabaseClient
+        .from('users')
+        .select('id')
+        .eq('email', customer.email)
+        .single();
+
+      userId = userData?.id;
+      if (!userId) {
+        throw new Error('User not found');
+      }
+    } catch (error) {
+      console.error('Unable to find associated user:', error);
+      return new Response(
+        JSON.stringify({ error: "Unable to find associated user" }),
+        { 
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  }
+
+  const subscriptionData: SubscriptionData = {
+    stripe_id: subscription.id,
+    user_id: userId,
+    price_id: subscription.items.data[0]?.price.id,
+    stripe_price_id: subscription.items.data[0]?.price.id,
+    currency: subscription.currency,
+    interval: subscription.items.data[0]?.plan.interval,
+    status: subscription.status,
+    current_period_start: subscription.current_period_start,
+    current_period_end: subscription.current_period_end,
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    amount: subscription.items.data[0]?.plan.amount ?? 0,
+    started_at: subscription.start_date ?? Math.floor(Date.now() / 1000),
+    customer_id: subscription.customer,
+    metadata: subscription.metadata || {},
+    canceled_at: subscription.canceled_at,
+    ended_at: subscription.ended_at
+  };
+
+  // First, check if a subscription with this stripe_id already exists
+  const { data: existingSubscription } = await supabaseClient
+    .from('subscriptions')
+    .select('id')
+    .eq('stripe_id', subscription.id)
+    .maybeSingle();
+
+  // Update subscription in database
+  const { error } = await supabaseClient
+    .from('subscriptions')
+    .upsert({
+      // If we found an existing subscription, use its UUID, otherwise let Supabase generate one
+      ...(existingSubscription?.id ? { id: existingSubscription.id } : {}),
+      ...subscriptionData
+    }, {
+      // Use stripe_id as the match key for upsert
+      onConflict: 'stripe_id'
+    });
+
+  if (error) {
+    console.error('Error creating subscription:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to create subscription" }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ message: "Subscription created successfully" }),
+    { 
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+async function handleSubscriptionUpdated(supabaseClient: any, event: any) {
+  const subscription = event.data.object;
+  console.log('Handling subscription updated:', subscription.id);
+
+  const item = subscription.items?.data?.[0];
+  const plan = await findPlanForPrice(stripe, supabaseClient, item?.price);
+
+  const { data: existingSubscription } = await supabaseClient
+    .from('subscriptions')
+    .select('user_id, scheduled_plan_id')
+    .eq('stripe_id', subscription.id)
+    .maybeSingle();
+
+  // A scheduled downgrade is finished once its plan is live, and void once its schedule is released
+  const scheduledChangeDone = !subscription.schedule
+    || (plan !== null && existingSubscription?.scheduled_plan_id === plan.id);
+
+  const { error } = await supabaseClient
+    .from("subscriptions")
+    .update({
+      status: subscription.status,
+      price_id: item?.price?.id,
+      stripe_price_id: item?.price?.id,
+      interval: item?.plan?.interval,
+      amount: item?.plan?.amount ?? 0,
+      current_period_start: subscription.current_period_start,
+      current_period_end: subscription.current_period_end,
+      cancel_at_period_end: subscription.cancel_at_period_end,
+      metadata: subscription.metadata,
+      canceled_at: subscription.canceled_at,
+      ended_at: subscription.ended_at,
+      ...(scheduledChangeDone
+        ? { scheduled_plan_id: null, scheduled_change_at: null, stripe_schedule_id: null }
+        : {})
+    })
+    .eq("stripe_id", subscription.id);
+
+  if (error) {
+    console.error('Error updating subscription:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to update subscription" }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Plan changes (change-plan, a scheduled downgrade starting, or the Customer Portal) swap the
+  // item's price. Only react to events that changed the items, so metadata or renewal updates
+  // never re-grant generations.
+  const itemsChanged = !!event.data.previous_attributes?.items;
+  // A scheduled downgrade goes live together with the new period; anything else changes the
+  // price within the period that was already paid for
+  const startsNewPeriod = !!event.data.previous_attributes?.current_period_start;
+  const isPaying = subscription.status === 'active' || subscription.status === 'trialing';
+
+  if (itemsChanged && isPaying) {
+    const userId = existingSubscription?.user_id || subscription.metadata?.user_id || subscription.metadata?.userId;
+
+    if (!plan) {
+      console.warn(`Subscription ${subscription.id} moved to price ${item?.price?.id}, which is not in the plan catalog. Leaving the user's plan unchanged.`);
+    } else if (userId) {
+      const { data: userData } = await supabaseClient
+        .from('users')
+        .select('id, current_plan_id')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (userData && userData.current_plan_id !== plan.id) {
+        try {
+          await applyPlanToUser(supabaseClient, userData.id, plan, { midPeriod: !startsNewPeriod });
+        } catch (updateError) {
+          console.error(`Failed to move user ${userData.id} to plan ${plan.id}:`, updateError);
+          return new Response(
+            JSON.stringify({ error: "Failed to update user plan" }),
+            { 
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+      }
+    } else {
+      console.log(`Could not find user record to update plan details for subscription ${subscription.id}.`);
+    }
+  }
+
+  return new Response(
+    JSON.stringify({ message: "Subscription updated successfully" }),
+    { 
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+async function handleSubscriptionDeleted(supabaseClient: any, event: any) {
+  const subscription = event.data.object;
+  console.log('Handling subscription deleted:', subscription.id);
+
+  try {
+    await updateSubscriptionStatus(supabaseClient, subscription.id, "canceled");
+    
+    // If we have email in metadata, update user's subscription status
+    if (subscription?.metadata?.email) {
+      await supabaseClient
+        .from("users")
+        .update({ current_plan_id: null })
+        .eq("email", subscription.metadata.email);
+    }
+
+    return new Response(
+      JSON.stringify({ message: "Subscription deleted successfully" }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error deleting subscription:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to process subscription deletion" }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+async function handleCheckoutSessionCompleted(supabaseClient: any, event: any) {
+  const session = event.data.object;
+  console.log('Handling checkout session completed:', session.id);
+  
+  const subscriptionId = typeof session.subscription === 'string' 
+    ? session.subscription 
+    : session.subscription?.id;
+  
+  console.log('Extracted subscriptionId:', subscriptionId);
+  
+  if (!subscriptionId) {
+    console.log('No subscription ID found in checkout session');
+    return new Response(
+      JSON.stringify({ message: "No subscription in checkout session" }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    console.log('Attempting to update subscription in Stripe with ID:', subscriptionId);
+    
+    // Fetch the current subscription from Stripe to get the latest status
+    const stripeSubscription = await stripe.subscriptions.retrieve(subscriptionId);
+    console.log('Retrieved Stripe subscription status:', stripeSubscription.status);
+    
+    const updatedStripeSubscription = await stripe.subscriptions.update(
+      subscriptionId,
+      { 
+        metadata: {
+          ...session.metadata,
+          checkoutSessionId: session.id
+        }
+      }
+    );
+    
+    console.log('Successfully updated Stripe subscription:', updatedStripeSubscription.id);
+
+    console.log('Attempting to update subscription in Supabase with stripe_id:', subscriptionId);
+    console.log('User ID being set:', session.metadata?.userId || session.metadata?.user_id);
+    
+    const supabaseUpdateResult = await supabaseClient
+      .from("subscriptions")
+      .update({
+        metadata: {
+          ...session.metadata,
+          checkoutSessionId: session.id
+        },
+        user_id: session.metadata?.userId || session.metadata?.user_id,
+        status: stripeSubscription.status, // Update the status from Stripe
+        current_period_start: stripeSubscription.current_period_start,
+        current_period_end: stripeSubscription.current_period_end,
+        cancel_at_period_end: stripeSubscription.cancel_at_period_end
+      })
+      .eq("stripe_id", subscriptionId);
+    
+    if (supabaseUpdateResult.error) {
+      console.error(`Failed to update subscription ${subscriptionId} in Supabase:`, supabaseUpdateResult.error.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to update subscription" }),
+        { 
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+    
+    // If we have user information, update their subscription status and operations
+    if (session.metadata?.userId || session.metadata?.user_id || session.customer_email) {
+      const userId = session.metadata?.userId || session.metadata?.user_id;
+      
+      // 1. First try to get the user record
+      let userToUpdate;
+      
+      if (userId) {
+        const { data: userData } = await supabaseClient
+          .from('users')
+          .select('id, email')
+          .eq('user_id', userId)
+          .single();
+          
+        if (userData) {
+          userToUpdate = userData;
+        }
+      }
+      
+      // 2. If no user by ID, try by email
+      if (!userToUpdate && session.customer_email) {
+        const { data: userByEmail } = await supabaseClient
+          .from('users')
+          .select('id, email, user_id')
+          .eq('email', session.customer_email)
+          .single();
+          
+        if (userByEmail) {
+          userToUpdate = userByEmail;
+        }
+      }
+      
+      // 3. If we found a user, update their subscription
+      if (userToUpdate) {
+        console.log(`Found user ${userToUpdate.id} to update.`);
+
+        // Determine plan name and generation limit from the plan catalog
+        let plan = await loadFreePlan(supabaseClient);
+        const subscriptionStatus = stripeSubscription.status;
+        const subscriptionPrice = stripeSubscription.items?.data?.[0]?.price;
+
+        console.log(`Subscription ${subscriptionId} status: ${subscriptionStatus}, price: ${subscriptionPrice?.id}`);
+
+        if (subscriptionStatus === 'active' || subscriptionStatus === 'trialing') { // Consider active or trialing as valid plans
+          const catalogPlan = await findPlanForPrice(stripe, supabaseClient, subscriptionPrice);
+          if (catalogPlan) {
+            plan = catalogPlan;
+            console.log(`Identified ${plan.id} plan from price ${subscriptionPrice?.id}. Setting limit: ${plan.generation_limit}`);
+          } else {
+            console.warn(`Subscription ${subscriptionId} is active but price ${subscriptionPrice?.id} is not in the plan catalog. Defaulting to free plan values.`);
+          }
+        } else {
+            console.warn(`Subscription ${subscriptionId} status is '${subscriptionStatus}'. Not updating user to a paid plan. Defaulting to free plan values.`);
+        }
+
+        try {
+          await applyPlanToUser(supabaseClient, userToUpdate.id, plan);
+        } catch (updateError) {
+          // A 500 records the event as failed, so it can be replayed once the cause is fixed
+          console.error(`Exception during user update attempts for user ${userToUpdate.id}:`, updateError);
+          return new Response(
+            JSON.stringify({ error: "Failed to update user plan" }),
+            { 
+              status: 500,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+            }
+          );
+        }
+      } else {
+        console.log(`Could not find user record to update plan details for session ${session.id}.`);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ message: "Checkout session processed successfully" }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+    
+  } catch (error) {
+    console.error('Error processing checkout session:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to process checkout session" }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+async function handleInvoicePaymentSucceeded(supabaseClient: any, event: any) {
+  const invoice = event.data.object;
+  console.log('Handling invoice payment succeeded:', invoice.id);
+  
+  const subscriptionId = typeof invoice.subscription === 'string' 
+    ? invoice.subscription 
+    : invoice.subscription?.id;
+
+  try {
+    const { data: subscription } = await supabaseClient
+      .from("subscriptions")
+      .select("*")
+      .eq("stripe_id", subscriptionId)
+      .single();
+
+    // Summarise the invoice on the event's own webhook_events row (the full event is in payload)
+    const invoiceSummary = {
+      invoiceId: invoice.id,
+      subscriptionId,
+      amountPaid: String(invoice.amount_paid / 100),
+      currency: invoice.currency,
+      status: "succeeded",
+      email: subscription?.email || invoice.customer_email
+    };
+
+    await supabaseClient
+      .from("webhook_events")
+      .update({ data: invoiceSummary })
+      .eq("stripe_event_id", event.id);
+
+    return new Response(
+      JSON.stringify({ message: "Invoice payment succeeded" }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error processing successful payment:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to process successful payment" }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+async function handleInvoicePaymentFailed(supabaseClient: any, event: any) {
+  const invoice = event.data.object;
+  console.log('Handling invoice payment failed:', invoice.id);
+  
+  const subscriptionId = typeof invoice.subscription === 'string' 
+    ? invoice.subscription 
+    : invoice.subscription?.id;
+
+  try {
+    const { data: subscription } = await supabaseClient
+      .from("subscriptions")
+      .select("*")
+      .eq("stripe_id", subscriptionId)
+      .single();
+
+    // Summarise the invoice on the event's own webhook_events row (the full event is in payload)
+    const invoiceSummary = {
+      invoiceId: invoice.id,
+      subscriptionId,
+      amountDue: String(invoice.amount_due / 100),
+      currency: invoice.currency,
+      status: "failed",
+      email: subscription?.email || invoice.customer_email
+    };
+
+    await supabaseClient
+      .from("webhook_events")
+      .update({ data: invoiceSummary })
+      .eq("stripe_event_id", event.id);
+
+    if (subscriptionId) {
+      await updateSubscriptionStatus(supabaseClient, subscriptionId, "past_due");
+    }
+
+    return new Response(
+      JSON.stringify({ message: "Invoice payment failed" }),
+      { 
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error processing failed payment:', error);
+    return new Response(
+      JSON.stringify({ error: "Failed to process failed payment" }),
+      { 
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+// Runs the handler for one verified (or recorded) Stripe event
+export async function handleStripeEvent(supabaseClient: any, event: any): Promise<Response> {
+  switch (event.type) {
+    case 'customer.subscription.created':
+      return await handleSubscriptionCreated(supabaseClient, event);
+    case 'customer.subscription.updated':
+      return await handleSubscriptionUpdated(supabaseClient, event);
+    case 'customer.subscription.deleted':
+      return await handleSubscriptionDeleted(supabaseClient, event);
+    case 'checkout.session.completed':
+      return await handleCheckoutSessionCompleted(supabaseClient, event);
+    case 'invoice.payment_succeeded':
+      return await handleInvoicePaymentSucceeded(supabaseClient, event);
+    case 'invoice.payment_failed':
+      return await handleInvoicePaymentFailed(supabaseClient, event);
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+      return new Response(
+        JSON.stringify({ message: `Unhandled event type: ${event.type}` }),
+        { 
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+  }
+}
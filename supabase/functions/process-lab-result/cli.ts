@@ -0,0 +1,30 @@
+// Runs the processing pipeline against a local PDF or COA photo without Supabase or network access to an LLM.
+// Scanned pages and photos are OCRed locally with the Tesseract engine and model bundled in ./tesseract.
+// A rule pack exported from compliance_rule_packs ({ id, version, name, jurisdiction, rules }) can be passed to run the compliance check.
+// Usage: deno run --allow-read --allow-env --allow-net=esm.sh,deno.land cli.ts <path-to-coa.pdf|png|jpg> [short|long] [rule-pack.json]
+import { parseRules, RulePack } from "./compliance.ts";
+import { runPipeline } from "./pipeline.ts";
+import { BUILTIN_PROFILES } from "./profiles.ts";
+import { StubProvider } from "./providers.ts";
+
+const [filePath, profileId = 'short', rulePackPath] = Deno.args;
+
+if (!filePath) {
+  console.error('Usage: cli.ts <path-to-coa.pdf|png|jpg> [short|long] [rule-pack.json]');
+  Deno.exit(1);
+}
+
+let rulePack: RulePack | null = null;
+if (rulePackPath) {
+  const pack = JSON.parse(await Deno.readTextFile(rulePackPath));
+  rulePack = { ...pack, rules: parseRules(pack.rules) };
+}
+
+const fileBytes = await Deno.readFile(filePath);
+const result = await runPipeline(fileBytes, {
+  provider: new StubProvider(),
+  profile: BUILTIN_PROFILES[profileId] ?? BUILTIN_PROFILES.short,
+  rulePack,
+});
+
+console.log(JSON.stringify(result, null, 2));
@@ -0,0 +1,243 @@
+// State compliance checks: compares parsed COA results with the action limits in a versioned
+// rule pack (compliance_rule_packs). Limits are data, so a regulation change is a new pack version.
+import { normalizeAnalyteName, totalThc } from "../_shared/potency.ts";
+import { CONTAMINANT_PANELS, ContaminantPanel, ParsedAnalyte, ParsedCoa } from "./providers.ts";
+
+export type CompliancePanel = 'potency' | ContaminantPanel;
+
+interface BaseRule {
+  id: string;
+  label: string;
+  max: number;
+  unit: string;
+}
+
+// Δ9-THC + 0.877 × THCA (the decarboxylated total, as used for the 0.3% hemp limit)
+export interface TotalThcRule extends BaseRule {
+  type: 'total_thc';
+}
+
+// Any of the named analytes above `max` fails; analytes are matched case- and punctuation-insensitively
+export interface LimitRule extends BaseRule {
+  type: 'limit';
+  panel: ContaminantPanel;
+  analytes: string[];
+}
+
+export type ComplianceRule = TotalThcRule | LimitRule;
+
+export interface RulePack {
+  id: string;
+  version: number;
+  name: string;
+  jurisdiction: string;
+  rules: ComplianceRule[];
+}
+
+export type FindingStatus = 'pass' | 'fail' | 'not_tested';
+export type ComplianceVerdict = 'pass' | 'fail' | 'incomplete';
+
+export interface ComplianceFinding {
+  ruleId: string;
+  label: string;
+  panel: CompliancePanel;
+  status: FindingStatus;
+  // Highest reported value in the rule's unit; null when not detected or not comparable
+  value: number | null;
+  limit: number;
+  unit: string;
+  message: string;
+}
+
+export interface ComplianceReport {
+  rulePackId: string;
+  rulePackVersion: number;
+  rulePackName: string;
+  verdict: ComplianceVerdict;
+  findings: ComplianceFinding[];
+}
+
+// Parts per million for each mass-fraction unit; count units (CFU/g) only compare with themselves
+const PPM_PER_UNIT: Record<string, number> = {
+  '%': 10000,
+  'mg/g': 1000,
+  'mg/kg': 1,
+  'µg/g': 1,
+  'ug/g': 1,
+  'ppm': 1,
+  'ppb': 0.001,
+  'ng/g': 0.001,
+};
+
+function convertUnit(value: number, from: string, to: string): number | null {
+  if (from.toLowerCase() === to.toLowerCase()) return value;
+  const fromPpm = PPM_PER_UNIT[from.toLowerCase()];
+  const toPpm = PPM_PER_UNIT[to.toLowerCase()];
+  if (fromPpm === undefined || toPpm === undefined) return null;
+  return (value * fromPpm) / toPpm;
+}
+
+const formatValue = (value: number, unit: string) =>
+  `${Number(value.toFixed(4))}${unit === '%' ? '%' : ` ${unit}`}`;
+
+/**
+ * Validates the rules JSON of a rule pack. Throws on the first malformed rule so a bad pack
+ * fails loudly instead of silently passing everything.
+ */
+export function parseRules(rules: unknown): ComplianceRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error('Rule pack rules must be an array');
+  }
+
+  return rules.map((rule, index) => {
+    const valid = rule && typeof rule.id === 'string' && typeof rule.label === 'string' &&
+      typeof rule.max === 'number' && typeof rule.unit === 'string';
+    if (valid && rule.type === 'total_thc') {
+      return { id: rule.id, type: 'total_thc', label: rule.label, max: rule.max, unit: rule.unit };
+    }
+    if (
+      valid && rule.type === 'limit' && CONTAMINANT_PANELS.includes(rule.panel) &&
+      Array.isArray(rule.analytes) && rule.analytes.every((name: unknown) => typeof name === 'string')
+    ) {
+      return {
+        id: rule.id,
+        type: 'limit',
+        label: rule.label,
+        panel: rule.panel,
+        analytes: rule.analytes,
+        max: rule.max,
+        unit: rule.unit,
+      };
+    }
+    throw new Error(`Invalid compliance rule at index ${index}`);
+  });
+}
+
+/**
+ * Loads the latest active version of the rule pack the user selected, or null if they have not
+ * selected one.
+ */
+export async function loadRulePack(supabase: any, userId: string): Promise<RulePack | null> {
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('compliance_rule_pack_id')
+    .eq('id', userId)
+    .single();
+
+  if (userError) {
+    throw new Error(`Failed to load compliance settings: ${userError.message}`);
+  }
+  if (!user?.compliance_rule_pack_id) return null;
+
+  const { data, error } = await supabase
+    .from('compliance_rule_packs')
+    .select('id, version, name, jurisdiction, rules')
+    .eq('id', user.compliance_rule_pack_id)
+    .eq('is_active', true)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load rule pack: ${error.message}`);
+  }
+  if (!data) {
+    console.warn(`Rule pack ${user.compliance_rule_pack_id} has no active version, skipping compliance`);
+    return null;
+  }
+
+  return {
+    id: data.id,
+    version: data.version,
+    name: data.name,
+    jurisdiction: data.jurisdiction,
+    rules: parseRules(data.rules),
+  };
+}
+
+function findByName(analytes: ParsedAnalyte[], names: string[]): ParsedAnalyte[] {
+  const wanted = new Set(names.map(normalizeAnalyteName));
+  return analytes.filter((analyte) => wanted.has(normalizeAnalyteName(analyte.name)));
+}
+
+function checkTotalThc(rule: TotalThcRule, parsed: ParsedCoa): ComplianceFinding {
+  const base = { ruleId: rule.id, label: rule.label, panel: 'potency' as const, limit: rule.max, unit: rule.unit };
+  const totalPercent = totalThc(parsed.cannabinoids);
+  if (totalPercent === null) {
+    return { ...base, status: 'not_tested', value: null, message: 'Δ9-THC and THCA are not reported by weight' };
+  }
+
+  const total = convertUnit(totalPercent, '%', rule.unit);
+  if (total === null) {
+    return { ...base, status: 'not_tested', value: null, message: `Total THC is not comparable with ${rule.unit}` };
+  }
+
+  const status = total > rule.max ? 'fail' : 'pass';
+  return {
+    ...base,
+    status,
+    value: total,
+    message: `${formatValue(total, rule.unit)} is ${status === 'fail' ? 'above' : 'within'} the ${formatValue(rule.max, rule.unit)} limit`,
+  };
+}
+
+function checkLimit(rule: LimitRule, parsed: ParsedCoa): ComplianceFinding {
+  const base = { ruleId: rule.id, label: rule.label, panel: rule.panel, limit: rule.max, unit: rule.unit };
+  const matches = findByName(parsed.contaminants.filter((analyte) => analyte.panel === rule.panel), rule.analytes);
+
+  if (matches.length === 0) {
+    return { ...base, status: 'not_tested', value: null, message: 'Not reported on this COA' };
+  }
+
+  let highest: number | null = null;
+  for (const analyte of matches) {
+    if (analyte.value === null) continue;
+    const value = convertUnit(analyte.value, analyte.unit, rule.unit);
+    if (value === null) {
+      return { ...base, status: 'not_tested', value: null, message: `Reported in ${analyte.unit}, not comparable with ${rule.unit}` };
+    }
+    highest = highest === null ? value : Math.max(highest, value);
+  }
+
+  const labFailed = matches.some((analyte) => analyte.passFail === 'fail');
+  if (highest === null) {
+    return labFailed
+      ? { ...base, status: 'fail', value: null, message: 'Marked as failed by the lab' }
+      : { ...base, status: 'pass', value: null, message: 'Not detected' };
+  }
+
+  const overLimit = highest > rule.max;
+  return {
+    ...base,
+    status: overLimit || labFailed ? 'fail' : 'pass',
+    value: highest,
+    message: overLimit
+      ? `${formatValue(highest, rule.unit)} is above the ${formatValue(rule.max, rule.unit)} limit`
+      : `${formatValue(highest, rule.unit)} is within the ${formatValue(rule.max, rule.unit)} limit` +
+        (labFailed ? ', but marked as failed by the lab' : ''),
+  };
+}
+
+/**
+ * Evaluates every rule in the pack. Any failed rule fails the COA; otherwise a rule the COA
+ * does not report makes the verdict incomplete rather than passing.
+ */
+export function checkCompliance(parsed: ParsedCoa, rulePack: RulePack): ComplianceReport {
+  const findings = rulePack.rules.map((rule) =>
+    rule.type === 'total_thc' ? checkTotalThc(rule, parsed) : checkLimit(rule, parsed)
+  );
+
+  const verdict: ComplianceVerdict = findings.some((finding) => finding.status === 'fail')
+    ? 'fail'
+    : findings.some((finding) => finding.status === 'not_tested')
+      ? 'incomplete'
+      : 'pass';
+
+  return {
+    rulePackId: rulePack.id,
+    rulePackVersion: rulePack.version,
+    rulePackName: rulePack.name,
+    verdict,
+    findings,
+  };
+}
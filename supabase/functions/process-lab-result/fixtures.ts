@@ -0,0 +1,41 @@
+// Runs every fixture COA in ./fixtures through extraction and parsing and compares the result with
+// its golden JSON (same file name, .json), as values, so key order and formatting do not matter.
+// Pass --update to rewrite the goldens after an intended change.
+// Usage: deno run --allow-read --allow-write --allow-env --allow-net=esm.sh,deno.land fixtures.ts [--update]
+import { equal } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { extractDocumentPages, mergePageText, parseCoaText } from "./pipeline.ts";
+import { StubProvider } from "./providers.ts";
+
+const fixturesDir = new URL('./fixtures/', import.meta.url);
+const update = Deno.args.includes('--update');
+const provider = new StubProvider();
+let failures = 0;
+
+for await (const entry of Deno.readDir(fixturesDir)) {
+  if (!entry.isFile || !/\.(pdf|png|jpe?g)$/i.test(entry.name)) continue;
+
+  const fileBytes = await Deno.readFile(new URL(entry.name, fixturesDir));
+  const rawText = mergePageText(await extractDocumentPages(fileBytes));
+  // Round-trip through JSON so the comparison sees exactly what a golden can hold
+  const actual = JSON.parse(JSON.stringify(await parseCoaText(rawText, provider)));
+  const goldenUrl = new URL(entry.name.replace(/\.[^.]+$/, '.json'), fixturesDir);
+
+  if (update) {
+    await Deno.writeTextFile(goldenUrl, JSON.stringify(actual, null, 2) + '\n');
+    console.log(`updated ${entry.name}`);
+    continue;
+  }
+
+  const golden = await Deno.readTextFile(goldenUrl).catch(() => null);
+  const expected = golden === null ? null : JSON.parse(golden);
+  if (expected !== null && equal(expected, actual)) {
+    console.log(`ok      ${entry.name}`);
+  } else {
+    failures++;
+    console.error(`FAILED  ${entry.name}\n--- expected\n${golden ?? '(missing golden)'}\n--- actual\n${JSON.stringify(actual, null, 2)}`);
+  }
+}
+
+if (failures > 0) {
+  Deno.exit(1);
+}
@@ -0,0 +1,278 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+import { loadRulePack } from "./compliance.ts";
+import { attachToKnownStrain } from "./lineage.ts";
+import { runPipeline } from "./pipeline.ts";
+import { loadAnalysisProfile } from "./profiles.ts";
+import { ContaminantPanel, getProvider, ParsedAnalyte, ParsedCoa } from "./providers.ts";
+import { loadBrandVoice } from "./voice.ts";
+
+// Supabase Edge Runtime global used to keep background work alive after responding
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+interface ProcessLabResultRequest {
+  pdfStoragePath: string;
+  labResultId: string;
+}
+
+// Replaces the structured analyte rows for a lab result with the freshly parsed ones
+async function saveAnalytes(supabase: any, labResultId: string, parsed: ParsedCoa) {
+  const toRow = (category: 'cannabinoid' | 'terpene' | ContaminantPanel) => (analyte: ParsedAnalyte) => ({
+    lab_result_id: labResultId,
+    category,
+    analyte_name: analyte.name,
+    cas_number: analyte.casNumber,
+    value: analyte.value,
+    unit: analyte.unit,
+    loq: analyte.loq,
+    lod: analyte.lod,
+    pass_fail: analyte.passFail
+  });
+
+  const rows = [
+    ...parsed.cannabinoids.map(toRow('cannabinoid')),
+    ...parsed.terpenes.map(toRow('terpene')),
+    ...parsed.contaminants.map((contaminant) => toRow(contaminant.panel)(contaminant)),
+  ];
+
+  const { error: deleteError } = await supabase
+    .from('lab_result_analytes')
+    .delete()
+    .eq('lab_result_id', labResultId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear previous analytes: ${deleteError.message}`);
+  }
+
+  if (rows.length === 0) return;
+
+  const { error: insertError } = await supabase
+    .from('lab_result_analytes')
+    .insert(rows);
+
+  if (insertError) {
+    throw new Error(`Failed to save analytes: ${insertError.message}`);
+  }
+}
+
+async function processLabResult(
+  supabase: any,
+  userId: string,
+  analysisProfileId: string,
+  request: ProcessLabResultRequest,
+) {
+  const { pdfStoragePath, labResultId } = request;
+
+  try {
+    const provider = getProvider();
+    const profile = await loadAnalysisProfile(supabase, analysisProfileId);
+    const brandVoice = await loadBrandVoice(supabase, userId);
+    const rulePack = await loadRulePack(supabase, userId);
+    console.log(`Processing lab result ${labResultId} (${profile.id}) with provider ${provider.name}`);
+
+    const { data: fileData, error: downloadError } = await supabase.storage
+      .from('labresults')
+      .download(pdfStoragePath);
+
+    if (downloadError || !fileData) {
+      throw new Error(`Failed to download file: ${downloadError?.message || 'No file data'}`);
+    }
+
+    // Backstop for create_lab_result's size check: never process files above the owner's plan ceiling
+    const { data: maxBytes, error: limitError } = await supabase.rpc('max_upload_bytes', {
+      user_id_param: userId,
+    });
+    if (limitError) {
+      throw new Error(`Failed to read upload limit: ${limitError.message}`);
+    }
+    if (typeof maxBytes !== 'number') {
+      throw new Error('Failed to read upload limit: no limit returned');
+    }
+    if (fileData.size > maxBytes) {
+      throw new Error(`File is ${fileData.size} bytes, above the plan limit of ${maxBytes} bytes`);
+    }
+
+    const fileBytes = new Uint8Array(await fileData.arrayBuffer());
+    const result = await runPipeline(fileBytes, {
+      provider,
+      profile,
+      brandVoice,
+      rulePack,
+      onStage: async (stage) => {
+        // Stage updates are best-effort progress signals for the client
+        const { error } = await supabase
+          .from('lab_results')
+          .update({ status: stage, updated_at: new Date().toISOString() })
+          .eq('id', labResultId);
+        if (error) {
+          console.warn(`Failed to record stage ${stage} for ${labResultId}:`, error);
+        }
+      },
+    });
+
+    await saveAnalytes(supabase, labResultId, result.parsed);
+
+    const { error: updateError } = await supabase
+      .from('lab_results')
+      .update({
+        status: 'completed',
+        raw_text: result.rawText,
+        // Per-page marker of whether text came from the PDF text layer or OCR
+        page_sources: result.pages.map(({ page, source, text }) => ({ page, source, characters: text.length })),
+        description: result.description,
+        voice_violations: result.voiceViolations,
+        compliance_verdict: result.compliance?.verdict ?? null,
+        compliance: result.compliance,
+        product_name: result.parsed.productName,
+        lab_name: result.parsed.labName,
+        parser: result.parser,
+        batch_number: result.batch.batchNumber,
+        tested_at: result.batch.testedAt,
+        total_thc: result.potency.totalThc,
+        total_cbd: result.potency.totalCbd,
+        total_terpenes: result.potency.totalTerpenes,
+        dominant_terpenes: result.potency.dominantTerpenes,
+        cannabinoid_profile: result.cannabinoidProfile,
+        terpene_data: result.terpeneData,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', labResultId);
+
+    if (updateError) {
+      throw new Error(`Failed to save results: ${updateError.message}`);
+    }
+
+    // Starts the edit history of this run's text; a missing entry only leaves a gap in the history
+    const { error: versionError } = await supabase.rpc('record_description_version', {
+      lab_result_id_param: labResultId,
+      content_param: result.description,
+      source_param: 'generated',
+    });
+    if (versionError) {
+      console.warn(`Failed to record the generated description of ${labResultId}:`, versionError);
+    }
+
+    // Lineage is a convenience; the user can still attach the result by hand if this fails
+    try {
+      await attachToKnownStrain(supabase, userId, labResultId, result.parsed.productName, result.batch.batchNumber);
+    } catch (error) {
+      console.warn(`Failed to attach ${labResultId} to a strain:`, error);
+    }
+
+    console.log(`Lab result ${labResultId} processed successfully`);
+  } catch (error) {
+    console.error(`Error processing lab result ${labResultId}:`, error);
+    await supabase
+      .from('lab_results')
+      .update({ status: 'error', updated_at: new Date().toISOString() })
+      .eq('id', labResultId);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const requestData: ProcessLabResultRequest = await req.json();
+
+    if (!requestData.pdfStoragePath || !requestData.labResultId) {
+      throw new Error('Missing required parameters');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    // Only the owner of the lab result may trigger processing
+    const authorization = req.headers.get('Authorization');
+    if (!authorization) {
+      throw new Error('Missing authorization header');
+    }
+
+    const jwt = authorization.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(jwt);
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    const { data: labResult, error: lookupError } = await supabase
+      .from('lab_results')
+      .select('id, user_id, storage_path, analysis_profile_id, status')
+      .eq('id', requestData.labResultId)
+      .single();
+
+    if (lookupError || !labResult || labResult.user_id !== user.id) {
+      throw new Error('Lab result not found');
+    }
+
+    if (labResult.storage_path !== requestData.pdfStoragePath) {
+      throw new Error('Storage path does not match lab result');
+    }
+
+    // Each run is paid for by create_lab_result or rerun_lab_result, which leave the row in 'processing'.
+    // Moving it on in one conditional update means only one of several concurrent calls gets to run it.
+    const { data: claimed, error: claimError } = await supabase
+      .from('lab_results')
+      .update({ status: 'extracting', updated_at: new Date().toISOString() })
+      .eq('id', labResult.id)
+      .eq('status', 'processing')
+      .select('id');
+
+    if (claimError) {
+      throw new Error(`Failed to claim lab result: ${claimError.message}`);
+    }
+
+    if (!claimed || claimed.length === 0) {
+      throw new Error('Lab result is not waiting to be processed');
+    }
+
+    const processing = processLabResult(
+      supabase,
+      user.id,
+      // The profile was charged when the row was created, so it is read from the row, not the request
+      labResult.analysis_profile_id ?? 'short',
+      requestData,
+    );
+
+    // Respond immediately and let the pipeline finish in the background; the client
+    // watches the lab_results row for the final status.
+    if (typeof EdgeRuntime !== 'undefined') {
+      EdgeRuntime.waitUntil(processing);
+    } else {
+      await processing;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, labResultId: requestData.labResultId }),
+      {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error starting lab result processing:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
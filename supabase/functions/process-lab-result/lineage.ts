@@ -0,0 +1,125 @@
+// Batch lineage: the batch/lot number and test date printed on a COA, and attaching the result to
+// the user's strain of the same name.
+
+export interface BatchInfo {
+  // As printed, e.g. "1A4060300002EE1000012345"; null when the COA has no batch or lot label
+  batchNumber: string | null;
+  // ISO date (YYYY-MM-DD) the sample was tested or reported
+  testedAt: string | null;
+}
+
+// "Batch: X", "Lot #: X", "Batch/Lot Number: X", "METRC Batch ID: X", ...
+const BATCH_PATTERN =
+  /^[ \t]*(?:(?:production|harvest|metrc|source)[ \t]+)?(?:batch|lot)(?:[ \t]*\/[ \t]*(?:batch|lot))?[ \t]*(?:#|no\.?|number|id)?[ \t]*[:#][ \t]*([A-Za-z0-9][A-Za-z0-9._\/-]{0,63})/im;
+
+// Labels in order of preference: the test date is closest to when the sample was measured
+const DATE_LABELS = [
+  /(?:date[ \t]+tested|tested(?:[ \t]+on)?|test[ \t]+date|date[ \t]+of[ \t]+analysis|analy[sz]ed)/,
+  /(?:date[ \t]+completed|completed(?:[ \t]+on)?|date[ \t]+reported|reported(?:[ \t]+on)?|report[ \t]+date|date[ \t]+issued|issued)/,
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DATE_VALUE = String.raw`(\d{4}-\d{1,2}-\d{1,2}|\d{1,2}\/\d{1,2}\/\d{2,4}|[A-Za-z]{3,9}\.?[ \t]+\d{1,2},?[ \t]+\d{4}|\d{1,2}[ \t]+[A-Za-z]{3,9}\.?[ \t]+\d{4})`;
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects 02/31 and similar, which Date silently rolls over
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+/**
+ * Parses the date formats COAs use: 2024-03-05, 03/05/2024 (US order), Mar 5, 2024 and 5 March 2024.
+ */
+export function parseCoaDate(value: string): string | null {
+  const trimmed = value.trim().replace(/\.(?=\s)/, '');
+  let match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (match) return toIsoDate(Number(match[3]), Number(match[1]), Number(match[2]));
+
+  match = trimmed.match(/^([A-Za-z]+)\s+(\d{1,2}),?\s+(\d{4})$/);
+  if (match && monthIndex(match[1]) > 0) return toIsoDate(Number(match[3]), monthIndex(match[1]), Number(match[2]));
+
+  match = trimmed.match(/^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/);
+  if (match && monthIndex(match[2]) > 0) return toIsoDate(Number(match[3]), monthIndex(match[2]), Number(match[1]));
+
+  return null;
+}
+
+/**
+ * Finds the batch/lot number and test date on a COA. Both are optional; labs label them inconsistently.
+ */
+export function extractBatchInfo(rawText: string): BatchInfo {
+  const batchNumber = rawText.match(BATCH_PATTERN)?.[1]?.replace(/[.,;]+$/, '') ?? null;
+
+  let testedAt: string | null = null;
+  for (const label of DATE_LABELS) {
+    const pattern = new RegExp(String.raw`^[ \t]*${label.source}[ \t]*:?[ \t]*${DATE_VALUE}`, 'im');
+    const match = rawText.match(pattern);
+    testedAt = match ? parseCoaDate(match[1]) : null;
+    if (testedAt) break;
+  }
+
+  return { batchNumber, testedAt };
+}
+
+/**
+ * Attaches a lab result to the batch of the user's existing strain named like the product, if there
+ * is one. New strains are only created by the user, so a misread product name cannot add clutter.
+ * Returns the batch id, or null when the result is not attached.
+ */
+export async function attachToKnownStrain(
+  supabase: any,
+  userId: string,
+  labResultId: string,
+  productName: string | null,
+  batchNumber: string | null,
+): Promise<string | null> {
+  const name = productName?.trim();
+  if (!name) return null;
+
+  // Keep the batch the user chose when a result is processed again
+  const { data: labResult, error: lookupError } = await supabase
+    .from('lab_results')
+    .select('batch_id')
+    .eq('id', labResultId)
+    .single();
+
+  if (lookupError) {
+    throw new Error(`Failed to read lab result: ${lookupError.message}`);
+  }
+  if (labResult?.batch_id) return labResult.batch_id;
+
+  const { data: strains, error } = await supabase
+    .from('strains')
+    .select('id, name')
+    .eq('user_id', userId)
+    .ilike('name', name.replace(/[\\%_]/g, '\\$&'));
+
+  if (error) {
+    throw new Error(`Failed to look up strains: ${error.message}`);
+  }
+  const strain = (strains ?? []).find((candidate: { name: string }) =>
+    candidate.name.trim().toLowerCase() === name.toLowerCase());
+  if (!strain) return null;
+
+  const { data: batchId, error: linkError } = await supabase.rpc('link_lab_result_batch', {
+    user_id_param: userId,
+    lab_result_id_param: labResultId,
+    strain_id_param: strain.id,
+    batch_number_param: batchNumber,
+  });
+
+  if (linkError) {
+    throw new Error(`Failed to attach lab result to strain: ${linkError.message}`);
+  }
+  return batchId ?? null;
+}
@@ -0,0 +1,79 @@
+import { createOCREngine } from "https://esm.sh/tesseract-wasm@0.10.0";
+import { decode } from "https://deno.land/x/imagescript@1.3.0/mod.ts";
+
+// Tesseract runs in-process as WASM. The engine binary and the English model ship with the function
+// in ./tesseract (listed under static_files in supabase/config.toml), so OCR needs no network access.
+const WASM_URL = new URL('./tesseract/tesseract-core.wasm', import.meta.url);
+const MODEL_URL = new URL('./tesseract/eng.traineddata.gz', import.meta.url);
+
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+type OcrEngine = Awaited<ReturnType<typeof createOCREngine>>;
+
+// The engine and model are loaded once per worker and reused across requests
+let enginePromise: Promise<OcrEngine> | null = null;
+
+async function readAsset(url: URL, gzipped = false): Promise<Uint8Array> {
+  try {
+    if (!gzipped) return await Deno.readFile(url);
+    const file = await Deno.open(url);
+    const stream = file.readable.pipeThrough(new DecompressionStream('gzip'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch (error) {
+    throw new Error(`Failed to load OCR asset ${url.pathname}: ${error.message}`);
+  }
+}
+
+function getEngine(): Promise<OcrEngine> {
+  if (!enginePromise) {
+    enginePromise = (async () => {
+      const engine = await createOCREngine({ wasmBinary: await readAsset(WASM_URL) });
+      engine.loadModel(await readAsset(MODEL_URL, true));
+      return engine;
+    })();
+    // Allow a later request to retry if loading failed
+    enginePromise.catch(() => {
+      enginePromise = null;
+    });
+  }
+  return enginePromise;
+}
+
+// Expands greyscale or RGB pixel data (as returned by unpdf's extractImages) to RGBA
+export function toRgba(data: Uint8ClampedArray, width: number, height: number, channels: number): RgbaImage {
+  if (channels === 4) return { data, width, height };
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const source = pixel * channels;
+    const target = pixel * 4;
+    rgba[target] = data[source];
+    rgba[target + 1] = channels === 1 ? data[source] : data[source + 1];
+    rgba[target + 2] = channels === 1 ? data[source] : data[source + 2];
+    rgba[target + 3] = 255;
+  }
+  return { data: rgba, width, height };
+}
+
+// Decodes a PNG or JPEG file to RGBA pixels
+export async function decodeImage(bytes: Uint8Array): Promise<RgbaImage> {
+  const image = await decode(bytes);
+  if (!('bitmap' in image)) {
+    throw new Error('Animated images are not supported');
+  }
+  return { data: image.bitmap, width: image.width, height: image.height };
+}
+
+/**
+ * Runs Tesseract over a single image and returns the recognized text.
+ */
+export async function recognizeText(image: RgbaImage): Promise<string> {
+  const engine = await getEngine();
+  // loadImage only reads the pixels and size of its ImageData argument
+  engine.loadImage(image as ImageData);
+  return engine.getText().trim();
+}
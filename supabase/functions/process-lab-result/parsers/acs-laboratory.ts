@@ -0,0 +1,17 @@
+import { createTableParser } from "./table.ts";
+
+// Analyte | CAS | Result (mg/g) | Result (%) | LOD | LOQ | Status
+export const acsLaboratoryParser = createTableParser({
+  id: 'acs-laboratory',
+  labName: 'ACS Laboratory',
+  headerPattern: /\bACS Laborator(?:y|ies)\b/i,
+  productPattern: /^Product Name:\s*(.+)$/im,
+  cannabinoids: {
+    sectionStart: /^Cannabinoid Analysis\b/i,
+    columns: ['name', 'cas', 'mgPerG', 'percent', 'lod', 'loq', 'status'],
+  },
+  terpenes: {
+    sectionStart: /^Terpene Analysis\b/i,
+    columns: ['name', 'cas', 'mgPerG', 'percent', 'lod', 'loq', 'status'],
+  },
+});
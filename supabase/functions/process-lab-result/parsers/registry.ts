@@ -0,0 +1,24 @@
+// Lab-specific COA parsers. Each testing lab prints its tables differently, so known labs are
+// detected from the certificate header and parsed with a dedicated column layout; anything else
+// goes to the generic LLM parser.
+import { LabParser } from "./table.ts";
+import { scLabsParser } from "./sc-labs.ts";
+import { steepHillParser } from "./steep-hill.ts";
+import { acsLaboratoryParser } from "./acs-laboratory.ts";
+
+// How much of the document is treated as the header for lab detection
+const HEADER_CHARS = 1500;
+
+export const LAB_PARSERS: LabParser[] = [
+  scLabsParser,
+  steepHillParser,
+  acsLaboratoryParser,
+];
+
+/**
+ * Returns the dedicated parser for the lab that issued the certificate, or null if the lab is unknown.
+ */
+export function detectLabParser(rawText: string): LabParser | null {
+  const headerText = rawText.slice(0, HEADER_CHARS);
+  return LAB_PARSERS.find((parser) => parser.detect(headerText)) ?? null;
+}
@@ -0,0 +1,17 @@
+import { createTableParser } from "./table.ts";
+
+// Analyte | LOD (%) | LOQ (%) | Result (%) | Result (mg/g)
+export const scLabsParser = createTableParser({
+  id: 'sc-labs',
+  labName: 'SC Labs',
+  headerPattern: /\bSC Labs\b/i,
+  productPattern: /^Sample:\s*(.+)$/im,
+  cannabinoids: {
+    sectionStart: /^Cannabinoids\b/i,
+    columns: ['name', 'lod', 'loq', 'percent', 'mgPerG'],
+  },
+  terpenes: {
+    sectionStart: /^Terpenes\b/i,
+    columns: ['name', 'lod', 'loq', 'percent', 'mgPerG'],
+  },
+});
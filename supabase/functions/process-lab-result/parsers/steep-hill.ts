@@ -0,0 +1,17 @@
+import { createTableParser } from "./table.ts";
+
+// Compound | Result (mg/g) | Result (%) | LOQ (%)
+export const steepHillParser = createTableParser({
+  id: 'steep-hill',
+  labName: 'Steep Hill',
+  headerPattern: /\bSteep Hill\b/i,
+  productPattern: /^Sample Name:\s*(.+)$/im,
+  cannabinoids: {
+    sectionStart: /^Potency\b/i,
+    columns: ['name', 'mgPerG', 'percent', 'loq'],
+  },
+  terpenes: {
+    sectionStart: /^Terpene Profile\b/i,
+    columns: ['name', 'mgPerG', 'percent', 'loq'],
+  },
+});
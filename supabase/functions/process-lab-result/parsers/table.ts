@@ -0,0 +1,140 @@
+// Column-aware extraction of analyte tables from COA text.
+// PDF text extraction collapses column gaps to single spaces, so rows are read from the right:
+// every column after the analyte name is a single token, and the name is whatever is left.
+import { findContaminants, ParsedAnalyte, ParsedCoa } from "../providers.ts";
+
+export type ColumnField = 'name' | 'cas' | 'lod' | 'loq' | 'percent' | 'mgPerG' | 'status';
+
+export interface TableLayout {
+  // Line that opens the section, e.g. /^Cannabinoids\b/i
+  sectionStart: RegExp;
+  // Columns in printed order; 'name' must come first
+  columns: ColumnField[];
+}
+
+// Lines that close a table even when they look like a row (summary rows)
+const SECTION_END = /^(total|sum of)\b/i;
+
+const NON_DETECT = /^(ND|<LOQ|<LOD|NT|N\/A|-)$/i;
+const NUMBER = /^<?\d+(?:[.,]\d+)?$/;
+const CAS_NUMBER = /^(\d{2,7}-\d{2}-\d|N\/A|-)$/i;
+const STATUS = /^(pass|fail|tested|NT|N\/A)$/i;
+
+// Returns the numeric value of a cell, or null for ND / <LOQ / below-limit values
+export function parseNumericCell(cell: string): number | null {
+  if (NON_DETECT.test(cell) || cell.startsWith('<')) return null;
+  const value = Number(cell.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+}
+
+function isValidCell(field: ColumnField, cell: string): boolean {
+  switch (field) {
+    case 'cas':
+      return CAS_NUMBER.test(cell);
+    case 'status':
+      return STATUS.test(cell);
+    default:
+      return NUMBER.test(cell) || NON_DETECT.test(cell);
+  }
+}
+
+// Splits a row into [name, ...cells] or returns null if the line is not a data row for this layout
+function splitRow(line: string, columns: ColumnField[]): string[] | null {
+  const tokens = line.replace(/<\s+(LOQ|LOD)/gi, '<$1').trim().split(/\s+/);
+  const cellCount = columns.length - 1;
+  if (tokens.length <= cellCount) return null;
+
+  const cells = tokens.slice(tokens.length - cellCount);
+  const valid = cells.every((cell, index) => isValidCell(columns[index + 1], cell));
+  if (!valid) return null;
+
+  return [tokens.slice(0, tokens.length - cellCount).join(' '), ...cells];
+}
+
+function toAnalyte(row: string[], columns: ColumnField[]): ParsedAnalyte {
+  const cell = (field: ColumnField) => {
+    const index = columns.indexOf(field);
+    return index === -1 ? null : row[index];
+  };
+
+  const percent = cell('percent');
+  const mgPerG = cell('mgPerG');
+  const cas = cell('cas');
+  const status = cell('status')?.toLowerCase();
+  const lod = cell('lod');
+  const loq = cell('loq');
+
+  return {
+    name: row[0],
+    casNumber: cas && /^\d/.test(cas) ? cas : null,
+    value: percent !== null ? parseNumericCell(percent) : mgPerG !== null ? parseNumericCell(mgPerG) : null,
+    unit: percent !== null ? '%' : 'mg/g',
+    loq: loq !== null ? parseNumericCell(loq) : null,
+    lod: lod !== null ? parseNumericCell(lod) : null,
+    passFail: status === 'pass' || status === 'fail' ? status : null,
+  };
+}
+
+/**
+ * Extracts the rows of one analyte table. Header rows are skipped because their cells are not
+ * values; the table ends at a summary row or the first non-row line after data has started.
+ */
+export function extractTable(rawText: string, layout: TableLayout): ParsedAnalyte[] {
+  const lines = rawText.split(/\r?\n/).map((line) => line.trim());
+  const start = lines.findIndex((line) => layout.sectionStart.test(line));
+  if (start === -1) return [];
+
+  const analytes: ParsedAnalyte[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (!line) continue;
+    if (SECTION_END.test(line)) break;
+
+    const row = splitRow(line, layout.columns);
+    if (!row) {
+      if (analytes.length > 0) break;
+      continue;
+    }
+    analytes.push(toAnalyte(row, layout.columns));
+  }
+  return analytes;
+}
+
+export interface LabParserConfig {
+  // Stored in lab_results.parser
+  id: string;
+  labName: string;
+  // Matched against the start of the first page
+  headerPattern: RegExp;
+  productPattern: RegExp;
+  cannabinoids: TableLayout;
+  terpenes: TableLayout;
+}
+
+export interface LabParser {
+  id: string;
+  labName: string;
+  detect(headerText: string): boolean;
+  parse(rawText: string): ParsedCoa;
+}
+
+/**
+ * Builds a lab parser from a column layout: the lab name is fixed and both tables are read with extractTable.
+ * Safety panels vary too much between COA templates for a column layout and are matched by analyte name.
+ */
+export function createTableParser(config: LabParserConfig): LabParser {
+  return {
+    id: config.id,
+    labName: config.labName,
+    detect: (headerText) => config.headerPattern.test(headerText),
+    parse: (rawText) => {
+      const productMatch = rawText.match(config.productPattern);
+      return {
+        productName: productMatch ? productMatch[1].trim() : null,
+        labName: config.labName,
+        cannabinoids: extractTable(rawText, config.cannabinoids),
+        terpenes: extractTable(rawText, config.terpenes),
+        contaminants: findContaminants(rawText),
+      };
+    },
+  };
+}
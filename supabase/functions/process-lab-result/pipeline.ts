@@ -0,0 +1,177 @@
+import { extractImages, extractText, getDocumentProxy } from "https://esm.sh/unpdf@1.0.6";
+import { computePotency, PotencySummary } from "../_shared/potency.ts";
+import { checkCompliance, ComplianceReport, RulePack } from "./compliance.ts";
+import { BatchInfo, extractBatchInfo } from "./lineage.ts";
+import { decodeImage, recognizeText, toRgba } from "./ocr.ts";
+import { detectLabParser } from "./parsers/registry.ts";
+import {
+  AnalysisProfile,
+  formatAnalyteList,
+  LlmProvider,
+  ParsedCoa,
+} from "./providers.ts";
+import { BrandVoice, checkBrandVoice, VoiceViolation } from "./voice.ts";
+
+export type PageSource = 'text' | 'ocr';
+
+export interface ExtractedPage {
+  page: number;
+  source: PageSource;
+  text: string;
+}
+
+export interface PipelineResult {
+  rawText: string;
+  pages: ExtractedPage[];
+  parsed: ParsedCoa;
+  // Lab parser id, or "generic:<provider>" when the LLM parser was used
+  parser: string;
+  batch: BatchInfo;
+  potency: PotencySummary;
+  description: string;
+  // Brand voice rules the description breaks; empty when it complies or no voice is set
+  voiceViolations: VoiceViolation[];
+  // Null when the user has not selected a compliance rule pack
+  compliance: ComplianceReport | null;
+  cannabinoidProfile: string;
+  terpeneData: string;
+}
+
+export type PipelineStage = 'extracting' | 'parsing' | 'writing';
+
+export interface PipelineOptions {
+  provider: LlmProvider;
+  profile: AnalysisProfile;
+  brandVoice?: BrandVoice | null;
+  rulePack?: RulePack | null;
+  // Called before each stage starts so callers can surface progress
+  onStage?: (stage: PipelineStage) => Promise<void>;
+}
+
+// Pages with fewer characters than this are treated as having no text layer (e.g. scans)
+const MIN_TEXT_LAYER_CHARS = 20;
+
+function isImageFile(bytes: Uint8Array): boolean {
+  const isPng = bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+  const isJpeg = bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+  return isPng || isJpeg;
+}
+
+// OCRs every image embedded in a PDF page; scanned pages are usually one full-page image.
+// extractImages decodes each image to raw pixels with its size and channel count (1, 3 or 4).
+async function ocrPdfPage(pdf: Awaited<ReturnType<typeof getDocumentProxy>>, pageNumber: number): Promise<string> {
+  const images = await extractImages(pdf, pageNumber);
+  const texts: string[] = [];
+  for (const image of images) {
+    texts.push(await recognizeText(toRgba(image.data, image.width, image.height, image.channels)));
+  }
+  return texts.filter(Boolean).join('\n');
+}
+
+// Stage 1a: PDF -> per-page text, falling back to OCR for pages without a text layer
+export async function extractPdfPages(pdfBytes: Uint8Array): Promise<ExtractedPage[]> {
+  const pdf = await getDocumentProxy(pdfBytes);
+  const { text } = await extractText(pdf, { mergePages: false });
+  const pageTexts = Array.isArray(text) ? text : [text];
+
+  const pages: ExtractedPage[] = [];
+  for (const [index, pageText] of pageTexts.entries()) {
+    const page = index + 1;
+    if (pageText.trim().length >= MIN_TEXT_LAYER_CHARS) {
+      pages.push({ page, source: 'text', text: pageText.trim() });
+      continue;
+    }
+    console.log(`Page ${page} has no text layer, running OCR`);
+    pages.push({ page, source: 'ocr', text: await ocrPdfPage(pdf, page) });
+  }
+  return pages;
+}
+
+// Stage 1: COA file (PDF, PNG or JPEG) -> per-page text
+export async function extractDocumentPages(fileBytes: Uint8Array): Promise<ExtractedPage[]> {
+  if (isImageFile(fileBytes)) {
+    const text = await recognizeText(await decodeImage(fileBytes));
+    return [{ page: 1, source: 'ocr', text }];
+  }
+  return await extractPdfPages(fileBytes);
+}
+
+export function mergePageText(pages: ExtractedPage[]): string {
+  return pages.map((page) => page.text).filter(Boolean).join('\n\n').trim();
+}
+
+export interface ParseResult {
+  parsed: ParsedCoa;
+  parser: string;
+}
+
+// Stage 2: plain text -> structured COA data, via the issuing lab's parser when there is one
+export async function parseCoaText(rawText: string, provider: LlmProvider): Promise<ParseResult> {
+  if (!rawText) {
+    throw new Error('No text could be extracted from the document');
+  }
+
+  const labParser = detectLabParser(rawText);
+  if (labParser) {
+    const parsed = labParser.parse(rawText);
+    // A layout change on the lab's side shows up as an empty potency table
+    if (parsed.cannabinoids.length > 0) {
+      return { parsed, parser: labParser.id };
+    }
+    console.warn(`Parser ${labParser.id} found no cannabinoids, falling back to the generic parser`);
+  }
+
+  return { parsed: await provider.parseCoa(rawText), parser: `generic:${provider.name}` };
+}
+
+// Stage 3: structured COA data -> narrative description
+export async function generateDescription(
+  parsed: ParsedCoa,
+  rawText: string,
+  provider: LlmProvider,
+  profile: AnalysisProfile,
+  potency: PotencySummary,
+  brandVoice: BrandVoice | null,
+): Promise<string> {
+  const description = await provider.generateNarrative({ parsed, rawText, profile, potency, brandVoice });
+  if (!description.trim()) {
+    throw new Error(`Provider ${provider.name} returned an empty description`);
+  }
+  return description.trim();
+}
+
+/**
+ * Runs all pipeline stages in order against the raw file bytes (PDF or image).
+ */
+export async function runPipeline(fileBytes: Uint8Array, options: PipelineOptions): Promise<PipelineResult> {
+  const { provider, profile, brandVoice = null, rulePack = null, onStage } = options;
+
+  await onStage?.('extracting');
+  const pages = await extractDocumentPages(fileBytes);
+  const rawText = mergePageText(pages);
+
+  await onStage?.('parsing');
+  const { parsed, parser } = await parseCoaText(rawText, provider);
+  const batch = extractBatchInfo(rawText);
+  const potency = computePotency(parsed.cannabinoids, parsed.terpenes);
+  const compliance = rulePack ? checkCompliance(parsed, rulePack) : null;
+
+  await onStage?.('writing');
+  const description = await generateDescription(parsed, rawText, provider, profile, potency, brandVoice);
+  // Flag, rather than block, descriptions that break the brand voice so the user can review them
+  const voiceViolations = brandVoice ? checkBrandVoice(description, brandVoice) : [];
+
+  return {
+    rawText,
+    pages,
+    parsed,
+    parser,
+    batch,
+    potency,
+    description,
+    voiceViolations,
+    compliance,
+    cannabinoidProfile: formatAnalyteList(parsed.cannabinoids),
+    terpeneData: formatAnalyteList(parsed.terpenes),
+  };
+}
@@ -0,0 +1,40 @@
+import { AnalysisProfile, ProfileSection } from "./providers.ts";
+
+const KNOWN_SECTIONS: ProfileSection[] = ['summary', 'cannabinoids', 'terpenes', 'effects', 'aroma_flavor', 'lab_details'];
+
+// Mirrors the rows seeded by add_analysis_profiles.sql, for running the pipeline offline (cli.ts)
+export const BUILTIN_PROFILES: Record<string, AnalysisProfile> = {
+  short: { id: 'short', name: 'Short', targetWords: 60, tone: 'informative', sections: ['summary', 'terpenes'] },
+  long: {
+    id: 'long',
+    name: 'Long',
+    targetWords: 300,
+    tone: 'informative',
+    sections: ['summary', 'cannabinoids', 'terpenes', 'effects', 'aroma_flavor', 'lab_details'],
+  },
+};
+
+/**
+ * Loads an analysis profile by id. Inactive profiles are still loaded so results already
+ * charged against them can be processed.
+ */
+export async function loadAnalysisProfile(supabase: any, profileId: string): Promise<AnalysisProfile> {
+  const { data, error } = await supabase
+    .from('analysis_profiles')
+    .select('id, name, target_words, tone, sections')
+    .eq('id', profileId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Analysis profile ${profileId} not found`);
+  }
+
+  return {
+    id: data.id,
+    name: data.name,
+    targetWords: data.target_words,
+    tone: data.tone,
+    // Ignore sections the pipeline does not know about rather than failing the run
+    sections: (data.sections ?? []).filter((section: string) => KNOWN_SECTIONS.includes(section as ProfileSection)),
+  };
+}
@@ -0,0 +1,379 @@
+// LLM provider abstraction for the COA processing pipeline.
+// The pipeline only talks to the LlmProvider interface, so the model vendor can be
+// swapped via the LLM_PROVIDER env var without touching the stages themselves.
+import { formatPercent, PotencySummary } from "../_shared/potency.ts";
+import { BrandVoice } from "./voice.ts";
+
+export type ProfileSection = 'summary' | 'cannabinoids' | 'terpenes' | 'effects' | 'aroma_flavor' | 'lab_details';
+
+// Output format for the narrative, loaded from the analysis_profiles table
+export interface AnalysisProfile {
+  id: string;
+  name: string;
+  targetWords: number;
+  tone: string;
+  sections: ProfileSection[];
+}
+
+export interface ParsedAnalyte {
+  name: string;
+  casNumber: string | null;
+  value: number | null;
+  unit: string;
+  loq: number | null;
+  lod: number | null;
+  passFail: 'pass' | 'fail' | null;
+}
+
+export type ContaminantPanel = 'pesticide' | 'heavy_metal' | 'microbial' | 'residual_solvent';
+
+export const CONTAMINANT_PANELS: ContaminantPanel[] = ['pesticide', 'heavy_metal', 'microbial', 'residual_solvent'];
+
+// Safety-panel result (pesticides, heavy metals, microbials, residual solvents)
+export interface ParsedContaminant extends ParsedAnalyte {
+  panel: ContaminantPanel;
+}
+
+export interface ParsedCoa {
+  productName: string | null;
+  labName: string | null;
+  cannabinoids: ParsedAnalyte[];
+  terpenes: ParsedAnalyte[];
+  contaminants: ParsedContaminant[];
+}
+
+export interface NarrativeRequest {
+  parsed: ParsedCoa;
+  rawText: string;
+  profile: AnalysisProfile;
+  // Computed totals; the only potency figures a description may state
+  potency: PotencySummary;
+  // The customer's brand voice, applied on top of the profile
+  brandVoice: BrandVoice | null;
+}
+
+export interface LlmProvider {
+  name: string;
+  parseCoa(rawText: string): Promise<ParsedCoa>;
+  generateNarrative(request: NarrativeRequest): Promise<string>;
+}
+
+const KNOWN_CANNABINOIDS = [
+  'THCA', 'Δ9-THC', 'Delta-9 THC', 'D9-THC', 'Δ8-THC', 'Delta-8 THC', 'THCV',
+  'CBDA', 'CBD', 'CBGA', 'CBG', 'CBN', 'CBC', 'CBDV',
+];
+
+const KNOWN_TERPENES = [
+  'beta-Myrcene', 'Myrcene', 'Limonene', 'beta-Caryophyllene', 'Caryophyllene',
+  'Linalool', 'alpha-Pinene', 'beta-Pinene', 'Humulene', 'alpha-Humulene',
+  'Terpinolene', 'Ocimene', 'Bisabolol', 'alpha-Bisabolol', 'Nerolidol',
+  'Caryophyllene Oxide', 'Guaiol', 'Camphene', 'Eucalyptol', 'Geraniol',
+];
+
+// Common analytes on state safety panels; compliance rule packs name the ones they limit
+const KNOWN_CONTAMINANTS: Record<ContaminantPanel, string[]> = {
+  pesticide: [
+    'Abamectin', 'Acephate', 'Aldicarb', 'Bifenazate', 'Bifenthrin', 'Boscalid', 'Carbofuran', 'Chlorfenapyr',
+    'Chlorpyrifos', 'Coumaphos', 'Daminozide', 'Dichlorvos', 'Dimethoate', 'Ethoprophos', 'Etofenprox',
+    'Fenoxycarb', 'Fipronil', 'Imazalil', 'Imidacloprid', 'Methiocarb', 'Methyl Parathion', 'Mevinphos',
+    'Myclobutanil', 'Paclobutrazol', 'Piperonyl Butoxide', 'Propoxur', 'Pyrethrins', 'Spinosad',
+    'Spiroxamine', 'Thiacloprid',
+  ],
+  heavy_metal: ['Arsenic', 'Cadmium', 'Lead', 'Mercury'],
+  microbial: [
+    'Salmonella', 'STEC', 'E. coli', 'Aspergillus fumigatus', 'Aspergillus flavus', 'Aspergillus niger',
+    'Aspergillus terreus', 'Total Yeast and Mold', 'Total Aerobic Bacteria',
+  ],
+  residual_solvent: [
+    'Acetone', 'Benzene', 'Butane', 'Chloroform', 'Ethanol', 'Heptane', 'Hexane', 'Isopropanol',
+    'Methanol', 'Methylene Chloride', 'Pentane', 'Propane', 'Toluene', 'Trichloroethylene', 'Xylenes',
+  ],
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const NON_DETECT_VALUE = /^(ND|<LOQ|NOTDETECTED|ABSENT|NEGATIVE)$/;
+
+// Finds "<analyte> ... <number> <unit>" on a single line, e.g. "THCA 24.31 %" or "Lead 0.12 µg/g".
+// The first value after the name (skipping a CAS number) wins, so "ND" is not passed over for a later LOQ column.
+function findAnalytes(rawText: string, names: string[], defaultUnit = '%'): ParsedAnalyte[] {
+  const found = new Map<string, ParsedAnalyte>();
+  const lines = rawText.split(/\r?\n/);
+
+  // Longer names first so "Caryophyllene Oxide" is not swallowed by "Caryophyllene"
+  const sortedNames = [...names].sort((a, b) => b.length - a.length);
+
+  for (const line of lines) {
+    for (const name of sortedNames) {
+      const pattern = new RegExp(
+        `(?:^|[^A-Za-z0-9-])${escapeRegExp(name)}(?![A-Za-z0-9])(?:\\b\\d{2,7}-\\d{2}-\\d\\b|[^0-9<])*?` +
+          `(<?\\s*LOQ|\\b(?:ND|Not Detected|Absent|Negative)\\b|\\d+(?:\\.\\d+)?(?![\\d.-]))\\s*(%|mg\\/g|mg\\/ml|mg\\/kg|[µu]g\\/g|ppm|ppb|CFU\\/g)?`,
+        'i',
+      );
+      const match = line.match(pattern);
+      if (!match) continue;
+
+      const key = name.toLowerCase();
+      if (found.has(key)) break;
+
+      const rawValue = match[1].replace(/\s+/g, '').toUpperCase();
+      const value = NON_DETECT_VALUE.test(rawValue) ? null : Number(match[1]);
+      const casMatch = line.match(/\b\d{2,7}-\d{2}-\d\b/);
+      const passFailMatch = line.match(/\b(pass|fail)\b/i);
+      found.set(key, {
+        name,
+        casNumber: casMatch ? casMatch[0] : null,
+        value,
+        unit: match[2] ?? defaultUnit,
+        loq: null,
+        lod: null,
+        passFail: passFailMatch ? (passFailMatch[1].toLowerCase() as 'pass' | 'fail') : null,
+      });
+      break;
+    }
+  }
+
+  return Array.from(found.values());
+}
+
+/**
+ * Finds safety-panel results by name. Used by the stub parser and by the lab table parsers,
+ * whose layouts only cover the potency and terpene tables.
+ */
+export function findContaminants(rawText: string): ParsedContaminant[] {
+  return CONTAMINANT_PANELS.flatMap((panel) =>
+    findAnalytes(rawText, KNOWN_CONTAMINANTS[panel], panel === 'microbial' ? 'CFU/g' : 'µg/g')
+      .map((analyte) => ({ ...analyte, panel }))
+  );
+}
+
+const toNumberOrNull = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+// Coerces loosely-typed model output into ParsedAnalyte rows
+function normalizeAnalytes(analytes: unknown): ParsedAnalyte[] {
+  if (!Array.isArray(analytes)) return [];
+
+  return analytes
+    .filter((analyte) => analyte && typeof analyte.name === 'string')
+    .map((analyte) => ({
+      name: analyte.name,
+      casNumber: typeof analyte.casNumber === 'string' ? analyte.casNumber : null,
+      value: toNumberOrNull(analyte.value),
+      unit: typeof analyte.unit === 'string' && analyte.unit ? analyte.unit : '%',
+      loq: toNumberOrNull(analyte.loq),
+      lod: toNumberOrNull(analyte.lod),
+      passFail: analyte.passFail === 'pass' || analyte.passFail === 'fail' ? analyte.passFail : null,
+    }));
+}
+
+function normalizeContaminants(contaminants: unknown): ParsedContaminant[] {
+  if (!Array.isArray(contaminants)) return [];
+
+  return contaminants
+    .filter((contaminant) => contaminant && CONTAMINANT_PANELS.includes(contaminant.panel))
+    .flatMap((contaminant) =>
+      normalizeAnalytes([contaminant]).map((analyte) => ({ ...analyte, panel: contaminant.panel as ContaminantPanel }))
+    );
+}
+
+export function formatAnalyteList(analytes: ParsedAnalyte[]): string {
+  return analytes
+    .filter((analyte) => analyte.value !== null)
+    .map((analyte) => `${analyte.name}: ${analyte.value}${analyte.unit === '%' ? '%' : ` ${analyte.unit}`}`)
+    .join('\n');
+}
+
+// Potency lines handed to the model verbatim so it never has to do (or invent) the math
+export function formatPotencySummary(potency: PotencySummary): string {
+  const lines = [
+    potency.totalThc !== null ? `Total THC: ${formatPercent(potency.totalThc)}` : 'Total THC: not reported',
+    potency.totalCbd !== null ? `Total CBD: ${formatPercent(potency.totalCbd)}` : 'Total CBD: not reported',
+  ];
+  if (potency.totalTerpenes !== null) {
+    lines.push(`Total terpenes: ${formatPercent(potency.totalTerpenes)}`);
+  }
+  if (potency.dominantTerpenes.length > 0) {
+    lines.push(`Dominant terpenes: ${potency.dominantTerpenes.map((terpene) => `${terpene.name} (${formatPercent(terpene.value)})`).join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+const SECTION_INSTRUCTIONS: Record<ProfileSection, string> = {
+  summary: 'a one-line overview of the product',
+  cannabinoids: 'the cannabinoid potency',
+  terpenes: 'the dominant terpenes',
+  effects: 'likely effects, phrased without medical claims',
+  aroma_flavor: 'aroma and flavor',
+  lab_details: 'which lab tested it',
+};
+
+// Turns the customer's brand voice into prompt instructions; it overrides the profile's tone
+function brandVoiceInstructions(voice: BrandVoice): string {
+  const instructions = ['Brand voice rules (these take priority):'];
+  if (voice.tone) {
+    instructions.push(`- Voice and tone: ${voice.tone}`);
+  }
+  if (voice.bannedWords.length > 0) {
+    instructions.push(`- Never use these words or phrases: ${voice.bannedWords.map((word) => `"${word}"`).join(', ')}`);
+  }
+  if (voice.readingLevel !== null) {
+    instructions.push(`- Write at or below a grade ${voice.readingLevel} reading level`);
+  }
+  if (voice.requiredDisclaimers.length > 0) {
+    instructions.push(`- End with these disclaimers, verbatim:\n${voice.requiredDisclaimers.join('\n')}`);
+  }
+  return instructions.join('\n');
+}
+
+/**
+ * Deterministic, offline provider. Uses line-based pattern matching for parsing and a fixed
+ * template for the narrative so the whole pipeline can run locally without network access.
+ */
+export class StubProvider implements LlmProvider {
+  name = 'stub';
+
+  async parseCoa(rawText: string): Promise<ParsedCoa> {
+    const productMatch = rawText.match(/(?:Product|Sample|Strain)\s*(?:Name)?\s*:\s*(.+)/i);
+    const labMatch = rawText.match(/^(.*(?:Labs?|Laboratories|Analytics)\b.*)$/im);
+
+    return {
+      productName: productMatch ? productMatch[1].trim() : null,
+      labName: labMatch ? labMatch[1].trim() : null,
+      cannabinoids: findAnalytes(rawText, KNOWN_CANNABINOIDS),
+      terpenes: findAnalytes(rawText, KNOWN_TERPENES),
+      contaminants: findContaminants(rawText),
+    };
+  }
+
+  async generateNarrative({ parsed, profile, potency, brandVoice }: NarrativeRequest): Promise<string> {
+    const product = parsed.productName ?? 'This sample';
+    const topTerpenes = potency.dominantTerpenes.map((terpene) => terpene.name);
+
+    const summary = potency.totalThc !== null
+      ? `${product} tests at ${formatPercent(potency.totalThc)} total THC` +
+        (potency.totalCbd ? ` and ${formatPercent(potency.totalCbd)} total CBD.` : '.')
+      : `${product} did not report THC potency.`;
+
+    // Effects and aroma/flavor need a real model, so the stub only writes data-backed sections
+    const sectionLines: Partial<Record<ProfileSection, string>> = {
+      summary,
+      terpenes: topTerpenes.length > 0
+        ? `Its terpene profile is dominated by ${topTerpenes.join(', ')}.`
+        : 'No terpenes were quantified on this certificate.',
+      cannabinoids: `Cannabinoids reported: ${parsed.cannabinoids.length}`,
+      lab_details: `Tested by: ${parsed.labName ?? 'Unknown lab'}`,
+    };
+
+    const lines = profile.sections
+      .map((section) => sectionLines[section])
+      .filter((line): line is string => Boolean(line));
+    if (lines.length === 0) lines.push(summary);
+    if (brandVoice?.requiredDisclaimers.length) {
+      lines.push('', ...brandVoice.requiredDisclaimers);
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * OpenAI-backed provider. Parsing uses JSON mode so the structured stage stays machine-readable.
+ */
+export class OpenAIProvider implements LlmProvider {
+  name = 'openai';
+
+  constructor(private apiKey: string, private model: string) {}
+
+  private async complete(messages: { role: string; content: string }[], json: boolean): Promise<string> {
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0.2,
+        messages,
+        ...(json ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI request failed (${response.status}): ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+
+  async parseCoa(rawText: string): Promise<ParsedCoa> {
+    const content = await this.complete([
+      {
+        role: 'system',
+        content:
+          'You extract data from cannabis Certificates of Analysis. Respond with JSON of the shape ' +
+          '{"productName": string|null, "labName": string|null, ' +
+          '"cannabinoids": [ANALYTE], "terpenes": [ANALYTE], "contaminants": [CONTAMINANT]} where ANALYTE is ' +
+          '{"name": string, "casNumber": string|null, "value": number|null, "unit": string, ' +
+          '"loq": number|null, "lod": number|null, "passFail": "pass"|"fail"|null} and CONTAMINANT is an ANALYTE ' +
+          'with "panel": "pesticide"|"heavy_metal"|"microbial"|"residual_solvent". ' +
+          'Use null for ND or <LOQ values and for columns the certificate does not report. ' +
+          'Do not invent analytes that are not on the certificate.',
+      },
+      { role: 'user', content: rawText },
+    ], true);
+
+    const parsed = JSON.parse(content);
+    return {
+      productName: parsed.productName ?? null,
+      labName: parsed.labName ?? null,
+      cannabinoids: normalizeAnalytes(parsed.cannabinoids),
+      terpenes: normalizeAnalytes(parsed.terpenes),
+      contaminants: normalizeContaminants(parsed.contaminants),
+    };
+  }
+
+  async generateNarrative({ parsed, profile, potency, brandVoice }: NarrativeRequest): Promise<string> {
+    const sectionList = profile.sections.map((section) => SECTION_INSTRUCTIONS[section]).join('; ');
+
+    return await this.complete([
+      {
+        role: 'system',
+        content:
+          'You write cannabis product copy for dispensaries based strictly on lab data. ' +
+          `Format: ${profile.name}. Write about ${profile.targetWords} words in a ${profile.tone} tone, ` +
+          `covering: ${sectionList}. State potency only as the computed totals provided, word for word; ` +
+          'never calculate, round differently or quote other potency figures.' +
+          (brandVoice ? `\n\n${brandVoiceInstructions(brandVoice)}` : ''),
+      },
+      {
+        role: 'user',
+        content: [
+          `Product: ${parsed.productName ?? 'Unknown'}`,
+          `Computed potency:\n${formatPotencySummary(potency)}`,
+          `Cannabinoids:\n${formatAnalyteList(parsed.cannabinoids)}`,
+          `Terpenes:\n${formatAnalyteList(parsed.terpenes)}`,
+        ].join('\n\n'),
+      },
+    ], false);
+  }
+}
+
+export function getProvider(): LlmProvider {
+  const providerName = Deno.env.get('LLM_PROVIDER') ?? 'openai';
+
+  switch (providerName) {
+    case 'stub':
+      return new StubProvider();
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY is not configured');
+      }
+      return new OpenAIProvider(apiKey, Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-mini');
+    }
+    default:
+      throw new Error(`Unknown LLM provider: ${providerName}`);
+  }
+}
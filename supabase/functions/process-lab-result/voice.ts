@@ -0,0 +1,102 @@
+// Brand voice settings (tone, banned words, required disclaimers, reading level) and the
+// post-generation check that flags descriptions breaking them.
+
+export interface BrandVoice {
+  tone: string | null;
+  bannedWords: string[];
+  requiredDisclaimers: string[];
+  // Target Flesch-Kincaid grade level
+  readingLevel: number | null;
+}
+
+export type VoiceViolationType = 'banned_word' | 'missing_disclaimer' | 'reading_level';
+
+export interface VoiceViolation {
+  type: VoiceViolationType;
+  message: string;
+}
+
+// Grades above the target by more than this are flagged
+const READING_LEVEL_TOLERANCE = 1;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Loads the user's brand voice, or null if they have not configured one.
+ */
+export async function loadBrandVoice(supabase: any, userId: string): Promise<BrandVoice | null> {
+  const { data, error } = await supabase
+    .from('brand_voices')
+    .select('tone, banned_words, required_disclaimers, reading_level')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load brand voice: ${error.message}`);
+  }
+  if (!data) return null;
+
+  return {
+    tone: data.tone || null,
+    bannedWords: (data.banned_words ?? []).filter(Boolean),
+    requiredDisclaimers: (data.required_disclaimers ?? []).filter(Boolean),
+    readingLevel: data.reading_level ?? null,
+  };
+}
+
+function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!cleaned) return 0;
+  if (cleaned.length <= 3) return 1;
+  const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(groups?.length ?? 1, 1);
+}
+
+/**
+ * Flesch-Kincaid grade level of a text; 0 for text without words.
+ */
+export function fleschKincaidGrade(text: string): number {
+  const words: string[] = text.match(/[A-Za-z]+(?:['-][A-Za-z]+)*/g) ?? [];
+  if (words.length === 0) return 0;
+  const sentences = Math.max(text.split(/[.!?]+/).filter((sentence) => sentence.trim()).length, 1);
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  return 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+}
+
+/**
+ * Returns every way the text breaks the brand voice. An empty array means the text complies.
+ */
+export function checkBrandVoice(text: string, voice: BrandVoice): VoiceViolation[] {
+  const violations: VoiceViolation[] = [];
+
+  for (const word of voice.bannedWords) {
+    const pattern = new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(word.trim())}(?![A-Za-z0-9])`, 'gi');
+    const count = text.match(pattern)?.length ?? 0;
+    if (count > 0) {
+      violations.push({
+        type: 'banned_word',
+        message: `Uses banned term "${word.trim()}"${count > 1 ? ` (${count} times)` : ''}`,
+      });
+    }
+  }
+
+  const normalizedText = normalize(text);
+  for (const disclaimer of voice.requiredDisclaimers) {
+    if (!normalizedText.includes(normalize(disclaimer))) {
+      violations.push({ type: 'missing_disclaimer', message: `Missing required disclaimer: "${disclaimer.trim()}"` });
+    }
+  }
+
+  if (voice.readingLevel !== null) {
+    const grade = fleschKincaidGrade(text);
+    if (grade > voice.readingLevel + READING_LEVEL_TOLERANCE) {
+      violations.push({
+        type: 'reading_level',
+        message: `Reads at grade ${grade.toFixed(1)}, above the target of grade ${voice.readingLevel}`,
+      });
+    }
+  }
+
+  return violations;
+}
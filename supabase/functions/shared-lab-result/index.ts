@@ -0,0 +1,182 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.0";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+interface SharedLabResultRequest {
+  slug: string;
+  // Only re-sign the COA file URL (e.g. after it expired on an open page); does not count a view
+  fileOnly?: boolean;
+}
+
+// The public page is read-only, so the original PDF is only reachable for a few minutes per visit
+const FILE_URL_SECONDS = 5 * 60;
+const SLUG_PATTERN = /^[A-Za-z0-9_-]{6,64}$/;
+
+// Only what the public page shows; raw text, descriptions and ownership stay private
+const SHARED_SELECT = `
+  id, file_name, storage_path, status, product_name, lab_name, batch_number, tested_at,
+  total_thc, total_cbd, total_terpenes, dominant_terpenes, compliance,
+  batch:batches(batch_number, strain:strains(name))
+`;
+
+const NOT_AVAILABLE = 'This link is invalid, has expired or was revoked';
+
+interface ShareLink {
+  id: string;
+  user_id: string;
+  lab_result_id: string;
+  expires_at: string | null;
+}
+
+// Resolves an active link. Views are counted atomically by open_share_link.
+async function resolveLink(supabase: any, slug: string, countView: boolean): Promise<ShareLink> {
+  if (countView) {
+    const { data, error } = await supabase.rpc('open_share_link', { slug_param: slug });
+    if (error) {
+      throw new Error(`Failed to open share link: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      throw new Error(NOT_AVAILABLE);
+    }
+    return data[0];
+  }
+
+  const { data, error } = await supabase
+    .from('share_links')
+    .select('id, user_id, lab_result_id, expires_at')
+    .eq('slug', slug)
+    .is('revoked_at', null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load share link: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error(NOT_AVAILABLE);
+  }
+  return data;
+}
+
+async function signFile(supabase: any, storagePath: string, fileName: string) {
+  const { data, error } = await supabase.storage
+    .from('labresults')
+    .createSignedUrl(storagePath, FILE_URL_SECONDS, { download: fileName });
+
+  if (error || !data) {
+    // The summary is still useful without the original file
+    console.warn(`Failed to sign shared COA ${storagePath}:`, error);
+    return null;
+  }
+  return {
+    url: data.signedUrl,
+    expiresAt: new Date(Date.now() + FILE_URL_SECONDS * 1000).toISOString(),
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const requestData: SharedLabResultRequest = await req.json();
+
+    if (typeof requestData.slug !== 'string' || !SLUG_PATTERN.test(requestData.slug)) {
+      throw new Error(NOT_AVAILABLE);
+    }
+
+    // Public endpoint: no user session, the slug is the credential
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      }
+    );
+
+    const link = await resolveLink(supabase, requestData.slug, !requestData.fileOnly);
+
+    const { data: labResult, error: labResultError } = await supabase
+      .from('lab_results')
+      .select(SHARED_SELECT)
+      .eq('id', link.lab_result_id)
+      .eq('user_id', link.user_id)
+      .maybeSingle();
+
+    if (labResultError) {
+      throw new Error(`Failed to load lab result: ${labResultError.message}`);
+    }
+    // A result being reprocessed is hidden until it completes again
+    if (!labResult || labResult.status !== 'completed') {
+      throw new Error(NOT_AVAILABLE);
+    }
+
+    const file = await signFile(supabase, labResult.storage_path, labResult.file_name);
+
+    if (requestData.fileOnly) {
+      return new Response(
+        JSON.stringify({ file }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const { data: analytes, error: analyteError } = await supabase
+      .from('lab_result_analytes')
+      .select('*')
+      .eq('lab_result_id', labResult.id)
+      .order('category')
+      .order('analyte_name');
+
+    if (analyteError) {
+      throw new Error(`Failed to load analytes: ${analyteError.message}`);
+    }
+
+    const { data: brand } = await supabase
+      .from('brand_styles')
+      .select('business_name')
+      .eq('user_id', link.user_id)
+      .maybeSingle();
+
+    const { storage_path, batch, ...summary } = labResult;
+
+    return new Response(
+      JSON.stringify({
+        labResult: {
+          ...summary,
+          // The batch the owner attached wins over the number extracted from the COA
+          batch_number: batch?.batch_number ?? summary.batch_number,
+          strain_name: batch?.strain?.name ?? null,
+        },
+        analytes: analytes ?? [],
+        sharedBy: brand?.business_name ?? null,
+        linkExpiresAt: link.expires_at,
+        file,
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error loading shared lab result:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
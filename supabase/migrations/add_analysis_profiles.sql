@@ -0,0 +1,151 @@
+-- Configurable analysis profiles
+-- Replaces the hardcoded short/long analysis with rows the marketing team can add to
+-- (e.g. "Instagram caption", "Budtender card") without a frontend release.
+
+CREATE TABLE IF NOT EXISTS public.analysis_profiles (
+  id TEXT PRIMARY KEY, -- stable slug, e.g. 'short', 'instagram-caption'
+  name TEXT NOT NULL,
+  description TEXT,
+  target_words INTEGER NOT NULL DEFAULT 80 CHECK (target_words > 0),
+  tone TEXT NOT NULL DEFAULT 'informative',
+  sections TEXT[] NOT NULL DEFAULT ARRAY['summary']::TEXT[],
+  credit_cost INTEGER NOT NULL DEFAULT 1 CHECK (credit_cost > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.analysis_profiles IS 'Output formats offered on the upload page; read by process-lab-result when writing the description';
+COMMENT ON COLUMN public.analysis_profiles.sections IS 'Any of: summary, cannabinoids, terpenes, effects, aroma_flavor, lab_details';
+COMMENT ON COLUMN public.analysis_profiles.credit_cost IS 'Generations charged per upload with this profile';
+
+-- The two original analysis modes
+INSERT INTO public.analysis_profiles (id, name, description, target_words, tone, sections, credit_cost, sort_order)
+VALUES
+  ('short', 'Short', 'Concise 2-3 sentence product description', 60, 'informative',
+    ARRAY['summary', 'terpenes'], 1, 10),
+  ('long', 'Long', 'Detailed multi-paragraph description covering effects, aroma and flavor', 300, 'informative',
+    ARRAY['summary', 'cannabinoids', 'terpenes', 'effects', 'aroma_flavor', 'lab_details'], 1, 20)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.analysis_profiles ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'analysis_profiles'
+    AND policyname = 'Authenticated users can view active analysis profiles'
+  ) THEN
+    CREATE POLICY "Authenticated users can view active analysis profiles"
+      ON public.analysis_profiles
+      FOR SELECT
+      TO authenticated
+      USING (is_active);
+  END IF;
+END
+$$;
+
+-- Profiles are managed with the service role (dashboard / SQL), never from the browser
+REVOKE INSERT, UPDATE, DELETE ON public.analysis_profiles FROM anon, authenticated;
+
+-- Which profile a lab result was generated with, and how many generations it cost
+ALTER TABLE public.lab_results
+ADD COLUMN IF NOT EXISTS analysis_profile_id TEXT REFERENCES public.analysis_profiles(id),
+ADD COLUMN IF NOT EXISTS generation_cost INTEGER NOT NULL DEFAULT 1;
+
+-- create_lab_result now takes the profile and charges its credit cost
+DROP FUNCTION IF EXISTS public.create_lab_result(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_lab_result(
+  file_name_param TEXT,
+  storage_path_param TEXT,
+  analysis_profile_id_param TEXT DEFAULT 'short'
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  user_record RECORD;
+  profile_cost INTEGER;
+  new_lab_result_id UUID;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Files must live in the caller's own storage folder
+  IF split_part(storage_path_param, '/', 1) <> current_user_id::TEXT THEN
+    RAISE EXCEPTION 'Invalid storage path';
+  END IF;
+
+  PERFORM public.assert_upload_within_limit(current_user_id, storage_path_param);
+
+  SELECT credit_cost
+  INTO profile_cost
+  FROM public.analysis_profiles
+  WHERE id = analysis_profile_id_param
+  AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown analysis profile (%)', analysis_profile_id_param;
+  END IF;
+
+  -- Lock the user row so concurrent uploads (e.g. two tabs) are serialized
+  SELECT generations_used, generation_limit
+  INTO user_record
+  FROM public.users
+  WHERE id = current_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF COALESCE(user_record.generations_used, 0) + profile_cost > COALESCE(user_record.generation_limit, 0) THEN
+    RAISE EXCEPTION 'Generation limit reached (%)', COALESCE(user_record.generation_limit, 0);
+  END IF;
+
+  UPDATE public.users
+  SET
+    generations_used = COALESCE(generations_used, 0) + profile_cost,
+    updated_at = NOW()
+  WHERE id = current_user_id;
+
+  INSERT INTO public.lab_results (
+    user_id, file_name, storage_path, status, generation_reserved, analysis_profile_id, generation_cost
+  )
+  VALUES (
+    current_user_id, file_name_param, storage_path_param, 'processing', true, analysis_profile_id_param, profile_cost
+  )
+  RETURNING id INTO new_lab_result_id;
+
+  RETURN json_build_object(
+    'lab_result_id', new_lab_result_id,
+    'generations_used', COALESCE(user_record.generations_used, 0) + profile_cost,
+    'generation_limit', COALESCE(user_record.generation_limit, 0)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.create_lab_result(TEXT, TEXT, TEXT) IS 'Charges the analysis profile''s credit cost and creates a lab_results row in one transaction';
+
+GRANT EXECUTE ON FUNCTION public.create_lab_result(TEXT, TEXT, TEXT) TO authenticated;
+
+-- Refund the full cost of the profile when processing fails
+CREATE OR REPLACE FUNCTION public.refund_generation_on_error()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'error' AND OLD.status IS DISTINCT FROM 'error' AND OLD.generation_reserved THEN
+    UPDATE public.users
+    SET
+      generations_used = GREATEST(COALESCE(generations_used, 0) - OLD.generation_cost, 0),
+      updated_at = NOW()
+    WHERE id = NEW.user_id;
+
+    NEW.generation_reserved := false;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
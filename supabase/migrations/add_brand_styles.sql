@@ -0,0 +1,91 @@
+-- Per-user visual identity for generated PDFs (strain sheets and shelf labels)
+CREATE TABLE IF NOT EXISTS public.brand_styles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  business_name TEXT,
+  logo_path TEXT, -- object in the brand-assets bucket, under the user's folder
+  primary_color TEXT CHECK (primary_color ~ '^#[0-9A-Fa-f]{6}$'),
+  accent_color TEXT CHECK (accent_color ~ '^#[0-9A-Fa-f]{6}$'),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.brand_styles IS 'Dispensary name, logo and colors used by export-lab-results for strain sheets and labels';
+
+ALTER TABLE public.brand_styles ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'brand_styles' AND policyname = 'Users can view own brand style'
+  ) THEN
+    CREATE POLICY "Users can view own brand style"
+      ON public.brand_styles FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'brand_styles' AND policyname = 'Users can insert own brand style'
+  ) THEN
+    CREATE POLICY "Users can insert own brand style"
+      ON public.brand_styles FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'brand_styles' AND policyname = 'Users can update own brand style'
+  ) THEN
+    CREATE POLICY "Users can update own brand style"
+      ON public.brand_styles FOR UPDATE
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Logos are embedded in PDFs as-is, so only formats pdf-lib can embed without decoding are allowed
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('brand-assets', 'brand-assets', false, 1024 * 1024, ARRAY['image/png', 'image/jpeg'])
+ON CONFLICT (id) DO UPDATE
+SET
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Users can upload own brand assets" ON storage.objects;
+CREATE POLICY "Users can upload own brand assets"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'brand-assets'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+DROP POLICY IF EXISTS "Users can view own brand assets" ON storage.objects;
+CREATE POLICY "Users can view own brand assets"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'brand-assets'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+DROP POLICY IF EXISTS "Users can delete own brand assets" ON storage.objects;
+CREATE POLICY "Users can delete own brand assets"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'brand-assets'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+-- Strain sheets and labels are delivered through the exports bucket as well. Migrations run by file
+-- name, so this runs before add_lab_result_exports.sql creates the bucket; both add to the type
+-- list, never replace it.
+INSERT INTO storage.buckets (id, name, public, allowed_mime_types)
+VALUES ('exports', 'exports', false, ARRAY['application/pdf'])
+ON CONFLICT (id) DO UPDATE
+SET allowed_mime_types = ARRAY(
+  SELECT DISTINCT unnest(storage.buckets.allowed_mime_types || EXCLUDED.allowed_mime_types)
+);
@@ -0,0 +1,50 @@
+-- Per-user brand voice applied to generated descriptions
+CREATE TABLE IF NOT EXISTS public.brand_voices (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  tone TEXT,
+  banned_words TEXT[] NOT NULL DEFAULT '{}',
+  required_disclaimers TEXT[] NOT NULL DEFAULT '{}',
+  reading_level INTEGER CHECK (reading_level BETWEEN 1 AND 18), -- target Flesch-Kincaid grade
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.brand_voices IS 'Dispensary tone, banned words, disclaimers and reading level injected by process-lab-result';
+
+ALTER TABLE public.brand_voices ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'brand_voices' AND policyname = 'Users can view own brand voice'
+  ) THEN
+    CREATE POLICY "Users can view own brand voice"
+      ON public.brand_voices FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'brand_voices' AND policyname = 'Users can insert own brand voice'
+  ) THEN
+    CREATE POLICY "Users can insert own brand voice"
+      ON public.brand_voices FOR INSERT
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'brand_voices' AND policyname = 'Users can update own brand voice'
+  ) THEN
+    CREATE POLICY "Users can update own brand voice"
+      ON public.brand_voices FOR UPDATE
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Post-generation check results: [{ "type": "banned_word" | "missing_disclaimer" | "reading_level", "message": "..." }]
+ALTER TABLE public.lab_results
+ADD COLUMN IF NOT EXISTS voice_violations JSONB NOT NULL DEFAULT '[]'::JSONB;
@@ -0,0 +1,129 @@
+-- State compliance rule packs
+-- Action limits (total THC, pesticides, heavy metals, microbials, residual solvents) live in
+-- versioned JSON rule packs. A regulation change is a new version row, so verdicts already
+-- stored keep pointing at the version they were checked against.
+
+CREATE TABLE IF NOT EXISTS public.compliance_rule_packs (
+  id TEXT NOT NULL, -- stable slug, e.g. 'us-hemp', 'ca-cannabis-inhalable'
+  version INTEGER NOT NULL CHECK (version > 0),
+  name TEXT NOT NULL,
+  jurisdiction TEXT NOT NULL, -- two-letter state code, or 'US' for federal rules
+  description TEXT,
+  rules JSONB NOT NULL CHECK (jsonb_typeof(rules) = 'array'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (id, version)
+);
+
+COMMENT ON TABLE public.compliance_rule_packs IS 'Versioned action limits that process-lab-result checks parsed COA results against';
+COMMENT ON COLUMN public.compliance_rule_packs.rules IS
+  'Array of {"id", "type": "total_thc", "label", "max", "unit"} or {"id", "type": "limit", "panel": "pesticide"|"heavy_metal"|"microbial"|"residual_solvent", "label", "analytes": [names], "max", "unit"}';
+
+-- Seed packs. Limits mirror the published regulations at the time of writing; check them
+-- against the current rules before relying on a verdict, and publish changes as a new version.
+INSERT INTO public.compliance_rule_packs (id, version, name, jurisdiction, description, rules)
+VALUES
+  ('us-hemp', 1, 'US Hemp (USDA)', 'US', 'Federal hemp definition: total THC on a dry weight basis', '[
+    {"id": "total-thc", "type": "total_thc", "label": "Total THC (Δ9-THC + 0.877 × THCA)", "max": 0.3, "unit": "%"}
+  ]'::JSONB),
+  ('ca-cannabis-inhalable', 1, 'California Cannabis (Inhalable)', 'CA', 'DCC action levels for inhalable cannabis and cannabis products', '[
+    {"id": "arsenic", "type": "limit", "panel": "heavy_metal", "label": "Arsenic", "analytes": ["Arsenic", "As"], "max": 0.2, "unit": "µg/g"},
+    {"id": "cadmium", "type": "limit", "panel": "heavy_metal", "label": "Cadmium", "analytes": ["Cadmium", "Cd"], "max": 0.2, "unit": "µg/g"},
+    {"id": "lead", "type": "limit", "panel": "heavy_metal", "label": "Lead", "analytes": ["Lead", "Pb"], "max": 0.5, "unit": "µg/g"},
+    {"id": "mercury", "type": "limit", "panel": "heavy_metal", "label": "Mercury", "analytes": ["Mercury", "Hg"], "max": 0.1, "unit": "µg/g"},
+    {"id": "category-1-pesticides", "type": "limit", "panel": "pesticide", "label": "Category I pesticides (any detection)",
+      "analytes": ["Aldicarb", "Carbofuran", "Chlorfenapyr", "Chlorpyrifos", "Coumaphos", "Daminozide", "Dichlorvos", "Dimethoate",
+        "Ethoprophos", "Etofenprox", "Fenoxycarb", "Fipronil", "Imazalil", "Methiocarb", "Methyl Parathion", "Mevinphos",
+        "Paclobutrazol", "Propoxur", "Spiroxamine", "Thiacloprid"], "max": 0, "unit": "µg/g"},
+    {"id": "abamectin", "type": "limit", "panel": "pesticide", "label": "Abamectin", "analytes": ["Abamectin"], "max": 0.1, "unit": "µg/g"},
+    {"id": "bifenazate", "type": "limit", "panel": "pesticide", "label": "Bifenazate", "analytes": ["Bifenazate"], "max": 0.1, "unit": "µg/g"},
+    {"id": "myclobutanil", "type": "limit", "panel": "pesticide", "label": "Myclobutanil", "analytes": ["Myclobutanil"], "max": 0.1, "unit": "µg/g"},
+    {"id": "piperonyl-butoxide", "type": "limit", "panel": "pesticide", "label": "Piperonyl butoxide", "analytes": ["Piperonyl Butoxide"], "max": 3.0, "unit": "µg/g"},
+    {"id": "salmonella", "type": "limit", "panel": "microbial", "label": "Salmonella spp. (not detected in 1 g)", "analytes": ["Salmonella"], "max": 0, "unit": "CFU/g"},
+    {"id": "stec", "type": "limit", "panel": "microbial", "label": "Shiga toxin-producing E. coli (not detected in 1 g)", "analytes": ["STEC", "E. coli"], "max": 0, "unit": "CFU/g"},
+    {"id": "aspergillus", "type": "limit", "panel": "microbial", "label": "Aspergillus fumigatus, flavus, niger, terreus (not detected in 1 g)",
+      "analytes": ["Aspergillus fumigatus", "Aspergillus flavus", "Aspergillus niger", "Aspergillus terreus"], "max": 0, "unit": "CFU/g"},
+    {"id": "category-1-solvents", "type": "limit", "panel": "residual_solvent", "label": "Category I solvents",
+      "analytes": ["Benzene", "Chloroform", "Methylene Chloride", "Trichloroethylene"], "max": 1, "unit": "µg/g"},
+    {"id": "butane", "type": "limit", "panel": "residual_solvent", "label": "Butane", "analytes": ["Butane"], "max": 5000, "unit": "µg/g"},
+    {"id": "propane", "type": "limit", "panel": "residual_solvent", "label": "Propane", "analytes": ["Propane"], "max": 5000, "unit": "µg/g"},
+    {"id": "hexane", "type": "limit", "panel": "residual_solvent", "label": "Hexane", "analytes": ["Hexane"], "max": 290, "unit": "µg/g"},
+    {"id": "methanol", "type": "limit", "panel": "residual_solvent", "label": "Methanol", "analytes": ["Methanol"], "max": 3000, "unit": "µg/g"},
+    {"id": "ethanol", "type": "limit", "panel": "residual_solvent", "label": "Ethanol", "analytes": ["Ethanol"], "max": 5000, "unit": "µg/g"},
+    {"id": "toluene", "type": "limit", "panel": "residual_solvent", "label": "Toluene", "analytes": ["Toluene"], "max": 890, "unit": "µg/g"}
+  ]'::JSONB)
+ON CONFLICT (id, version) DO NOTHING;
+
+ALTER TABLE public.compliance_rule_packs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'compliance_rule_packs'
+    AND policyname = 'Authenticated users can view active rule packs'
+  ) THEN
+    CREATE POLICY "Authenticated users can view active rule packs"
+      ON public.compliance_rule_packs
+      FOR SELECT
+      TO authenticated
+      USING (is_active);
+  END IF;
+END
+$$;
+
+-- Rule packs are published with the service role (dashboard / SQL), never from the browser
+REVOKE INSERT, UPDATE, DELETE ON public.compliance_rule_packs FROM anon, authenticated;
+
+-- The pack a user checks against; the latest active version is always applied
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS compliance_rule_pack_id TEXT;
+
+COMMENT ON COLUMN public.users.compliance_rule_pack_id IS 'compliance_rule_packs.id to check new uploads against; NULL skips the compliance check';
+
+-- users is not writable from the browser, so the selection goes through this function.
+-- Calling it without a pack clears the selection.
+CREATE OR REPLACE FUNCTION public.set_compliance_rule_pack(rule_pack_id_param TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF rule_pack_id_param IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.compliance_rule_packs
+    WHERE id = rule_pack_id_param
+    AND is_active
+  ) THEN
+    RAISE EXCEPTION 'Unknown rule pack (%)', rule_pack_id_param;
+  END IF;
+
+  UPDATE public.users
+  SET
+    compliance_rule_pack_id = rule_pack_id_param,
+    updated_at = NOW()
+  WHERE id = current_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_compliance_rule_pack(TEXT) TO authenticated;
+
+-- Verdict plus per-rule findings, written by process-lab-result
+ALTER TABLE public.lab_results
+ADD COLUMN IF NOT EXISTS compliance_verdict TEXT CHECK (compliance_verdict IN ('pass', 'fail', 'incomplete')),
+ADD COLUMN IF NOT EXISTS compliance JSONB;
+
+COMMENT ON COLUMN public.lab_results.compliance IS '{ rulePackId, rulePackVersion, rulePackName, verdict, findings: [{ ruleId, label, panel, status, value, limit, unit, message }] }';
+
+CREATE INDEX IF NOT EXISTS idx_lab_results_compliance_verdict ON public.lab_results(user_id, compliance_verdict);
+
+-- Safety-panel results are stored next to potency and terpenes
+ALTER TABLE public.lab_result_analytes
+DROP CONSTRAINT IF EXISTS lab_result_analytes_category_check;
+
+ALTER TABLE public.lab_result_analytes
+ADD CONSTRAINT lab_result_analytes_category_check
+CHECK (category IN ('cannabinoid', 'terpene', 'pesticide', 'heavy_metal', 'microbial', 'residual_solvent'));
@@ -0,0 +1,201 @@
+-- Edit history of lab result descriptions
+-- Every description a result has shown is kept: the generated text of each analysis run, each
+-- manual edit and each restore of an earlier version. lab_results.description holds the latest one.
+-- Descriptions are a small Markdown subset (**bold**, *italic*, "- " bullets); see _shared/richText.ts.
+
+CREATE TABLE IF NOT EXISTS public.description_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_result_id UUID NOT NULL REFERENCES public.lab_results(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- owner of the lab result
+  version INTEGER NOT NULL, -- 1, 2, 3... per lab result
+  content TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('generated', 'edited', 'restored')),
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for generated text
+  author_name TEXT, -- name or email of the author when the version was saved
+  restored_from UUID REFERENCES public.description_versions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (lab_result_id, version)
+);
+
+COMMENT ON TABLE public.description_versions IS 'Generated, edited and restored descriptions of a lab result, newest version is current';
+
+CREATE INDEX IF NOT EXISTS idx_description_versions_user_id ON public.description_versions(user_id);
+
+ALTER TABLE public.description_versions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'description_versions'
+    AND policyname = 'Users can view own description versions'
+  ) THEN
+    CREATE POLICY "Users can view own description versions"
+      ON public.description_versions
+      FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Versions are only written by the functions below
+REVOKE INSERT, UPDATE, DELETE ON public.description_versions FROM anon, authenticated;
+
+-- Appends the next version of a lab result's description. Does not touch lab_results: callers
+-- write the description themselves. Used by process-lab-result for generated text.
+CREATE OR REPLACE FUNCTION public.record_description_version(
+  lab_result_id_param UUID,
+  content_param TEXT,
+  source_param TEXT,
+  author_id_param UUID DEFAULT NULL,
+  restored_from_param UUID DEFAULT NULL
+)
+RETURNS public.description_versions AS $$
+DECLARE
+  owner_id UUID;
+  next_version INTEGER;
+  author TEXT;
+  new_version public.description_versions;
+BEGIN
+  -- Lock the lab result so concurrent saves get consecutive numbers
+  SELECT user_id INTO owner_id
+  FROM public.lab_results
+  WHERE id = lab_result_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lab result not found';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1
+  INTO next_version
+  FROM public.description_versions
+  WHERE lab_result_id = lab_result_id_param;
+
+  IF author_id_param IS NOT NULL THEN
+    SELECT COALESCE(NULLIF(TRIM(full_name), ''), NULLIF(TRIM(name), ''), email)
+    INTO author
+    FROM public.users
+    WHERE id = author_id_param;
+  END IF;
+
+  INSERT INTO public.description_versions (
+    lab_result_id, user_id, version, content, source, author_id, author_name, restored_from
+  )
+  VALUES (
+    lab_result_id_param, owner_id, next_version, content_param, source_param,
+    author_id_param, author, restored_from_param
+  )
+  RETURNING * INTO new_version;
+
+  RETURN new_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.record_description_version(UUID, TEXT, TEXT, UUID, UUID) IS 'Appends the next description version of a lab result';
+
+REVOKE EXECUTE ON FUNCTION public.record_description_version(UUID, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Sets the description of one of the caller's completed lab results and records it as a version
+CREATE OR REPLACE FUNCTION public.apply_description_version(
+  lab_result_id_param UUID,
+  content_param TEXT,
+  source_param TEXT,
+  restored_from_param UUID DEFAULT NULL
+)
+RETURNS public.description_versions AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  lab_result RECORD;
+  new_version public.description_versions;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT status, description INTO lab_result
+  FROM public.lab_results
+  WHERE id = lab_result_id_param
+  AND user_id = current_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lab result not found';
+  END IF;
+
+  -- A run in progress would overwrite the edit
+  IF lab_result.status IS DISTINCT FROM 'completed' THEN
+    RAISE EXCEPTION 'Only completed lab results can be edited';
+  END IF;
+
+  IF content_param IS NULL OR TRIM(content_param) = '' THEN
+    RAISE EXCEPTION 'Description cannot be empty';
+  END IF;
+
+  IF content_param = lab_result.description THEN
+    RAISE EXCEPTION 'Description is unchanged';
+  END IF;
+
+  -- Results generated before versioning get their original text recorded first
+  IF lab_result.description IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.description_versions WHERE lab_result_id = lab_result_id_param
+  ) THEN
+    PERFORM public.record_description_version(lab_result_id_param, lab_result.description, 'generated');
+  END IF;
+
+  new_version := public.record_description_version(
+    lab_result_id_param, content_param, source_param, current_user_id, restored_from_param
+  );
+
+  UPDATE public.lab_results
+  SET
+    description = content_param,
+    updated_at = NOW()
+  WHERE id = lab_result_id_param;
+
+  RETURN new_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.apply_description_version(UUID, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Saves an edited description as a new version
+CREATE OR REPLACE FUNCTION public.save_description_version(
+  lab_result_id_param UUID,
+  content_param TEXT
+)
+RETURNS public.description_versions AS $$
+BEGIN
+  RETURN public.apply_description_version(lab_result_id_param, content_param, 'edited');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.save_description_version(UUID, TEXT) IS 'Saves an edited lab result description as a new version';
+
+GRANT EXECUTE ON FUNCTION public.save_description_version(UUID, TEXT) TO authenticated;
+
+-- Makes an earlier version current again by copying it into a new version, so history is never rewritten
+CREATE OR REPLACE FUNCTION public.restore_description_version(
+  description_version_id_param UUID
+)
+RETURNS public.description_versions AS $$
+DECLARE
+  target public.description_versions;
+BEGIN
+  SELECT * INTO target
+  FROM public.description_versions
+  WHERE id = description_version_id_param
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Description version not found';
+  END IF;
+
+  RETURN public.apply_description_version(target.lab_result_id, target.content, 'restored', target.id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.restore_description_version(UUID) IS 'Restores an earlier description version as a new version';
+
+GRANT EXECUTE ON FUNCTION public.restore_description_version(UUID) TO authenticated;
@@ -0,0 +1,146 @@
+-- Server-side generation metering
+-- Replaces the browser-side generations_used increment with a single transactional RPC
+-- and refunds the generation automatically when processing ends in 'error'.
+
+-- Tracks whether a lab result is still holding a reserved generation
+ALTER TABLE public.lab_results
+ADD COLUMN IF NOT EXISTS generation_reserved BOOLEAN NOT NULL DEFAULT false;
+
+-- Check the limit, reserve a generation and create the lab_results row atomically
+CREATE OR REPLACE FUNCTION public.create_lab_result(
+  file_name_param TEXT,
+  storage_path_param TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  user_record RECORD;
+  new_lab_result_id UUID;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Files must live in the caller's own storage folder
+  IF split_part(storage_path_param, '/', 1) <> current_user_id::TEXT THEN
+    RAISE EXCEPTION 'Invalid storage path';
+  END IF;
+
+  -- Lock the user row so concurrent uploads (e.g. two tabs) are serialized
+  SELECT generations_used, generation_limit
+  INTO user_record
+  FROM public.users
+  WHERE id = current_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF COALESCE(user_record.generations_used, 0) >= COALESCE(user_record.generation_limit, 0) THEN
+    RAISE EXCEPTION 'Generation limit reached (%)', COALESCE(user_record.generation_limit, 0);
+  END IF;
+
+  UPDATE public.users
+  SET
+    generations_used = COALESCE(generations_used, 0) + 1,
+    updated_at = NOW()
+  WHERE id = current_user_id;
+
+  INSERT INTO public.lab_results (user_id, file_name, storage_path, status, generation_reserved)
+  VALUES (current_user_id, file_name_param, storage_path_param, 'processing', true)
+  RETURNING id INTO new_lab_result_id;
+
+  RETURN json_build_object(
+    'lab_result_id', new_lab_result_id,
+    'generations_used', COALESCE(user_record.generations_used, 0) + 1,
+    'generation_limit', COALESCE(user_record.generation_limit, 0)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.create_lab_result(TEXT, TEXT) IS 'Reserves a generation and creates a lab_results row in one transaction';
+
+GRANT EXECUTE ON FUNCTION public.create_lab_result(TEXT, TEXT) TO authenticated;
+
+-- Give the generation back when processing fails
+CREATE OR REPLACE FUNCTION public.refund_generation_on_error()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'error' AND OLD.status IS DISTINCT FROM 'error' AND OLD.generation_reserved THEN
+    UPDATE public.users
+    SET
+      generations_used = GREATEST(COALESCE(generations_used, 0) - 1, 0),
+      updated_at = NOW()
+    WHERE id = NEW.user_id;
+
+    NEW.generation_reserved := false;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_lab_result_error_refund ON public.lab_results;
+CREATE TRIGGER on_lab_result_error_refund
+  BEFORE UPDATE OF status ON public.lab_results
+  FOR EACH ROW EXECUTE FUNCTION public.refund_generation_on_error();
+
+-- Called by the upload page when process-lab-result could not be started. Only a row still in
+-- 'processing' is failed (and so refunded); once the function has claimed the row it owns the
+-- outcome. Returns whether the row was failed.
+CREATE OR REPLACE FUNCTION public.fail_unstarted_lab_result(lab_result_id_param UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.lab_results
+  SET status = 'error', updated_at = NOW()
+  WHERE id = lab_result_id_param
+  AND user_id = auth.uid()
+  AND status = 'processing';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.fail_unstarted_lab_result(UUID) IS 'Marks a lab result that never started processing as error, refunding its generation';
+
+GRANT EXECUTE ON FUNCTION public.fail_unstarted_lab_result(UUID) TO authenticated;
+
+-- Rows left in a non-terminal status by a process-lab-result run that died (edge functions stop
+-- long before 15 minutes) would keep their generation forever; fail them so they are refunded.
+CREATE OR REPLACE FUNCTION public.expire_stale_lab_results()
+RETURNS INTEGER AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  UPDATE public.lab_results
+  SET status = 'error', updated_at = NOW()
+  WHERE status IN ('pending', 'processing', 'extracting', 'parsing', 'writing')
+  AND updated_at < NOW() - INTERVAL '15 minutes';
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.expire_stale_lab_results() IS 'Fails and refunds lab results stuck in processing for over 15 minutes';
+
+REVOKE EXECUTE ON FUNCTION public.expire_stale_lab_results() FROM PUBLIC, anon, authenticated;
+
+-- Requires the pg_cron extension, like reset-operations-monthly
+SELECT cron.schedule(
+  'expire-stale-lab-results',
+  '*/5 * * * *', -- Every 5 minutes
+  $$SELECT public.expire_stale_lab_results()$$
+);
+
+-- Usage counters and lab result rows are now only written server-side
+DROP POLICY IF EXISTS "Users can update own profile" ON public.users;
+REVOKE INSERT, UPDATE, DELETE ON public.users FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Users can insert own lab results" ON public.lab_results;
+DROP POLICY IF EXISTS "Users can update own lab results" ON public.lab_results;
+REVOKE INSERT, UPDATE ON public.lab_results FROM anon, authenticated;
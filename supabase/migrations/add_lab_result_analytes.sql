@@ -0,0 +1,64 @@
+-- Structured analyte data for processed COAs
+
+-- lab_results was created by hand in the dashboard; make sure it exists for fresh projects
+CREATE TABLE IF NOT EXISTS public.lab_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  status TEXT DEFAULT 'pending',
+  description TEXT,
+  raw_text TEXT,
+  cannabinoid_profile TEXT,
+  terpene_data TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE public.lab_results
+ADD COLUMN IF NOT EXISTS product_name TEXT,
+ADD COLUMN IF NOT EXISTS lab_name TEXT;
+
+-- One row per analyte reported on a COA
+CREATE TABLE IF NOT EXISTS public.lab_result_analytes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_result_id UUID NOT NULL REFERENCES public.lab_results(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('cannabinoid', 'terpene')),
+  analyte_name TEXT NOT NULL,
+  cas_number TEXT,
+  value NUMERIC,          -- NULL when the lab reported ND or <LOQ
+  unit TEXT NOT NULL DEFAULT '%',
+  loq NUMERIC,
+  lod NUMERIC,
+  pass_fail TEXT CHECK (pass_fail IN ('pass', 'fail')),
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_lab_result_analytes_lab_result_id ON public.lab_result_analytes(lab_result_id);
+CREATE INDEX IF NOT EXISTS idx_lab_result_analytes_name ON public.lab_result_analytes(category, analyte_name);
+CREATE INDEX IF NOT EXISTS idx_lab_result_analytes_value ON public.lab_result_analytes(analyte_name, value);
+
+ALTER TABLE public.lab_result_analytes ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+        AND tablename = 'lab_result_analytes'
+        AND policyname = 'Users can view own analytes'
+    ) THEN
+        -- Analytes are written by the processing function (service role); users only read them
+        EXECUTE 'CREATE POLICY "Users can view own analytes" ON public.lab_result_analytes
+                FOR SELECT USING (
+                    EXISTS (
+                        SELECT 1 FROM public.lab_results lr
+                        WHERE lr.id = lab_result_id AND lr.user_id = auth.uid()
+                    )
+                )';
+    END IF;
+END
+$$;
+
+COMMENT ON TABLE public.lab_result_analytes IS 'Normalized cannabinoid and terpene results extracted from COAs';
+COMMENT ON COLUMN public.lab_result_analytes.value IS 'Reported value in unit; NULL for ND or <LOQ';
@@ -0,0 +1,25 @@
+-- Storage for lab result exports (CSV, XLSX, JSON)
+-- Files are written by the export-lab-results function with the service role under <user_id>/ and
+-- downloaded through short-lived signed URLs, so users need no policies on this bucket.
+-- The function removes a user's exports older than a day the next time they export.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'exports',
+  'exports',
+  false,
+  100 * 1024 * 1024,
+  ARRAY[
+    'text/csv',
+    'application/json',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+-- add_brand_styles.sql (PDF strain sheets and labels) sorts before this file; keep its types
+ON CONFLICT (id) DO UPDATE
+SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = ARRAY(
+    SELECT DISTINCT unnest(storage.buckets.allowed_mime_types || EXCLUDED.allowed_mime_types)
+  );
@@ -0,0 +1,5 @@
+-- Record which COA parser produced each lab result
+ALTER TABLE public.lab_results
+ADD COLUMN IF NOT EXISTS parser TEXT;
+
+COMMENT ON COLUMN public.lab_results.parser IS 'Lab parser id (e.g. sc-labs, steep-hill, acs-laboratory) or generic:<llm provider>';
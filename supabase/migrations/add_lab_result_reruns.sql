@@ -0,0 +1,181 @@
+-- Re-running the analysis of an existing upload
+-- "Regenerate" (after a successful run) and "Retry" (after an error) reuse the stored file instead
+-- of a new upload, optionally with another analysis profile. The output being replaced is kept in
+-- lab_result_versions. Only regenerating a successful result is charged; retrying a failed run is free.
+
+-- Run number of the output currently on the row; every re-run increments it
+ALTER TABLE public.lab_results
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Snapshot of a completed run, taken when it is replaced by a re-run. Analytes are not copied:
+-- they are parsed from the same file and rewritten by every run.
+CREATE TABLE IF NOT EXISTS public.lab_result_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_result_id UUID NOT NULL REFERENCES public.lab_results(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL, -- lab_results.version of the run; failed runs leave gaps
+  analysis_profile_id TEXT REFERENCES public.analysis_profiles(id),
+  generation_cost INTEGER NOT NULL DEFAULT 0,
+  description TEXT,
+  voice_violations JSONB,
+  compliance JSONB,
+  compliance_verdict TEXT,
+  product_name TEXT,
+  lab_name TEXT,
+  batch_number TEXT,
+  tested_at DATE,
+  parser TEXT,
+  total_thc NUMERIC,
+  total_cbd NUMERIC,
+  total_terpenes NUMERIC,
+  dominant_terpenes JSONB,
+  cannabinoid_profile TEXT,
+  terpene_data TEXT,
+  processed_at TIMESTAMPTZ, -- when the run completed
+  created_at TIMESTAMPTZ DEFAULT NOW(), -- when it was replaced
+  UNIQUE (lab_result_id, version)
+);
+
+COMMENT ON TABLE public.lab_result_versions IS 'Earlier outputs of a lab result, saved by rerun_lab_result before the analysis runs again';
+
+CREATE INDEX IF NOT EXISTS idx_lab_result_versions_user_id ON public.lab_result_versions(user_id);
+
+ALTER TABLE public.lab_result_versions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'lab_result_versions'
+    AND policyname = 'Users can view own lab result versions'
+  ) THEN
+    CREATE POLICY "Users can view own lab result versions"
+      ON public.lab_result_versions
+      FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Versions are only written by rerun_lab_result
+REVOKE INSERT, UPDATE, DELETE ON public.lab_result_versions FROM anon, authenticated;
+
+-- Puts one of the caller's finished lab results back into 'processing' so process-lab-result can
+-- run again on the stored file. Charges the profile's credit cost when the current run completed
+-- (Regenerate) and nothing when it failed (Retry); a charged re-run that fails is refunded by
+-- refund_generation_on_error like a new upload.
+CREATE OR REPLACE FUNCTION public.rerun_lab_result(
+  lab_result_id_param UUID,
+  analysis_profile_id_param TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  lab_result public.lab_results;
+  user_record RECORD;
+  target_profile_id TEXT;
+  profile_cost INTEGER;
+  run_cost INTEGER;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the row so a double click cannot start two runs
+  SELECT * INTO lab_result
+  FROM public.lab_results
+  WHERE id = lab_result_id_param
+  AND user_id = current_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lab result not found';
+  END IF;
+
+  IF lab_result.status IS DISTINCT FROM 'completed' AND lab_result.status IS DISTINCT FROM 'error' THEN
+    RAISE EXCEPTION 'Lab result is still processing';
+  END IF;
+
+  -- The plan may have been downgraded since the file was uploaded
+  PERFORM public.assert_upload_within_limit(current_user_id, lab_result.storage_path);
+
+  target_profile_id := COALESCE(analysis_profile_id_param, lab_result.analysis_profile_id, 'short');
+
+  SELECT credit_cost
+  INTO profile_cost
+  FROM public.analysis_profiles
+  WHERE id = target_profile_id
+  AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown analysis profile (%)', target_profile_id;
+  END IF;
+
+  run_cost := CASE WHEN lab_result.status = 'completed' THEN profile_cost ELSE 0 END;
+
+  -- Same serialization and limit check as create_lab_result
+  SELECT generations_used, generation_limit
+  INTO user_record
+  FROM public.users
+  WHERE id = current_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF run_cost > 0 THEN
+    IF COALESCE(user_record.generations_used, 0) + run_cost > COALESCE(user_record.generation_limit, 0) THEN
+      RAISE EXCEPTION 'Generation limit reached (%)', COALESCE(user_record.generation_limit, 0);
+    END IF;
+
+    UPDATE public.users
+    SET
+      generations_used = COALESCE(generations_used, 0) + run_cost,
+      updated_at = NOW()
+    WHERE id = current_user_id;
+  END IF;
+
+  -- Failed runs have no output of their own to keep
+  IF lab_result.status = 'completed' THEN
+    INSERT INTO public.lab_result_versions (
+      lab_result_id, user_id, version, analysis_profile_id, generation_cost, description, voice_violations,
+      compliance, compliance_verdict, product_name, lab_name, batch_number, tested_at, parser,
+      total_thc, total_cbd, total_terpenes, dominant_terpenes, cannabinoid_profile, terpene_data, processed_at
+    )
+    VALUES (
+      lab_result.id, lab_result.user_id, lab_result.version, lab_result.analysis_profile_id,
+      lab_result.generation_cost, lab_result.description, lab_result.voice_violations,
+      lab_result.compliance, lab_result.compliance_verdict, lab_result.product_name, lab_result.lab_name,
+      lab_result.batch_number, lab_result.tested_at, lab_result.parser, lab_result.total_thc,
+      lab_result.total_cbd, lab_result.total_terpenes, lab_result.dominant_terpenes,
+      lab_result.cannabinoid_profile, lab_result.terpene_data, lab_result.updated_at
+    )
+    ON CONFLICT (lab_result_id, version) DO NOTHING;
+  END IF;
+
+  UPDATE public.lab_results
+  SET
+    status = 'processing',
+    analysis_profile_id = target_profile_id,
+    generation_cost = run_cost,
+    generation_reserved = run_cost > 0,
+    version = version + 1,
+    updated_at = NOW()
+  WHERE id = lab_result_id_param;
+
+  RETURN json_build_object(
+    'lab_result_id', lab_result.id,
+    'storage_path', lab_result.storage_path,
+    'version', lab_result.version + 1,
+    'generation_cost', run_cost,
+    'generations_used', COALESCE(user_record.generations_used, 0) + run_cost,
+    'generation_limit', COALESCE(user_record.generation_limit, 0)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.rerun_lab_result(UUID, TEXT) IS 'Saves the current output as a version and queues the stored file for another analysis run';
+
+GRANT EXECUTE ON FUNCTION public.rerun_lab_result(UUID, TEXT) TO authenticated;
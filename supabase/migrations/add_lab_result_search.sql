@@ -0,0 +1,231 @@
+-- Full-text and faceted search over lab results
+-- lab_results.search_vector indexes the product, strain, lab, file name, description and raw COA
+-- text. It is maintained by triggers because the strain name lives in another table.
+
+ALTER TABLE public.lab_results
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+COMMENT ON COLUMN public.lab_results.search_vector IS 'Full-text document for search_lab_results; maintained by triggers';
+
+CREATE OR REPLACE FUNCTION public.lab_result_search_document(
+  product_name TEXT,
+  strain_name TEXT,
+  lab_name TEXT,
+  file_name TEXT,
+  description TEXT,
+  raw_text TEXT
+)
+RETURNS TSVECTOR AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(product_name, '') || ' ' || COALESCE(strain_name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(lab_name, '') || ' ' || COALESCE(file_name, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(raw_text, '')), 'D');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.update_lab_result_search_vector()
+RETURNS TRIGGER AS $$
+DECLARE
+  strain_name TEXT;
+BEGIN
+  SELECT s.name INTO strain_name
+  FROM public.batches b
+  JOIN public.strains s ON s.id = b.strain_id
+  WHERE b.id = NEW.batch_id;
+
+  NEW.search_vector := public.lab_result_search_document(
+    NEW.product_name, strain_name, NEW.lab_name, NEW.file_name, NEW.description, NEW.raw_text
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_lab_result_search_update ON public.lab_results;
+CREATE TRIGGER on_lab_result_search_update
+  BEFORE INSERT OR UPDATE OF product_name, lab_name, file_name, description, raw_text, batch_id ON public.lab_results
+  FOR EACH ROW EXECUTE FUNCTION public.update_lab_result_search_vector();
+
+-- Renaming a strain re-indexes its COAs. SECURITY DEFINER because users cannot update lab_results.
+CREATE OR REPLACE FUNCTION public.reindex_strain_lab_results()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.lab_results lr
+  SET search_vector = public.lab_result_search_document(
+    lr.product_name, NEW.name, lr.lab_name, lr.file_name, lr.description, lr.raw_text
+  )
+  FROM public.batches b
+  WHERE lr.batch_id = b.id
+  AND b.strain_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_strain_rename_reindex ON public.strains;
+CREATE TRIGGER on_strain_rename_reindex
+  AFTER UPDATE OF name ON public.strains
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.reindex_strain_lab_results();
+
+-- Backfill existing rows
+UPDATE public.lab_results lr
+SET search_vector = public.lab_result_search_document(
+  lr.product_name,
+  (SELECT s.name FROM public.batches b JOIN public.strains s ON s.id = b.strain_id WHERE b.id = lr.batch_id),
+  lr.lab_name,
+  lr.file_name,
+  lr.description,
+  lr.raw_text
+);
+
+CREATE INDEX IF NOT EXISTS idx_lab_results_search_vector ON public.lab_results USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_lab_results_user_created ON public.lab_results(user_id, created_at DESC);
+
+-- Searches the caller's lab results. Every argument is optional; facet counts for each facet are
+-- computed with all the other filters applied, so selecting a lab still shows the other labs.
+-- Highlights in `headline` are wrapped in <mark></mark>.
+CREATE OR REPLACE FUNCTION public.search_lab_results(
+  query_param TEXT DEFAULT NULL,
+  date_from_param DATE DEFAULT NULL,
+  date_to_param DATE DEFAULT NULL,
+  statuses_param TEXT[] DEFAULT NULL,
+  labs_param TEXT[] DEFAULT NULL,
+  terpene_param TEXT DEFAULT NULL,
+  thc_min_param NUMERIC DEFAULT NULL,
+  thc_max_param NUMERIC DEFAULT NULL,
+  limit_param INTEGER DEFAULT 50,
+  offset_param INTEGER DEFAULT 0
+)
+RETURNS JSON AS $$
+DECLARE
+  search_text TEXT := NULLIF(trim(query_param), '');
+  search_query TSQUERY;
+  result JSON;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF search_text IS NOT NULL THEN
+    search_query := websearch_to_tsquery('english', search_text);
+  END IF;
+
+  WITH matched AS (
+    SELECT
+      lr.id,
+      lr.file_name,
+      lr.product_name,
+      lr.lab_name,
+      lr.status,
+      lr.created_at,
+      lr.total_thc,
+      b.batch_number,
+      lr.dominant_terpenes->0->>'name' AS dominant_terpene,
+      lr.description,
+      lr.raw_text,
+      s.id AS strain_id,
+      s.name AS strain_name,
+      CASE WHEN search_query IS NULL THEN 0 ELSE ts_rank(lr.search_vector, search_query) END AS rank
+    FROM public.lab_results lr
+    LEFT JOIN public.batches b ON b.id = lr.batch_id
+    LEFT JOIN public.strains s ON s.id = b.strain_id
+    WHERE lr.user_id = auth.uid()
+    AND (
+      search_text IS NULL
+      OR lr.search_vector @@ search_query
+      -- File names are tokenized poorly ("blue_dream_v2.pdf"), so keep substring matching too
+      OR position(lower(search_text) IN lower(lr.file_name)) > 0
+    )
+  ),
+  flagged AS (
+    SELECT
+      m.*,
+      (date_from_param IS NULL OR m.created_at >= date_from_param)
+        AND (date_to_param IS NULL OR m.created_at < date_to_param + 1) AS in_dates,
+      (statuses_param IS NULL OR m.status = ANY(statuses_param)) AS in_statuses,
+      (labs_param IS NULL OR m.lab_name = ANY(labs_param)) AS in_labs,
+      (terpene_param IS NULL OR lower(m.dominant_terpene) = lower(terpene_param)) AS in_terpene,
+      (thc_min_param IS NULL OR m.total_thc >= thc_min_param)
+        AND (thc_max_param IS NULL OR m.total_thc <= thc_max_param) AS in_thc
+    FROM matched m
+  ),
+  filtered AS (
+    SELECT * FROM flagged
+    WHERE in_dates AND in_statuses AND in_labs AND in_terpene AND in_thc
+  ),
+  page AS (
+    SELECT * FROM filtered
+    ORDER BY rank DESC, created_at DESC
+    LIMIT LEAST(GREATEST(limit_param, 1), 200)
+    OFFSET GREATEST(offset_param, 0)
+  )
+  SELECT json_build_object(
+    'total', (SELECT count(*) FROM filtered),
+    'results', COALESCE((
+      SELECT json_agg(json_build_object(
+        'id', p.id,
+        'file_name', p.file_name,
+        'product_name', p.product_name,
+        'lab_name', p.lab_name,
+        'status', p.status,
+        'created_at', p.created_at,
+        'total_thc', p.total_thc,
+        'dominant_terpene', p.dominant_terpene,
+        'strain_id', p.strain_id,
+        'strain_name', p.strain_name,
+        'batch_number', p.batch_number,
+        'headline', CASE
+          WHEN search_query IS NULL THEN NULL
+          WHEN to_tsvector('english', COALESCE(p.description, '')) @@ search_query THEN
+            ts_headline('english', p.description, search_query,
+              'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2')
+          WHEN p.raw_text IS NOT NULL THEN
+            ts_headline('english', p.raw_text, search_query,
+              'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=2')
+        END
+      ) ORDER BY p.rank DESC, p.created_at DESC)
+      FROM page p
+    ), '[]'::json),
+    'facets', json_build_object(
+      'statuses', COALESCE((
+        SELECT json_agg(json_build_object('value', f.status, 'count', f.count) ORDER BY f.count DESC, f.status)
+        FROM (
+          SELECT status, count(*) AS count FROM flagged
+          WHERE in_dates AND in_labs AND in_terpene AND in_thc AND status IS NOT NULL
+          GROUP BY status
+        ) f
+      ), '[]'::json),
+      'labs', COALESCE((
+        SELECT json_agg(json_build_object('value', f.lab_name, 'count', f.count) ORDER BY f.count DESC, f.lab_name)
+        FROM (
+          SELECT lab_name, count(*) AS count FROM flagged
+          WHERE in_dates AND in_statuses AND in_terpene AND in_thc AND lab_name IS NOT NULL
+          GROUP BY lab_name
+        ) f
+      ), '[]'::json),
+      'terpenes', COALESCE((
+        SELECT json_agg(json_build_object('value', f.dominant_terpene, 'count', f.count) ORDER BY f.count DESC, f.dominant_terpene)
+        FROM (
+          SELECT dominant_terpene, count(*) AS count FROM flagged
+          WHERE in_dates AND in_statuses AND in_labs AND in_thc AND dominant_terpene IS NOT NULL
+          GROUP BY dominant_terpene
+        ) f
+      ), '[]'::json),
+      'thc', (
+        SELECT json_build_object('min', min(total_thc), 'max', max(total_thc)) FROM flagged
+        WHERE in_dates AND in_statuses AND in_labs AND in_terpene
+      ),
+      'dates', (
+        SELECT json_build_object('min', min(created_at)::date, 'max', max(created_at)::date) FROM flagged
+        WHERE in_statuses AND in_labs AND in_terpene AND in_thc
+      )
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+COMMENT ON FUNCTION public.search_lab_results(TEXT, DATE, DATE, TEXT[], TEXT[], TEXT, NUMERIC, NUMERIC, INTEGER, INTEGER) IS 'Full-text search with facets over the caller''s lab results';
+
+GRANT EXECUTE ON FUNCTION public.search_lab_results(TEXT, DATE, DATE, TEXT[], TEXT[], TEXT, NUMERIC, NUMERIC, INTEGER, INTEGER) TO authenticated;
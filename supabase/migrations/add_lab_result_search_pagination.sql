@@ -0,0 +1,201 @@
+-- Keyset pagination for search_lab_results
+-- Pages are fetched with a cursor on (rank, created_at, id) instead of an offset, so later pages
+-- stay cheap and do not skip or repeat rows when new COAs arrive. Without a text query every rank
+-- is 0 and the order is plain (created_at, id), newest first.
+
+-- The cursor compares created_at, so it must always be set
+UPDATE public.lab_results SET created_at = NOW() WHERE created_at IS NULL;
+ALTER TABLE public.lab_results ALTER COLUMN created_at SET NOT NULL;
+
+DROP INDEX IF EXISTS public.idx_lab_results_user_created;
+CREATE INDEX IF NOT EXISTS idx_lab_results_user_created_id ON public.lab_results(user_id, created_at DESC, id DESC);
+
+DROP FUNCTION IF EXISTS public.search_lab_results(TEXT, DATE, DATE, TEXT[], TEXT[], TEXT, NUMERIC, NUMERIC, INTEGER, INTEGER);
+
+-- Searches the caller's lab results. Every argument is optional; facet counts for each facet are
+-- computed with all the other filters applied, so selecting a lab still shows the other labs.
+-- Highlights in `headline` are wrapped in <mark></mark>. Pass the previous page's `next_cursor`
+-- (null on the last page) as the cursor arguments to continue; `total` and `facets` are only
+-- computed when include_facets_param is true, which the client only asks for on the first page.
+-- Runs with custom plans so unused filters and the constant rank of a query-less search are folded
+-- away and the page can be read in index order.
+CREATE OR REPLACE FUNCTION public.search_lab_results(
+  query_param TEXT DEFAULT NULL,
+  date_from_param DATE DEFAULT NULL,
+  date_to_param DATE DEFAULT NULL,
+  statuses_param TEXT[] DEFAULT NULL,
+  labs_param TEXT[] DEFAULT NULL,
+  terpene_param TEXT DEFAULT NULL,
+  thc_min_param NUMERIC DEFAULT NULL,
+  thc_max_param NUMERIC DEFAULT NULL,
+  limit_param INTEGER DEFAULT 50,
+  cursor_rank_param REAL DEFAULT NULL,
+  cursor_created_at_param TIMESTAMPTZ DEFAULT NULL,
+  cursor_id_param UUID DEFAULT NULL,
+  include_facets_param BOOLEAN DEFAULT true
+)
+RETURNS JSON AS $$
+DECLARE
+  search_text TEXT := NULLIF(trim(query_param), '');
+  search_query TSQUERY;
+  page_size INTEGER := LEAST(GREATEST(limit_param, 1), 200);
+  result JSON;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF search_text IS NOT NULL THEN
+    search_query := websearch_to_tsquery('english', search_text);
+  END IF;
+
+  WITH matched AS (
+    -- Total and facets only need these columns; the large text columns are read for the rows of
+    -- the page alone
+    SELECT
+      lr.id,
+      lr.lab_name,
+      lr.status,
+      lr.created_at,
+      lr.total_thc,
+      lr.dominant_terpenes->0->>'name' AS dominant_terpene
+    FROM public.lab_results lr
+    WHERE lr.user_id = auth.uid()
+    AND (
+      search_text IS NULL
+      OR lr.search_vector @@ search_query
+      -- File names are tokenized poorly ("blue_dream_v2.pdf"), so keep substring matching too
+      OR position(lower(search_text) IN lower(lr.file_name)) > 0
+    )
+  ),
+  flagged AS (
+    SELECT
+      m.*,
+      (date_from_param IS NULL OR m.created_at >= date_from_param)
+        AND (date_to_param IS NULL OR m.created_at < date_to_param + 1) AS in_dates,
+      (statuses_param IS NULL OR m.status = ANY(statuses_param)) AS in_statuses,
+      (labs_param IS NULL OR m.lab_name = ANY(labs_param)) AS in_labs,
+      (terpene_param IS NULL OR lower(m.dominant_terpene) = lower(terpene_param)) AS in_terpene,
+      (thc_min_param IS NULL OR m.total_thc >= thc_min_param)
+        AND (thc_max_param IS NULL OR m.total_thc <= thc_max_param) AS in_thc
+    FROM matched m
+  ),
+  filtered AS (
+    SELECT * FROM flagged
+    WHERE in_dates AND in_statuses AND in_labs AND in_terpene AND in_thc
+  ),
+  -- The cursor and limit are applied directly on lab_results, so without a text query (every rank
+  -- 0) the page is read in idx_lab_results_user_created_id order and the scan stops after it. One
+  -- row more than the page size tells whether there is a next page.
+  page AS (
+    SELECT *, row_number() OVER (ORDER BY rank DESC, created_at DESC, id DESC) AS page_position
+    FROM (
+      SELECT
+        lr.id,
+        lr.created_at,
+        CASE WHEN search_query IS NULL THEN 0::REAL ELSE ts_rank(lr.search_vector, search_query) END AS rank
+      FROM public.lab_results lr
+      WHERE lr.user_id = auth.uid()
+      AND (
+        search_text IS NULL
+        OR lr.search_vector @@ search_query
+        OR position(lower(search_text) IN lower(lr.file_name)) > 0
+      )
+      AND (date_from_param IS NULL OR lr.created_at >= date_from_param)
+      AND (date_to_param IS NULL OR lr.created_at < date_to_param + 1)
+      AND (statuses_param IS NULL OR lr.status = ANY(statuses_param))
+      AND (labs_param IS NULL OR lr.lab_name = ANY(labs_param))
+      AND (terpene_param IS NULL OR lower(lr.dominant_terpenes->0->>'name') = lower(terpene_param))
+      AND (thc_min_param IS NULL OR lr.total_thc >= thc_min_param)
+      AND (thc_max_param IS NULL OR lr.total_thc <= thc_max_param)
+      AND (
+        cursor_id_param IS NULL
+        OR (search_query IS NULL AND (lr.created_at, lr.id) < (cursor_created_at_param, cursor_id_param))
+        OR (search_query IS NOT NULL
+          AND (ts_rank(lr.search_vector, search_query), lr.created_at, lr.id)
+            < (cursor_rank_param, cursor_created_at_param, cursor_id_param))
+      )
+      ORDER BY rank DESC, lr.created_at DESC, lr.id DESC
+      LIMIT page_size + 1
+    ) candidates
+  )
+  SELECT json_build_object(
+    'total', CASE WHEN include_facets_param THEN (SELECT count(*) FROM filtered) END,
+    'results', COALESCE((
+      SELECT json_agg(json_build_object(
+        'id', lr.id,
+        'file_name', lr.file_name,
+        'product_name', lr.product_name,
+        'lab_name', lr.lab_name,
+        'status', lr.status,
+        'created_at', lr.created_at,
+        'total_thc', lr.total_thc,
+        'dominant_terpene', lr.dominant_terpenes->0->>'name',
+        'strain_id', s.id,
+        'strain_name', s.name,
+        'batch_number', b.batch_number,
+        'headline', CASE
+          WHEN search_query IS NULL THEN NULL
+          WHEN to_tsvector('english', COALESCE(lr.description, '')) @@ search_query THEN
+            ts_headline('english', lr.description, search_query,
+              'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2')
+          WHEN lr.raw_text IS NOT NULL THEN
+            ts_headline('english', lr.raw_text, search_query,
+              'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=2')
+        END
+      ) ORDER BY p.page_position)
+      FROM page p
+      JOIN public.lab_results lr ON lr.id = p.id
+      LEFT JOIN public.batches b ON b.id = lr.batch_id
+      LEFT JOIN public.strains s ON s.id = b.strain_id
+      WHERE p.page_position <= page_size
+    ), '[]'::json),
+    'next_cursor', (
+      SELECT json_build_object('rank', p.rank, 'created_at', p.created_at, 'id', p.id)
+      FROM page p
+      WHERE p.page_position = page_size
+      AND EXISTS (SELECT 1 FROM page WHERE page_position > page_size)
+    ),
+    'facets', CASE WHEN include_facets_param THEN json_build_object(
+      'statuses', COALESCE((
+        SELECT json_agg(json_build_object('value', f.status, 'count', f.count) ORDER BY f.count DESC, f.status)
+        FROM (
+          SELECT status, count(*) AS count FROM flagged
+          WHERE in_dates AND in_labs AND in_terpene AND in_thc AND status IS NOT NULL
+          GROUP BY status
+        ) f
+      ), '[]'::json),
+      'labs', COALESCE((
+        SELECT json_agg(json_build_object('value', f.lab_name, 'count', f.count) ORDER BY f.count DESC, f.lab_name)
+        FROM (
+          SELECT lab_name, count(*) AS count FROM flagged
+          WHERE in_dates AND in_statuses AND in_terpene AND in_thc AND lab_name IS NOT NULL
+          GROUP BY lab_name
+        ) f
+      ), '[]'::json),
+      'terpenes', COALESCE((
+        SELECT json_agg(json_build_object('value', f.dominant_terpene, 'count', f.count) ORDER BY f.count DESC, f.dominant_terpene)
+        FROM (
+          SELECT dominant_terpene, count(*) AS count FROM flagged
+          WHERE in_dates AND in_statuses AND in_labs AND in_thc AND dominant_terpene IS NOT NULL
+          GROUP BY dominant_terpene
+        ) f
+      ), '[]'::json),
+      'thc', (
+        SELECT json_build_object('min', min(total_thc), 'max', max(total_thc)) FROM flagged
+        WHERE in_dates AND in_statuses AND in_labs AND in_terpene
+      ),
+      'dates', (
+        SELECT json_build_object('min', min(created_at)::date, 'max', max(created_at)::date) FROM flagged
+        WHERE in_statuses AND in_labs AND in_terpene AND in_thc
+      )
+    ) END
+  ) INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public SET plan_cache_mode = force_custom_plan;
+
+COMMENT ON FUNCTION public.search_lab_results(TEXT, DATE, DATE, TEXT[], TEXT[], TEXT, NUMERIC, NUMERIC, INTEGER, REAL, TIMESTAMPTZ, UUID, BOOLEAN) IS 'Full-text search with facets and keyset pagination over the caller''s lab results';
+
+GRANT EXECUTE ON FUNCTION public.search_lab_results(TEXT, DATE, DATE, TEXT[], TEXT[], TEXT, NUMERIC, NUMERIC, INTEGER, REAL, TIMESTAMPTZ, UUID, BOOLEAN) TO authenticated;
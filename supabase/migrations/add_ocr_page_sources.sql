@@ -0,0 +1,16 @@
+-- OCR fallback for scanned COAs and photo uploads
+
+-- One entry per page: { "page": 1, "source": "text" | "ocr", "characters": 1234 }
+ALTER TABLE public.lab_results
+ADD COLUMN IF NOT EXISTS page_sources JSONB;
+
+COMMENT ON COLUMN public.lab_results.page_sources IS 'Per-page extraction source: text layer or OCR';
+
+-- Accept PNG/JPEG photos of COAs alongside PDFs. Migrations run by file name, so this may run
+-- before add_plan_upload_limits.sql creates the bucket; both add to the type list, never replace it.
+INSERT INTO storage.buckets (id, name, public, allowed_mime_types)
+VALUES ('labresults', 'labresults', false, ARRAY['application/pdf', 'image/png', 'image/jpeg'])
+ON CONFLICT (id) DO UPDATE
+SET allowed_mime_types = ARRAY(
+  SELECT DISTINCT unnest(storage.buckets.allowed_mime_types || EXCLUDED.allowed_mime_types)
+);
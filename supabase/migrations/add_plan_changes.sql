@@ -0,0 +1,13 @@
+-- In-place plan changes
+-- Upgrades swap the price on the existing Stripe subscription item straight away (prorated);
+-- downgrades are put on a Stripe subscription schedule and take effect at the end of the period.
+-- The change-plan edge function records a pending downgrade here so the profile page can show
+-- it; payments-webhook clears it once the new price is live or the schedule is gone.
+
+ALTER TABLE public.subscriptions
+ADD COLUMN IF NOT EXISTS scheduled_plan_id TEXT REFERENCES public.plans(id),
+ADD COLUMN IF NOT EXISTS scheduled_change_at BIGINT, -- Unix seconds, like current_period_end
+ADD COLUMN IF NOT EXISTS stripe_schedule_id TEXT;
+
+COMMENT ON COLUMN public.subscriptions.scheduled_plan_id IS 'Plan a scheduled downgrade switches to at scheduled_change_at';
+COMMENT ON COLUMN public.subscriptions.stripe_schedule_id IS 'Stripe subscription schedule carrying the scheduled downgrade';
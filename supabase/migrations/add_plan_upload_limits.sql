@@ -0,0 +1,104 @@
+-- Per-plan upload ceilings for the labresults bucket
+-- add_plans.sql later redefines max_upload_bytes to read plans.upload_limit_mb, the same column the
+-- upload page checks on the client.
+
+-- Maximum COA upload size in bytes for a user's current plan
+CREATE OR REPLACE FUNCTION public.max_upload_bytes(user_id_param UUID)
+RETURNS BIGINT AS $$
+  SELECT (
+    CASE COALESCE(u.current_plan_id, 'free')
+      WHEN 'pro' THEN 25
+      WHEN 'basic' THEN 10
+      ELSE 2
+    END
+  )::BIGINT * 1024 * 1024
+  FROM public.users u
+  WHERE u.id = user_id_param
+  UNION ALL
+  SELECT 2::BIGINT * 1024 * 1024
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.max_upload_bytes(UUID) IS 'Upload size ceiling in bytes for the user''s plan (free 2MB, basic 10MB, pro 25MB)';
+
+GRANT EXECUTE ON FUNCTION public.max_upload_bytes(UUID) TO authenticated;
+
+-- The bucket-wide limit is the largest plan ceiling; per-plan limits are checked when a file is
+-- charged (assert_upload_within_limit below). Resumable (TUS) uploads are subject to the same
+-- limit and policies as standard uploads. add_ocr_page_sources.sql sorts before this file and adds
+-- the image types, and add_plans.sql may raise the limit when migrations are re-applied, so
+-- neither is lowered here.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('labresults', 'labresults', false, 25 * 1024 * 1024, ARRAY['application/pdf'])
+ON CONFLICT (id) DO UPDATE
+SET
+  file_size_limit = GREATEST(storage.buckets.file_size_limit, EXCLUDED.file_size_limit),
+  allowed_mime_types = ARRAY(
+    SELECT DISTINCT unnest(storage.buckets.allowed_mime_types || EXCLUDED.allowed_mime_types)
+  );
+
+-- Storage can check the INSERT before it knows the object's size, so the policy cannot hold the
+-- per-plan ceiling; it only keeps users in their own folder.
+DROP POLICY IF EXISTS "Users can upload own lab result files" ON storage.objects;
+CREATE POLICY "Users can upload own lab result files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'labresults'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+-- Checks a stored COA against its owner's plan ceiling before it is charged and processed
+-- (create_lab_result, rerun_lab_result). The upload has finished by then, so the object's size is
+-- recorded; a missing object or size is rejected rather than let through.
+CREATE OR REPLACE FUNCTION public.assert_upload_within_limit(user_id_param UUID, storage_path_param TEXT)
+RETURNS VOID AS $$
+DECLARE
+  object_size BIGINT;
+  size_limit BIGINT := public.max_upload_bytes(user_id_param);
+BEGIN
+  SELECT (metadata->>'size')::BIGINT
+  INTO object_size
+  FROM storage.objects
+  WHERE bucket_id = 'labresults'
+  AND name = storage_path_param;
+
+  IF object_size IS NULL THEN
+    RAISE EXCEPTION 'Uploaded file not found';
+  END IF;
+
+  IF object_size > size_limit THEN
+    RAISE EXCEPTION 'File size exceeds the %MB limit for your plan', size_limit / (1024 * 1024);
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.assert_upload_within_limit(UUID, TEXT) IS 'Raises unless the labresults object exists and fits the user''s plan ceiling';
+
+-- Only called from the metering functions
+REVOKE EXECUTE ON FUNCTION public.assert_upload_within_limit(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+DROP POLICY IF EXISTS "Users can view own lab result files" ON storage.objects;
+CREATE POLICY "Users can view own lab result files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'labresults'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+-- Needed to clean up a stored file when create_lab_result rejects the upload. Files a lab result
+-- points at cannot be deleted, and there is no UPDATE policy, so the file a free Retry
+-- (rerun_lab_result) reads is always the one that was charged.
+DROP POLICY IF EXISTS "Users can delete own lab result files" ON storage.objects;
+CREATE POLICY "Users can delete own lab result files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'labresults'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+    AND NOT EXISTS (
+      SELECT 1 FROM public.lab_results
+      WHERE lab_results.storage_path = storage.objects.name
+    )
+  );
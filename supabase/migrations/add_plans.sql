@@ -0,0 +1,121 @@
+-- Plan catalog
+-- One row per plan, keyed by the id stored in users.current_plan_id and matched to Stripe by price
+-- or product ID (or a plan_id entry in the Stripe product's metadata). payments-webhook, get-plans,
+-- max_upload_bytes, new-user defaults, the admin UI and the pricing pages all read limits, features
+-- and names from here instead of hardcoding them.
+
+CREATE TABLE IF NOT EXISTS public.plans (
+  id TEXT PRIMARY KEY, -- stable slug stored in users.current_plan_id, e.g. 'free', 'basic', 'pro'
+  name TEXT NOT NULL, -- display name, e.g. 'Basic Plan'
+  description TEXT,
+  stripe_price_id TEXT UNIQUE, -- NULL for plans that are not sold (free)
+  stripe_product_id TEXT UNIQUE,
+  amount INTEGER NOT NULL DEFAULT 0 CHECK (amount >= 0), -- price in cents per interval, as charged by the Stripe price
+  currency TEXT NOT NULL DEFAULT 'usd',
+  billing_interval TEXT CHECK (billing_interval IN ('day', 'week', 'month', 'year')), -- NULL for free
+  generation_limit INTEGER NOT NULL CHECK (generation_limit >= 0), -- generations granted per billing period
+  upload_limit_mb INTEGER NOT NULL CHECK (upload_limit_mb > 0), -- largest COA upload
+  features TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[], -- bullet points on the pricing cards
+  is_public BOOLEAN NOT NULL DEFAULT true, -- listed on the pricing pages
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.plans IS 'Plan catalog: limits, features and Stripe IDs for each value of users.current_plan_id';
+COMMENT ON COLUMN public.plans.amount IS 'Shown on pricing pages; keep in sync with the Stripe price, which is what checkout charges';
+
+-- The live plans. Limits are the ones payments-webhook granted before the catalog existed, so
+-- existing subscribers keep their allowance.
+INSERT INTO public.plans (
+  id, name, description, stripe_price_id, amount, billing_interval, generation_limit, upload_limit_mb, features, is_public, sort_order
+)
+VALUES
+  ('free', 'Free Plan', 'Try StrainInsights on a single COA', NULL, 0, NULL, 1, 2,
+    ARRAY['1 Generation', '2 MB uploads'], false, 0),
+  ('basic', 'Basic Plan', 'For brands describing a handful of products a month', 'price_1RTkaDDa07Wwp5KNnZF36GsC', 3900, 'month', 100, 10,
+    ARRAY['100 Generations/Month', '10 MB uploads', 'Basic Authentication'], true, 10),
+  ('pro', 'Pro Plan', 'For brands with a full menu to keep up to date', 'price_1RTka9Da07Wwp5KNiRxFGnsG', 9900, 'month', 500, 25,
+    ARRAY['500 Generations/Month', '25 MB uploads', 'Authentication + Latest Improvements', 'Community Support'], true, 20)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.plans ENABLE ROW LEVEL SECURITY;
+
+-- The catalog is public: pricing pages are shown before sign-in
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'plans'
+    AND policyname = 'Anyone can view active plans'
+  ) THEN
+    CREATE POLICY "Anyone can view active plans"
+      ON public.plans
+      FOR SELECT
+      USING (is_active);
+  END IF;
+END
+$$;
+
+-- Plans are managed with the service role (dashboard / SQL), never from the browser
+REVOKE INSERT, UPDATE, DELETE ON public.plans FROM anon, authenticated;
+
+-- Upload ceilings now come from the catalog; unknown or missing plans get the free plan's ceiling
+CREATE OR REPLACE FUNCTION public.max_upload_bytes(user_id_param UUID)
+RETURNS BIGINT AS $$
+  SELECT COALESCE(
+    (SELECT p.upload_limit_mb
+     FROM public.users u
+     JOIN public.plans p ON p.id = COALESCE(u.current_plan_id, 'free')
+     WHERE u.id = user_id_param),
+    (SELECT upload_limit_mb FROM public.plans WHERE id = 'free'),
+    2
+  )::BIGINT * 1024 * 1024;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.max_upload_bytes(UUID) IS 'Upload size ceiling in bytes for the user''s plan (plans.upload_limit_mb)';
+
+-- The bucket-wide limit must stay at or above the largest plan ceiling
+UPDATE storage.buckets
+SET file_size_limit = GREATEST(
+  file_size_limit,
+  (SELECT MAX(upload_limit_mb) FROM public.plans)::BIGINT * 1024 * 1024
+)
+WHERE id = 'labresults';
+
+-- New users start on the free plan with its generation limit
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.users (
+    id,
+    user_id,
+    email,
+    name,
+    full_name,
+    avatar_url,
+    token_identifier,
+    created_at,
+    updated_at,
+    current_plan_id,
+    generation_limit,
+    generations_used
+  ) VALUES (
+    NEW.id,
+    NEW.id::text,
+    NEW.email,
+    NEW.raw_user_meta_data->>'name',
+    NEW.raw_user_meta_data->>'full_name',
+    NEW.raw_user_meta_data->>'avatar_url',
+    NEW.email,
+    NEW.created_at,
+    NEW.updated_at,
+    'free',
+    COALESCE((SELECT generation_limit FROM public.plans WHERE id = 'free'), 1),
+    0
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
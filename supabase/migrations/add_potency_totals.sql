@@ -0,0 +1,14 @@
+-- Computed potency totals
+-- Written by process-lab-result from the parsed analytes using supabase/functions/_shared/potency.ts,
+-- the same module the frontend uses, so stored numbers, descriptions and the UI agree.
+
+ALTER TABLE public.lab_results
+ADD COLUMN IF NOT EXISTS total_thc NUMERIC,
+ADD COLUMN IF NOT EXISTS total_cbd NUMERIC,
+ADD COLUMN IF NOT EXISTS total_terpenes NUMERIC,
+ADD COLUMN IF NOT EXISTS dominant_terpenes JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+COMMENT ON COLUMN public.lab_results.total_thc IS 'Percent by weight: Δ9-THC + 0.877 × THCA; NULL when neither is reported';
+COMMENT ON COLUMN public.lab_results.total_cbd IS 'Percent by weight: CBD + 0.877 × CBDA; NULL when neither is reported';
+COMMENT ON COLUMN public.lab_results.total_terpenes IS 'Percent by weight: sum of quantified terpenes';
+COMMENT ON COLUMN public.lab_results.dominant_terpenes IS 'Top quantified terpenes, highest first: [{ name, value }] in percent';
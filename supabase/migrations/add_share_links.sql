@@ -0,0 +1,139 @@
+-- Public share links for lab results
+-- A share link opens a read-only summary of one verified COA at /r/<slug>, without signing in.
+-- The public page is served by the shared-lab-result edge function, which checks expiry and
+-- revocation, counts the view and signs a short-lived URL for the original PDF.
+
+-- 12 URL-safe characters (about 66 random bits) from a v4 UUID, short enough for small QR codes
+CREATE OR REPLACE FUNCTION public.generate_share_slug()
+RETURNS TEXT AS $$
+  SELECT substr(
+    translate(encode(decode(replace(gen_random_uuid()::TEXT, '-', ''), 'hex'), 'base64'), '+/', '-_'),
+    1,
+    12
+  );
+$$ LANGUAGE sql VOLATILE;
+
+CREATE TABLE IF NOT EXISTS public.share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lab_result_id UUID NOT NULL REFERENCES public.lab_results(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL UNIQUE DEFAULT public.generate_share_slug(),
+  expires_at TIMESTAMPTZ, -- NULL links never expire
+  revoked_at TIMESTAMPTZ,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.share_links IS 'Public read-only links to a lab result summary, e.g. for QR codes on packaging';
+
+CREATE INDEX IF NOT EXISTS idx_share_links_lab_result_id ON public.share_links(lab_result_id);
+CREATE INDEX IF NOT EXISTS idx_share_links_user_id ON public.share_links(user_id);
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'share_links'
+    AND policyname = 'Users can view own share links'
+  ) THEN
+    CREATE POLICY "Users can view own share links"
+      ON public.share_links
+      FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Links are created and revoked through the functions below; view counts are only written by open_share_link
+REVOKE INSERT, UPDATE, DELETE ON public.share_links FROM anon, authenticated;
+
+-- Browser entry point: creates a share link for one of the caller's lab results
+CREATE OR REPLACE FUNCTION public.create_share_link(
+  lab_result_id_param UUID,
+  expires_at_param TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS public.share_links AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  new_link public.share_links;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.lab_results
+    WHERE id = lab_result_id_param
+    AND user_id = current_user_id
+  ) THEN
+    RAISE EXCEPTION 'Lab result not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.lab_results
+    WHERE id = lab_result_id_param
+    AND status = 'completed'
+  ) THEN
+    RAISE EXCEPTION 'Only completed lab results can be shared';
+  END IF;
+
+  IF expires_at_param IS NOT NULL AND expires_at_param <= NOW() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+
+  INSERT INTO public.share_links (user_id, lab_result_id, expires_at)
+  VALUES (current_user_id, lab_result_id_param, expires_at_param)
+  RETURNING * INTO new_link;
+
+  RETURN new_link;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.create_share_link(UUID, TIMESTAMPTZ) TO authenticated;
+
+-- Browser entry point: revokes one of the caller's share links. Revoking is permanent; the page
+-- stops working immediately, including from printed QR codes.
+CREATE OR REPLACE FUNCTION public.revoke_share_link(share_link_id_param UUID)
+RETURNS public.share_links AS $$
+DECLARE
+  revoked_link public.share_links;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.share_links
+  SET revoked_at = COALESCE(revoked_at, NOW())
+  WHERE id = share_link_id_param
+  AND user_id = auth.uid()
+  RETURNING * INTO revoked_link;
+
+  IF revoked_link.id IS NULL THEN
+    RAISE EXCEPTION 'Share link not found';
+  END IF;
+
+  RETURN revoked_link;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.revoke_share_link(UUID) TO authenticated;
+
+-- Resolves an active link and counts the view in one statement, so concurrent views are not lost.
+-- Returns no row for unknown, expired or revoked slugs. Service role only (shared-lab-result).
+CREATE OR REPLACE FUNCTION public.open_share_link(slug_param TEXT)
+RETURNS SETOF public.share_links AS $$
+  UPDATE public.share_links
+  SET
+    view_count = view_count + 1,
+    last_viewed_at = NOW()
+  WHERE slug = slug_param
+  AND revoked_at IS NULL
+  AND (expires_at IS NULL OR expires_at > NOW())
+  RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.open_share_link(TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,175 @@
+-- Strains and batch lineage
+-- A strain groups batches (lots) of the same product; each COA can be attached to one batch.
+-- process-lab-result extracts the batch/lot number and test date from the COA text and attaches
+-- the result automatically when the user already has a strain with the same name as the product.
+
+CREATE TABLE IF NOT EXISTS public.strains (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_strains_user_name ON public.strains(user_id, lower(trim(name)));
+
+CREATE TABLE IF NOT EXISTS public.batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  strain_id UUID NOT NULL REFERENCES public.strains(id) ON DELETE CASCADE,
+  batch_number TEXT, -- NULL when the COA does not print a batch/lot number
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Batches without a number are never merged; each such COA gets its own batch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_batches_strain_number ON public.batches(strain_id, batch_number);
+CREATE INDEX IF NOT EXISTS idx_batches_user_id ON public.batches(user_id);
+
+ALTER TABLE public.lab_results
+ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES public.batches(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS batch_number TEXT,
+ADD COLUMN IF NOT EXISTS tested_at DATE;
+
+COMMENT ON COLUMN public.lab_results.batch_number IS 'Batch/lot number as printed on the COA (auto-extracted); the attached batch may differ if the user corrected it';
+COMMENT ON COLUMN public.lab_results.tested_at IS 'Test or report date printed on the COA, if found';
+
+CREATE INDEX IF NOT EXISTS idx_lab_results_batch_id ON public.lab_results(batch_id);
+
+ALTER TABLE public.strains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.batches ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'strains'
+    AND policyname = 'Users can manage own strains'
+  ) THEN
+    CREATE POLICY "Users can manage own strains"
+      ON public.strains
+      FOR ALL
+      USING (auth.uid() = user_id)
+      WITH CHECK (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename = 'batches'
+    AND policyname = 'Users can view own batches'
+  ) THEN
+    CREATE POLICY "Users can view own batches"
+      ON public.batches
+      FOR SELECT
+      USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- Batches are created by link_lab_result_batch so they always belong to the strain owner
+REVOKE INSERT, UPDATE, DELETE ON public.batches FROM anon, authenticated;
+
+-- Attaches a lab result to the strain's batch with this number, creating the batch if needed.
+-- Service role only: callers must have checked that the lab result and strain belong to user_id_param.
+CREATE OR REPLACE FUNCTION public.link_lab_result_batch(
+  user_id_param UUID,
+  lab_result_id_param UUID,
+  strain_id_param UUID,
+  batch_number_param TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  cleaned_batch_number TEXT := NULLIF(trim(batch_number_param), '');
+  target_batch_id UUID;
+BEGIN
+  IF cleaned_batch_number IS NOT NULL THEN
+    SELECT id INTO target_batch_id
+    FROM public.batches
+    WHERE strain_id = strain_id_param
+    AND batch_number = cleaned_batch_number;
+  END IF;
+
+  IF target_batch_id IS NULL THEN
+    INSERT INTO public.batches (user_id, strain_id, batch_number)
+    VALUES (user_id_param, strain_id_param, cleaned_batch_number)
+    RETURNING id INTO target_batch_id;
+  END IF;
+
+  UPDATE public.lab_results
+  SET
+    batch_id = target_batch_id,
+    updated_at = NOW()
+  WHERE id = lab_result_id_param
+  AND user_id = user_id_param;
+
+  -- Drop batches left without any COA, e.g. after moving a result to another batch
+  DELETE FROM public.batches b
+  WHERE b.user_id = user_id_param
+  AND b.id <> target_batch_id
+  AND NOT EXISTS (SELECT 1 FROM public.lab_results lr WHERE lr.batch_id = b.id);
+
+  RETURN target_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.link_lab_result_batch(UUID, UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Browser entry point: attaches one of the caller's lab results to a strain (by name, created if
+-- new) and batch. Passing no strain name detaches the result.
+CREATE OR REPLACE FUNCTION public.assign_lab_result_batch(
+  lab_result_id_param UUID,
+  strain_name_param TEXT DEFAULT NULL,
+  batch_number_param TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  target_strain_id UUID;
+  target_batch_id UUID;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.lab_results
+    WHERE id = lab_result_id_param
+    AND user_id = current_user_id
+  ) THEN
+    RAISE EXCEPTION 'Lab result not found';
+  END IF;
+
+  IF NULLIF(trim(strain_name_param), '') IS NULL THEN
+    UPDATE public.lab_results
+    SET batch_id = NULL, updated_at = NOW()
+    WHERE id = lab_result_id_param;
+
+    DELETE FROM public.batches b
+    WHERE b.user_id = current_user_id
+    AND NOT EXISTS (SELECT 1 FROM public.lab_results lr WHERE lr.batch_id = b.id);
+
+    RETURN json_build_object('strain_id', NULL, 'batch_id', NULL);
+  END IF;
+
+  SELECT id INTO target_strain_id
+  FROM public.strains
+  WHERE user_id = current_user_id
+  AND lower(trim(name)) = lower(trim(strain_name_param));
+
+  IF target_strain_id IS NULL THEN
+    INSERT INTO public.strains (user_id, name)
+    VALUES (current_user_id, trim(strain_name_param))
+    RETURNING id INTO target_strain_id;
+  END IF;
+
+  target_batch_id := public.link_lab_result_batch(
+    current_user_id, lab_result_id_param, target_strain_id, batch_number_param
+  );
+
+  RETURN json_build_object('strain_id', target_strain_id, 'batch_id', target_batch_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.assign_lab_result_batch(UUID, TEXT, TEXT) TO authenticated;
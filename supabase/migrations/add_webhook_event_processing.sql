@@ -0,0 +1,107 @@
+-- Idempotent Stripe webhook processing
+-- Every delivery claims its event row before any handler runs. A Stripe event ID is stored once
+-- (unique), and moves processing -> processed | failed. Redeliveries of a processed or in-flight
+-- event are skipped, so handlers such as checkout.session.completed, which carries unused
+-- generations over and resets usage, run at most once per event. Failed and processed events are
+-- only claimed again by an admin replay; a Stripe retry of either is skipped.
+
+ALTER TABLE public.webhook_events
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'processed'
+  CHECK (status IN ('processing', 'processed', 'failed')),
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS last_error TEXT,
+ADD COLUMN IF NOT EXISTS payload JSONB, -- the full Stripe event, used for replays
+ADD COLUMN IF NOT EXISTS processing_started_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS processed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.webhook_events.status IS 'processing while a handler runs, then processed or failed';
+COMMENT ON COLUMN public.webhook_events.payload IS 'Full Stripe event as delivered; NULL for events logged before replay support';
+
+-- Rows logged before this migration were handled when they arrived (status defaults to processed).
+-- The invoice handlers used to add a second, summary row with the same event ID; keep the
+-- original event row.
+DELETE FROM public.webhook_events duplicate
+USING public.webhook_events original
+WHERE duplicate.stripe_event_id = original.stripe_event_id
+  AND (duplicate.created_at, duplicate.id) > (original.created_at, original.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS webhook_events_stripe_event_id_key
+  ON public.webhook_events(stripe_event_id);
+DROP INDEX IF EXISTS public.webhook_events_stripe_event_id_idx;
+
+CREATE INDEX IF NOT EXISTS webhook_events_status_idx
+  ON public.webhook_events(status, created_at DESC);
+
+-- Claims an event for processing. Returns 'claimed' when the caller should run the handler,
+-- otherwise the status that stopped it ('processed', 'failed' or 'processing').
+-- A claim older than 15 minutes outlived any edge function run, so its handler died part way; it
+-- is marked failed rather than re-run, since the handler may have applied some of its changes.
+-- replay_param: an admin replay, the only way to re-run failed or processed events
+CREATE OR REPLACE FUNCTION public.claim_webhook_event(
+  stripe_event_id_param TEXT,
+  event_type_param TEXT,
+  payload_param JSONB,
+  replay_param BOOLEAN DEFAULT false
+)
+RETURNS TEXT AS $$
+DECLARE
+  event_row public.webhook_events%ROWTYPE;
+BEGIN
+  INSERT INTO public.webhook_events (
+    event_type, type, stripe_event_id, data, payload, status, attempts,
+    processing_started_at, created_at, modified_at
+  ) VALUES (
+    event_type_param,
+    split_part(event_type_param, '.', 1),
+    stripe_event_id_param,
+    payload_param->'data'->'object',
+    payload_param,
+    'processing',
+    1,
+    NOW(),
+    COALESCE(to_timestamp((payload_param->>'created')::DOUBLE PRECISION), NOW()),
+    NOW()
+  )
+  ON CONFLICT (stripe_event_id) DO NOTHING;
+
+  IF FOUND THEN
+    RETURN 'claimed';
+  END IF;
+
+  SELECT * INTO event_row
+  FROM public.webhook_events
+  WHERE stripe_event_id = stripe_event_id_param
+  FOR UPDATE;
+
+  IF event_row.status = 'processing'
+    AND event_row.processing_started_at < NOW() - INTERVAL '15 minutes' THEN
+    UPDATE public.webhook_events
+    SET status = 'failed',
+        last_error = 'Handler did not finish within 15 minutes',
+        modified_at = NOW()
+    WHERE id = event_row.id;
+
+    event_row.status := 'failed';
+  END IF;
+
+  IF replay_param AND event_row.status IN ('failed', 'processed') THEN
+    UPDATE public.webhook_events
+    SET status = 'processing',
+        attempts = attempts + 1,
+        last_error = NULL,
+        payload = COALESCE(payload, payload_param),
+        processing_started_at = NOW(),
+        modified_at = NOW()
+    WHERE id = event_row.id;
+
+    RETURN 'claimed';
+  END IF;
+
+  RETURN event_row.status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION public.claim_webhook_event(TEXT, TEXT, JSONB, BOOLEAN) IS 'Records a Stripe event and claims it for at-most-once handling; returns claimed, processed, failed or processing';
+
+-- Only payments-webhook and admin-operations (service role) claim events
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_event(TEXT, TEXT, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
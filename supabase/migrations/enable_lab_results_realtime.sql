@@ -0,0 +1,16 @@
+-- Stream lab_results changes to the upload page (processing stages and final status)
+-- RLS still applies, so users only receive events for their own rows.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'lab_results'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.lab_results;
+  END IF;
+END
+$$;
+
+COMMENT ON COLUMN public.lab_results.status IS 'pending | processing | extracting | parsing | writing | completed | error';